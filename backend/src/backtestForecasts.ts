@@ -0,0 +1,56 @@
+import dotenv from 'dotenv';
+import { initializeDatabase, closeDatabase } from './database/connection';
+import { ForecastBacktester, BacktestMetrics } from './services/forecastBacktester';
+
+dotenv.config();
+
+/**
+ * Backtest score forecasts over stored score history and report their error.
+ *
+ *   npm run backtest-forecasts                    every address with backfilled history
+ *   npm run backtest-forecasts -- <address> ...   the given addresses
+ */
+async function main(): Promise<void> {
+  await initializeDatabase();
+  try {
+    const report = await ForecastBacktester.backtest(process.argv.slice(2));
+    if (!report.overall) {
+      console.log(`No forecast horizons to score across ${report.addresses.length} addresses; backfill their history first`);
+      return;
+    }
+
+    const row = (label: string, metrics: BacktestMetrics) => ({
+      group: label,
+      samples: metrics.sampleSize,
+      MAE: metrics.meanAbsoluteError,
+      RMSE: metrics.rootMeanSquaredError,
+      bias: metrics.meanError,
+      'coverage %': metrics.coverage
+    });
+
+    console.log(`${report.forecasts} forecasts over ${report.addresses.length} addresses`);
+    console.table([
+      row('overall', report.overall),
+      ...Object.entries(report.byHorizon)
+        .sort(([a], [b]) => parseInt(a, 10) - parseInt(b, 10))
+        .map(([horizon, metrics]) => row(`horizon ${horizon}`, metrics)),
+      ...Object.entries(report.byScoreRange)
+        .sort(([a], [b]) => parseInt(a, 10) - parseInt(b, 10))
+        .map(([range, metrics]) => row(`score ${range}`, metrics))
+    ]);
+
+    console.log('By forecasting model, champion or not:');
+    console.table(
+      Object.entries(report.byModel)
+        .sort(([, a], [, b]) => a.meanAbsoluteError - b.meanAbsoluteError)
+        .map(([model, metrics]) => row(model, metrics))
+    );
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -6,6 +6,20 @@ import path from 'path';
 const sqlite = sqlite3.verbose();
 
 let db: sqlite3.Database;
+let dbPath: string;
+
+// Transactions run on a connection of their own, one at a time
+let transactionDb: sqlite3.Database | undefined;
+let transactionQueue: Promise<void> = Promise.resolve();
+
+// How long a statement waits for another connection's write lock, in milliseconds
+const BUSY_TIMEOUT = 10000;
+
+export type TransactionRun = (sql: string, params?: any[]) => Promise<sqlite3.RunResult>;
+
+export function isDatabaseInitialized(): boolean {
+  return db !== undefined;
+}
 
 export function getDatabase(): sqlite3.Database {
   if (!db) {
@@ -16,8 +30,10 @@ export function getDatabase(): sqlite3.Database {
 
 export async function initializeDatabase(): Promise<void> {
   return new Promise((resolve, reject) => {
-    // Create database file in the backend directory
-    const dbPath = path.join(__dirname, '../../data/cryptoscore.db');
+    // Create database file in the backend directory, unless DATABASE_PATH names another
+    dbPath = process.env.DATABASE_PATH
+      ? path.resolve(process.env.DATABASE_PATH)
+      : path.join(__dirname, '../../data/cryptoscore.db');
     
     db = new sqlite.Database(dbPath, (err) => {
       if (err) {
@@ -26,6 +42,7 @@ export async function initializeDatabase(): Promise<void> {
         return;
       }
       
+      db.configure('busyTimeout', BUSY_TIMEOUT);
       console.log('Connected to SQLite database');
       
       // Create tables
@@ -41,24 +58,104 @@ async function createTables(): Promise<void> {
   
   try {
     // Create credit_scores table
+    // chain_id 0 holds scores aggregated across chains
     await runAsync(`
       CREATE TABLE IF NOT EXISTS credit_scores (
-        address TEXT PRIMARY KEY,
+        address TEXT NOT NULL,
+        chain_id INTEGER NOT NULL DEFAULT 1,
         score INTEGER NOT NULL,
         breakdown TEXT NOT NULL,
+        model_version TEXT NOT NULL DEFAULT 'v1',
         last_updated INTEGER NOT NULL,
-        created_at INTEGER NOT NULL
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (address, chain_id)
       )
     `);
+    await migrateCreditScoresChainId();
+    await addColumnIfMissing('credit_scores', 'model_version', "TEXT NOT NULL DEFAULT 'v1'");
+    await dropCreditScoreForeignKeys();
     
     // Create score_history table
     await runAsync(`
       CREATE TABLE IF NOT EXISTS score_history (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         address TEXT NOT NULL,
+        chain_id INTEGER NOT NULL DEFAULT 1,
         score INTEGER NOT NULL,
+        model_version TEXT NOT NULL DEFAULT 'v1',
+        timestamp INTEGER NOT NULL
+      )
+    `);
+    await addColumnIfMissing('score_history', 'chain_id', 'INTEGER NOT NULL DEFAULT 1');
+    await addColumnIfMissing('score_history', 'model_version', "TEXT NOT NULL DEFAULT 'v1'");
+
+    // Scores published to the on-chain ScoreRegistry, as Merkle roots or direct batches
+    await runAsync(`
+      CREATE TABLE IF NOT EXISTS score_publications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL, -- MERKLE_ROOT or BATCH
+        registry_address TEXT NOT NULL,
+        merkle_root TEXT, -- NULL for batches
+        score_count INTEGER NOT NULL,
+        tx_hash TEXT NOT NULL,
+        block_number INTEGER,
+        published_at INTEGER NOT NULL
+      )
+    `);
+
+    // Snapshot of the scores in each published Merkle root, so proofs keep
+    // matching the on-chain root after scores change
+    await runAsync(`
+      CREATE TABLE IF NOT EXISTS score_publication_leaves (
+        publication_id INTEGER NOT NULL,
+        address TEXT NOT NULL,
+        chain_id INTEGER NOT NULL,
+        score INTEGER NOT NULL,
+        model_version TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (publication_id, address, chain_id),
+        FOREIGN KEY (publication_id) REFERENCES score_publications(id)
+      )
+    `);
+
+    // Local transaction index, synced incrementally from the last indexed block
+    await runAsync(`
+      CREATE TABLE IF NOT EXISTS indexed_transactions (
+        address TEXT NOT NULL,
+        chain_id INTEGER NOT NULL DEFAULT 1,
+        hash TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
         timestamp INTEGER NOT NULL,
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        data TEXT NOT NULL, -- JSON TransactionData
+        indexed_at INTEGER NOT NULL,
+        PRIMARY KEY (address, chain_id, hash)
+      )
+    `);
+
+    await runAsync(`
+      CREATE TABLE IF NOT EXISTS transaction_sync_state (
+        address TEXT NOT NULL,
+        chain_id INTEGER NOT NULL DEFAULT 1,
+        last_block INTEGER NOT NULL,
+        last_synced_at INTEGER NOT NULL,
+        PRIMARY KEY (address, chain_id)
+      )
+    `);
+
+    await runAsync(`
+      CREATE INDEX IF NOT EXISTS idx_indexed_transactions_address_block 
+      ON indexed_transactions(address, chain_id, block_number)
+    `);
+
+    // Daily USD prices read from a remote price feed, so each day is only looked up once
+    await runAsync(`
+      CREATE TABLE IF NOT EXISTS daily_prices (
+        feed TEXT NOT NULL, -- price feed kind the price came from
+        asset TEXT NOT NULL,
+        day INTEGER NOT NULL, -- unix seconds at 00:00 UTC
+        price REAL NOT NULL, -- USD, at the start of the day
+        fetched_at INTEGER NOT NULL,
+        PRIMARY KEY (feed, asset, day)
       )
     `);
 
@@ -71,6 +168,7 @@ async function createTables(): Promise<void> {
         confidence INTEGER NOT NULL,
         timestamp INTEGER NOT NULL,
         version TEXT NOT NULL,
+        model_version TEXT, -- scoring model version, NULL for rows written before models were versioned
         
         -- Component scores
         volume_score INTEGER,
@@ -95,10 +193,11 @@ async function createTables(): Promise<void> {
         -- Metadata
         calculation_time_ms INTEGER,
         data_quality_score INTEGER,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        backfilled INTEGER NOT NULL DEFAULT 0 -- 1 for scores reconstructed from transaction history
       )
     `);
+    await addColumnIfMissing('enhanced_score_history', 'model_version', 'TEXT');
+    await addColumnIfMissing('enhanced_score_history', 'backfilled', 'INTEGER NOT NULL DEFAULT 0');
 
     // Create behavioral_patterns table for pattern tracking and analysis
     await runAsync(`
@@ -110,9 +209,16 @@ async function createTables(): Promise<void> {
         confidence REAL NOT NULL,
         first_detected INTEGER NOT NULL,
         last_updated INTEGER NOT NULL,
-        status TEXT DEFAULT 'ACTIVE',
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        status TEXT DEFAULT 'ACTIVE'
+      )
+    `);
+
+    // Create protocol_preference_analyses table caching the latest protocol preference analysis
+    await runAsync(`
+      CREATE TABLE IF NOT EXISTS protocol_preference_analyses (
+        address TEXT PRIMARY KEY,
+        analysis TEXT NOT NULL, -- JSON
+        analyzed_at INTEGER NOT NULL -- seconds
       )
     `);
 
@@ -132,12 +238,48 @@ async function createTables(): Promise<void> {
         status TEXT DEFAULT 'ACTIVE',
         progress INTEGER DEFAULT 0,
         completed_at INTEGER,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        source TEXT NOT NULL DEFAULT 'RISK_MITIGATION', -- RISK_MITIGATION or SCORE
+        details TEXT, -- JSON of the full recommendation
+        baseline TEXT, -- JSON of the metrics the recommendation was made against
+        updated_at INTEGER
+      )
+    `);
+    await addColumnIfMissing('recommendations', 'source', "TEXT NOT NULL DEFAULT 'RISK_MITIGATION'");
+    await addColumnIfMissing('recommendations', 'details', 'TEXT');
+    await addColumnIfMissing('recommendations', 'baseline', 'TEXT');
+    await addColumnIfMissing('recommendations', 'updated_at', 'INTEGER');
+
+    // Score change after a recommendation is done, against the impact it predicted
+    await runAsync(`
+      CREATE TABLE IF NOT EXISTS recommendation_outcomes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        address TEXT NOT NULL,
+        recommendation_id INTEGER NOT NULL, -- recommendations.id
+        recommendation_key TEXT NOT NULL,
+        predicted_impact REAL NOT NULL, -- points predicted when done, calibrated
+        base_predicted_impact REAL NOT NULL, -- points predicted before calibration
+        completed_at INTEGER NOT NULL,
+        score_at_completion INTEGER NOT NULL,
+        window_ends_at INTEGER NOT NULL,
+        score_after INTEGER,
+        actual_impact INTEGER, -- null until the window has passed
+        resolved_at INTEGER,
+        
+        FOREIGN KEY (recommendation_id) REFERENCES recommendations(id)
       )
     `);
+
+    await runAsync(`
+      CREATE INDEX IF NOT EXISTS idx_recommendation_outcomes_key 
+      ON recommendation_outcomes(recommendation_key, resolved_at)
+    `);
     
     // Create indexes for better query performance on existing tables
+    await runAsync(`
+      CREATE INDEX IF NOT EXISTS idx_score_history_address_chain 
+      ON score_history(address, chain_id)
+    `);
+
     await runAsync(`
       CREATE INDEX IF NOT EXISTS idx_score_history_address 
       ON score_history(address)
@@ -249,9 +391,7 @@ async function createTables(): Promise<void> {
         
         -- Metadata
         analysis_version TEXT DEFAULT '1.0',
-        processing_time_ms INTEGER,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        processing_time_ms INTEGER
       )
     `);
 
@@ -277,8 +417,6 @@ async function createTables(): Promise<void> {
         evidence TEXT,              -- JSON array of evidence strings
         
         detected_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address),
         FOREIGN KEY (detection_id) REFERENCES anomaly_detection_results(id)
       )
     `);
@@ -299,8 +437,6 @@ async function createTables(): Promise<void> {
         evidence TEXT,              -- JSON array of evidence strings
         
         detected_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address),
         FOREIGN KEY (detection_id) REFERENCES anomaly_detection_results(id)
       )
     `);
@@ -332,8 +468,6 @@ async function createTables(): Promise<void> {
         amount_pattern_consistency REAL,
         
         detected_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address),
         FOREIGN KEY (detection_id) REFERENCES anomaly_detection_results(id)
       )
     `);
@@ -358,8 +492,6 @@ async function createTables(): Promise<void> {
         coordination_window INTEGER,
         
         detected_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address),
         FOREIGN KEY (detection_id) REFERENCES anomaly_detection_results(id)
       )
     `);
@@ -435,13 +567,14 @@ async function createTables(): Promise<void> {
         -- Risk flags and recommendations (JSON)
         flags TEXT, -- JSON object
         recommendations TEXT, -- JSON array
+        risk_factors TEXT, -- JSON object of the full risk factors, for change detection
         
-        timestamp INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        timestamp INTEGER NOT NULL
       )
     `);
 
+    await addColumnIfMissing('risk_monitoring_history', 'risk_factors', 'TEXT');
+
     // Create risk_monitoring_alerts table for alert management
     await runAsync(`
       CREATE TABLE IF NOT EXISTS risk_monitoring_alerts (
@@ -462,9 +595,7 @@ async function createTables(): Promise<void> {
         
         timestamp INTEGER NOT NULL,
         acknowledged BOOLEAN DEFAULT FALSE,
-        acknowledged_at INTEGER,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        acknowledged_at INTEGER
       )
     `);
 
@@ -479,9 +610,7 @@ async function createTables(): Promise<void> {
         alert_severity TEXT NOT NULL, -- LOW, MEDIUM, HIGH, CRITICAL
         enabled BOOLEAN DEFAULT TRUE,
         last_triggered INTEGER,
-        created_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        created_at INTEGER NOT NULL
       )
     `);
 
@@ -583,9 +712,7 @@ async function createTables(): Promise<void> {
         
         -- Metadata
         analysis_version TEXT DEFAULT '1.0',
-        processing_time_ms INTEGER,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        processing_time_ms INTEGER
       )
     `);
 
@@ -608,8 +735,6 @@ async function createTables(): Promise<void> {
         threats TEXT,           -- JSON array
         
         created_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address),
         FOREIGN KEY (positioning_id) REFERENCES competitive_positioning_data(id)
       )
     `);
@@ -637,8 +762,6 @@ async function createTables(): Promise<void> {
         success_metrics TEXT,   -- JSON array
         
         created_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address),
         FOREIGN KEY (positioning_id) REFERENCES competitive_positioning_data(id)
       )
     `);
@@ -665,8 +788,6 @@ async function createTables(): Promise<void> {
         early_warning_signals TEXT, -- JSON array
         
         created_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address),
         FOREIGN KEY (positioning_id) REFERENCES competitive_positioning_data(id)
       )
     `);
@@ -695,8 +816,6 @@ async function createTables(): Promise<void> {
         status TEXT DEFAULT 'ACTIVE', -- ACTIVE, IN_PROGRESS, COMPLETED, CANCELLED
         progress INTEGER DEFAULT 0,
         completed_at INTEGER,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address),
         FOREIGN KEY (positioning_id) REFERENCES competitive_positioning_data(id)
       )
     `);
@@ -828,9 +947,7 @@ async function createTables(): Promise<void> {
         benchmark_timestamp INTEGER NOT NULL,
         last_updated INTEGER NOT NULL,
         update_frequency INTEGER NOT NULL, -- seconds
-        is_stale BOOLEAN DEFAULT FALSE,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        is_stale BOOLEAN DEFAULT FALSE
       )
     `);
 
@@ -851,6 +968,41 @@ async function createTables(): Promise<void> {
       )
     `);
 
+    // Durable background job queue; benchmark_update_jobs is superseded and its pending jobs moved here
+    await runAsync(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_type TEXT NOT NULL, -- BENCHMARK_UPDATE, SCORE_REFRESH, RISK_MONITORING, ...
+        payload TEXT NOT NULL, -- JSON object passed to the job type's handler
+        priority INTEGER NOT NULL DEFAULT 2, -- 3 HIGH, 2 MEDIUM, 1 LOW
+        status TEXT NOT NULL DEFAULT 'PENDING', -- PENDING, RUNNING, COMPLETED
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL,
+        run_at INTEGER NOT NULL, -- not claimed before, pushed back by retry backoff
+        lease_owner TEXT, -- worker running the job
+        lease_expires_at INTEGER, -- a running job whose lease expired is claimed again
+        last_error TEXT,
+        dedupe_key TEXT, -- at most one pending or running job per key
+        created_at INTEGER NOT NULL,
+        started_at INTEGER,
+        completed_at INTEGER
+      )
+    `);
+
+    await runAsync(`
+      CREATE TABLE IF NOT EXISTS dead_letter_jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_id INTEGER NOT NULL, -- id the job had in jobs
+        job_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        priority INTEGER NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_error TEXT,
+        created_at INTEGER NOT NULL,
+        failed_at INTEGER NOT NULL
+      )
+    `);
+
     await runAsync(`
       CREATE TABLE IF NOT EXISTS peer_group_snapshots (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -914,6 +1066,26 @@ async function createTables(): Promise<void> {
       ON benchmark_update_jobs(peer_group_id)
     `);
 
+    await runAsync(`
+      CREATE INDEX IF NOT EXISTS idx_jobs_claim 
+      ON jobs(status, priority DESC, run_at)
+    `);
+
+    await runAsync(`
+      CREATE INDEX IF NOT EXISTS idx_jobs_type_status 
+      ON jobs(job_type, status)
+    `);
+
+    await runAsync(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_dedupe_key 
+      ON jobs(dedupe_key) WHERE status IN ('PENDING', 'RUNNING')
+    `);
+
+    await runAsync(`
+      CREATE INDEX IF NOT EXISTS idx_dead_letter_jobs_failed_at 
+      ON dead_letter_jobs(failed_at DESC)
+    `);
+
     await runAsync(`
       CREATE INDEX IF NOT EXISTS idx_peer_group_snapshots_peer_group 
       ON peer_group_snapshots(peer_group_id)
@@ -952,10 +1124,10 @@ async function createTables(): Promise<void> {
         factors TEXT NOT NULL, -- JSON array
         prediction_data TEXT NOT NULL, -- JSON object with full prediction
         created_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        resolution_attempts INTEGER NOT NULL DEFAULT 0 -- failed attempts to rescore the address at the target date
       )
     `);
+    await addColumnIfMissing('predictions', 'resolution_attempts', 'INTEGER NOT NULL DEFAULT 0');
 
     // Create prediction_accuracy table for tracking prediction performance
     await runAsync(`
@@ -975,9 +1147,7 @@ async function createTables(): Promise<void> {
         was_within_interval BOOLEAN NOT NULL,
         methodology TEXT NOT NULL,
         factors TEXT NOT NULL, -- JSON array
-        created_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        created_at INTEGER NOT NULL
       )
     `);
 
@@ -1017,9 +1187,7 @@ async function createTables(): Promise<void> {
         uncertainty_factors TEXT NOT NULL, -- JSON array
         predicted_scores TEXT NOT NULL, -- JSON array
         last_updated INTEGER NOT NULL,
-        created_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        created_at INTEGER NOT NULL
       )
     `);
 
@@ -1036,9 +1204,7 @@ async function createTables(): Promise<void> {
         confidence INTEGER NOT NULL,
         prediction_horizon INTEGER NOT NULL,
         last_updated INTEGER NOT NULL,
-        created_at INTEGER NOT NULL,
-        
-        FOREIGN KEY (address) REFERENCES credit_scores(address)
+        created_at INTEGER NOT NULL
       )
     `);
 
@@ -1140,7 +1306,168 @@ async function createTables(): Promise<void> {
   }
 }
 
+async function getColumnNames(table: string): Promise<string[]> {
+  const allAsync = promisify(db.all.bind(db)) as (sql: string) => Promise<any[]>;
+  const columns = await allAsync(`PRAGMA table_info(${table})`);
+  return columns.map(column => column.name);
+}
+
+/**
+ * Add a column to a table created by an earlier version of the schema
+ */
+async function addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+  const runAsync = promisify(db.run.bind(db));
+
+  if (!(await getColumnNames(table)).includes(column)) {
+    await runAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added ${column} column to ${table}`);
+  }
+}
+
+/**
+ * credit_scores used to be keyed by address alone. SQLite cannot change a primary
+ * key in place, so the table is rebuilt with existing scores assigned to mainnet.
+ */
+async function migrateCreditScoresChainId(): Promise<void> {
+  const runAsync = promisify(db.run.bind(db));
+
+  if ((await getColumnNames('credit_scores')).includes('chain_id')) {
+    return;
+  }
+
+  await runAsync('BEGIN TRANSACTION');
+  try {
+    await runAsync(`
+      CREATE TABLE credit_scores_chain (
+        address TEXT NOT NULL,
+        chain_id INTEGER NOT NULL DEFAULT 1,
+        score INTEGER NOT NULL,
+        breakdown TEXT NOT NULL,
+        last_updated INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (address, chain_id)
+      )
+    `);
+    await runAsync(`
+      INSERT INTO credit_scores_chain (address, chain_id, score, breakdown, last_updated, created_at)
+      SELECT address, 1, score, breakdown, last_updated, created_at FROM credit_scores
+    `);
+    await runAsync('DROP TABLE credit_scores');
+    await runAsync('ALTER TABLE credit_scores_chain RENAME TO credit_scores');
+    await runAsync('COMMIT');
+    console.log('Migrated credit_scores to per-chain scores');
+  } catch (error) {
+    await runAsync('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Tables keyed by address used to declare a foreign key on credit_scores(address), which stopped
+ * being a unique key once credit_scores was keyed by address and chain. SQLite cannot drop a
+ * constraint in place, so tables created with one are rebuilt without it, before their indexes
+ * are created again below.
+ */
+async function dropCreditScoreForeignKeys(): Promise<void> {
+  const runAsync = promisify(db.run.bind(db));
+  const allAsync = promisify(db.all.bind(db)) as (sql: string) => Promise<any[]>;
+  const foreignKey = /,(\s*--[^\n]*)?\s*FOREIGN KEY \(address\) REFERENCES credit_scores\(address\)/g;
+
+  const tables = await allAsync(`
+    SELECT name, sql FROM sqlite_master
+    WHERE type = 'table' AND sql LIKE '%REFERENCES credit_scores(address)%'
+  `);
+
+  for (const table of tables) {
+    const rebuilt = `${table.name}_rebuilt`;
+    const definition = (table.sql as string)
+      .replace(foreignKey, '$1')
+      .replace(/^CREATE TABLE\s+("?)\w+\1/, `CREATE TABLE ${rebuilt}`);
+
+    await runAsync('BEGIN TRANSACTION');
+    try {
+      await runAsync(definition);
+      await runAsync(`INSERT INTO ${rebuilt} SELECT * FROM ${table.name}`);
+      await runAsync(`DROP TABLE ${table.name}`);
+      await runAsync(`ALTER TABLE ${rebuilt} RENAME TO ${table.name}`);
+      await runAsync('COMMIT');
+      console.log(`Dropped the credit_scores foreign key from ${table.name}`);
+    } catch (error) {
+      await runAsync('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+/**
+ * Run work inside a transaction. Transactions are queued and run one at a time on a
+ * connection of their own, so overlapping callers never nest BEGINs, and statements other
+ * callers run on the shared connection are never committed or rolled back with them.
+ * The work must only write through the given run function, and must not start another
+ * transaction, which would wait on this one forever.
+ */
+export async function withTransaction<T>(work: (run: TransactionRun) => Promise<T>): Promise<T> {
+  const previous = transactionQueue;
+  let release!: () => void;
+  transactionQueue = new Promise<void>(resolve => { release = resolve; });
+  await previous;
+
+  try {
+    const connection = await getTransactionDatabase();
+    const run: TransactionRun = (sql, params = []) => new Promise((resolve, reject) => {
+      connection.run(sql, params, function(err) {
+        if (err) reject(err);
+        else resolve(this);
+      });
+    });
+
+    // IMMEDIATE takes the write lock up front, waiting out writes on the shared connection
+    await run('BEGIN IMMEDIATE TRANSACTION');
+    try {
+      const result = await work(run);
+      await run('COMMIT');
+      return result;
+    } catch (error) {
+      // SQLite rolls some failed statements back by itself, leaving nothing to roll back
+      await run('ROLLBACK').catch(() => undefined);
+      throw error;
+    }
+  } finally {
+    release();
+  }
+}
+
+async function getTransactionDatabase(): Promise<sqlite3.Database> {
+  if (transactionDb) {
+    return transactionDb;
+  }
+  if (!dbPath) {
+    throw new Error('Database not initialized. Call initializeDatabase() first.');
+  }
+
+  transactionDb = await new Promise<sqlite3.Database>((resolve, reject) => {
+    const connection = new sqlite.Database(dbPath, (err) => {
+      if (err) reject(err);
+      else resolve(connection);
+    });
+  });
+  transactionDb.configure('busyTimeout', BUSY_TIMEOUT);
+  return transactionDb;
+}
+
 export async function closeDatabase(): Promise<void> {
+  if (transactionDb) {
+    const connection = transactionDb;
+    transactionDb = undefined;
+    await new Promise<void>((resolve, reject) => {
+      connection.close((err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+
   return new Promise((resolve, reject) => {
     if (db) {
       db.close((err) => {
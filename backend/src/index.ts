@@ -3,14 +3,37 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import { ethers } from 'ethers';
 import { initializeDatabase } from './database/connection';
-import { errorHandler } from './middleware/errorHandler';
-import { blockchainService } from './services/blockchainService';
+import { errorHandler, CustomError } from './middleware/errorHandler';
+import { requireAdminToken } from './middleware/adminAuth';
+import { blockchainService, getBlockchainService, UserMetrics } from './services/blockchainService';
+import { ChainRegistry, AGGREGATE_CHAIN_ID, MAINNET_CHAIN_ID } from './services/chainRegistry';
+import { CrossChainAggregator, AGGREGATION_RULES } from './services/crossChainAggregator';
 import { scoreCalculator } from './services/scoreCalculator';
+import { ScoringModelRegistry } from './services/scoringModels';
+import { ScoreSimulator } from './services/scoreSimulator';
+import { ScoreExplainer, REFERENCE_WALLETS } from './services/scoreExplainer';
+import { AttestationService } from './services/attestationService';
+import { verifyScoreAttestation } from './services/attestationVerifier';
+import { ScorePublisher } from './services/scorePublisher';
+import { ScoreMerkleTree } from './services/scoreMerkleTree';
 import { databaseService } from './services/databaseService';
 import { BenchmarkingEngine } from './services/benchmarkingEngine';
 import { CompetitivePositioningEngine } from './services/competitivePositioningEngine';
 import { RealTimeBenchmarkingEngine } from './services/realTimeBenchmarkingEngine';
 import { PredictiveAnalyticsEngine } from './services/predictiveAnalyticsEngine';
+import { PredictionResolutionService } from './services/predictionResolutionService';
+import { AnomalyDetectionEngine, AnomalyDetectorType, ANOMALY_DETECTOR_TYPES } from './services/anomalyDetectionEngine';
+import { RiskMonitoringService, RISK_THRESHOLD_FACTORS } from './services/riskMonitoringService';
+import { RiskMitigationService } from './services/riskMitigationService';
+import { BehavioralPatternService } from './services/behavioralPatternService';
+import { ProtocolPreferenceEngine, ProtocolPreferenceSection, PROTOCOL_PREFERENCE_SECTIONS } from './services/protocolPreferenceEngine';
+import { GrowthTrendAnalysisEngine, GrowthPeriodGranularity, GROWTH_PERIOD_DAYS } from './services/growthTrendAnalysisEngine';
+import { RecommendationTrackingService, RecommendationStatus, RECOMMENDATION_STATUSES } from './services/recommendationTrackingService';
+import { RecommendationOutcomeService } from './services/recommendationOutcomeService';
+import { ScoreBackfillService, BackfillInterval, BACKFILL_INTERVALS } from './services/scoreBackfillService';
+import { ForecastCalibrationService } from './services/forecastCalibrationService';
+import { JobQueue } from './services/jobQueue';
+import { ScoreRefreshService } from './services/scoreRefreshService';
 
 // Load environment variables
 dotenv.config();
@@ -41,7 +64,18 @@ app.get('/api', (req, res) => {
       score: '/api/score/:address',
       batch: '/api/score/batch',
       history: '/api/score/:address/history',
+      'score-at': '/api/score/:address/at/:blockOrDate',
+      backfill: '/api/score/:address/backfill',
       refresh: '/api/score/:address/refresh',
+      'score-under-model': '/api/score/:address/models/:version',
+      simulate: '/api/score/:address/simulate',
+      explain: '/api/score/:address/explain',
+      attestation: '/api/score/:address/attestation',
+      'attestation-verify': '/api/attestation/verify',
+      'attestation-signer': '/api/attestation/signer',
+      'score-proof': '/api/score/:address/proof',
+      registry: '/api/registry',
+      'scoring-models': '/api/scoring-models',
       benchmarking: '/api/benchmarking/:address',
       'competitive-positioning': '/api/competitive-positioning/:address',
       'market-position': '/api/market-position/:address',
@@ -50,10 +84,31 @@ app.get('/api', (req, res) => {
       'benchmark-update': '/api/benchmark-update/:address',
       'benchmark-stats': '/api/benchmark-stats',
       'benchmark-config': '/api/benchmark-config',
+      anomalies: '/api/anomalies/:address',
+      'anomaly-history': '/api/anomalies/:address/history',
+      behavior: '/api/behavior/:address',
+      'behavior-history': '/api/behavior/:address/history',
+      'growth-trend': '/api/growth-trend/:address',
+      'protocol-preferences': '/api/protocol-preferences/:address',
+      recommendations: '/api/recommendations/:address',
+      'recommendation-outcomes': '/api/recommendations/:address/outcomes',
+      'recommendation-calibration': '/api/recommendation-calibration',
+      'risk-report': '/api/risk/:address/report',
+      'risk-trend': '/api/risk/:address/trend',
+      'risk-alerts': '/api/risk/:address/alerts',
+      'risk-thresholds': '/api/risk/:address/thresholds',
+      'risk-mitigation': '/api/risk/:address/mitigation',
       'score-forecast': '/api/score-forecast/:address',
       'behavioral-prediction': '/api/behavioral-prediction/:address',
       'prediction-accuracy': '/api/prediction-accuracy/:predictionId',
-      'model-performance': '/api/model-performance'
+      'resolve-predictions': '/api/predictions/resolve',
+      'model-performance': '/api/model-performance',
+      'forecasting-models': '/api/forecasting-models',
+      'forecast-calibration': '/api/forecast-calibration',
+      'admin-jobs': '/api/admin/jobs',
+      'admin-dead-letter-jobs': '/api/admin/jobs/dead-letter',
+      'admin-retry-job': '/api/admin/jobs/:id/retry',
+      'admin-retry-dead-letter-job': '/api/admin/jobs/dead-letter/:id/retry'
     }
   });
 });
@@ -69,7 +124,8 @@ app.get('/api/docs', (req, res) => {
       description: 'Integrate CryptoScore into your DeFi application with our simple REST API.',
       authentication: {
         required: false,
-        note: 'No authentication is required for the current MVP. All credit scores are publicly accessible.'
+        note: 'No authentication is required for the current MVP. All credit scores are publicly accessible.',
+        admin: 'The /api/admin routes require the ADMIN_API_TOKEN set on the server, sent as Authorization: Bearer <token>'
       },
       rateLimiting: {
         limit: '100 requests per minute per IP',
@@ -88,13 +144,16 @@ app.get('/api/docs', (req, res) => {
           parameters: {
             address: 'Ethereum address (required)',
             includeForecast: 'Include score forecast and trend prediction (optional, true/false)',
-            includeBehavioralPrediction: 'Include behavioral trend prediction (optional, true/false)'
+            includeBehavioralPrediction: 'Include behavioral trend prediction (optional, true/false)',
+            includeAnomalies: 'Run anomaly detection when no recent result is stored; the latest result is always attached as anomalyFlag (optional, true/false)',
+            chains: 'Comma separated chain ids or names (ethereum, arbitrum, optimism, base, polygon) to score per chain and as one aggregated cross-chain score (optional)'
           },
           example: {
             request: 'GET /api/score/0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
             response: {
               address: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
               score: 750,
+              modelVersion: 'v1',
               timestamp: 1699123456,
               breakdown: {
                 transactionVolume: 225,
@@ -138,17 +197,303 @@ app.get('/api/docs', (req, res) => {
             limit: 'Number of records to return (optional, max 1000, default 100)'
           }
         },
+        {
+          method: 'GET',
+          path: '/api/score/:address/at/:blockOrDate',
+          description: 'Reconstruct the credit score an address had at a past block or date by replaying its transaction history up to then. Balances read from contracts, token transfers and lending positions are not replayed.',
+          parameters: {
+            address: 'Ethereum address (required)',
+            blockOrDate: 'Block number, or ISO 8601 date such as 2024-03-31 (required)'
+          }
+        },
+        {
+          method: 'POST',
+          path: '/api/score/:address/backfill',
+          description: 'Write reconstructed scores at checkpoints since the first transaction to the enhanced score history used for forecasting, flagged as backfilled. Checkpoints already backfilled are rewritten when their replayed score changed.',
+          requestBody: {
+            interval: 'monthly or weekly (optional, default monthly)',
+            blockInterval: 'Checkpoint every this many blocks instead (optional)'
+          }
+        },
         {
           method: 'POST',
           path: '/api/score/:address/refresh',
           description: 'Force recalculation of credit score with latest blockchain data',
+          parameters: {
+            address: 'Ethereum address (required)',
+            async: 'Queue the recalculation as a background job and return its id (optional, true)'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/scoring-models',
+          description: 'List the scoring model versions, their weights and parameters, and the active version'
+        },
+        {
+          method: 'GET',
+          path: '/api/score/:address/models/:version',
+          description: 'Score an address under a specific scoring model version and compare it with the active model. The result is not saved.',
+          parameters: {
+            address: 'Ethereum address (required)',
+            version: 'Scoring model version, e.g. v1 (required)'
+          }
+        },
+        {
+          method: 'POST',
+          path: '/api/score/:address/simulate',
+          description: 'Recalculate the score with hypothetical changes to the address metrics and compare it with the current score. The result is not saved.',
+          parameters: {
+            address: 'Ethereum address (required)'
+          },
+          requestBody: {
+            additionalVolume: 'ETH of added transaction volume, negative to remove (optional)',
+            additionalStaking: 'ETH added to the staking balance, negative to unstake (optional)',
+            additionalProtocols: 'Number of new DeFi protocols, or their names, at most 50 (optional)',
+            additionalTransactions: 'Number of added transactions, at most 1000000 (optional)',
+            elapsedDays: 'Days the account ages, at most 3650 (optional)'
+          },
+          example: {
+            request: 'POST /api/score/0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6/simulate { "additionalStaking": 10, "additionalProtocols": 2 }'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/score/:address/explain',
+          description: 'Explain the score as the signed point contribution of each metric versus a reference wallet (exact Shapley values). Contributions sum to the difference between the two scores.',
+          parameters: {
+            address: 'Ethereum address (required)',
+            reference: 'Reference wallet: typical (default) or empty (optional)'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/score/:address/attestation',
+          description: 'Get the score as EIP-712 typed data signed by the CryptoScore signer, so it can be verified offline or on-chain until it expires',
           parameters: {
             address: 'Ethereum address (required)'
           }
+        },
+        {
+          method: 'POST',
+          path: '/api/attestation/verify',
+          description: 'Verify a signed score attestation against the server domain: the signature, the signer and the expiry',
+          requestBody: {
+            message: 'The attestation message { address, score, confidence, modelVersion, timestamp, expiry }',
+            signature: 'The EIP-712 signature',
+            domain: 'The EIP-712 domain the attestation carries (optional), rejected unless it matches the server domain'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/attestation/signer',
+          description: 'Get the attestation signer address and EIP-712 domain to pin when verifying offline'
+        },
+        {
+          method: 'GET',
+          path: '/api/score/:address/proof',
+          description: 'Get the Merkle proof of the score in the latest root published to the ScoreRegistry contract, to pass to its verifyScore function',
+          parameters: {
+            address: 'Ethereum address (required)',
+            chainId: 'Chain the score was calculated on, or 0 for the cross-chain score (optional, defaults to 1)'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/registry',
+          description: 'Get the ScoreRegistry contract address and the latest Merkle root and batch published to it'
+        },
+        {
+          method: 'GET',
+          path: '/api/anomalies/:address',
+          description: 'Run anomaly detection (statistical outliers, wash trading, bot behavior, coordinated activity) and store the result. A run of only some detectors is not stored and has a null detectionId.',
+          parameters: {
+            address: 'Ethereum address (required)',
+            detectors: 'Comma separated detectors to run: statistical, wash_trading, bot, coordination (optional, defaults to all; unknown names are rejected)'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/anomalies/:address/history',
+          description: 'Get stored anomaly detection results, newest first',
+          parameters: {
+            address: 'Ethereum address (required)',
+            limit: 'Number of results (optional, default 20, max 100)',
+            detectors: 'Only results where one of these detectors found something: statistical, wash_trading, bot, coordination (optional; unknown names are rejected)'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/behavior/:address',
+          description: 'Analyze behavioral patterns (activity, archetype, sophistication, seasonality, gas efficiency) from the stored transaction history and report changes since the previous analysis'
+        },
+        {
+          method: 'GET',
+          path: '/api/behavior/:address/history',
+          description: 'Get recorded behavioral periods, oldest first, and the archetype, sophistication, activity, growth and diversification transitions between them',
+          parameters: {
+            limit: 'Number of periods (optional, default 20, max 100)'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/growth-trend/:address',
+          description: 'Analyze the growth trend over fixed periods, with per-period metrics and the consistency and diversification of the same range',
+          parameters: {
+            granularity: 'Period length: weekly, monthly (default) or quarterly',
+            from: 'Range start, unix seconds or ISO date (optional, default first transaction)',
+            to: 'Range end, exclusive, unix seconds or ISO date (optional, default after last transaction)'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/protocol-preferences/:address',
+          description: 'Analyze protocol preferences, diversification, gas optimization (with estimated ETH savings), timing windows and sophistication progression. Cached for an hour.',
+          parameters: {
+            sections: 'Comma-separated sections to return: preferences, diversification, gas, timing, sophistication, insights, recommendations (optional, default all)',
+            refresh: 'Re-run the analysis instead of serving the cached one (optional, true)'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/recommendations/:address',
+          description: 'Regenerate personalized recommendations and return the tracked ones with their status and progress. Open recommendations move to in_progress with new on-chain activity and to done once their condition no longer holds.',
+          parameters: {
+            status: 'Comma-separated statuses to return: open, in_progress, done, dismissed (optional, default all)'
+          }
+        },
+        {
+          method: 'POST',
+          path: '/api/recommendations/:address/:key/status',
+          description: 'Set the status of a tracked recommendation, e.g. to start, dismiss or reopen it',
+          requestBody: {
+            status: 'open, in_progress, done or dismissed'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/recommendations/:address/outcomes',
+          description: 'Get the measured outcomes of done recommendations: the score change over the 30 days after each was done, against its predicted impact'
+        },
+        {
+          method: 'GET',
+          path: '/api/recommendation-calibration',
+          description: 'Get the prediction error and impact calibration factor of each recommendation type, from resolved outcomes. Factors scale the impact predicted for future recommendations and their ranking.'
+        },
+        {
+          method: 'GET',
+          path: '/api/forecast-calibration',
+          description: 'Check score forecast prediction intervals: how often the 80% and 95% intervals stated with resolved predictions contained the actual score, overall, per forecasting model and per horizon, and the residual quantiles intervals are calibrated from now'
+        },
+        {
+          method: 'GET',
+          path: '/api/admin/jobs',
+          description: 'Inspect the background job queue: job counts per type and status, the worker state, and the most recently created jobs',
+          parameters: {
+            status: 'PENDING, RUNNING or COMPLETED (optional)',
+            type: 'Job type, e.g. BENCHMARK_UPDATE, SCORE_REFRESH, RISK_MONITORING or PREDICTION_RESOLUTION (optional)',
+            limit: 'Number of jobs (optional, default 50, max 200)'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/admin/jobs/dead-letter',
+          description: 'List jobs that used up their attempts, most recently failed first',
+          parameters: {
+            limit: 'Number of jobs (optional, default 50, max 200)'
+          }
+        },
+        {
+          method: 'POST',
+          path: '/api/admin/jobs/:id/retry',
+          description: 'Run a pending job now instead of waiting out its retry backoff'
+        },
+        {
+          method: 'POST',
+          path: '/api/admin/jobs/dead-letter/:id/retry',
+          description: 'Queue a dead-lettered job again with fresh attempts'
+        },
+        {
+          method: 'GET',
+          path: '/api/risk/:address/report',
+          description: 'Generate the comprehensive risk report: risk assessment, anomaly detection, mitigation recommendations, trend and open alerts. The assessment is recorded for monitoring, raising alerts for changes and breached thresholds.'
+        },
+        {
+          method: 'GET',
+          path: '/api/risk/:address/trend',
+          description: 'Get the risk trend from recorded assessments',
+          parameters: {
+            timeframe: 'DAILY (7 days), WEEKLY (30 days, default) or MONTHLY (90 days)'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/risk/:address/alerts',
+          description: 'List risk monitoring alerts, newest first',
+          parameters: {
+            acknowledged: 'Filter by acknowledgement (optional, true/false)',
+            limit: 'Number of alerts (optional, default 50, max 100)'
+          }
+        },
+        {
+          method: 'POST',
+          path: '/api/risk/:address/alerts/:alertId/acknowledge',
+          description: 'Acknowledge a risk alert'
+        },
+        {
+          method: 'GET, POST, PUT, DELETE',
+          path: '/api/risk/:address/thresholds[/:thresholdId]',
+          description: 'Manage per-address risk thresholds that raise alerts when breached',
+          requestBody: {
+            riskFactor: 'overall or a risk factor: concentrationRisk, volatilityRisk, inactivityRisk, newAccountRisk, anomalyRisk, liquidityRisk',
+            thresholdType: 'SCORE (risk score reached), LEVEL (1 LOW to 4 CRITICAL reached) or CHANGE_RATE (risk score rose by)',
+            thresholdValue: 'Threshold value',
+            alertSeverity: 'LOW, MEDIUM, HIGH or CRITICAL',
+            enabled: 'Whether the threshold is checked (optional, default true)'
+          }
+        },
+        {
+          method: 'GET',
+          path: '/api/risk/:address/mitigation',
+          description: 'Get the progress of mitigation recommendations tracked from risk reports'
+        },
+        {
+          method: 'POST',
+          path: '/api/risk/:address/mitigation/:recommendationId/progress',
+          description: 'Update the progress of a mitigation recommendation',
+          requestBody: {
+            progress: 'Progress from 0 to 100',
+            milestone: 'Completed milestone (optional)'
+          }
         }
       ],
       errorCodes: {
         INVALID_ADDRESS: 'Malformed Ethereum address',
+        UNKNOWN_MODEL: 'Scoring model version is not defined',
+        INVALID_SIMULATION: 'Malformed simulation deltas',
+        UNKNOWN_REFERENCE: 'Reference wallet is not defined',
+        ATTESTATION_UNAVAILABLE: 'No attestation signing key is configured',
+        INVALID_ATTESTATION: 'Malformed attestation',
+        REGISTRY_UNAVAILABLE: 'No score registry contract is configured',
+        SCORE_NOT_PUBLISHED: 'No published Merkle root includes the score',
+        INVALID_DETECTOR: 'Unknown anomaly detector',
+        INVALID_TIMEFRAME: 'Unknown risk trend timeframe',
+        INVALID_SECTION: 'Unknown protocol preference section',
+        INVALID_GRANULARITY: 'Unknown growth trend period granularity',
+        INVALID_DATE_RANGE: 'Malformed or empty date range',
+        INVALID_BLOCK_OR_DATE: 'Malformed, future or pre-genesis block or date',
+        INVALID_INTERVAL: 'Unknown backfill interval',
+        HISTORY_NOT_INDEXED: 'Transaction history is not indexed up to the requested point yet',
+        INVALID_THRESHOLD: 'Malformed risk threshold',
+        INVALID_PROGRESS: 'Progress is not between 0 and 100',
+        INVALID_STATUS: 'Unknown recommendation status',
+        ALERT_NOT_FOUND: 'No such risk alert for the address',
+        THRESHOLD_NOT_FOUND: 'No such risk threshold for the address',
+        RECOMMENDATION_NOT_FOUND: 'No such tracked recommendation for the address',
+        INVALID_JOB_STATUS: 'Unknown job status',
+        JOB_NOT_FOUND: 'No such pending or dead-lettered job',
+        ADMIN_UNAVAILABLE: 'No admin API token is configured',
+        UNAUTHORIZED: 'No admin token was sent',
+        FORBIDDEN: 'The admin token is invalid',
         INSUFFICIENT_DATA: 'Not enough transaction history',
         RATE_LIMITED: 'Too many requests',
         BLOCKCHAIN_ERROR: 'RPC provider issues',
@@ -199,11 +544,158 @@ app.get('/api/score/:address', async (req, res) => {
         message: 'Invalid Ethereum address format'
       });
     }
+
+    // Anomalies flag the score rather than lower it. The latest stored detection is
+    // attached; includeAnomalies=true runs detection first when it is missing or stale.
+    let anomalyFlag = null;
+    let anomalyError: string | undefined;
+    try {
+      let anomalyResult = await databaseService.getLatestAnomalyDetectionResult(address);
+      const anomalyFresh = anomalyResult &&
+        databaseService.isCacheFresh({ lastUpdated: Math.floor(anomalyResult.timestamp / 1000) } as any);
+      if (req.query.includeAnomalies === 'true' && !anomalyFresh) {
+        const transactions = await blockchainService.fetchTransactionHistory(address);
+        const detection = await AnomalyDetectionEngine.detectAnomalies(
+          address,
+          await blockchainService.getUserMetrics(address),
+          transactions
+        );
+        anomalyResult = { id: await databaseService.saveAnomalyDetectionResult(detection), ...detection };
+      }
+      anomalyFlag = anomalyResult ? AnomalyDetectionEngine.summarize(anomalyResult) : null;
+    } catch (detectionError) {
+      console.error('Error getting anomaly flag:', detectionError);
+      anomalyError = 'Failed to get anomaly detection result';
+    }
+
+    // Cached scores are used while fresh. Scores from a different model version are recalculated.
+    const getFreshCachedScore = async (chainId: number) => {
+      const cached = await databaseService.getCachedScore(address, chainId);
+      return cached && databaseService.isCacheFresh(cached) && cached.modelVersion === ScoringModelRegistry.getActiveVersion()
+        ? cached
+        : null;
+    };
+
+    // Multi-chain scoring: score each requested chain, then the merged cross-chain metrics
+    if (typeof req.query.chains === 'string') {
+      let chainIds: number[];
+      try {
+        chainIds = ChainRegistry.parseChains(req.query.chains);
+      } catch (chainError) {
+        return res.status(400).json({
+          success: false,
+          error: 'INVALID_CHAIN',
+          message: chainError instanceof Error ? chainError.message : 'Invalid chains parameter',
+          supportedChains: ChainRegistry.getSupportedChains().map(chain => ({ chainId: chain.chainId, key: chain.key }))
+        });
+      }
+
+      const chainMetrics: UserMetrics[] = [];
+      const chainResults = [];
+
+      for (const chainId of chainIds) {
+        const chain = ChainRegistry.getChain(chainId)!;
+        try {
+          const metrics = await getBlockchainService(chainId).getUserMetrics(address);
+          chainMetrics.push(metrics);
+
+          const validation = scoreCalculator.validateMetricsForScoring(metrics);
+          if (!validation.isValid) {
+            chainResults.push({ chainId, chain: chain.name, error: 'INSUFFICIENT_DATA', details: validation.reasons });
+            continue;
+          }
+
+          const cachedChainScore = await getFreshCachedScore(chainId);
+          if (cachedChainScore) {
+            chainResults.push({
+              chainId,
+              chain: chain.name,
+              score: cachedChainScore.score,
+              confidence: scoreCalculator.calculateCreditScore(address, metrics).confidence,
+              modelVersion: cachedChainScore.modelVersion,
+              breakdown: cachedChainScore.breakdown,
+              totalTransactions: metrics.totalTransactions,
+              totalVolume: metrics.totalVolume,
+              cached: true
+            });
+            continue;
+          }
+
+          const chainScore = scoreCalculator.calculateCreditScore(address, metrics);
+          await databaseService.saveScore(chainScore);
+          chainResults.push({
+            chainId,
+            chain: chain.name,
+            score: chainScore.score,
+            confidence: chainScore.confidence,
+            modelVersion: chainScore.modelVersion,
+            breakdown: chainScore.breakdown,
+            totalTransactions: metrics.totalTransactions,
+            totalVolume: metrics.totalVolume,
+            cached: false
+          });
+        } catch (chainError) {
+          console.error(`Error scoring ${address} on chain ${chainId}:`, chainError);
+          chainResults.push({
+            chainId,
+            chain: chain.name,
+            error: 'CHAIN_UNAVAILABLE',
+            details: chainError instanceof Error ? chainError.message : 'Unknown error'
+          });
+        }
+      }
+
+      if (chainMetrics.length === 0) {
+        return res.status(502).json({
+          success: false,
+          error: 'CHAIN_UNAVAILABLE',
+          message: 'Failed to fetch metrics from any requested chain',
+          chains: chainResults
+        });
+      }
+
+      const aggregatedMetrics = CrossChainAggregator.aggregate(chainMetrics);
+      const validation = scoreCalculator.validateMetricsForScoring(aggregatedMetrics);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          error: 'INSUFFICIENT_DATA',
+          message: 'Insufficient data for credit scoring',
+          details: validation.reasons,
+          chains: chainResults
+        });
+      }
+
+      const creditScore = scoreCalculator.calculateCreditScore(address, aggregatedMetrics);
+      const detailedBreakdown = scoreCalculator.generateScoreBreakdown(address, aggregatedMetrics);
+      await databaseService.saveScore(creditScore);
+
+      return res.json({
+        success: true,
+        data: {
+          address: creditScore.address,
+          chainId: AGGREGATE_CHAIN_ID,
+          score: creditScore.score,
+          confidence: creditScore.confidence,
+          modelVersion: creditScore.modelVersion,
+          breakdown: detailedBreakdown,
+          riskAssessment: detailedBreakdown.riskAssessment,
+          behavioralInsights: detailedBreakdown.behavioralInsights,
+          recommendations: detailedBreakdown.recommendations,
+          timestamp: creditScore.timestamp,
+          cached: false,
+          chains: chainResults,
+          aggregationRules: AGGREGATION_RULES,
+          anomalyFlag,
+          ...(anomalyError && { anomalyError })
+        }
+      });
+    }
     
     // Check for cached score first
-    const cachedScore = await databaseService.getCachedScore(address);
+    const cachedScore = await getFreshCachedScore(MAINNET_CHAIN_ID);
     
-    if (cachedScore && databaseService.isCacheFresh(cachedScore)) {
+    if (cachedScore) {
       // For cached scores, we still need to generate detailed breakdown
       // since the database only stores basic breakdown
       const metrics = await blockchainService.getUserMetrics(address);
@@ -218,12 +710,15 @@ app.get('/api/score/:address', async (req, res) => {
         address: cachedScore.address,
         score: cachedScore.score,
         confidence: creditScore.confidence, // Use calculated confidence instead of hardcoded value
+        modelVersion: cachedScore.modelVersion,
         breakdown: detailedBreakdown,
         riskAssessment: detailedBreakdown.riskAssessment,
         behavioralInsights: detailedBreakdown.behavioralInsights,
         recommendations: detailedBreakdown.recommendations,
         timestamp: cachedScore.lastUpdated,
-        cached: true
+        cached: true,
+        anomalyFlag,
+        ...(anomalyError && { anomalyError })
       };
       
       // Add forecasting data if requested (even for cached scores)
@@ -246,6 +741,7 @@ app.get('/api/score/:address', async (req, res) => {
             );
             
             await databaseService.saveScoreForecast(forecast);
+            await PredictionResolutionService.recordForecast(forecast);
             responseData.forecast = forecast;
           }
         } catch (forecastError) {
@@ -321,12 +817,15 @@ app.get('/api/score/:address', async (req, res) => {
       address: creditScore.address,
       score: creditScore.score,
       confidence: creditScore.confidence,
+      modelVersion: creditScore.modelVersion,
       breakdown: detailedBreakdown,
       riskAssessment: detailedBreakdown.riskAssessment,
       behavioralInsights: detailedBreakdown.behavioralInsights,
       recommendations: detailedBreakdown.recommendations,
       timestamp: creditScore.timestamp,
-      cached: false
+      cached: false,
+      anomalyFlag,
+      ...(anomalyError && { anomalyError })
     };
     
     // Add forecasting data if requested
@@ -342,6 +841,7 @@ app.get('/api/score/:address', async (req, res) => {
         
         // Save forecast to database
         await databaseService.saveScoreForecast(forecast);
+        await PredictionResolutionService.recordForecast(forecast);
         
         responseData.forecast = forecast;
       } catch (forecastError) {
@@ -427,10 +927,11 @@ app.post('/api/score/batch', async (req, res) => {
     const cachedAddresses = new Set();
     
     for (const cached of cachedScores) {
-      if (databaseService.isCacheFresh(cached)) {
+      if (databaseService.isCacheFresh(cached) && cached.modelVersion === ScoringModelRegistry.getActiveVersion()) {
         results.push({
           address: cached.address,
           score: cached.score,
+          modelVersion: cached.modelVersion,
           breakdown: cached.breakdown,
           timestamp: cached.lastUpdated,
           cached: true,
@@ -469,6 +970,7 @@ app.post('/api/score/batch', async (req, res) => {
         results.push({
           address: creditScore.address,
           score: creditScore.score,
+          modelVersion: creditScore.modelVersion,
           breakdown: creditScore.breakdown,
           timestamp: creditScore.timestamp,
           cached: false,
@@ -542,6 +1044,7 @@ app.get('/api/score/:address/history', async (req, res) => {
         total: history.length,
         history: history.map(entry => ({
           score: entry.score,
+          modelVersion: entry.modelVersion,
           timestamp: entry.timestamp,
           date: new Date(entry.timestamp * 1000).toISOString()
         }))
@@ -559,10 +1062,10 @@ app.get('/api/score/:address/history', async (req, res) => {
   }
 });
 
-// POST /api/score/:address/refresh - Force score recalculation
-app.post('/api/score/:address/refresh', async (req, res) => {
+// GET /api/score/:address/at/:blockOrDate - Score reconstructed at a past block or date
+app.get('/api/score/:address/at/:blockOrDate', async (req, res) => {
   try {
-    const { address } = req.params;
+    const { address, blockOrDate } = req.params;
     
     // Validate address format
     if (!ethers.isAddress(address)) {
@@ -573,55 +1076,74 @@ app.post('/api/score/:address/refresh', async (req, res) => {
       });
     }
     
-    // Force recalculation (ignore cache)
-    const metrics = await blockchainService.getUserMetrics(address);
+    // Digits are a block number, anything else an ISO 8601 date
+    const isBlock = /^\d+$/.test(blockOrDate);
+    const blockNumber = isBlock ? parseInt(blockOrDate, 10) : undefined;
+    const timestamp = isBlock ? undefined : Math.floor(Date.parse(blockOrDate) / 1000);
+    const latestBlock = isBlock ? await blockchainService.getDataSource().getBlockNumber() : undefined;
     
-    // Validate metrics for scoring
-    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    if ((isBlock && blockNumber! > latestBlock!) ||
+        (!isBlock && (isNaN(timestamp!) || timestamp! > Math.floor(Date.now() / 1000)))) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_BLOCK_OR_DATE',
+        message: 'Must be a block number no later than the latest block, or a past ISO 8601 date'
+      });
+    }
+    
+    const historical = await ScoreBackfillService.scoreAt(address, { blockNumber, timestamp });
+    
+    // Validate the replayed metrics for scoring
+    const validation = scoreCalculator.validateMetricsForScoring(historical.metrics);
     if (!validation.isValid) {
       return res.status(400).json({
         success: false,
         error: 'INSUFFICIENT_DATA',
-        message: 'Insufficient data for credit scoring',
+        message: 'Insufficient data for credit scoring at that point',
         details: validation.reasons
       });
     }
     
-    // Calculate and save new score
-    const creditScore = scoreCalculator.calculateCreditScore(address, metrics);
-    await databaseService.saveScore(creditScore);
-    
-    // Get detailed breakdown for transparency
-    const breakdown = scoreCalculator.generateScoreBreakdown(address, metrics);
-    
     return res.json({
       success: true,
       data: {
-        address: creditScore.address,
-        score: creditScore.score,
-        confidence: creditScore.confidence,
-        breakdown: breakdown,
-        timestamp: creditScore.timestamp,
-        refreshed: true
+        address,
+        score: historical.creditScore.score,
+        confidence: historical.creditScore.confidence,
+        modelVersion: historical.creditScore.modelVersion,
+        breakdown: historical.creditScore.breakdown,
+        asOf: historical.asOf,
+        date: new Date(historical.asOf * 1000).toISOString(),
+        blockNumber: historical.blockNumber,
+        transactionsReplayed: historical.transactionsReplayed,
+        metrics: historical.metrics
       }
     });
     
   } catch (error) {
-    console.error('Error refreshing credit score:', error);
+    if (error instanceof CustomError && error.statusCode === 409) {
+      return res.status(409).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+    }
+
+    console.error('Error reconstructing historical score:', error);
     return res.status(500).json({
       success: false,
-      error: 'REFRESH_ERROR',
-      message: 'Failed to refresh credit score',
+      error: 'HISTORY_ERROR',
+      message: 'Failed to reconstruct historical score',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// GET /api/benchmarking/:address - Get comprehensive benchmarking data
-app.get('/api/benchmarking/:address', async (req, res) => {
+// POST /api/score/:address/backfill - Write reconstructed scores to the enhanced score history
+app.post('/api/score/:address/backfill', async (req, res) => {
   try {
     const { address } = req.params;
-    const { includeCompetitivePositioning } = req.query;
+    const { interval, blockInterval } = req.body || {};
     
     // Validate address format
     if (!ethers.isAddress(address)) {
@@ -632,50 +1154,36 @@ app.get('/api/benchmarking/:address', async (req, res) => {
       });
     }
     
-    // Get user metrics and credit score
-    const metrics = await blockchainService.getUserMetrics(address);
-    const validation = scoreCalculator.validateMetricsForScoring(metrics);
-    
-    if (!validation.isValid) {
+    const backfillInterval = (typeof interval === 'string' ? interval.toUpperCase() : 'MONTHLY') as BackfillInterval;
+    if (!BACKFILL_INTERVALS.includes(backfillInterval) ||
+        (blockInterval !== undefined && !(Number.isInteger(blockInterval) && blockInterval > 0))) {
       return res.status(400).json({
         success: false,
-        error: 'INSUFFICIENT_DATA',
-        message: 'Insufficient data for benchmarking analysis',
-        details: validation.reasons
+        error: 'INVALID_INTERVAL',
+        message: 'interval must be monthly or weekly, and blockInterval a positive number of blocks'
       });
     }
     
-    const creditScore = scoreCalculator.calculateCreditScore(address, metrics);
-    const scoreBreakdown = scoreCalculator.generateScoreBreakdown(address, metrics);
-    
-    // Generate benchmarking data
-    const benchmarkingData = await BenchmarkingEngine.generateBenchmarkingData(
-      address,
-      creditScore,
-      scoreBreakdown,
-      metrics,
-      undefined,
-      includeCompetitivePositioning === 'true'
-    );
+    const result = await ScoreBackfillService.backfill(address, { interval: backfillInterval, blockInterval });
     
     return res.json({
       success: true,
-      data: benchmarkingData
+      data: result
     });
     
   } catch (error) {
-    console.error('Error getting benchmarking data:', error);
+    console.error('Error backfilling score history:', error);
     return res.status(500).json({
       success: false,
-      error: 'BENCHMARKING_ERROR',
-      message: 'Failed to generate benchmarking data',
+      error: 'BACKFILL_ERROR',
+      message: 'Failed to backfill score history',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// GET /api/competitive-positioning/:address - Get competitive positioning analysis
-app.get('/api/competitive-positioning/:address', async (req, res) => {
+// POST /api/score/:address/refresh - Force score recalculation
+app.post('/api/score/:address/refresh', async (req, res) => {
   try {
     const { address } = req.params;
     
@@ -688,72 +1196,86 @@ app.get('/api/competitive-positioning/:address', async (req, res) => {
       });
     }
     
-    // Check for cached competitive positioning data first
-    const cachedData = await databaseService.getLatestCompetitivePositioningData(address);
-    
-    if (cachedData && databaseService.isCacheFresh({ lastUpdated: cachedData.timestamp } as any)) {
-      return res.json({
+    if (req.query.async === 'true') {
+      const jobId = await ScoreRefreshService.scheduleRefresh(address, 'HIGH');
+      return res.status(202).json({
         success: true,
-        data: cachedData,
-        cached: true
+        data: {
+          address,
+          jobId,
+          message: 'Score refresh queued'
+        }
       });
     }
     
-    // Generate new competitive positioning analysis
+    // Force recalculation (ignore cache)
     const metrics = await blockchainService.getUserMetrics(address);
-    const validation = scoreCalculator.validateMetricsForScoring(metrics);
     
+    // Validate metrics for scoring
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
     if (!validation.isValid) {
       return res.status(400).json({
         success: false,
         error: 'INSUFFICIENT_DATA',
-        message: 'Insufficient data for competitive positioning analysis',
+        message: 'Insufficient data for credit scoring',
         details: validation.reasons
       });
     }
     
+    // Calculate and save new score
     const creditScore = scoreCalculator.calculateCreditScore(address, metrics);
-    const scoreBreakdown = scoreCalculator.generateScoreBreakdown(address, metrics);
-    
-    // Generate benchmarking data for context
-    const benchmarkingData = await BenchmarkingEngine.generateBenchmarkingData(
-      address,
-      creditScore,
-      scoreBreakdown,
-      metrics
-    );
-    
-    // Generate competitive positioning
-    const competitivePositioning = await CompetitivePositioningEngine.generateCompetitivePositioning(
-      address,
-      creditScore,
-      scoreBreakdown,
-      metrics,
-      benchmarkingData
-    );
+    await databaseService.saveScore(creditScore);
     
-    // Save to database
-    await databaseService.saveCompetitivePositioningData(competitivePositioning);
+    // Get detailed breakdown for transparency
+    const breakdown = scoreCalculator.generateScoreBreakdown(address, metrics);
     
     return res.json({
       success: true,
-      data: competitivePositioning,
-      cached: false
+      data: {
+        address: creditScore.address,
+        score: creditScore.score,
+        confidence: creditScore.confidence,
+        modelVersion: creditScore.modelVersion,
+        breakdown: breakdown,
+        timestamp: creditScore.timestamp,
+        refreshed: true
+      }
     });
     
   } catch (error) {
-    console.error('Error getting competitive positioning:', error);
+    console.error('Error refreshing credit score:', error);
     return res.status(500).json({
       success: false,
-      error: 'COMPETITIVE_POSITIONING_ERROR',
-      message: 'Failed to generate competitive positioning analysis',
+      error: 'REFRESH_ERROR',
+      message: 'Failed to refresh credit score',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// GET /api/market-position/:address - Get market position analysis
-app.get('/api/market-position/:address', async (req, res) => {
+// GET /api/scoring-models - List scoring model versions
+app.get('/api/scoring-models', (req, res) => {
+  try {
+    return res.json({
+      success: true,
+      data: {
+        activeVersion: ScoringModelRegistry.getActiveVersion(),
+        models: ScoringModelRegistry.getModels().map(model => scoreCalculator.getScoringParameters(model))
+      }
+    });
+  } catch (error) {
+    console.error('Error listing scoring models:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'MODEL_CONFIG_ERROR',
+      message: 'Failed to load scoring models',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /api/score/:address/simulate - What-if score with hypothetical metric changes
+app.post('/api/score/:address/simulate', async (req, res) => {
   try {
     const { address } = req.params;
     
@@ -765,83 +1287,53 @@ app.get('/api/market-position/:address', async (req, res) => {
         message: 'Invalid Ethereum address format'
       });
     }
-    
-    // Get competitive positioning data
-    const cachedData = await databaseService.getLatestCompetitivePositioningData(address);
-    
-    if (cachedData && databaseService.isCacheFresh({ lastUpdated: cachedData.timestamp } as any)) {
-      return res.json({
-        success: true,
-        data: {
-          address: cachedData.address,
-          marketPosition: cachedData.marketPosition,
-          trendComparison: cachedData.trendComparison,
-          timestamp: cachedData.timestamp
-        },
-        cached: true
+
+    const deltas = req.body || {};
+    const deltaErrors = ScoreSimulator.validateDeltas(deltas);
+    if (deltaErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_SIMULATION',
+        message: 'Invalid simulation deltas',
+        details: deltaErrors
       });
     }
     
-    // Generate new analysis if no cached data
     const metrics = await blockchainService.getUserMetrics(address);
-    const validation = scoreCalculator.validateMetricsForScoring(metrics);
     
+    // Validate metrics for scoring
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
     if (!validation.isValid) {
       return res.status(400).json({
         success: false,
         error: 'INSUFFICIENT_DATA',
-        message: 'Insufficient data for market position analysis',
+        message: 'Insufficient data for credit scoring',
         details: validation.reasons
       });
     }
     
-    const creditScore = scoreCalculator.calculateCreditScore(address, metrics);
-    const scoreBreakdown = scoreCalculator.generateScoreBreakdown(address, metrics);
-    
-    const benchmarkingData = await BenchmarkingEngine.generateBenchmarkingData(
-      address,
-      creditScore,
-      scoreBreakdown,
-      metrics
-    );
-    
-    const competitivePositioning = await CompetitivePositioningEngine.generateCompetitivePositioning(
-      address,
-      creditScore,
-      scoreBreakdown,
-      metrics,
-      benchmarkingData
-    );
-    
-    await databaseService.saveCompetitivePositioningData(competitivePositioning);
+    const simulation = ScoreSimulator.simulate(address, metrics, deltas);
     
     return res.json({
       success: true,
-      data: {
-        address: competitivePositioning.address,
-        marketPosition: competitivePositioning.marketPosition,
-        trendComparison: competitivePositioning.trendComparison,
-        timestamp: Math.floor(Date.now() / 1000)
-      },
-      cached: false
+      data: simulation
     });
     
   } catch (error) {
-    console.error('Error getting market position:', error);
+    console.error('Error simulating credit score:', error);
     return res.status(500).json({
       success: false,
-      error: 'MARKET_POSITION_ERROR',
-      message: 'Failed to get market position analysis',
+      error: 'CALCULATION_ERROR',
+      message: 'Failed to simulate credit score',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// GET /api/competitive-analysis/:address - Get competitive analysis data
-app.get('/api/competitive-analysis/:address', async (req, res) => {
+// GET /api/score/:address/explain - Per-metric contributions to the score
+app.get('/api/score/:address/explain', async (req, res) => {
   try {
     const { address } = req.params;
-    const { type } = req.query; // advantages, opportunities, threats, recommendations
     
     // Validate address format
     if (!ethers.isAddress(address)) {
@@ -851,121 +1343,1664 @@ app.get('/api/competitive-analysis/:address', async (req, res) => {
         message: 'Invalid Ethereum address format'
       });
     }
+
+    const referenceName = typeof req.query.reference === 'string' ? req.query.reference : undefined;
+    const reference = ScoreExplainer.getReferenceWallet(referenceName);
+    if (!reference) {
+      return res.status(400).json({
+        success: false,
+        error: 'UNKNOWN_REFERENCE',
+        message: `Reference wallet ${referenceName} is not defined`,
+        availableReferences: Object.keys(REFERENCE_WALLETS)
+      });
+    }
     
-    let data: any = {};
+    const metrics = await blockchainService.getUserMetrics(address);
     
-    if (!type || type === 'advantages') {
-      data.competitiveAdvantages = await databaseService.getCompetitiveAdvantages(address);
+    // Validate metrics for scoring
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for credit scoring',
+        details: validation.reasons
+      });
     }
     
-    if (!type || type === 'opportunities') {
-      data.marketOpportunities = await databaseService.getMarketOpportunities(address);
-    }
+    return res.json({
+      success: true,
+      data: ScoreExplainer.explain(address, metrics, reference)
+    });
     
-    if (!type || type === 'threats') {
-      data.competitiveThreats = await databaseService.getCompetitiveThreats(address);
+  } catch (error) {
+    console.error('Error explaining credit score:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'CALCULATION_ERROR',
+      message: 'Failed to explain credit score',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/score/:address/attestation - Signed EIP-712 score attestation
+app.get('/api/score/:address/attestation', async (req, res) => {
+  try {
+    const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+
+    if (!AttestationService.isConfigured()) {
+      return res.status(503).json({
+        success: false,
+        error: 'ATTESTATION_UNAVAILABLE',
+        message: 'Score attestations are not enabled on this server'
+      });
     }
     
-    if (!type || type === 'recommendations') {
-      data.strategicRecommendations = await databaseService.getStrategicRecommendations(address);
+    const metrics = await blockchainService.getUserMetrics(address);
+    
+    // Validate metrics for scoring
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for credit scoring',
+        details: validation.reasons
+      });
     }
     
+    // Attest a freshly calculated score and keep it as the latest score
+    const creditScore = scoreCalculator.calculateCreditScore(address, metrics);
+    await databaseService.saveScore(creditScore);
+    const attestation = await AttestationService.attest(creditScore);
+    
     return res.json({
       success: true,
-      data: {
-        address,
-        ...data,
-        timestamp: Math.floor(Date.now() / 1000)
-      }
+      data: attestation
     });
     
   } catch (error) {
-    console.error('Error getting competitive analysis:', error);
+    console.error('Error creating score attestation:', error);
     return res.status(500).json({
       success: false,
-      error: 'COMPETITIVE_ANALYSIS_ERROR',
-      message: 'Failed to get competitive analysis data',
+      error: 'ATTESTATION_ERROR',
+      message: 'Failed to create score attestation',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// Blockchain service test endpoints
-app.get('/api/blockchain/test', async (req, res) => {
+// POST /api/attestation/verify - Verify a signed score attestation
+app.post('/api/attestation/verify', (req, res) => {
   try {
-    const connectionTest = await blockchainService.testConnection();
-    res.json({
+    const { message, signature, domain } = req.body || {};
+
+    if (!message || typeof message !== 'object' || typeof signature !== 'string' ||
+        (domain !== undefined && (!domain || typeof domain !== 'object'))) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ATTESTATION',
+        message: 'Request body must include the attestation message and signature, and domain must be an object'
+      });
+    }
+
+    if (!AttestationService.isConfigured()) {
+      return res.status(503).json({
+        success: false,
+        error: 'ATTESTATION_UNAVAILABLE',
+        message: 'Score attestations are not enabled on this server'
+      });
+    }
+
+    const verification = verifyScoreAttestation(
+      { message, signature, domain },
+      { trustedSigner: AttestationService.getSignerAddress(), domain: AttestationService.getDomain() }
+    );
+
+    return res.json({
       success: true,
-      data: connectionTest,
-      message: connectionTest.connected ? 'Blockchain connection successful' : 'Blockchain connection failed'
+      data: verification
     });
+    
   } catch (error) {
-    res.status(500).json({
+    console.error('Error verifying score attestation:', error);
+    return res.status(500).json({
       success: false,
-      error: 'Failed to test blockchain connection',
+      error: 'ATTESTATION_ERROR',
+      message: 'Failed to verify score attestation',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-app.get('/api/blockchain/balance/:address', async (req, res) => {
+// GET /api/attestation/signer - Attestation signer and EIP-712 domain
+app.get('/api/attestation/signer', (req, res) => {
+  if (!AttestationService.isConfigured()) {
+    return res.status(503).json({
+      success: false,
+      error: 'ATTESTATION_UNAVAILABLE',
+      message: 'Score attestations are not enabled on this server'
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: {
+      signer: AttestationService.getSignerAddress(),
+      domain: AttestationService.getDomain(),
+      ttlSeconds: AttestationService.getTtlSeconds()
+    }
+  });
+});
+
+// GET /api/registry - Score registry contract and latest publications
+app.get('/api/registry', async (req, res) => {
   try {
-    const { address } = req.params;
-    const balance = await blockchainService.getBalance(address);
-    res.json({
+    if (!ScorePublisher.isConfigured()) {
+      return res.status(503).json({
+        success: false,
+        error: 'REGISTRY_UNAVAILABLE',
+        message: 'No score registry contract is configured on this server'
+      });
+    }
+
+    const registryAddress = ScorePublisher.getRegistryAddress();
+    const [latestRoot, latestBatch] = await Promise.all([
+      databaseService.getLatestScorePublication('MERKLE_ROOT', registryAddress),
+      databaseService.getLatestScorePublication('BATCH', registryAddress)
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        registryAddress,
+        latestRoot,
+        latestBatch
+      }
+    });
+
+  } catch (error) {
+    console.error('Error getting score registry:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'REGISTRY_ERROR',
+      message: 'Failed to get score registry',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/score/:address/proof - Merkle proof of a score in the published root
+app.get('/api/score/:address/proof', async (req, res) => {
+  try {
+    const { address } = req.params;
+
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+
+    const chainId = req.query.chainId === undefined ? MAINNET_CHAIN_ID : Number(req.query.chainId);
+    if (chainId !== AGGREGATE_CHAIN_ID && !ChainRegistry.getChain(chainId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_CHAIN',
+        message: `Unsupported chain: ${req.query.chainId}`,
+        supportedChains: ChainRegistry.getSupportedChains().map(chain => ({ chainId: chain.chainId, key: chain.key }))
+      });
+    }
+
+    if (!ScorePublisher.isConfigured()) {
+      return res.status(503).json({
+        success: false,
+        error: 'REGISTRY_UNAVAILABLE',
+        message: 'No score registry contract is configured on this server'
+      });
+    }
+
+    const result = await ScorePublisher.getScoreProof(address, chainId);
+    if (!result || !result.proof) {
+      return res.status(404).json({
+        success: false,
+        error: 'SCORE_NOT_PUBLISHED',
+        message: result
+          ? `No score for ${address} on chain ${chainId} was included in the latest published root`
+          : 'No Merkle root has been published to the score registry yet'
+      });
+    }
+
+    const { publication, proof } = result;
+
+    return res.json({
+      success: true,
+      data: {
+        ...proof,
+        registryAddress: publication.registryAddress,
+        txHash: publication.txHash,
+        publishedAt: publication.publishedAt,
+        verified: ScoreMerkleTree.verify(proof.leaf, proof.proof, proof.root)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error getting score proof:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'PROOF_ERROR',
+      message: 'Failed to get score proof',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/score/:address/models/:version - Score an address under a specific model version
+app.get('/api/score/:address/models/:version', async (req, res) => {
+  try {
+    const { address, version } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+
+    const model = ScoringModelRegistry.getModel(version);
+    if (!model) {
+      return res.status(404).json({
+        success: false,
+        error: 'UNKNOWN_MODEL',
+        message: `Scoring model version ${version} is not defined`,
+        availableVersions: ScoringModelRegistry.getModels().map(m => m.version)
+      });
+    }
+    
+    const metrics = await blockchainService.getUserMetrics(address);
+    
+    // Validate metrics for scoring
+    const validation = scoreCalculator.validateMetricsForScoring(metrics, model);
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for credit scoring',
+        details: validation.reasons
+      });
+    }
+    
+    // Scores under a non-active model are for comparison only and are not saved
+    const creditScore = scoreCalculator.calculateCreditScore(address, metrics, model);
+    const breakdown = scoreCalculator.generateScoreBreakdown(address, metrics, model);
+    const activeScore = scoreCalculator.calculateCreditScore(address, metrics);
+    
+    return res.json({
+      success: true,
+      data: {
+        address: creditScore.address,
+        score: creditScore.score,
+        confidence: creditScore.confidence,
+        modelVersion: creditScore.modelVersion,
+        breakdown: breakdown,
+        timestamp: creditScore.timestamp,
+        comparison: {
+          activeVersion: activeScore.modelVersion,
+          activeScore: activeScore.score,
+          difference: creditScore.score - activeScore.score
+        }
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error scoring under model version:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'CALCULATION_ERROR',
+      message: 'Failed to calculate credit score',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/benchmarking/:address - Get comprehensive benchmarking data
+app.get('/api/benchmarking/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { includeCompetitivePositioning } = req.query;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    // Get user metrics and credit score
+    const metrics = await blockchainService.getUserMetrics(address);
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for benchmarking analysis',
+        details: validation.reasons
+      });
+    }
+    
+    const creditScore = scoreCalculator.calculateCreditScore(address, metrics);
+    const scoreBreakdown = scoreCalculator.generateScoreBreakdown(address, metrics);
+    
+    // Generate benchmarking data
+    const benchmarkingData = await BenchmarkingEngine.generateBenchmarkingData(
+      address,
+      creditScore,
+      scoreBreakdown,
+      metrics,
+      undefined,
+      includeCompetitivePositioning === 'true'
+    );
+    
+    return res.json({
+      success: true,
+      data: benchmarkingData
+    });
+    
+  } catch (error) {
+    console.error('Error getting benchmarking data:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'BENCHMARKING_ERROR',
+      message: 'Failed to generate benchmarking data',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/competitive-positioning/:address - Get competitive positioning analysis
+app.get('/api/competitive-positioning/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    // Check for cached competitive positioning data first
+    const cachedData = await databaseService.getLatestCompetitivePositioningData(address);
+    
+    if (cachedData && databaseService.isCacheFresh({ lastUpdated: cachedData.timestamp } as any)) {
+      return res.json({
+        success: true,
+        data: cachedData,
+        cached: true
+      });
+    }
+    
+    // Generate new competitive positioning analysis
+    const metrics = await blockchainService.getUserMetrics(address);
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for competitive positioning analysis',
+        details: validation.reasons
+      });
+    }
+    
+    const creditScore = scoreCalculator.calculateCreditScore(address, metrics);
+    const scoreBreakdown = scoreCalculator.generateScoreBreakdown(address, metrics);
+    
+    // Generate benchmarking data for context
+    const benchmarkingData = await BenchmarkingEngine.generateBenchmarkingData(
+      address,
+      creditScore,
+      scoreBreakdown,
+      metrics
+    );
+    
+    // Generate competitive positioning
+    const competitivePositioning = await CompetitivePositioningEngine.generateCompetitivePositioning(
+      address,
+      creditScore,
+      scoreBreakdown,
+      metrics,
+      benchmarkingData
+    );
+    
+    // Save to database
+    await databaseService.saveCompetitivePositioningData(competitivePositioning);
+    
+    return res.json({
+      success: true,
+      data: competitivePositioning,
+      cached: false
+    });
+    
+  } catch (error) {
+    console.error('Error getting competitive positioning:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'COMPETITIVE_POSITIONING_ERROR',
+      message: 'Failed to generate competitive positioning analysis',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/market-position/:address - Get market position analysis
+app.get('/api/market-position/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    // Get competitive positioning data
+    const cachedData = await databaseService.getLatestCompetitivePositioningData(address);
+    
+    if (cachedData && databaseService.isCacheFresh({ lastUpdated: cachedData.timestamp } as any)) {
+      return res.json({
+        success: true,
+        data: {
+          address: cachedData.address,
+          marketPosition: cachedData.marketPosition,
+          trendComparison: cachedData.trendComparison,
+          timestamp: cachedData.timestamp
+        },
+        cached: true
+      });
+    }
+    
+    // Generate new analysis if no cached data
+    const metrics = await blockchainService.getUserMetrics(address);
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for market position analysis',
+        details: validation.reasons
+      });
+    }
+    
+    const creditScore = scoreCalculator.calculateCreditScore(address, metrics);
+    const scoreBreakdown = scoreCalculator.generateScoreBreakdown(address, metrics);
+    
+    const benchmarkingData = await BenchmarkingEngine.generateBenchmarkingData(
+      address,
+      creditScore,
+      scoreBreakdown,
+      metrics
+    );
+    
+    const competitivePositioning = await CompetitivePositioningEngine.generateCompetitivePositioning(
+      address,
+      creditScore,
+      scoreBreakdown,
+      metrics,
+      benchmarkingData
+    );
+    
+    await databaseService.saveCompetitivePositioningData(competitivePositioning);
+    
+    return res.json({
+      success: true,
+      data: {
+        address: competitivePositioning.address,
+        marketPosition: competitivePositioning.marketPosition,
+        trendComparison: competitivePositioning.trendComparison,
+        timestamp: Math.floor(Date.now() / 1000)
+      },
+      cached: false
+    });
+    
+  } catch (error) {
+    console.error('Error getting market position:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'MARKET_POSITION_ERROR',
+      message: 'Failed to get market position analysis',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/competitive-analysis/:address - Get competitive analysis data
+app.get('/api/competitive-analysis/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { type } = req.query; // advantages, opportunities, threats, recommendations
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    let data: any = {};
+    
+    if (!type || type === 'advantages') {
+      data.competitiveAdvantages = await databaseService.getCompetitiveAdvantages(address);
+    }
+    
+    if (!type || type === 'opportunities') {
+      data.marketOpportunities = await databaseService.getMarketOpportunities(address);
+    }
+    
+    if (!type || type === 'threats') {
+      data.competitiveThreats = await databaseService.getCompetitiveThreats(address);
+    }
+    
+    if (!type || type === 'recommendations') {
+      data.strategicRecommendations = await databaseService.getStrategicRecommendations(address);
+    }
+    
+    return res.json({
+      success: true,
+      data: {
+        address,
+        ...data,
+        timestamp: Math.floor(Date.now() / 1000)
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error getting competitive analysis:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'COMPETITIVE_ANALYSIS_ERROR',
+      message: 'Failed to get competitive analysis data',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Blockchain service test endpoints
+app.get('/api/blockchain/test', async (req, res) => {
+  try {
+    const connectionTest = await blockchainService.testConnection();
+    res.json({
+      success: true,
+      data: connectionTest,
+      message: connectionTest.connected ? 'Blockchain connection successful' : 'Blockchain connection failed'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to test blockchain connection',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.get('/api/blockchain/balance/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const balance = await blockchainService.getBalance(address);
+    res.json({
+      success: true,
+      data: {
+        address,
+        balance: `${balance} ETH`
+      }
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: 'Failed to get balance',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.get('/api/blockchain/metrics/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const metrics = await blockchainService.getUserMetrics(address);
+    res.json({
+      success: true,
+      data: {
+        address,
+        metrics: {
+          totalTransactions: metrics.totalTransactions,
+          totalVolume: `${parseFloat(metrics.totalVolume).toFixed(4)} ETH`,
+          avgTransactionValue: `${parseFloat(metrics.avgTransactionValue).toFixed(6)} ETH`,
+          stakingBalance: `${parseFloat(metrics.stakingBalance).toFixed(4)} ETH`,
+          defiProtocolsUsed: metrics.defiProtocolsUsed,
+          accountAge: `${metrics.accountAge} days`,
+          firstTransactionDate: new Date(metrics.firstTransactionDate * 1000).toISOString(),
+          lastTransactionDate: new Date(metrics.lastTransactionDate * 1000).toISOString(),
+          tokenTransferCount: metrics.tokenTransferCount || 0,
+          tokenVolumeEth: `${parseFloat(metrics.tokenVolumeEth || '0').toFixed(4)} ETH`,
+          tokenVolumes: metrics.tokenVolumes || [],
+          totalVolumeUsd: metrics.totalVolumeUsd !== undefined ? `$${parseFloat(metrics.totalVolumeUsd).toFixed(2)}` : null,
+          stakingBalanceUsd: metrics.stakingBalanceUsd !== undefined ? `$${parseFloat(metrics.stakingBalanceUsd).toFixed(2)}` : null,
+          tokenVolumeUsd: metrics.tokenVolumeUsd !== undefined ? `$${parseFloat(metrics.tokenVolumeUsd).toFixed(2)}` : null,
+          unavailableMetrics: metrics.unavailableMetrics || []
+        }
+      }
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: 'Failed to get user metrics',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Error handling middleware (must be last)
+app.use(errorHandler);
+
+// Real-time Benchmarking API Endpoints
+
+// GET /api/real-time-benchmark/:address - Get real-time benchmark data
+app.get('/api/real-time-benchmark/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    // Get user metrics and credit score
+    const metrics = await blockchainService.getUserMetrics(address);
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for real-time benchmarking',
+        details: validation.reasons
+      });
+    }
+    
+    const creditScore = scoreCalculator.calculateCreditScore(address, metrics);
+    const scoreBreakdown = scoreCalculator.generateScoreBreakdown(address, metrics);
+    
+    // Get real-time benchmark data
+    const realTimeBenchmarkData = await RealTimeBenchmarkingEngine.getRealTimeBenchmarkData(
+      address,
+      creditScore,
+      scoreBreakdown,
+      metrics
+    );
+    
+    return res.json({
+      success: true,
+      data: {
+        address: realTimeBenchmarkData.address,
+        peerGroupId: realTimeBenchmarkData.peerGroupId,
+        overallPercentile: realTimeBenchmarkData.overallPercentile,
+        componentPercentiles: JSON.parse(realTimeBenchmarkData.componentPercentiles),
+        lastUpdated: realTimeBenchmarkData.lastUpdated,
+        updateFrequency: realTimeBenchmarkData.updateFrequency,
+        isStale: realTimeBenchmarkData.isStale,
+        benchmarkTimestamp: realTimeBenchmarkData.benchmarkTimestamp
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error getting real-time benchmark data:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'REAL_TIME_BENCHMARK_ERROR',
+      message: 'Failed to get real-time benchmark data',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/anomalies/:address - Run anomaly detection and persist the result
+app.get('/api/anomalies/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+
+    let detectors: AnomalyDetectorType[] = ANOMALY_DETECTOR_TYPES;
+    if (req.query.detectors !== undefined) {
+      try {
+        detectors = AnomalyDetectionEngine.parseDetectorTypes(req.query.detectors as string | string[]);
+      } catch (detectorError) {
+        return res.status(400).json({
+          success: false,
+          error: 'INVALID_DETECTOR',
+          message: detectorError instanceof Error ? detectorError.message : 'Invalid detectors parameter'
+        });
+      }
+    }
+    
+    // Only the requested detectors run. Results of every detector are stored, since the
+    // latest stored result flags score responses; others are returned without storing them.
+    const metrics = await blockchainService.getUserMetrics(address);
+    const transactions = await blockchainService.fetchTransactionHistory(address);
+    const result = await AnomalyDetectionEngine.detectAnomalies(address, metrics, transactions, detectors);
+    const complete = ANOMALY_DETECTOR_TYPES.every(detector => detectors.includes(detector));
+    const detectionId = complete ? await databaseService.saveAnomalyDetectionResult(result) : null;
+    
+    return res.json({
+      success: true,
+      data: {
+        detectionId,
+        detectors,
+        ...AnomalyDetectionEngine.filterByDetectors(result, detectors)
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error detecting anomalies:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'ANOMALY_DETECTION_ERROR',
+      message: 'Failed to run anomaly detection',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/anomalies/:address/history - Get stored anomaly detection results
+app.get('/api/anomalies/:address/history', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { limit } = req.query;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    // Parse and validate limit
+    const historyLimit = limit ? Math.min(parseInt(limit as string, 10), 100) : 20;
+    if (isNaN(historyLimit) || historyLimit < 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_LIMIT',
+        message: 'Limit must be a positive number (max 100)'
+      });
+    }
+
+    // With detectors, only results where one of them found something are returned
+    let detectors: AnomalyDetectorType[] = [];
+    if (req.query.detectors !== undefined) {
+      try {
+        detectors = AnomalyDetectionEngine.parseDetectorTypes(req.query.detectors as string | string[]);
+      } catch (detectorError) {
+        return res.status(400).json({
+          success: false,
+          error: 'INVALID_DETECTOR',
+          message: detectorError instanceof Error ? detectorError.message : 'Invalid detectors parameter'
+        });
+      }
+    }
+    
+    const history = await databaseService.getAnomalyDetectionHistory(address, historyLimit, detectors);
+    const shownDetectors = detectors.length > 0 ? detectors : ANOMALY_DETECTOR_TYPES;
+    
+    return res.json({
+      success: true,
+      data: {
+        address,
+        total: history.length,
+        detectors: shownDetectors,
+        history: history.map(result => ({
+          detectionId: result.id,
+          ...AnomalyDetectionEngine.filterByDetectors(result, shownDetectors),
+          date: new Date(result.timestamp).toISOString()
+        }))
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error getting anomaly history:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'HISTORY_ERROR',
+      message: 'Failed to get anomaly detection history',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/behavior/:address - Analyze behavioral patterns and report changes since the previous analysis
+app.get('/api/behavior/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    const metrics = await blockchainService.getUserMetrics(address);
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for behavioral analysis',
+        details: validation.reasons
+      });
+    }
+    
+    const transactions = await blockchainService.fetchTransactionHistory(address);
+    const analysis = await BehavioralPatternService.analyzeAndRecord(address, metrics, transactions);
+    
+    return res.json({
+      success: true,
+      data: analysis
+    });
+    
+  } catch (error) {
+    console.error('Error analyzing behavioral patterns:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'BEHAVIOR_ANALYSIS_ERROR',
+      message: 'Failed to analyze behavioral patterns',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/behavior/:address/history - Recorded behavioral periods and archetype transitions
+app.get('/api/behavior/:address/history', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { limit } = req.query;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    // Parse and validate limit
+    const historyLimit = limit ? Math.min(parseInt(limit as string, 10), 100) : 20;
+    if (isNaN(historyLimit) || historyLimit < 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_LIMIT',
+        message: 'Limit must be a positive number (max 100)'
+      });
+    }
+    
+    const history = await BehavioralPatternService.getHistory(address, historyLimit);
+    
+    return res.json({
+      success: true,
+      data: history
+    });
+    
+  } catch (error) {
+    console.error('Error getting behavioral history:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'HISTORY_ERROR',
+      message: 'Failed to get behavioral history',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/growth-trend/:address - Growth trend over fixed periods of a date range
+app.get('/api/growth-trend/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const granularity = (typeof req.query.granularity === 'string' ? req.query.granularity.toUpperCase() : 'MONTHLY') as GrowthPeriodGranularity;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    if (!(granularity in GROWTH_PERIOD_DAYS)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_GRANULARITY',
+        message: 'Granularity must be weekly, monthly or quarterly'
+      });
+    }
+    
+    // Dates are unix seconds or ISO 8601
+    const parseDate = (value: unknown): number | undefined => {
+      if (typeof value !== 'string' || value === '') return undefined;
+      return /^\d+$/.test(value) ? parseInt(value, 10) : Math.floor(Date.parse(value) / 1000);
+    };
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    
+    if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to)) ||
+        (from !== undefined && to !== undefined && from >= to)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_DATE_RANGE',
+        message: 'from and to must be unix seconds or ISO dates, with from before to'
+      });
+    }
+    
+    const metrics = await blockchainService.getUserMetrics(address);
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for growth trend analysis',
+        details: validation.reasons
+      });
+    }
+    
+    const transactions = await blockchainService.fetchTransactionHistory(address);
+    const rangeTransactions = transactions.filter(tx =>
+      (from === undefined || tx.timestamp >= from) && (to === undefined || tx.timestamp < to)
+    );
+    
+    const growthTrend = GrowthTrendAnalysisEngine.analyzeGrowthTrend(address, metrics, transactions, { granularity, from, to });
+    const consistency = GrowthTrendAnalysisEngine.analyzeConsistency(address, metrics, rangeTransactions);
+    const diversification = GrowthTrendAnalysisEngine.analyzeDiversification(address, metrics, rangeTransactions);
+    
+    return res.json({
+      success: true,
+      data: {
+        address,
+        granularity,
+        from: from ?? null,
+        to: to ?? null,
+        transactionCount: rangeTransactions.length,
+        growthTrend,
+        consistency,
+        diversification
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error analyzing growth trend:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'GROWTH_TREND_ERROR',
+      message: 'Failed to analyze growth trend',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/protocol-preferences/:address - Protocol preference, gas optimization and timing analysis
+app.get('/api/protocol-preferences/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const forceRefresh = req.query.refresh === 'true';
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    let sections: ProtocolPreferenceSection[] = PROTOCOL_PREFERENCE_SECTIONS;
+    if (typeof req.query.sections === 'string') {
+      try {
+        sections = ProtocolPreferenceEngine.parseSections(req.query.sections);
+      } catch (sectionError) {
+        return res.status(400).json({
+          success: false,
+          error: 'INVALID_SECTION',
+          message: sectionError instanceof Error ? sectionError.message : 'Invalid sections parameter'
+        });
+      }
+    }
+    
+    // Check for cached analysis first
+    const cachedAnalysis = await databaseService.getProtocolPreferenceAnalysis(address);
+    
+    if (!forceRefresh && cachedAnalysis && databaseService.isCacheFresh({ lastUpdated: cachedAnalysis.analyzedAt } as any)) {
+      return res.json({
+        success: true,
+        data: {
+          address,
+          sections,
+          analyzedAt: cachedAnalysis.analyzedAt,
+          ...ProtocolPreferenceEngine.selectSections(cachedAnalysis.analysis, sections)
+        },
+        cached: true
+      });
+    }
+    
+    // Generate new analysis
+    const metrics = await blockchainService.getUserMetrics(address);
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for protocol preference analysis',
+        details: validation.reasons
+      });
+    }
+    
+    const transactions = await blockchainService.fetchTransactionHistory(address);
+    const analysis = await ProtocolPreferenceEngine.analyzeProtocolPreferences(address, metrics, transactions);
+    
+    // Save analysis to database
+    const analyzedAt = await databaseService.saveProtocolPreferenceAnalysis(address, analysis);
+    
+    return res.json({
+      success: true,
+      data: {
+        address,
+        sections,
+        analyzedAt,
+        ...ProtocolPreferenceEngine.selectSections(analysis, sections)
+      },
+      cached: false
+    });
+    
+  } catch (error) {
+    console.error('Error analyzing protocol preferences:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'PROTOCOL_PREFERENCE_ERROR',
+      message: 'Failed to analyze protocol preferences',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/risk/:address/report - Comprehensive risk report with mitigation recommendations
+app.get('/api/risk/:address/report', async (req, res) => {
+  try {
+    const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    const metrics = await blockchainService.getUserMetrics(address);
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for risk assessment',
+        details: validation.reasons
+      });
+    }
+    
+    // Records the assessment, raising monitoring alerts, and starts tracking new recommendations
+    const transactions = await blockchainService.fetchTransactionHistory(address);
+    const report = await RiskMitigationService.generateComprehensiveRiskReport(address, metrics, transactions);
+    
+    return res.json({
+      success: true,
+      data: report
+    });
+    
+  } catch (error) {
+    console.error('Error generating risk report:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'RISK_REPORT_ERROR',
+      message: 'Failed to generate risk report',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/risk/:address/trend - Risk trend from recorded assessments
+app.get('/api/risk/:address/trend', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const timeframe = typeof req.query.timeframe === 'string' ? req.query.timeframe.toUpperCase() : 'WEEKLY';
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    if (timeframe !== 'DAILY' && timeframe !== 'WEEKLY' && timeframe !== 'MONTHLY') {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_TIMEFRAME',
+        message: 'Timeframe must be DAILY, WEEKLY or MONTHLY'
+      });
+    }
+    
+    const trend = await RiskMonitoringService.calculateRiskTrend(address, timeframe);
+    
+    return res.json({
+      success: true,
+      data: trend
+    });
+    
+  } catch (error) {
+    console.error('Error calculating risk trend:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'RISK_TREND_ERROR',
+      message: 'Failed to calculate risk trend',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/risk/:address/alerts - List risk monitoring alerts
+app.get('/api/risk/:address/alerts', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { acknowledged, limit } = req.query;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    // Parse and validate limit
+    const alertLimit = limit ? Math.min(parseInt(limit as string, 10), 100) : 50;
+    if (isNaN(alertLimit) || alertLimit < 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_LIMIT',
+        message: 'Limit must be a positive number (max 100)'
+      });
+    }
+    
+    const alerts = await databaseService.getRiskAlerts(address, {
+      acknowledged: acknowledged === undefined ? undefined : acknowledged === 'true',
+      limit: alertLimit
+    });
+    
+    return res.json({
       success: true,
       data: {
         address,
-        balance: `${balance} ETH`
+        total: alerts.length,
+        unacknowledged: alerts.filter(alert => !alert.acknowledged).length,
+        alerts
       }
     });
+    
   } catch (error) {
-    res.status(400).json({
+    console.error('Error getting risk alerts:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'RISK_ALERTS_ERROR',
+      message: 'Failed to get risk alerts',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /api/risk/:address/alerts/:alertId/acknowledge - Acknowledge a risk alert
+app.post('/api/risk/:address/alerts/:alertId/acknowledge', async (req, res) => {
+  try {
+    const { address, alertId } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    const acknowledged = await databaseService.acknowledgeRiskAlert(address, parseInt(alertId, 10));
+    if (!acknowledged) {
+      return res.status(404).json({
+        success: false,
+        error: 'ALERT_NOT_FOUND',
+        message: `No alert ${alertId} for ${address}`
+      });
+    }
+    
+    return res.json({
+      success: true,
+      data: {
+        alertId: parseInt(alertId, 10),
+        acknowledged: true
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error acknowledging risk alert:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'RISK_ALERTS_ERROR',
+      message: 'Failed to acknowledge risk alert',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/risk/:address/thresholds - List per-address risk thresholds
+app.get('/api/risk/:address/thresholds', async (req, res) => {
+  try {
+    const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    const thresholds = await databaseService.getRiskThresholds(address);
+    
+    return res.json({
+      success: true,
+      data: {
+        address,
+        thresholds,
+        riskFactors: RISK_THRESHOLD_FACTORS
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error getting risk thresholds:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'RISK_THRESHOLD_ERROR',
+      message: 'Failed to get risk thresholds',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /api/risk/:address/thresholds - Create a risk threshold
+app.post('/api/risk/:address/thresholds', async (req, res) => {
+  try {
+    const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    const { riskFactor, thresholdType, thresholdValue, alertSeverity, enabled = true } = req.body || {};
+    const threshold = { address, riskFactor, thresholdType, thresholdValue, alertSeverity, enabled };
+    
+    const errors = RiskMonitoringService.validateThreshold(threshold);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_THRESHOLD',
+        message: 'Invalid risk threshold',
+        details: errors
+      });
+    }
+    
+    const id = await databaseService.saveRiskThreshold(threshold);
+    
+    return res.json({
+      success: true,
+      data: { id, ...threshold, address: address.toLowerCase() }
+    });
+    
+  } catch (error) {
+    console.error('Error creating risk threshold:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'RISK_THRESHOLD_ERROR',
+      message: 'Failed to create risk threshold',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// PUT /api/risk/:address/thresholds/:thresholdId - Update a risk threshold
+app.put('/api/risk/:address/thresholds/:thresholdId', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const thresholdId = parseInt(req.params.thresholdId, 10);
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    const existing = (await databaseService.getRiskThresholds(address)).find(threshold => threshold.id === thresholdId);
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'THRESHOLD_NOT_FOUND',
+        message: `No risk threshold ${req.params.thresholdId} for ${address}`
+      });
+    }
+    
+    const { riskFactor, thresholdType, thresholdValue, alertSeverity, enabled } = req.body || {};
+    const updates = Object.fromEntries(
+      Object.entries({ riskFactor, thresholdType, thresholdValue, alertSeverity, enabled })
+        .filter(([, value]) => value !== undefined)
+    );
+    const threshold = { ...existing, ...updates };
+    
+    const errors = RiskMonitoringService.validateThreshold(threshold);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_THRESHOLD',
+        message: 'Invalid risk threshold',
+        details: errors
+      });
+    }
+    
+    await databaseService.updateRiskThreshold(address, thresholdId, updates);
+    
+    return res.json({
+      success: true,
+      data: threshold
+    });
+    
+  } catch (error) {
+    console.error('Error updating risk threshold:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'RISK_THRESHOLD_ERROR',
+      message: 'Failed to update risk threshold',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// DELETE /api/risk/:address/thresholds/:thresholdId - Delete a risk threshold
+app.delete('/api/risk/:address/thresholds/:thresholdId', async (req, res) => {
+  try {
+    const { address, thresholdId } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    const deleted = await databaseService.deleteRiskThreshold(address, parseInt(thresholdId, 10));
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'THRESHOLD_NOT_FOUND',
+        message: `No risk threshold ${thresholdId} for ${address}`
+      });
+    }
+    
+    return res.json({
+      success: true,
+      data: {
+        id: parseInt(thresholdId, 10),
+        deleted: true
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error deleting risk threshold:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'RISK_THRESHOLD_ERROR',
+      message: 'Failed to delete risk threshold',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/risk/:address/mitigation - Progress of tracked mitigation recommendations
+app.get('/api/risk/:address/mitigation', async (req, res) => {
+  try {
+    const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    const progress = await RiskMitigationService.getRecommendationProgress(address);
+    
+    return res.json({
+      success: true,
+      data: {
+        address,
+        total: progress.length,
+        recommendations: progress
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error getting mitigation progress:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'MITIGATION_ERROR',
+      message: 'Failed to get mitigation progress',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /api/risk/:address/mitigation/:recommendationId/progress - Update mitigation progress
+app.post('/api/risk/:address/mitigation/:recommendationId/progress', async (req, res) => {
+  try {
+    const { address, recommendationId } = req.params;
+    const { progress, milestone } = req.body || {};
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    if (typeof progress !== 'number' || progress < 0 || progress > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_PROGRESS',
+        message: 'Progress must be a number between 0 and 100'
+      });
+    }
+    
+    const tracked = await RiskMitigationService.trackRecommendationProgress(
+      address,
+      recommendationId,
+      Math.round(progress),
+      typeof milestone === 'string' ? milestone : undefined
+    );
+    if (!tracked) {
+      return res.status(404).json({
+        success: false,
+        error: 'RECOMMENDATION_NOT_FOUND',
+        message: `No tracked recommendation ${recommendationId} for ${address}`
+      });
+    }
+    
+    return res.json({
+      success: true,
+      data: {
+        recommendationId,
+        progress: Math.round(progress)
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error updating mitigation progress:', error);
+    return res.status(500).json({
       success: false,
-      error: 'Failed to get balance',
+      error: 'MITIGATION_ERROR',
+      message: 'Failed to update mitigation progress',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-app.get('/api/blockchain/metrics/:address', async (req, res) => {
+// Recommendation statuses are accepted in any case, with - or _ (in-progress, IN_PROGRESS)
+const parseRecommendationStatus = (value: unknown): RecommendationStatus | null => {
+  if (typeof value !== 'string') return null;
+  const status = value.trim().toUpperCase().replace(/-/g, '_') as RecommendationStatus;
+  return RECOMMENDATION_STATUSES.includes(status) ? status : null;
+};
+
+// GET /api/recommendations/:address - Sync and list tracked personalized recommendations
+app.get('/api/recommendations/:address', async (req, res) => {
   try {
     const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    let statuses: RecommendationStatus[] | undefined;
+    if (typeof req.query.status === 'string' && req.query.status !== '') {
+      const parsed = req.query.status.split(',').map(parseRecommendationStatus);
+      if (parsed.some(status => status === null)) {
+        return res.status(400).json({
+          success: false,
+          error: 'INVALID_STATUS',
+          message: 'Status must be open, in_progress, done or dismissed'
+        });
+      }
+      statuses = parsed as RecommendationStatus[];
+    }
+    
     const metrics = await blockchainService.getUserMetrics(address);
-    res.json({
+    const validation = scoreCalculator.validateMetricsForScoring(metrics);
+    
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: 'INSUFFICIENT_DATA',
+        message: 'Insufficient data for recommendations',
+        details: validation.reasons
+      });
+    }
+    
+    const transactions = await blockchainService.fetchTransactionHistory(address);
+    const sync = await RecommendationTrackingService.sync(address, metrics, transactions);
+    
+    return res.json({
       success: true,
       data: {
-        address,
-        metrics: {
-          totalTransactions: metrics.totalTransactions,
-          totalVolume: `${parseFloat(metrics.totalVolume).toFixed(4)} ETH`,
-          avgTransactionValue: `${parseFloat(metrics.avgTransactionValue).toFixed(6)} ETH`,
-          stakingBalance: `${parseFloat(metrics.stakingBalance).toFixed(4)} ETH`,
-          defiProtocolsUsed: metrics.defiProtocolsUsed,
-          accountAge: `${metrics.accountAge} days`,
-          firstTransactionDate: new Date(metrics.firstTransactionDate * 1000).toISOString(),
-          lastTransactionDate: new Date(metrics.lastTransactionDate * 1000).toISOString()
-        }
+        ...sync,
+        recommendations: statuses
+          ? sync.recommendations.filter(tracked => statuses!.includes(tracked.status))
+          : sync.recommendations
       }
     });
+    
   } catch (error) {
-    res.status(400).json({
+    console.error('Error syncing recommendations:', error);
+    return res.status(500).json({
       success: false,
-      error: 'Failed to get user metrics',
+      error: 'RECOMMENDATIONS_ERROR',
+      message: 'Failed to get recommendations',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// Error handling middleware (must be last)
-app.use(errorHandler);
-
-// Real-time Benchmarking API Endpoints
-
-// GET /api/real-time-benchmark/:address - Get real-time benchmark data
-app.get('/api/real-time-benchmark/:address', async (req, res) => {
+// POST /api/recommendations/:address/:key/status - Start, complete, dismiss or reopen a recommendation
+app.post('/api/recommendations/:address/:key/status', async (req, res) => {
   try {
-    const { address } = req.params;
+    const { address, key } = req.params;
     
     // Validate address format
     if (!ethers.isAddress(address)) {
@@ -976,50 +3011,92 @@ app.get('/api/real-time-benchmark/:address', async (req, res) => {
       });
     }
     
-    // Get user metrics and credit score
-    const metrics = await blockchainService.getUserMetrics(address);
-    const validation = scoreCalculator.validateMetricsForScoring(metrics);
-    
-    if (!validation.isValid) {
+    const status = parseRecommendationStatus((req.body || {}).status);
+    if (!status) {
       return res.status(400).json({
         success: false,
-        error: 'INSUFFICIENT_DATA',
-        message: 'Insufficient data for real-time benchmarking',
-        details: validation.reasons
+        error: 'INVALID_STATUS',
+        message: 'Status must be open, in_progress, done or dismissed'
       });
     }
     
-    const creditScore = scoreCalculator.calculateCreditScore(address, metrics);
-    const scoreBreakdown = scoreCalculator.generateScoreBreakdown(address, metrics);
+    const tracked = await RecommendationTrackingService.updateStatus(address, key, status);
+    if (!tracked) {
+      return res.status(404).json({
+        success: false,
+        error: 'RECOMMENDATION_NOT_FOUND',
+        message: `No tracked recommendation ${key} for ${address}`
+      });
+    }
     
-    // Get real-time benchmark data
-    const realTimeBenchmarkData = await RealTimeBenchmarkingEngine.getRealTimeBenchmarkData(
-      address,
-      creditScore,
-      scoreBreakdown,
-      metrics
-    );
+    return res.json({
+      success: true,
+      data: tracked
+    });
+    
+  } catch (error) {
+    console.error('Error updating recommendation status:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'RECOMMENDATIONS_ERROR',
+      message: 'Failed to update recommendation status',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/recommendations/:address/outcomes - Measured outcomes of done recommendations
+app.get('/api/recommendations/:address/outcomes', async (req, res) => {
+  try {
+    const { address } = req.params;
+    
+    // Validate address format
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_ADDRESS',
+        message: 'Invalid Ethereum address format'
+      });
+    }
+    
+    const outcomes = await RecommendationOutcomeService.getOutcomes(address);
     
     return res.json({
       success: true,
       data: {
-        address: realTimeBenchmarkData.address,
-        peerGroupId: realTimeBenchmarkData.peerGroupId,
-        overallPercentile: realTimeBenchmarkData.overallPercentile,
-        componentPercentiles: JSON.parse(realTimeBenchmarkData.componentPercentiles),
-        lastUpdated: realTimeBenchmarkData.lastUpdated,
-        updateFrequency: realTimeBenchmarkData.updateFrequency,
-        isStale: realTimeBenchmarkData.isStale,
-        benchmarkTimestamp: realTimeBenchmarkData.benchmarkTimestamp
+        address,
+        total: outcomes.length,
+        outcomes
       }
     });
     
   } catch (error) {
-    console.error('Error getting real-time benchmark data:', error);
+    console.error('Error getting recommendation outcomes:', error);
     return res.status(500).json({
       success: false,
-      error: 'REAL_TIME_BENCHMARK_ERROR',
-      message: 'Failed to get real-time benchmark data',
+      error: 'RECOMMENDATIONS_ERROR',
+      message: 'Failed to get recommendation outcomes',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/recommendation-calibration - Impact prediction error and calibration per recommendation type
+app.get('/api/recommendation-calibration', async (req, res) => {
+  try {
+    const report = await RecommendationOutcomeService.getCalibrationReport();
+    
+    return res.json({
+      success: true,
+      data: report
+    });
+    
+  } catch (error) {
+    console.error('Error getting recommendation calibration:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'CALIBRATION_ERROR',
+      message: 'Failed to get recommendation calibration',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
@@ -1064,7 +3141,19 @@ app.get('/api/score-forecast/:address', async (req, res) => {
     }
     
     const creditScore = scoreCalculator.calculateCreditScore(address, metrics);
-    const scoreHistory = await databaseService.getEnhancedScoreHistory(address, 100);
+    let scoreHistory = await databaseService.getEnhancedScoreHistory(address, 100);
+    
+    // Too few scored points to fit a trend to, so reconstruct past ones from transaction history
+    if (scoreHistory.length < PredictiveAnalyticsEngine.MIN_HISTORY_POINTS) {
+      try {
+        const backfill = await ScoreBackfillService.backfill(address);
+        if (backfill.written + backfill.updated > 0) {
+          scoreHistory = await databaseService.getEnhancedScoreHistory(address, 100);
+        }
+      } catch (error) {
+        console.warn('Could not backfill score history for forecast:', error);
+      }
+    }
     
     // Generate score forecast
     const forecast = await PredictiveAnalyticsEngine.generateScoreForecast(
@@ -1076,6 +3165,7 @@ app.get('/api/score-forecast/:address', async (req, res) => {
     
     // Save forecast to database
     await databaseService.saveScoreForecast(forecast);
+    await PredictionResolutionService.recordForecast(forecast);
     
     return res.json({
       success: true,
@@ -1207,6 +3297,27 @@ app.post('/api/prediction-accuracy/:predictionId', async (req, res) => {
   }
 });
 
+// POST /api/predictions/resolve - Resolve predictions whose horizon has passed now
+app.post('/api/predictions/resolve', async (req, res) => {
+  try {
+    const result = await PredictionResolutionService.resolveDuePredictions();
+    
+    return res.json({
+      success: true,
+      data: result
+    });
+    
+  } catch (error) {
+    console.error('Error resolving predictions:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'ACCURACY_TRACKING_ERROR',
+      message: 'Failed to resolve predictions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // GET /api/model-performance - Get model performance metrics
 app.get('/api/model-performance', async (req, res) => {
   try {
@@ -1236,6 +3347,52 @@ app.get('/api/model-performance', async (req, res) => {
   }
 });
 
+// GET /api/forecasting-models - Get forecasting models ranked by recent accuracy, champion first
+app.get('/api/forecasting-models', async (req, res) => {
+  try {
+    const models = await PredictiveAnalyticsEngine.getForecastingModelStandings();
+
+    return res.json({
+      success: true,
+      data: {
+        models,
+        champion: models.find(model => model.champion)?.name ?? null,
+        total: models.length
+      }
+    });
+
+  } catch (error) {
+    console.error('Error getting forecasting models:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'FORECASTING_MODELS_ERROR',
+      message: 'Failed to get forecasting model standings',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/forecast-calibration - Stated against realized coverage of forecast prediction intervals
+app.get('/api/forecast-calibration', async (req, res) => {
+  try {
+    const report = await ForecastCalibrationService.getCalibrationReport();
+
+    return res.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Error getting forecast calibration:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'FORECAST_CALIBRATION_ERROR',
+      message: 'Failed to get forecast calibration report',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // POST /api/benchmark-update/:address - Trigger benchmark update
 app.post('/api/benchmark-update/:address', async (req, res) => {
   try {
@@ -1443,6 +3600,132 @@ app.post('/api/benchmark-refresh-stale', async (req, res) => {
   }
 });
 
+// Admin routes require the admin token
+app.use('/api/admin', requireAdminToken);
+
+// GET /api/admin/jobs - Job queue counts and recent jobs
+app.get('/api/admin/jobs', async (req, res) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+    const jobType = typeof req.query.type === 'string' ? req.query.type.toUpperCase() : undefined;
+    const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string, 10) || 50));
+    
+    if (status !== undefined && status !== 'PENDING' && status !== 'RUNNING' && status !== 'COMPLETED') {
+      return res.status(400).json({
+        success: false,
+        error: 'INVALID_JOB_STATUS',
+        message: 'Status must be PENDING, RUNNING or COMPLETED'
+      });
+    }
+    
+    const [stats, jobs] = await Promise.all([
+      JobQueue.getStats(),
+      JobQueue.getJobs({ status, jobType, limit })
+    ]);
+    
+    return res.json({
+      success: true,
+      data: {
+        stats,
+        jobs,
+        total: jobs.length
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error getting jobs:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'JOB_QUEUE_ERROR',
+      message: 'Failed to get jobs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// GET /api/admin/jobs/dead-letter - Jobs that used up their attempts
+app.get('/api/admin/jobs/dead-letter', async (req, res) => {
+  try {
+    const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string, 10) || 50));
+    const jobs = await JobQueue.getDeadLetterJobs(limit);
+    
+    return res.json({
+      success: true,
+      data: {
+        jobs,
+        total: jobs.length
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error getting dead letter jobs:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'JOB_QUEUE_ERROR',
+      message: 'Failed to get dead letter jobs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /api/admin/jobs/:id/retry - Run a pending job now
+app.post('/api/admin/jobs/:id/retry', async (req, res) => {
+  try {
+    const job = await JobQueue.retryJob(parseInt(req.params.id, 10));
+    
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'JOB_NOT_FOUND',
+        message: 'No pending job with this id'
+      });
+    }
+    
+    return res.json({
+      success: true,
+      data: job
+    });
+    
+  } catch (error) {
+    console.error('Error retrying job:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'JOB_QUEUE_ERROR',
+      message: 'Failed to retry job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// POST /api/admin/jobs/dead-letter/:id/retry - Queue a dead-lettered job again
+app.post('/api/admin/jobs/dead-letter/:id/retry', async (req, res) => {
+  try {
+    const job = await JobQueue.retryDeadLetterJob(parseInt(req.params.id, 10));
+    
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'JOB_NOT_FOUND',
+        message: 'No dead-lettered job with this id'
+      });
+    }
+    
+    return res.json({
+      success: true,
+      data: job
+    });
+    
+  } catch (error) {
+    console.error('Error retrying dead letter job:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'JOB_QUEUE_ERROR',
+      message: 'Failed to retry dead letter job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Initialize database and start server
 async function startServer() {
   try {
@@ -1462,11 +3745,30 @@ async function startServer() {
     });
     console.log('Real-time benchmarking engine initialized');
     
+    // Resolve stored predictions once their horizon passes
+    PredictionResolutionService.initialize({
+      resolutionFrequency: 3600, // 1 hour
+      batchSize: 50
+    });
+    
+    // Reassess addresses with risk thresholds, and run queued score refreshes
+    RiskMonitoringService.initialize(6 * 60 * 60); // 6 hours
+    ScoreRefreshService.initialize();
+    
+    // Run background jobs once every service has registered its handlers
+    await JobQueue.start({
+      pollInterval: 5,
+      batchSize: 20,
+      visibilityTimeout: 300 // 5 minutes
+    });
+    
     app.listen(PORT, () => {
       console.log(`CryptoScore API server running on port ${PORT}`);
       console.log(`Health check: http://localhost:${PORT}/health`);
       console.log(`API info: http://localhost:${PORT}/api`);
       console.log(`Real-time benchmarking: ACTIVE`);
+      console.log(`Prediction resolution: ACTIVE`);
+      console.log(`Job queue: ACTIVE`);
     });
   } catch (error) {
     console.error('Failed to start server:', error);
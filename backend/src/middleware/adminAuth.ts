@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+// Hashed so tokens of any length compare in constant time
+function digest(token: string): Buffer {
+  return crypto.createHash('sha256').update(token).digest();
+}
+
+/**
+ * Admit requests carrying the admin token from ADMIN_API_TOKEN as a bearer token.
+ * Admin routes are closed when no token is configured.
+ */
+export function requireAdminToken(req: Request, res: Response, next: NextFunction): void {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) {
+    res.status(503).json({
+      success: false,
+      error: 'ADMIN_UNAVAILABLE',
+      message: 'No admin API token is configured'
+    });
+    return;
+  }
+
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!token) {
+    res.status(401).json({
+      success: false,
+      error: 'UNAUTHORIZED',
+      message: 'An admin token is required as a bearer token'
+    });
+    return;
+  }
+
+  if (!crypto.timingSafeEqual(digest(token), digest(adminToken))) {
+    res.status(403).json({
+      success: false,
+      error: 'FORBIDDEN',
+      message: 'Invalid admin token'
+    });
+    return;
+  }
+
+  next();
+}
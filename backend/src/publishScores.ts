@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+import { initializeDatabase, closeDatabase } from './database/connection';
+import { ScorePublisher } from './services/scorePublisher';
+
+dotenv.config();
+
+/**
+ * Publish current credit scores to the ScoreRegistry contract.
+ *
+ *   npm run publish-scores -- root    publish the Merkle root of every current score (default)
+ *   npm run publish-scores -- batch   write scores updated since the last batch directly
+ */
+async function main(): Promise<void> {
+  const mode = process.argv[2] || 'root';
+  if (mode !== 'root' && mode !== 'batch') {
+    throw new Error(`Unknown publish mode "${mode}", expected root or batch`);
+  }
+
+  if (!ScorePublisher.canPublish()) {
+    throw new Error('Publishing needs SCORE_REGISTRY_ADDRESS, SCORE_PUBLISHER_PRIVATE_KEY and SCORE_REGISTRY_RPC_URL');
+  }
+
+  await initializeDatabase();
+  try {
+    if (mode === 'root') {
+      const publication = await ScorePublisher.publishMerkleRoot();
+      console.log(`Merkle root ${publication.merkleRoot} covers ${publication.scoreCount} scores`);
+    } else {
+      const publications = await ScorePublisher.publishScoreBatches();
+      const total = publications.reduce((sum, publication) => sum + publication.scoreCount, 0);
+      console.log(`Published ${total} scores in ${publications.length} transactions`);
+    }
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -199,6 +199,23 @@ export interface MatchingGroup {
   suspicionScore: number; // 0-100
 }
 
+export type AnomalyDetectorType = 'statistical' | 'wash_trading' | 'bot' | 'coordination';
+
+export const ANOMALY_DETECTOR_TYPES: AnomalyDetectorType[] = ['statistical', 'wash_trading', 'bot', 'coordination'];
+
+/**
+ * Anomaly summary attached to score responses. Anomalies flag a score for review
+ * rather than lowering it.
+ */
+export interface AnomalyFlag {
+  detectionId?: number;
+  overallAnomalyScore: number; // 0-100
+  confidence: number; // 0-100
+  requiresInvestigation: boolean;
+  detectors: AnomalyDetectorType[]; // detectors that found something
+  detectedAt: number;
+}
+
 /**
  * Advanced Anomaly Detection Engine
  * Implements sophisticated statistical analysis and pattern recognition
@@ -235,22 +252,35 @@ export class AnomalyDetectionEngine {
   /**
    * Perform comprehensive anomaly detection analysis
    * Requirement 2.1: Statistical anomaly detection for unusual transaction patterns
+   *
+   * Only the given detectors run; the others report nothing found, and the overall
+   * score and confidence cover the detectors that ran.
    */
   public static async detectAnomalies(
     address: string,
     metrics: UserMetrics,
-    transactionHistory: TransactionData[]
+    transactionHistory: TransactionData[],
+    detectors: AnomalyDetectorType[] = ANOMALY_DETECTOR_TYPES
   ): Promise<AnomalyDetectionResult> {
     
     if (!transactionHistory || transactionHistory.length < 3) {
       return this.createEmptyResult(address, 'Insufficient transaction history for anomaly detection');
     }
 
-    // Perform individual detection analyses
-    const statisticalAnomalies = await this.detectStatisticalAnomalies(transactionHistory);
-    const washTradingDetection = await this.detectWashTrading(transactionHistory);
-    const botBehaviorDetection = await this.detectBotBehavior(transactionHistory);
-    const coordinatedActivityDetection = await this.detectCoordinatedActivity(transactionHistory);
+    // Perform the requested detection analyses
+    const skipped = this.createEmptyResult(address, 'Detector not run');
+    const statisticalAnomalies = detectors.includes('statistical')
+      ? await this.detectStatisticalAnomalies(transactionHistory)
+      : skipped.statisticalAnomalies;
+    const washTradingDetection = detectors.includes('wash_trading')
+      ? await this.detectWashTrading(transactionHistory)
+      : skipped.washTradingDetection;
+    const botBehaviorDetection = detectors.includes('bot')
+      ? await this.detectBotBehavior(transactionHistory)
+      : skipped.botBehaviorDetection;
+    const coordinatedActivityDetection = detectors.includes('coordination')
+      ? await this.detectCoordinatedActivity(transactionHistory)
+      : skipped.coordinatedActivityDetection;
 
     // Calculate overall anomaly score
     const overallAnomalyScore = this.calculateOverallAnomalyScore({
@@ -303,6 +333,61 @@ export class AnomalyDetectionEngine {
     };
   }
 
+  /**
+   * Parse a comma-separated detector list, e.g. "wash_trading,bot", or several of them
+   * when the parameter is repeated. Throws on unknown detectors or an empty list.
+   */
+  public static parseDetectorTypes(value: string | string[]): AnomalyDetectorType[] {
+    const detectors = (Array.isArray(value) ? value : [value])
+      .flatMap(list => String(list).split(','))
+      .map(part => part.trim().toLowerCase())
+      .filter(Boolean);
+    const unknown = detectors.filter(detector => !ANOMALY_DETECTOR_TYPES.includes(detector as AnomalyDetectorType));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown anomaly detectors: ${unknown.join(', ')}. Expected ${ANOMALY_DETECTOR_TYPES.join(', ')}`);
+    }
+    if (detectors.length === 0) {
+      throw new Error(`No anomaly detectors given. Expected ${ANOMALY_DETECTOR_TYPES.join(', ')}`);
+    }
+    return Array.from(new Set(detectors)) as AnomalyDetectorType[];
+  }
+
+  /**
+   * Keep only the results of the requested detectors
+   */
+  public static filterByDetectors(
+    result: AnomalyDetectionResult,
+    detectors: AnomalyDetectorType[]
+  ): Partial<AnomalyDetectionResult> {
+    const filtered: Partial<AnomalyDetectionResult> = { ...result };
+    if (!detectors.includes('statistical')) delete filtered.statisticalAnomalies;
+    if (!detectors.includes('wash_trading')) delete filtered.washTradingDetection;
+    if (!detectors.includes('bot')) delete filtered.botBehaviorDetection;
+    if (!detectors.includes('coordination')) delete filtered.coordinatedActivityDetection;
+    return filtered;
+  }
+
+  /**
+   * Summarize a detection result as the flag attached to score responses
+   */
+  public static summarize(result: AnomalyDetectionResult & { id?: number }): AnomalyFlag {
+    const detected: { [detector in AnomalyDetectorType]: boolean } = {
+      statistical: !!result.flags.hasStatisticalAnomalies,
+      wash_trading: !!result.flags.hasWashTrading,
+      bot: !!result.flags.hasBotBehavior,
+      coordination: !!result.flags.hasCoordinatedActivity
+    };
+
+    return {
+      ...(result.id !== undefined && { detectionId: result.id }),
+      overallAnomalyScore: result.overallAnomalyScore,
+      confidence: result.confidence,
+      requiresInvestigation: !!result.flags.requiresInvestigation,
+      detectors: ANOMALY_DETECTOR_TYPES.filter(detector => detected[detector]),
+      detectedAt: result.timestamp
+    };
+  }
+
   /**
    * Detect statistical anomalies using multiple methods
    * Requirement 2.1: Statistical anomaly detection for unusual transaction patterns
@@ -0,0 +1,97 @@
+import { ethers, TypedDataDomain } from 'ethers';
+import dotenv from 'dotenv';
+import { CreditScore } from './scoreCalculator';
+import { MAINNET_CHAIN_ID } from './chainRegistry';
+import {
+  SCORE_ATTESTATION_TYPES,
+  ScoreAttestationMessage,
+  SignedScoreAttestation,
+  buildAttestationDomain
+} from './attestationVerifier';
+
+dotenv.config();
+
+/**
+ * Attestation Service
+ * Signs credit scores as EIP-712 typed data with the server key, so lenders can
+ * check a score came from CryptoScore without trusting the HTTP response.
+ *
+ * ATTESTATION_PRIVATE_KEY holds the signing key; attestations are unavailable
+ * without it. ATTESTATION_TTL_SECONDS sets how long an attestation is valid
+ * (default 24 hours), and ATTESTATION_CHAIN_ID / ATTESTATION_VERIFYING_CONTRACT
+ * set the EIP-712 domain.
+ */
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export class AttestationService {
+  private static signer: ethers.Wallet | null = null;
+
+  /**
+   * Whether a signing key is configured
+   */
+  static isConfigured(): boolean {
+    return !!process.env.ATTESTATION_PRIVATE_KEY;
+  }
+
+  /**
+   * Address of the server signing key, which integrators pin as the trusted signer
+   */
+  static getSignerAddress(): string {
+    return this.getSigner().address;
+  }
+
+  static getDomain(): TypedDataDomain {
+    const chainId = parseInt(process.env.ATTESTATION_CHAIN_ID || '', 10) || MAINNET_CHAIN_ID;
+    return buildAttestationDomain(chainId, process.env.ATTESTATION_VERIFYING_CONTRACT || undefined);
+  }
+
+  static getTtlSeconds(): number {
+    const ttl = parseInt(process.env.ATTESTATION_TTL_SECONDS || '', 10);
+    return ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+  }
+
+  /**
+   * Sign a calculated credit score
+   */
+  static async attest(creditScore: CreditScore): Promise<SignedScoreAttestation> {
+    try {
+      const signer = this.getSigner();
+      const domain = this.getDomain();
+      const message: ScoreAttestationMessage = {
+        address: ethers.getAddress(creditScore.address),
+        score: creditScore.score,
+        confidence: creditScore.confidence,
+        modelVersion: creditScore.modelVersion,
+        timestamp: creditScore.timestamp,
+        expiry: creditScore.timestamp + this.getTtlSeconds()
+      };
+
+      const signature = await signer.signTypedData(domain, SCORE_ATTESTATION_TYPES, message);
+
+      return {
+        domain,
+        types: SCORE_ATTESTATION_TYPES,
+        primaryType: 'ScoreAttestation',
+        message,
+        signature,
+        signer: signer.address
+      };
+    } catch (error) {
+      throw new Error(`Failed to sign score attestation: ${error}`);
+    }
+  }
+
+  private static getSigner(): ethers.Wallet {
+    if (!this.signer) {
+      const privateKey = process.env.ATTESTATION_PRIVATE_KEY;
+      if (!privateKey) {
+        throw new Error('ATTESTATION_PRIVATE_KEY is not configured');
+      }
+      this.signer = new ethers.Wallet(privateKey);
+    }
+    return this.signer;
+  }
+}
+
+export default AttestationService;
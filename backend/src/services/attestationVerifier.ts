@@ -0,0 +1,141 @@
+import { ethers, TypedDataDomain } from 'ethers';
+
+/**
+ * Score Attestation Verifier
+ * Checks signed score attestations offline. This module only depends on ethers
+ * so integrators can copy it into their own code base: pin the CryptoScore
+ * signer address and EIP-712 domain (GET /api/attestation/signer) and call
+ * verifyScoreAttestation with both.
+ */
+
+export const ATTESTATION_DOMAIN_NAME = 'CryptoScore';
+export const ATTESTATION_DOMAIN_VERSION = '1';
+
+export const SCORE_ATTESTATION_TYPES = {
+  ScoreAttestation: [
+    { name: 'address', type: 'address' },
+    { name: 'score', type: 'uint256' },
+    { name: 'confidence', type: 'uint256' },
+    { name: 'modelVersion', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' }
+  ]
+};
+
+export interface ScoreAttestationMessage {
+  address: string;
+  score: number; // 0-1000
+  confidence: number; // 0-100
+  modelVersion: string;
+  timestamp: number; // unix seconds the score was calculated
+  expiry: number; // unix seconds after which the attestation must not be accepted
+}
+
+export interface SignedScoreAttestation {
+  domain: TypedDataDomain;
+  types: typeof SCORE_ATTESTATION_TYPES;
+  primaryType: 'ScoreAttestation';
+  message: ScoreAttestationMessage;
+  signature: string;
+  signer: string;
+}
+
+export interface VerifyOptions {
+  trustedSigner: string; // the CryptoScore signer; attestations signed by any other key are rejected
+  domain: TypedDataDomain; // the pinned CryptoScore domain; signatures under any other domain are rejected
+  now?: number; // unix seconds, defaults to the current time
+}
+
+export interface AttestationVerification {
+  valid: boolean;
+  signer: string | null; // address recovered from the signature
+  expired: boolean;
+  reasons: string[];
+}
+
+/**
+ * Build the EIP-712 domain attestations are signed under
+ */
+export function buildAttestationDomain(chainId: number, verifyingContract?: string): TypedDataDomain {
+  return {
+    name: ATTESTATION_DOMAIN_NAME,
+    version: ATTESTATION_DOMAIN_VERSION,
+    chainId,
+    ...(verifyingContract && { verifyingContract })
+  };
+}
+
+/**
+ * EIP-712 digest of an attestation, as signed by the server
+ */
+export function hashScoreAttestation(domain: TypedDataDomain, message: ScoreAttestationMessage): string {
+  return ethers.TypedDataEncoder.hash(domain, SCORE_ATTESTATION_TYPES, message);
+}
+
+/**
+ * Verify a signed score attestation without contacting the API.
+ * The signature is checked under the expected domain, never the one the attestation carries.
+ */
+export function verifyScoreAttestation(
+  attestation: Pick<SignedScoreAttestation, 'message' | 'signature'> & { domain?: TypedDataDomain },
+  options: VerifyOptions
+): AttestationVerification {
+  const reasons: string[] = [];
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const { message } = attestation;
+
+  if (attestation.domain) {
+    reasons.push(...getDomainMismatches(attestation.domain, options.domain));
+  }
+
+  let signer: string | null = null;
+  try {
+    signer = ethers.verifyTypedData(options.domain, SCORE_ATTESTATION_TYPES, message, attestation.signature);
+  } catch (error) {
+    reasons.push(`Invalid signature: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (signer && signer.toLowerCase() !== options.trustedSigner.toLowerCase()) {
+    reasons.push(`Signed by ${signer}, not the trusted signer ${options.trustedSigner}`);
+  }
+
+  const expired = message.expiry <= now;
+  if (expired) {
+    reasons.push(`Attestation expired at ${message.expiry}`);
+  }
+
+  if (message.timestamp > message.expiry) {
+    reasons.push('Attestation timestamp is after its expiry');
+  }
+
+  return {
+    valid: reasons.length === 0,
+    signer,
+    expired,
+    reasons
+  };
+}
+
+/**
+ * Fields of an attestation's domain that differ from the expected domain
+ */
+function getDomainMismatches(domain: TypedDataDomain, expected: TypedDataDomain): string[] {
+  const normalize = (field: keyof TypedDataDomain, value: TypedDataDomain[keyof TypedDataDomain]): string | null => {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (field === 'chainId') {
+      try {
+        return BigInt(value as ethers.BigNumberish).toString();
+      } catch {
+        return String(value);
+      }
+    }
+    return field === 'verifyingContract' || field === 'salt' ? String(value).toLowerCase() : String(value);
+  };
+
+  const fields: (keyof TypedDataDomain)[] = ['name', 'version', 'chainId', 'verifyingContract', 'salt'];
+  return fields
+    .filter(field => normalize(field, domain[field]) !== normalize(field, expected[field]))
+    .map(field => `Domain ${field} is ${domain[field] ?? 'unset'}, expected ${expected[field] ?? 'unset'}`);
+}
@@ -0,0 +1,226 @@
+import { DatabaseService, BehavioralPattern } from './databaseService';
+import { BehavioralPatternEngine, BehavioralInsights } from './behavioralPatternEngine';
+import { UserMetrics, TransactionData } from './blockchainService';
+
+/**
+ * Behavioral Pattern Service
+ * Runs behavioral pattern analysis and keeps its results in behavioral_patterns,
+ * so changes between analyses and archetype transitions can be tracked over time.
+ *
+ * Each row covers a period with the same classification (archetype, sophistication,
+ * activity pattern, growth trend, diversification): re-analysis refreshes the active
+ * row, and a classification change supersedes it with a new row.
+ */
+
+export const BEHAVIORAL_ANALYSIS_PATTERN_TYPE = 'BEHAVIORAL_ANALYSIS';
+
+// Fields whose change starts a new behavioral period
+const CLASSIFICATION_FIELDS = [
+  'userArchetype',
+  'sophisticationLevel',
+  'activityPattern',
+  'growthTrend',
+  'diversificationLevel'
+] as const;
+
+export interface BehavioralSnapshot {
+  userArchetype: BehavioralInsights['userArchetype'];
+  sophisticationLevel: BehavioralInsights['sophisticationLevel'];
+  activityPattern: BehavioralInsights['activityPattern'];
+  growthTrend: BehavioralInsights['growthTrend']['trend'];
+  diversificationLevel: BehavioralInsights['diversificationLevel'];
+  consistencyScore: number; // 0-100
+  gasEfficiency: number; // 0-100
+  preferredProtocols: string[];
+  seasonalPatterns: number;
+  confidence: number; // 0-100
+}
+
+export interface BehavioralChange {
+  field: keyof BehavioralSnapshot;
+  previous: string | number;
+  current: string | number;
+  delta?: number; // numeric fields only
+  added?: string[]; // preferredProtocols only
+  removed?: string[];
+}
+
+export interface BehavioralTransition {
+  field: typeof CLASSIFICATION_FIELDS[number];
+  from: string;
+  to: string;
+  timestamp: number;
+}
+
+export interface BehavioralPeriod {
+  id: number;
+  snapshot: BehavioralSnapshot;
+  firstDetected: number;
+  lastUpdated: number;
+  status: 'ACTIVE' | 'SUPERSEDED';
+}
+
+export interface BehavioralAnalysis {
+  address: string;
+  analysisId: number;
+  insights: BehavioralInsights;
+  previousAnalysis: { analyzedAt: number; snapshot: BehavioralSnapshot } | null;
+  changes: BehavioralChange[];
+}
+
+export interface BehavioralHistory {
+  address: string;
+  periods: BehavioralPeriod[]; // oldest first
+  transitions: BehavioralTransition[]; // oldest first
+}
+
+export class BehavioralPatternService {
+
+  /**
+   * Analyze behavioral patterns and record the result, returning changes since the previous analysis
+   */
+  static async analyzeAndRecord(
+    address: string,
+    metrics: UserMetrics,
+    transactionHistory: TransactionData[]
+  ): Promise<BehavioralAnalysis> {
+    try {
+      const insights = await BehavioralPatternEngine.analyzeBehavioralPatterns(address, metrics, transactionHistory);
+      const snapshot = this.toSnapshot(insights);
+
+      const active = await this.getActivePattern(address);
+      const previous = active ? this.parsePatternData(active) : null;
+      const changes = previous ? this.compareSnapshots(this.toSnapshot(previous), snapshot) : [];
+      const patternData = JSON.stringify(insights);
+
+      let analysisId: number;
+      if (active && !changes.some(change => (CLASSIFICATION_FIELDS as readonly string[]).includes(change.field))) {
+        await DatabaseService.updateBehavioralPattern(active.id, {
+          patternData,
+          confidence: insights.confidence,
+          lastUpdated: insights.analysisTimestamp
+        });
+        analysisId = active.id;
+      } else {
+        if (active) {
+          await DatabaseService.updateBehavioralPattern(active.id, { status: 'SUPERSEDED' });
+        }
+        analysisId = await DatabaseService.saveBehavioralPattern({
+          address,
+          patternType: BEHAVIORAL_ANALYSIS_PATTERN_TYPE,
+          patternData,
+          confidence: insights.confidence,
+          firstDetected: insights.analysisTimestamp,
+          lastUpdated: insights.analysisTimestamp,
+          status: 'ACTIVE'
+        });
+      }
+
+      return {
+        address,
+        analysisId,
+        insights,
+        previousAnalysis: previous
+          ? { analyzedAt: previous.analysisTimestamp, snapshot: this.toSnapshot(previous) }
+          : null,
+        changes
+      };
+    } catch (error) {
+      throw new Error(`Failed to analyze behavioral patterns: ${error}`);
+    }
+  }
+
+  /**
+   * Recorded behavioral periods and the classification transitions between them
+   */
+  static async getHistory(address: string, limit: number = 20): Promise<BehavioralHistory> {
+    try {
+      const patterns = await DatabaseService.getBehavioralPatterns(address, BEHAVIORAL_ANALYSIS_PATTERN_TYPE);
+      const periods: BehavioralPeriod[] = patterns
+        .slice(0, limit)
+        .reverse()
+        .map(pattern => ({
+          id: pattern.id,
+          snapshot: this.toSnapshot(this.parsePatternData(pattern)),
+          firstDetected: pattern.firstDetected,
+          lastUpdated: pattern.lastUpdated,
+          status: pattern.status === 'ACTIVE' ? 'ACTIVE' : 'SUPERSEDED'
+        }));
+
+      const transitions: BehavioralTransition[] = [];
+      for (let i = 1; i < periods.length; i++) {
+        for (const field of CLASSIFICATION_FIELDS) {
+          const from = periods[i - 1].snapshot[field];
+          const to = periods[i].snapshot[field];
+          if (from !== to) {
+            transitions.push({ field, from, to, timestamp: periods[i].firstDetected });
+          }
+        }
+      }
+
+      return { address, periods, transitions };
+    } catch (error) {
+      throw new Error(`Failed to get behavioral history: ${error}`);
+    }
+  }
+
+  /**
+   * Differences between two snapshots, classification fields first
+   */
+  static compareSnapshots(previous: BehavioralSnapshot, current: BehavioralSnapshot): BehavioralChange[] {
+    const changes: BehavioralChange[] = [];
+
+    for (const field of CLASSIFICATION_FIELDS) {
+      if (previous[field] !== current[field]) {
+        changes.push({ field, previous: previous[field], current: current[field] });
+      }
+    }
+
+    for (const field of ['consistencyScore', 'gasEfficiency', 'seasonalPatterns', 'confidence'] as const) {
+      const delta = current[field] - previous[field];
+      if (delta !== 0) {
+        changes.push({ field, previous: previous[field], current: current[field], delta });
+      }
+    }
+
+    const added = current.preferredProtocols.filter(protocol => !previous.preferredProtocols.includes(protocol));
+    const removed = previous.preferredProtocols.filter(protocol => !current.preferredProtocols.includes(protocol));
+    if (added.length > 0 || removed.length > 0) {
+      changes.push({
+        field: 'preferredProtocols',
+        previous: previous.preferredProtocols.join(', '),
+        current: current.preferredProtocols.join(', '),
+        added,
+        removed
+      });
+    }
+
+    return changes;
+  }
+
+  static toSnapshot(insights: BehavioralInsights): BehavioralSnapshot {
+    return {
+      userArchetype: insights.userArchetype,
+      sophisticationLevel: insights.sophisticationLevel,
+      activityPattern: insights.activityPattern,
+      growthTrend: insights.growthTrend.trend,
+      diversificationLevel: insights.diversificationLevel,
+      consistencyScore: insights.consistencyScore,
+      gasEfficiency: insights.gasOptimization.overallEfficiencyScore,
+      preferredProtocols: insights.preferredProtocols.map(protocol => protocol.protocolName),
+      seasonalPatterns: insights.seasonalPatterns.length,
+      confidence: insights.confidence
+    };
+  }
+
+  private static async getActivePattern(address: string): Promise<BehavioralPattern | null> {
+    const patterns = await DatabaseService.getBehavioralPatterns(address, BEHAVIORAL_ANALYSIS_PATTERN_TYPE);
+    return patterns.find(pattern => pattern.status === 'ACTIVE') || null;
+  }
+
+  private static parsePatternData(pattern: BehavioralPattern): BehavioralInsights {
+    return JSON.parse(pattern.patternData);
+  }
+}
+
+export default BehavioralPatternService;
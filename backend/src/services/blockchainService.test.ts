@@ -0,0 +1,74 @@
+import path from 'path';
+import { BlockchainService } from './blockchainService';
+import { FixtureDataSource } from './fixtureDataSource';
+import { PriceService, ReferencePriceFeed } from './priceService';
+
+const FIXTURE_PATH = path.join(__dirname, '../../fixtures/wallet.json');
+const WALLET = '0x1111111111111111111111111111111111111111';
+
+describe('BlockchainService.getUserMetrics', () => {
+  let service: BlockchainService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    service = new BlockchainService(new FixtureDataSource(FIXTURE_PATH), null, new PriceService(new ReferencePriceFeed(2000)));
+  });
+
+  it('computes transaction metrics from the recorded wallet', async () => {
+    const metrics = await service.getUserMetrics(WALLET);
+
+    expect(metrics.chainId).toBe(1);
+    expect(metrics.totalTransactions).toBe(7);
+    expect(metrics.totalVolume).toBe('8');
+    expect(metrics.totalVolumeUsd).toBe('16000');
+    expect(metrics.firstTransactionDate).toBe(1690000000);
+    expect(metrics.lastTransactionDate).toBe(1702000000);
+    expect(metrics.defiProtocolsUsed).toEqual(['Aave V3 Pool', 'Compound Ceth']);
+    expect(metrics.unavailableMetrics).toBeUndefined();
+  });
+
+  it('values token transfers from Transfer logs', async () => {
+    const metrics = await service.getUserMetrics(WALLET);
+
+    expect(metrics.tokenTransferCount).toBe(1);
+    expect(metrics.tokenVolumes).toEqual([
+      expect.objectContaining({ tokenSymbol: 'USDC', transferCount: 1, outboundVolume: '250', inboundVolume: '0', usdVolume: '250' })
+    ]);
+    expect(metrics.tokenVolumeEth).toBe('0.125');
+  });
+
+  it('reconstructs lending history from protocol events', async () => {
+    const metrics = await service.getUserMetrics(WALLET);
+
+    expect(metrics.lendingHistory).toEqual(expect.objectContaining({
+      protocols: ['MAKER', 'AAVE_V3', 'COMPOUND_V2'],
+      borrowCount: 3,
+      repayCount: 2,
+      liquidationCount: 1,
+      totalBorrowedEth: '7.75',
+      totalRepaidEth: '5.25',
+      outstandingDebtEth: '0'
+    }));
+  });
+
+  it('reports lending and token metrics unavailable on a source without a log index', async () => {
+    const source = new FixtureDataSource(FIXTURE_PATH);
+    Object.defineProperty(source, 'indexesLogs', { value: false });
+    const getLogs = jest.spyOn(source, 'getLogs');
+    service = new BlockchainService(source, null, new PriceService(new ReferencePriceFeed(2000)));
+
+    const metrics = await service.getUserMetrics(WALLET);
+
+    expect(getLogs).not.toHaveBeenCalled();
+    expect(metrics.lendingHistory).toBeUndefined();
+    expect(metrics.unavailableMetrics).toEqual(expect.arrayContaining(['lendingHistory']));
+  });
+});
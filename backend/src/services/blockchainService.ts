@@ -1,68 +1,30 @@
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
-import axios from 'axios';
+import {
+  ChainDataSource,
+  ChainInternalCall,
+  ChainLog,
+  ChainTraceCall,
+  ChainTransaction,
+  createChainDataSourcesFromEnv
+} from './chainDataSource';
+import { RequestCache } from './requestUtils';
+import { PriceService, priceService as defaultPriceService } from './priceService';
+import { ChainRegistry, MAINNET_CHAIN_ID, SupportedChain } from './chainRegistry';
+import { TransactionStore } from './transactionStore';
+import { FunctionDecoder, DecodedCall } from './functionDecoder';
+import { ERC20_TRANSFER_TOPIC, TokenMetadata, TokenRegistry } from './tokenRegistry';
+import { LendingHistory, LendingHistoryService, LendingSummary } from './lendingHistory';
 
 dotenv.config();
 
-// Rate limiting and caching
-interface CacheEntry {
-  data: any;
-  timestamp: number;
-  ttl: number;
-}
-
-class RateLimiter {
-  private requests: number[] = [];
-  private maxRequests: number;
-  private windowMs: number;
-
-  constructor(maxRequests: number = 5, windowMs: number = 1000) {
-    this.maxRequests = maxRequests;
-    this.windowMs = windowMs;
-  }
-
-  async waitIfNeeded(): Promise<void> {
-    const now = Date.now();
-    this.requests = this.requests.filter(time => now - time < this.windowMs);
-    
-    if (this.requests.length >= this.maxRequests) {
-      const oldestRequest = Math.min(...this.requests);
-      const waitTime = this.windowMs - (now - oldestRequest);
-      if (waitTime > 0) {
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-      }
-    }
-    
-    this.requests.push(now);
-  }
-}
-
-class RequestCache {
-  private cache = new Map<string, CacheEntry>();
-  
-  get(key: string): any | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-    
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
-      return null;
-    }
-    
-    return entry.data;
-  }
-  
-  set(key: string, data: any, ttlMs: number = 300000): void { // 5 min default
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl: ttlMs
-    });
-  }
-  
-  clear(): void {
-    this.cache.clear();
-  }
+export interface InternalCall {
+  from: string;
+  to: string | null;
+  value: string; // in ETH
+  type: string; // call, delegatecall, staticcall, create, ...
+  depth: number;
+  isError?: boolean;
 }
 
 export interface TransactionData {
@@ -77,21 +39,75 @@ export interface TransactionData {
   isStaking?: boolean;
   isDeFi?: boolean;
   protocolName?: string;
+  internalCalls?: InternalCall[];
+  isInternal?: boolean; // the address was only reached through an internal call
+  chainId?: number; // mainnet when absent
+  decodedCall?: DecodedCall; // function called, when the input matches a bundled ABI
+}
+
+export interface TokenTransfer {
+  hash: string;
+  logIndex: number;
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  from: string;
+  to: string;
+  rawAmount: string; // smallest token unit
+  amount: string; // decimal-adjusted
+  timestamp: number;
+  blockNumber: number;
+  chainId?: number;
+}
+
+export interface TokenVolume {
+  tokenAddress: string;
+  tokenSymbol: string;
+  transferCount: number;
+  inboundVolume: string; // decimal-adjusted token units
+  outboundVolume: string;
+  totalVolume: string;
+  ethEquivalentVolume?: string; // only for priced or pegged tokens
+  usdVolume?: string; // only for priced tokens
+  chainId?: number;
+}
+
+export interface TokenTransferValuation {
+  usd: number | null;
+  eth: number | null;
+}
+
+export interface IndexedTransactionHistory {
+  transactions: TransactionData[];
+  lastBlock: number; // transactions up to and including this block are indexed
+  complete: boolean; // false when later transactions remain to be indexed
 }
 
 export interface UserMetrics {
+  chainId?: number; // mainnet when absent, AGGREGATE_CHAIN_ID for cross-chain metrics
+  chains?: number[]; // chains merged into cross-chain metrics
   totalTransactions: number;
-  totalVolume: string; // in ETH
+  totalVolume: string; // in ETH (ETH-equivalent on chains with another native asset)
+  nativeVolume?: string; // in the chain's native asset, when it is not ETH
   avgTransactionValue: string;
   stakingBalance: string;
   defiProtocolsUsed: string[];
   accountAge: number; // days
   firstTransactionDate: number;
   lastTransactionDate: number;
+  tokenTransferCount?: number;
+  tokenVolumes?: TokenVolume[];
+  tokenVolumeEth?: string; // ETH-equivalent volume of priced tokens
+  // USD-denominated figures, valued at each transaction's block timestamp
+  totalVolumeUsd?: string;
+  stakingBalanceUsd?: string; // valued at the current price
+  tokenVolumeUsd?: string;
+  lendingHistory?: LendingSummary; // absent when the lending markets could not be read
+  unavailableMetrics?: string[]; // metrics that could not be priced, omitted or counted as zero
 }
 
 // Known DeFi protocol addresses (mainnet)
-const DEFI_PROTOCOLS = {
+const DEFI_PROTOCOLS: { [key: string]: string } = {
   // Uniswap
   'uniswap_v2_router': '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
   'uniswap_v3_router': '0xE592427A0AEce92De3Edee1F18E0157C05861564',
@@ -124,131 +140,296 @@ const DEFI_PROTOCOLS = {
   'oneinch_v5_router': '0x1111111254EEB25477B68fb85Ed929f73A960582',
 };
 
+// Known DeFi protocol addresses per chain
+const DEFI_PROTOCOLS_BY_CHAIN: { [chainId: number]: { [key: string]: string } } = {
+  [MAINNET_CHAIN_ID]: DEFI_PROTOCOLS,
+
+  // Arbitrum One
+  42161: {
+    'uniswap_v3_router': '0xE592427A0AEce92De3Edee1F18E0157C05861564',
+    'uniswap_v3_router2': '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+    'aave_v3_pool': '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+    'sushiswap_router': '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
+    'balancer_v2_vault': '0xBA12222222228d8Ba445958a75a0704d566BF2C8',
+    'gmx_router': '0xaBBc5F99639c9B6bCb58544ddf04EFA6802F4064',
+    'oneinch_v5_router': '0x1111111254EEB25477B68fb85Ed929f73A960582',
+  },
+
+  // OP Mainnet
+  10: {
+    'uniswap_v3_router': '0xE592427A0AEce92De3Edee1F18E0157C05861564',
+    'uniswap_v3_router2': '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+    'aave_v3_pool': '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+    'velodrome_v2_router': '0xa062aE8A9c5e11aaA026fc2670B0D65cCc8B2858',
+    'balancer_v2_vault': '0xBA12222222228d8Ba445958a75a0704d566BF2C8',
+    'oneinch_v5_router': '0x1111111254EEB25477B68fb85Ed929f73A960582',
+  },
+
+  // Base
+  8453: {
+    'uniswap_v3_router2': '0x2626664c2603336E57B271c5C0b26F421741e481',
+    'aave_v3_pool': '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5',
+    'aerodrome_router': '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43',
+    'balancer_v2_vault': '0xBA12222222228d8Ba445958a75a0704d566BF2C8',
+    'oneinch_v5_router': '0x1111111254EEB25477B68fb85Ed929f73A960582',
+  },
+
+  // Polygon PoS
+  137: {
+    'uniswap_v3_router': '0xE592427A0AEce92De3Edee1F18E0157C05861564',
+    'uniswap_v3_router2': '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+    'aave_v3_pool': '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+    'quickswap_router': '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff',
+    'sushiswap_router': '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
+    'balancer_v2_vault': '0xBA12222222228d8Ba445958a75a0704d566BF2C8',
+    'oneinch_v5_router': '0x1111111254EEB25477B68fb85Ed929f73A960582',
+  },
+};
+
 // ETH 2.0 Staking Contract
 const ETH2_DEPOSIT_CONTRACT = '0x00000000219ab540356cBB839Cbe05303d7705Fa';
 
-class BlockchainService {
-  private provider: ethers.JsonRpcProvider;
-  private fallbackProvider: ethers.JsonRpcProvider | null = null;
-  private rateLimiter = new RateLimiter(3, 1000); // 3 requests per second
+// Tracing is one request per transaction, so only the most recent contract calls are traced
+const MAX_TRACED_TRANSACTIONS = 50;
+
+// Pages of transactions one sync fetches at most, so indexing a busy wallet spans several syncs
+const MAX_SYNC_PAGES = 20;
+
+// Syncs getIndexedTransactionHistory runs at most to index a wallet's full history
+const MAX_HISTORY_SYNCS = 10;
+
+export class BlockchainService {
+  private dataSource: ChainDataSource;
+  private fallbackDataSource: ChainDataSource | null;
+  private priceService: PriceService;
+  private chain: SupportedChain;
+  private lendingHistoryService: LendingHistoryService;
   private cache = new RequestCache();
-  private etherscanRateLimiter = new RateLimiter(5, 1000); // 5 requests per second for Etherscan
-  
-  // Circuit breaker state
-  private providerFailures = 0;
-  private maxFailures = 3;
-  private circuitBreakerTimeout = 60000; // 1 minute
-  private lastFailureTime = 0;
+  private syncsInFlight = new Map<string, Promise<IndexedTransactionHistory>>();
 
-  constructor() {
-    const rpcUrl = process.env.ETHEREUM_RPC_URL || process.env.MAINNET_RPC_URL;
-    if (!rpcUrl) {
-      throw new Error('No Ethereum RPC URL configured');
+  constructor(
+    dataSource?: ChainDataSource,
+    fallbackDataSource?: ChainDataSource | null,
+    priceService: PriceService = defaultPriceService,
+    chainId: number = MAINNET_CHAIN_ID
+  ) {
+    const chain = ChainRegistry.getChain(chainId);
+    if (!chain) {
+      throw new Error(`Unsupported chain: ${chainId}`);
     }
 
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
-    
-    // Set up fallback provider if available
-    const fallbackUrl = process.env.INFURA_API_KEY 
-      ? `https://mainnet.infura.io/v3/${process.env.INFURA_API_KEY}`
-      : null;
-    
-    if (fallbackUrl && fallbackUrl !== rpcUrl) {
-      this.fallbackProvider = new ethers.JsonRpcProvider(fallbackUrl);
+    this.chain = chain;
+    this.priceService = priceService;
+    this.lendingHistoryService = new LendingHistoryService(chainId, priceService);
+
+    if (dataSource) {
+      this.dataSource = dataSource;
+      this.fallbackDataSource = fallbackDataSource ?? null;
+    } else {
+      const sources = createChainDataSourcesFromEnv(chainId);
+      this.dataSource = sources.primary;
+      this.fallbackDataSource = sources.fallback;
     }
   }
 
   /**
-   * Get the current provider, with fallback logic and circuit breaker
+   * Get the chain this service reads
    */
-  private async getProvider(): Promise<ethers.JsonRpcProvider> {
-    // Check circuit breaker
-    if (this.providerFailures >= this.maxFailures) {
-      const timeSinceLastFailure = Date.now() - this.lastFailureTime;
-      if (timeSinceLastFailure < this.circuitBreakerTimeout) {
-        throw new Error(`Circuit breaker open. Retrying in ${Math.ceil((this.circuitBreakerTimeout - timeSinceLastFailure) / 1000)} seconds`);
-      } else {
-        // Reset circuit breaker
-        this.providerFailures = 0;
+  getChainId(): number {
+    return this.chain.chainId;
+  }
+
+  /**
+   * Get the data source used for chain reads
+   */
+  getDataSource(): ChainDataSource {
+    return this.dataSource;
+  }
+
+  /**
+   * Convert a raw data source transaction into scoring transaction data.
+   * Protocols reached through internal calls count the same as direct interactions.
+   */
+  private toTransactionData(tx: ChainTransaction, internalCalls: InternalCall[] = []): TransactionData {
+    const decodedCall = FunctionDecoder.decode(tx.input, tx.to, this.chain.chainId);
+
+    return {
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to,
+      value: ethers.formatEther(tx.value),
+      gasPrice: ethers.formatUnits(tx.gasPrice || '0', 'gwei'),
+      gasUsed: tx.gasUsed || '0',
+      timestamp: tx.timestamp,
+      blockNumber: tx.blockNumber,
+      ...this.classifyTargets(tx.to, internalCalls),
+      ...(internalCalls.length > 0 && { internalCalls }),
+      ...(decodedCall && { decodedCall }),
+      chainId: this.chain.chainId
+    };
+  }
+
+  /**
+   * Staking, DeFi and protocol attribution from the transaction target and its internal calls
+   */
+  private classifyTargets(
+    to: string | null,
+    internalCalls: InternalCall[]
+  ): Pick<TransactionData, 'isStaking' | 'isDeFi' | 'protocolName'> {
+    const targets = [to, ...internalCalls.filter(call => !call.isError).map(call => call.to)];
+
+    return {
+      isStaking: targets.some(target => this.isStakingTransactionByAddress(target)),
+      isDeFi: targets.some(target => this.isDeFiTransactionByAddress(target)),
+      protocolName: targets.map(target => this.getProtocolName(target)).find(name => name !== undefined)
+    };
+  }
+
+  private toInternalCall(call: ChainTraceCall): InternalCall {
+    return {
+      from: call.from,
+      to: call.to,
+      value: ethers.formatEther(call.value || '0'),
+      type: call.type,
+      depth: call.depth,
+      ...(call.isError && { isError: true })
+    };
+  }
+
+  /**
+   * Attach internal calls to transactions, from the explorer's internal transaction index
+   * and from call traces of recent contract interactions. Internal transactions whose
+   * parent transaction was not sent or received by the address (smart-contract wallets,
+   * relayed calls, contract payouts) are added as internal-only transactions.
+   *
+   * With a block window, as when syncing the index, every internal transaction in the window
+   * is fetched and a failure is thrown, so the window is not indexed without them. Without one,
+   * the most recent internal transactions are attached when they can be fetched.
+   */
+  private async ingestInternalCalls(
+    address: string,
+    transactions: ChainTransaction[],
+    maxTransactions: number,
+    window?: { startBlock: number; endBlock?: number }
+  ): Promise<TransactionData[]> {
+    const lowerAddress = address.toLowerCase();
+    const callsByHash = new Map<string, ChainInternalCall[]>();
+
+    let internalTxs: ChainInternalCall[] = [];
+    if (window) {
+      internalTxs = await this.fetchInternalCallPages(address, window.startBlock, window.endBlock, maxTransactions);
+    } else {
+      try {
+        internalTxs = await this.retryWithBackoff(async () => {
+          return await this.dataSource.getInternalTransactions(address, { sort: 'desc', limit: maxTransactions });
+        });
+      } catch (error) {
+        console.warn(`Could not fetch internal transactions for ${address}:`, error);
       }
     }
+    for (const call of internalTxs) {
+      const hash = call.hash.toLowerCase();
+      callsByHash.set(hash, [...(callsByHash.get(hash) || []), call]);
+    }
 
-    await this.rateLimiter.waitIfNeeded();
+    // Traces are a superset of indexed internal transactions, so they replace them
+    const traces = new Map<string, InternalCall[]>();
+    const contractCalls = transactions
+      .filter(tx => tx.input && tx.input !== '0x')
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, MAX_TRACED_TRANSACTIONS);
+
+    for (const source of [this.dataSource, this.fallbackDataSource]) {
+      if (!source) continue;
+
+      let supported = true;
+      for (const tx of contractCalls) {
+        if (traces.has(tx.hash.toLowerCase())) continue;
 
-    try {
-      // Test the primary provider
-      await this.provider.getBlockNumber();
-      this.providerFailures = 0; // Reset on success
-      return this.provider;
-    } catch (error) {
-      console.warn('Primary provider failed, trying fallback:', error);
-      this.providerFailures++;
-      this.lastFailureTime = Date.now();
-      
-      if (this.fallbackProvider) {
         try {
-          await this.fallbackProvider.getBlockNumber();
-          return this.fallbackProvider;
-        } catch (fallbackError) {
-          console.error('Fallback provider also failed:', fallbackError);
-          this.providerFailures++;
+          const trace = await source.traceTransaction(tx.hash);
+          if (trace === null) {
+            supported = false;
+            break;
+          }
+          traces.set(tx.hash.toLowerCase(), trace.map(call => this.toInternalCall(call)));
+        } catch (error) {
+          console.warn(`Could not trace transaction ${tx.hash} via ${source.kind}:`, error);
         }
       }
-      
-      throw new Error('All RPC providers are unavailable');
-    }
-  }
 
-  /**
-   * Fetch transaction history using Etherscan API (more efficient than block scanning)
-   */
-  private async fetchTransactionsFromEtherscan(address: string, page: number = 1, offset: number = 100, sort: string = 'desc'): Promise<any[]> {
-    const cacheKey = `etherscan_txs_${address}_${page}_${offset}`;
-    const cached = this.cache.get(cacheKey);
-    if (cached) {
-      return cached;
+      if (supported) break;
     }
 
-    const etherscanApiKey = process.env.ETHERSCAN_API_KEY;
-    if (!etherscanApiKey) {
-      throw new Error('Etherscan API key not configured');
+    const result = transactions.map(tx => {
+      const hash = tx.hash.toLowerCase();
+      const calls = traces.get(hash) || (callsByHash.get(hash) || []).map(call => this.toInternalCall(call));
+      return this.toTransactionData(tx, calls);
+    });
+
+    const knownHashes = new Set(transactions.map(tx => tx.hash.toLowerCase()));
+    for (const [hash, calls] of callsByHash.entries()) {
+      if (knownHashes.has(hash)) continue;
+
+      // ETH moved to or from the address by this transaction's internal calls
+      const value = calls.reduce((sum, call) => {
+        const touchesAddress = call.from.toLowerCase() === lowerAddress || call.to?.toLowerCase() === lowerAddress;
+        return touchesAddress && !call.isError ? sum + BigInt(call.value || '0') : sum;
+      }, 0n);
+
+      const first = calls[0];
+      const internalTx = this.toTransactionData({
+        hash: first.hash,
+        from: first.from,
+        to: first.to,
+        value: value.toString(),
+        gasPrice: '0',
+        gasUsed: '0',
+        timestamp: first.timestamp,
+        blockNumber: first.blockNumber
+      }, calls.map(call => this.toInternalCall(call)));
+
+      result.push({ ...internalTx, isInternal: true });
     }
 
-    await this.etherscanRateLimiter.waitIfNeeded();
+    console.log(`Ingested internal calls for ${address}: ${callsByHash.size} indexed, ${traces.size} traced`);
+    return result;
+  }
 
-    try {
-      const response = await axios.get('https://api.etherscan.io/api', {
-        params: {
-          module: 'account',
-          action: 'txlist',
-          address: address,
-          startblock: 0,
-          endblock: 99999999,
-          page: page,
-          offset: offset,
-          sort: sort,
-          apikey: etherscanApiKey
-        },
-        timeout: 10000
-      });
+  /**
+   * Fetch the internal transactions of an address from startBlock to endBlock (the latest block
+   * when unset) in ascending pages. Internal calls have no unique key, so a full page is cut
+   * before its last block and the next page starts at that block again.
+   */
+  private async fetchInternalCallPages(
+    address: string,
+    startBlock: number,
+    endBlock: number | undefined,
+    pageSize: number
+  ): Promise<ChainInternalCall[]> {
+    const calls: ChainInternalCall[] = [];
+    let fromBlock = startBlock;
 
-      if (response.data.status !== '1') {
-        // Handle "No transactions found" as a valid empty result
-        if (response.data.message === 'No transactions found') {
-          const emptyResult: any[] = [];
-          this.cache.set(cacheKey, emptyResult, 300000); // Cache for 5 minutes
-          return emptyResult;
-        }
-        throw new Error(`Etherscan API error: ${response.data.message}`);
+    while (endBlock === undefined || fromBlock <= endBlock) {
+      const batch = await this.retryWithBackoff(async () => {
+        return await this.dataSource.getInternalTransactions(address, { sort: 'asc', limit: pageSize, startBlock: fromBlock, endBlock });
+      });
+      if (batch.length < pageSize) {
+        calls.push(...batch);
+        break;
       }
 
-      const transactions = response.data.result || [];
-      this.cache.set(cacheKey, transactions, 300000); // Cache for 5 minutes
-      return transactions;
-    } catch (error) {
-      console.error('Etherscan API error:', error);
-      throw error;
+      const lastBlock = batch.reduce((max, call) => Math.max(max, call.blockNumber), fromBlock);
+      if (lastBlock === fromBlock) {
+        console.warn(`Block ${lastBlock} holds more than ${pageSize} internal transactions of ${address}, keeping the first page`);
+        calls.push(...batch);
+      } else {
+        calls.push(...batch.filter(call => call.blockNumber < lastBlock));
+      }
+      fromBlock = lastBlock === fromBlock ? lastBlock + 1 : lastBlock;
     }
+
+    return calls;
   }
 
   /**
@@ -281,10 +462,16 @@ class BlockchainService {
   }
 
   /**
-   * Fetch transaction history for a given address (optimized with Etherscan API)
+   * Fetch transaction history for a given address from the configured data source.
+   *
+   * Once the database is initialized, history is served from the local transaction
+   * index: each call fetches the transactions after the last indexed block (from
+   * the first block on the first call) in ascending pages, and the full indexed
+   * history is returned. maxTransactions then bounds each page rather than the result.
    */
   async fetchTransactionHistory(address: string, maxTransactions: number = 1000): Promise<TransactionData[]> {
-    const cacheKey = `tx_history_${address}_${maxTransactions}`;
+    const indexed = TransactionStore.isAvailable();
+    const cacheKey = indexed ? `tx_index_${address.toLowerCase()}` : `tx_history_${address}_${maxTransactions}`;
     const cached = this.cache.get(cacheKey);
     if (cached) {
       console.log(`Using cached transaction history for ${address}`);
@@ -292,57 +479,29 @@ class BlockchainService {
     }
 
     try {
-      console.log(`Fetching transaction history for address: ${address}`);
+      console.log(`Fetching transaction history for address: ${address} (source: ${this.dataSource.kind})`);
       
-      // Try Etherscan API first (much more efficient)
       try {
-        // IMPROVED: Fetch both oldest and newest transactions for proper account age calculation
-        const [oldestTxs, newestTxs] = await Promise.all([
-          // Get oldest transactions (for account age)
-          this.retryWithBackoff(async () => {
-            return await this.fetchTransactionsFromEtherscan(address, 1, Math.min(100, maxTransactions), 'asc');
-          }),
-          // Get newest transactions (for recent activity analysis)
-          this.retryWithBackoff(async () => {
-            return await this.fetchTransactionsFromEtherscan(address, 1, Math.min(maxTransactions - 100, 900), 'desc');
-          })
-        ]);
-
-        // Combine and deduplicate transactions
-        const allTxs = [...oldestTxs, ...newestTxs];
-        const etherscanTxs = allTxs.filter((tx, index, self) => 
-          index === self.findIndex(t => t.hash === tx.hash)
-        );
+        const transactions = indexed
+          ? (await this.syncTransactionHistory(address, maxTransactions)).transactions
+          : await this.fetchTransactionWindow(address, maxTransactions);
 
-        const transactions: TransactionData[] = [];
-        
-        for (const tx of etherscanTxs.slice(0, maxTransactions)) {
-          const txData: TransactionData = {
-            hash: tx.hash,
-            from: tx.from,
-            to: tx.to,
-            value: ethers.formatEther(tx.value),
-            gasPrice: ethers.formatUnits(tx.gasPrice || '0', 'gwei'),
-            gasUsed: tx.gasUsed || '0',
-            timestamp: parseInt(tx.timeStamp),
-            blockNumber: parseInt(tx.blockNumber),
-            isStaking: this.isStakingTransactionByAddress(tx.to),
-            isDeFi: this.isDeFiTransactionByAddress(tx.to),
-            protocolName: this.getProtocolName(tx.to)
-          };
-          
-          transactions.push(txData);
-        }
-        
-        console.log(`Found ${transactions.length} transactions via Etherscan for address ${address} (${oldestTxs.length} oldest + ${newestTxs.length} newest)`);
         this.cache.set(cacheKey, transactions, 300000); // Cache for 5 minutes
         return transactions;
         
-      } catch (etherscanError) {
-        console.warn('Etherscan API failed, falling back to RPC scanning:', etherscanError);
+      } catch (primaryError) {
+        if (!this.fallbackDataSource) {
+          throw primaryError;
+        }
+
+        console.warn(`${this.dataSource.kind} data source failed, falling back to ${this.fallbackDataSource.kind}:`, primaryError);
         
-        // Fallback to limited RPC scanning (much smaller range)
-        return await this.fetchTransactionHistoryRPC(address, Math.min(maxTransactions, 100));
+        // Fallback to limited scanning (much smaller range)
+        const fallbackTxs = await this.fallbackDataSource.getTransactions(address, {
+          sort: 'desc',
+          limit: Math.min(maxTransactions, 100)
+        });
+        return fallbackTxs.map(tx => this.toTransactionData(tx));
       }
       
     } catch (error) {
@@ -352,75 +511,424 @@ class BlockchainService {
   }
 
   /**
-   * Fallback RPC-based transaction fetching (limited scope)
+   * Fetch the oldest and newest transactions of an address from the primary data source
    */
-  private async fetchTransactionHistoryRPC(address: string, maxTransactions: number): Promise<TransactionData[]> {
-    const provider = await this.getProvider();
-    const transactions: TransactionData[] = [];
-    
-    // Get current block number
-    const currentBlock = await provider.getBlockNumber();
-    const blocksToScan = Math.min(1000, currentBlock); // Only scan last 1000 blocks
-    const startBlock = Math.max(0, currentBlock - blocksToScan);
-    
-    console.log(`RPC fallback: Scanning blocks ${startBlock} to ${currentBlock} for address ${address}`);
-    
-    let transactionCount = 0;
+  private async fetchTransactionWindow(address: string, maxTransactions: number): Promise<TransactionData[]> {
+    // IMPROVED: Fetch both oldest and newest transactions for proper account age calculation
+    const [oldestTxs, newestTxs] = await Promise.all([
+      // Get oldest transactions (for account age)
+      this.retryWithBackoff(async () => {
+        return await this.dataSource.getTransactions(address, { sort: 'asc', limit: Math.min(100, maxTransactions) });
+      }),
+      // Get newest transactions (for recent activity analysis)
+      this.retryWithBackoff(async () => {
+        return await this.dataSource.getTransactions(address, { sort: 'desc', limit: Math.min(maxTransactions - 100, 900) });
+      })
+    ]);
+
+    // Combine and deduplicate transactions
+    const allTxs = [...oldestTxs, ...newestTxs];
+    const uniqueTxs = allTxs.filter((tx, index, self) => 
+      index === self.findIndex(t => t.hash === tx.hash)
+    );
+
+    const transactions = await this.ingestInternalCalls(
+      address,
+      uniqueTxs.slice(0, maxTransactions),
+      maxTransactions
+    );
     
-    // Scan in smaller batches with delays
-    for (let i = currentBlock; i >= startBlock && transactionCount < maxTransactions; i -= 100) {
-      const endBlock = Math.max(startBlock, i - 99);
-      
+    console.log(`Found ${transactions.length} transactions via ${this.dataSource.kind} for address ${address} (${oldestTxs.length} oldest + ${newestTxs.length} newest)`);
+    return transactions;
+  }
+
+  /**
+   * Full indexed history of an address, syncing the index until it reaches the wallet's latest
+   * transaction or the sync budget runs out. Requires an initialized database.
+   */
+  async getIndexedTransactionHistory(address: string): Promise<IndexedTransactionHistory> {
+    if (!TransactionStore.isAvailable()) {
+      throw new Error('Transaction index is not available before the database is initialized');
+    }
+
+    let history = await this.syncTransactionHistory(address, 1000);
+    for (let sync = 1; sync < MAX_HISTORY_SYNCS && !history.complete; sync++) {
+      const previousBlock = history.lastBlock;
+      history = await this.syncTransactionHistory(address, 1000);
+      if (history.lastBlock === previousBlock) {
+        break; // the sync failed and served the index as it was
+      }
+    }
+    return history;
+  }
+
+  /**
+   * Bring the local transaction index of an address up to date and return its full history.
+   * Concurrent calls for the same address share one sync.
+   */
+  private async syncTransactionHistory(address: string, maxTransactions: number): Promise<IndexedTransactionHistory> {
+    const key = address.toLowerCase();
+    const inFlight = this.syncsInFlight.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const sync = this.runTransactionSync(address, maxTransactions).finally(() => {
+      this.syncsInFlight.delete(key);
+    });
+    this.syncsInFlight.set(key, sync);
+    return sync;
+  }
+
+  private async runTransactionSync(address: string, maxTransactions: number): Promise<IndexedTransactionHistory> {
+    const chainId = this.chain.chainId;
+    const state = await TransactionStore.getSyncState(address, chainId);
+    let lastIndexedBlock = state ? state.lastBlock : 0;
+    let indexedToLatest = false;
+
+    try {
+      const startBlock = state ? state.lastBlock + 1 : 0;
+      const { transactions: fetched, lastBlock: lastFetchedBlock, complete } = await this.fetchTransactionPages(address, startBlock, maxTransactions);
+
+      // Internal transactions cover the same blocks as the fetched pages, through the latest block
+      // once every transaction is fetched. If they cannot be fetched the sync fails, so the blocks
+      // are fetched again next time rather than indexed without them.
+      const transactions = await this.ingestInternalCalls(address, fetched, maxTransactions, {
+        startBlock,
+        endBlock: complete ? undefined : lastFetchedBlock
+      });
+      const lastBlock = transactions.reduce((max, tx) => Math.max(max, tx.blockNumber), lastFetchedBlock);
+
+      await TransactionStore.saveTransactions(address, chainId, transactions, lastBlock);
+      lastIndexedBlock = lastBlock;
+      indexedToLatest = complete;
+      console.log(`Synced ${transactions.length} transactions for ${address} from block ${startBlock}` +
+        (complete ? '' : `, more remain after block ${lastBlock}`));
+    } catch (error) {
+      if (!state) {
+        throw error;
+      }
+      console.warn(`Could not sync transactions for ${address}, using ${state.transactionCount} indexed transactions:`, error);
+    }
+
+    // Classification is recomputed so protocol list updates apply to indexed history
+    const indexed = await TransactionStore.getTransactions(address, chainId);
+    return {
+      transactions: indexed.map(tx => ({
+        ...tx,
+        ...this.classifyTargets(tx.to, tx.internalCalls || []),
+        chainId
+      })),
+      lastBlock: lastIndexedBlock,
+      complete: indexedToLatest
+    };
+  }
+
+  /**
+   * Fetch the transactions of an address from startBlock on in ascending pages, until a short
+   * page or the page budget of a sync runs out. Every transaction up to lastBlock is fetched;
+   * complete is false when later blocks remain for the next sync.
+   */
+  private async fetchTransactionPages(
+    address: string,
+    startBlock: number,
+    pageSize: number
+  ): Promise<{ transactions: ChainTransaction[]; lastBlock: number; complete: boolean }> {
+    const byHash = new Map<string, ChainTransaction>();
+    let fromBlock = startBlock;
+    let lastBlock = Math.max(0, startBlock - 1);
+
+    for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+      const batch = await this.retryWithBackoff(async () => {
+        return await this.dataSource.getTransactions(address, { sort: 'asc', limit: pageSize, startBlock: fromBlock });
+      });
+      for (const tx of batch) {
+        byHash.set(tx.hash.toLowerCase(), tx);
+      }
+
+      const lastFetchedBlock = Math.max(lastBlock, ...batch.map(tx => tx.blockNumber));
+      if (batch.length < pageSize) {
+        return { transactions: [...byHash.values()], lastBlock: lastFetchedBlock, complete: true };
+      }
+
+      // A full page may end partway through a block, so the next page starts at that block again,
+      // unless the whole page is that one block
+      lastBlock = lastFetchedBlock > fromBlock ? lastFetchedBlock - 1 : lastFetchedBlock;
+      fromBlock = lastBlock + 1;
+    }
+
+    return { transactions: [...byHash.values()], lastBlock, complete: false };
+  }
+
+  /**
+   * Fetch ERC-20 Transfer events sent or received by an address, from the source's token
+   * transfer index when it has one, otherwise from Transfer logs queried from the wallet's first
+   * transaction on. Logs are only queried from sources with a log index, since over plain RPC a
+   * wallet's history takes one request per block range. Throws when neither data source can
+   * provide them, which leaves token volume unavailable.
+   */
+  async fetchTokenTransfers(
+    address: string,
+    maxTransfers: number = 1000,
+    transactions?: TransactionData[]
+  ): Promise<TokenTransfer[]> {
+    const cacheKey = `token_transfers_${address}_${maxTransfers}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      console.log(`Using cached token transfers for ${address}`);
+      return cached;
+    }
+
+    const paddedAddress = ethers.zeroPadValue(address.toLowerCase(), 32);
+    const fetchLogs = async (source: ChainDataSource): Promise<ChainLog[]> => {
+      const indexed = await this.retryWithBackoff(async () => {
+        return await source.getTokenTransfers(address, { sort: 'desc', limit: maxTransfers });
+      });
+      if (indexed !== null) {
+        return indexed;
+      }
+      if (!source.indexesLogs) {
+        throw new Error(`The ${source.kind} data source has neither a token transfer nor a log index`);
+      }
+
+      // Transfers are looked for from the wallet's first transaction on, which bounds the log queries
+      const history = transactions ?? await this.fetchTransactionHistory(address, 1000);
+      const fromBlock = history.length > 0 ? history.reduce((min, tx) => Math.min(min, tx.blockNumber), Infinity) : 0;
+
+      const [outgoing, incoming] = await Promise.all([
+        this.retryWithBackoff(async () => {
+          return await source.getLogs({ topics: [ERC20_TRANSFER_TOPIC, paddedAddress], fromBlock });
+        }),
+        this.retryWithBackoff(async () => {
+          return await source.getLogs({ topics: [ERC20_TRANSFER_TOPIC, null, paddedAddress], fromBlock });
+        })
+      ]);
+      return [...outgoing, ...incoming];
+    };
+
+    let logs: ChainLog[];
+    let source = this.dataSource;
+
+    try {
+      logs = await fetchLogs(source);
+    } catch (primaryError) {
+      if (!this.fallbackDataSource) {
+        throw new Error(`Failed to fetch token transfers: ${primaryError}`);
+      }
+
+      console.warn(`${this.dataSource.kind} data source failed for token transfers, falling back to ${this.fallbackDataSource.kind}:`, primaryError);
+      source = this.fallbackDataSource;
       try {
-        await this.rateLimiter.waitIfNeeded();
-        
-        // Get blocks one by one to avoid overwhelming the API
-        for (let blockNum = i; blockNum >= endBlock && transactionCount < maxTransactions; blockNum--) {
-          try {
-            const block = await provider.getBlock(blockNum, true);
-            if (!block || !block.transactions) continue;
-            
-            for (const tx of block.transactions) {
-              if (typeof tx === 'string') continue;
-              
-              const transaction = tx as ethers.TransactionResponse;
-              
-              if (transaction.from?.toLowerCase() === address.toLowerCase() || 
-                  transaction.to?.toLowerCase() === address.toLowerCase()) {
-                
-                const txData: TransactionData = {
-                  hash: transaction.hash,
-                  from: transaction.from,
-                  to: transaction.to,
-                  value: ethers.formatEther(transaction.value),
-                  gasPrice: ethers.formatUnits(transaction.gasPrice || 0, 'gwei'),
-                  gasUsed: '0', // Skip receipt fetching to reduce API calls
-                  timestamp: block.timestamp,
-                  blockNumber: transaction.blockNumber || 0,
-                  isStaking: this.isStakingTransactionByAddress(transaction.to),
-                  isDeFi: this.isDeFiTransactionByAddress(transaction.to),
-                  protocolName: this.getProtocolName(transaction.to)
-                };
-                
-                transactions.push(txData);
-                transactionCount++;
-                
-                if (transactionCount >= maxTransactions) break;
-              }
-            }
-          } catch (blockError) {
-            console.warn(`Error fetching block ${blockNum}:`, blockError);
-            continue;
-          }
-        }
+        logs = await fetchLogs(source);
+      } catch (fallbackError) {
+        throw new Error(`Failed to fetch token transfers: ${fallbackError}`);
+      }
+    }
+
+    // ERC-721 shares the Transfer signature but indexes the token id as a fourth topic
+    const seen = new Set<string>();
+    const erc20Logs = logs
+      .filter(log => log.topics.length === 3)
+      .filter(log => {
+        const key = `${log.transactionHash}_${log.logIndex}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)
+      .slice(0, maxTransfers);
+
+    const transfers: TokenTransfer[] = [];
+    for (const log of erc20Logs) {
+      try {
+        const metadata = await this.getTokenMetadata(log.address, source);
+        const rawAmount = log.data && log.data !== '0x' ? BigInt(log.data) : 0n;
+        const timestamp = log.timestamp ?? await source.getBlockTimestamp(log.blockNumber);
+
+        transfers.push({
+          hash: log.transactionHash,
+          logIndex: log.logIndex,
+          tokenAddress: log.address,
+          tokenSymbol: metadata.symbol,
+          tokenDecimals: metadata.decimals,
+          from: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+          to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)),
+          rawAmount: rawAmount.toString(),
+          amount: ethers.formatUnits(rawAmount, metadata.decimals),
+          timestamp,
+          blockNumber: log.blockNumber,
+          chainId: this.chain.chainId
+        });
       } catch (error) {
-        console.warn(`Error scanning blocks ${endBlock}-${i}:`, error);
-        continue;
+        console.warn(`Skipping undecodable transfer log ${log.transactionHash}:${log.logIndex}:`, error);
       }
     }
-    
-    console.log(`RPC fallback: Found ${transactions.length} transactions for address ${address}`);
-    return transactions.sort((a, b) => b.timestamp - a.timestamp);
+
+    console.log(`Found ${transfers.length} token transfers via ${source.kind} for address ${address}`);
+    this.cache.set(cacheKey, transfers, 300000); // Cache for 5 minutes
+    return transfers;
+  }
+
+  /**
+   * Reconstruct borrow, repay and liquidation history on the chain's lending markets,
+   * or null when the markets could not be read. Markets are read from a data source with
+   * a log index only, so lending history is unavailable over plain RPC.
+   */
+  async fetchLendingHistory(address: string, transactions?: TransactionData[]): Promise<LendingHistory | null> {
+    if (!LendingHistoryService.supportsChain(this.chain.chainId)) {
+      return LendingHistoryService.emptyHistory();
+    }
+
+    const cacheKey = `lending_history_${address.toLowerCase()}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const sources = [this.dataSource, this.fallbackDataSource]
+      .filter((source): source is ChainDataSource => source !== null && source.indexesLogs);
+    if (sources.length === 0) {
+      console.warn(`Lending history is unavailable: the ${this.dataSource.kind} data source has no log index`);
+      return null;
+    }
+
+    const history = transactions ?? await this.fetchTransactionHistory(address, 1000);
+    let lending: LendingHistory | null = null;
+
+    for (const source of sources) {
+      try {
+        lending = await this.lendingHistoryService.reconstruct(address, source, history);
+        break;
+      } catch (error) {
+        console.warn(`${source.kind} data source failed for lending history of ${address}:`, error);
+      }
+    }
+    if (!lending) {
+      return null;
+    }
+
+    console.log(`Reconstructed ${lending.events.length} lending events across ${lending.positions.length} positions for address ${address}`);
+    this.cache.set(cacheKey, lending, 300000); // Cache for 5 minutes
+    return lending;
+  }
+
+  /**
+   * Resolve token symbol and decimals, preferring the static registry
+   */
+  private async getTokenMetadata(tokenAddress: string, source: ChainDataSource): Promise<TokenMetadata> {
+    const known = TokenRegistry.getKnownToken(tokenAddress, this.chain.chainId);
+    if (known) {
+      return { symbol: known.symbol, decimals: known.decimals };
+    }
+
+    const cacheKey = `token_metadata_${tokenAddress.toLowerCase()}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const metadata = await source.getTokenMetadata(tokenAddress) || { symbol: 'UNKNOWN', decimals: 18 };
+    this.cache.set(cacheKey, metadata, 24 * 60 * 60 * 1000); // Cache for 24 hours
+    return metadata;
+  }
+
+  /**
+   * Value token transfers in USD and ETH at each transfer's block timestamp.
+   * Falls back to the token's peg for the ETH value when no price is available.
+   */
+  async valueTokenTransfers(transfers: TokenTransfer[]): Promise<TokenTransferValuation[]> {
+    const valuations: TokenTransferValuation[] = [];
+
+    for (const transfer of transfers) {
+      const amount = parseFloat(transfer.amount);
+
+      try {
+        const [tokenPrice, ethPrice] = await Promise.all([
+          this.priceService.getTokenUsdPrice(transfer.tokenAddress, transfer.timestamp, this.chain.chainId),
+          this.priceService.getUsdPrice('ETH', transfer.timestamp)
+        ]);
+
+        const usd = tokenPrice === null ? null : amount * tokenPrice;
+        const eth = usd !== null && ethPrice
+          ? usd / ethPrice
+          : TokenRegistry.estimateEthValue(transfer.tokenAddress, amount, this.chain.chainId);
+
+        valuations.push({ usd, eth });
+      } catch (error) {
+        console.warn(`Could not price token transfer ${transfer.hash}:`, error);
+        valuations.push({ usd: null, eth: TokenRegistry.estimateEthValue(transfer.tokenAddress, amount, this.chain.chainId) });
+      }
+    }
+
+    return valuations;
+  }
+
+  /**
+   * Aggregate token transfers into per-token volume for an address
+   */
+  calculateTokenVolumes(
+    address: string,
+    transfers: TokenTransfer[],
+    valuations?: TokenTransferValuation[]
+  ): TokenVolume[] {
+    const lowerAddress = address.toLowerCase();
+    const byToken = new Map<string, {
+      address: string;
+      symbol: string;
+      count: number;
+      inbound: number;
+      outbound: number;
+      eth: number | null;
+      usd: number | null;
+    }>();
+
+    transfers.forEach((transfer, index) => {
+      const key = transfer.tokenAddress.toLowerCase();
+      const entry = byToken.get(key) || {
+        address: transfer.tokenAddress,
+        symbol: transfer.tokenSymbol,
+        count: 0,
+        inbound: 0,
+        outbound: 0,
+        eth: null,
+        usd: null
+      };
+      const amount = parseFloat(transfer.amount);
+      const valuation = valuations
+        ? valuations[index]
+        : { usd: null, eth: TokenRegistry.estimateEthValue(transfer.tokenAddress, amount, this.chain.chainId) };
+
+      if (valuation.eth !== null) {
+        entry.eth = (entry.eth || 0) + valuation.eth;
+      }
+      if (valuation.usd !== null) {
+        entry.usd = (entry.usd || 0) + valuation.usd;
+      }
+
+      entry.count++;
+      if (transfer.from.toLowerCase() === lowerAddress) {
+        entry.outbound += amount;
+      }
+      if (transfer.to.toLowerCase() === lowerAddress) {
+        entry.inbound += amount;
+      }
+
+      byToken.set(key, entry);
+    });
+
+    return Array.from(byToken.values())
+      .map(entry => ({
+        tokenAddress: entry.address,
+        tokenSymbol: entry.symbol,
+        transferCount: entry.count,
+        inboundVolume: entry.inbound.toString(),
+        outboundVolume: entry.outbound.toString(),
+        totalVolume: (entry.inbound + entry.outbound).toString(),
+        ...(entry.eth !== null && { ethEquivalentVolume: entry.eth.toString() }),
+        ...(entry.usd !== null && { usdVolume: entry.usd.toString() }),
+        chainId: this.chain.chainId
+      }))
+      .sort((a, b) => b.transferCount - a.transferCount);
   }
 
   /**
@@ -428,6 +936,9 @@ class BlockchainService {
    */
   private isStakingTransactionByAddress(toAddress: string | null): boolean {
     if (!toAddress) return false;
+
+    // Beacon chain deposits and liquid staking only happen on mainnet
+    if (this.chain.chainId !== MAINNET_CHAIN_ID) return false;
     
     const address = toAddress.toLowerCase();
     
@@ -456,11 +967,14 @@ class BlockchainService {
     const address = toAddress.toLowerCase();
     
     // Check against known DeFi protocol addresses
-    const isKnownProtocol = Object.values(DEFI_PROTOCOLS).some(
+    const isKnownProtocol = Object.values(DEFI_PROTOCOLS_BY_CHAIN[this.chain.chainId] || {}).some(
       protocolAddress => protocolAddress.toLowerCase() === address
     );
     
     if (isKnownProtocol) return true;
+
+    // The extended list below is mainnet only
+    if (this.chain.chainId !== MAINNET_CHAIN_ID) return false;
     
     // Additional DeFi protocol detection - common patterns and addresses
     const additionalDefiAddresses = [
@@ -573,12 +1087,15 @@ class BlockchainService {
     const lowerAddress = address.toLowerCase();
     
     // Find protocol name by address
-    for (const [protocolKey, protocolAddress] of Object.entries(DEFI_PROTOCOLS)) {
+    for (const [protocolKey, protocolAddress] of Object.entries(DEFI_PROTOCOLS_BY_CHAIN[this.chain.chainId] || {})) {
       if (protocolAddress.toLowerCase() === lowerAddress) {
         // Convert key to readable name
         return protocolKey.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
       }
     }
+
+    // Staking and extended mappings below are mainnet only
+    if (this.chain.chainId !== MAINNET_CHAIN_ID) return undefined;
     
     // Check staking protocols
     const stakingProtocols: { [key: string]: string } = {
@@ -658,7 +1175,6 @@ class BlockchainService {
     activeStakingProtocols: string[];
   }> {
     try {
-      const provider = await this.getProvider();
       const transactions = await this.fetchTransactionHistory(address, 500);
       
       const stakingTransactions = transactions.filter(tx => tx.isStaking);
@@ -676,17 +1192,11 @@ class BlockchainService {
         .filter(tx => tx.from.toLowerCase() === address.toLowerCase())
         .reduce((sum, tx) => sum + parseFloat(tx.value), 0);
       
-      // Method 2: Try to get actual staking balances from known contracts
-      try {
+      // Method 2: Try to get actual staking balances from known contracts (mainnet only)
+      if (this.chain.chainId === MAINNET_CHAIN_ID) try {
         // Check Lido stETH balance
         const lidoStethAddress = '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84';
-        const stethContract = new ethers.Contract(
-          lidoStethAddress,
-          ['function balanceOf(address) view returns (uint256)'],
-          provider
-        );
-        
-        const stethBalance = await stethContract.balanceOf(address);
+        const stethBalance = await this.dataSource.getTokenBalance(lidoStethAddress, address);
         const stethBalanceEth = parseFloat(ethers.formatEther(stethBalance));
         
         if (stethBalanceEth > 0) {
@@ -818,8 +1328,6 @@ class BlockchainService {
    */
   async getUserMetrics(address: string): Promise<UserMetrics> {
     try {
-      const provider = await this.getProvider();
-      
       // Validate address format
       if (!ethers.isAddress(address)) {
         throw new Error('Invalid Ethereum address format');
@@ -834,6 +1342,7 @@ class BlockchainService {
       if (transactions.length === 0) {
         console.log(`No transactions found for address ${address}, returning zero metrics`);
         return {
+          chainId: this.chain.chainId,
           totalTransactions: 0,
           totalVolume: '0',
           avgTransactionValue: '0',
@@ -841,22 +1350,76 @@ class BlockchainService {
           defiProtocolsUsed: [],
           accountAge: 0,
           firstTransactionDate: 0,
-          lastTransactionDate: 0
+          lastTransactionDate: 0,
+          totalVolumeUsd: '0',
+          stakingBalanceUsd: '0'
         };
       }
       
-      // Calculate metrics
-      const totalVolume = transactions.reduce((sum, tx) => {
+      // Calculate metrics, in the chain's native asset
+      const nativeVolume = transactions.reduce((sum, tx) => {
         return sum + parseFloat(tx.value);
       }, 0);
       
-      const avgTransactionValue = totalVolume / transactions.length;
-      
-      // Get staking and DeFi data (only for accounts with transactions)
-      const [stakingData, defiData] = await Promise.all([
+      // Get staking, DeFi, token and lending data (only for accounts with transactions)
+      const [stakingData, defiData, fetchedTokenTransfers, nativeEthRate, lendingHistory] = await Promise.all([
         this.detectStakingActivities(address),
-        this.detectDeFiInteractions(address)
+        this.detectDeFiInteractions(address),
+        this.fetchTokenTransfers(address, 1000, transactions).catch(error => {
+          console.warn(`Could not fetch token transfers for ${address}:`, error);
+          return null;
+        }),
+        this.getNativeEthRate(),
+        this.fetchLendingHistory(address, transactions)
       ]);
+      const tokenTransfers = fetchedTokenTransfers || [];
+
+      // Scoring thresholds are in ETH, so volumes on chains with another native asset are converted.
+      // Without a price for the native asset they cannot be, and count as zero.
+      const unavailableMetrics: string[] = [];
+      if (nativeEthRate === null) {
+        unavailableMetrics.push('totalVolume', 'avgTransactionValue', 'stakingBalance');
+      }
+      if (fetchedTokenTransfers === null) {
+        unavailableMetrics.push('tokenTransferCount', 'tokenVolumes', 'tokenVolumeEth', 'tokenVolumeUsd');
+      }
+      if (lendingHistory === null) {
+        unavailableMetrics.push('lendingHistory');
+      }
+      const totalVolume = nativeVolume * (nativeEthRate ?? 0);
+      const avgTransactionValue = totalVolume / transactions.length;
+      const stakingBalance = ((parseFloat(stakingData.totalStaked) || 0) * (nativeEthRate ?? 0)).toString();
+
+      const tokenValuations = await this.valueTokenTransfers(tokenTransfers);
+      const tokenVolumes = this.calculateTokenVolumes(address, tokenTransfers, tokenValuations);
+      const tokenVolumeEth = tokenVolumes.reduce((sum, volume) => {
+        return sum + parseFloat(volume.ethEquivalentVolume || '0');
+      }, 0);
+      const tokenVolumeUsd = tokenVolumes.reduce((sum, volume) => {
+        return sum + parseFloat(volume.usdVolume || '0');
+      }, 0);
+
+      // USD figures alongside the ETH ones used for scoring
+      const usdMetrics = await this.calculateUsdMetrics(transactions, stakingBalance);
+      for (const field of ['totalVolumeUsd', 'stakingBalanceUsd'] as const) {
+        if (usdMetrics[field] === undefined) {
+          unavailableMetrics.push(field);
+        }
+      }
+
+      const assetMetrics = {
+        chainId: this.chain.chainId,
+        ...(this.chain.nativeSymbol !== 'ETH' && { nativeVolume: nativeVolume.toString() }),
+        ...(fetchedTokenTransfers !== null && {
+          tokenTransferCount: tokenTransfers.length,
+          tokenVolumes,
+          tokenVolumeEth: tokenVolumeEth.toString(),
+          tokenVolumeUsd: tokenVolumeUsd.toString()
+        }),
+        ...usdMetrics,
+        ...(lendingHistory && { lendingHistory: lendingHistory.summary }),
+        ...(unavailableMetrics.length > 0 && { unavailableMetrics })
+      };
       
       // Calculate account age - FIX: Better timestamp handling and debugging
       const sortedTransactions = transactions.sort((a, b) => a.timestamp - b.timestamp);
@@ -882,11 +1445,12 @@ class BlockchainService {
           totalTransactions: transactions.length,
           totalVolume: totalVolume.toString(),
           avgTransactionValue: avgTransactionValue.toString(),
-          stakingBalance: stakingData.totalStaked,
+          stakingBalance,
           defiProtocolsUsed: defiData.protocolsUsed,
           accountAge,
           firstTransactionDate: firstTimestamp,
-          lastTransactionDate: lastTx.timestamp
+          lastTransactionDate: lastTx.timestamp,
+          ...assetMetrics
         };
       }
       
@@ -900,11 +1464,12 @@ class BlockchainService {
         totalTransactions: transactions.length,
         totalVolume: totalVolume.toString(),
         avgTransactionValue: avgTransactionValue.toString(),
-        stakingBalance: stakingData.totalStaked,
+        stakingBalance,
         defiProtocolsUsed: defiData.protocolsUsed,
         accountAge: finalAccountAge,
         firstTransactionDate: firstTimestamp,
-        lastTransactionDate: lastTx.timestamp
+        lastTransactionDate: lastTx.timestamp,
+        ...assetMetrics
       };
       
       console.log(`Final metrics for ${address}:`, result);
@@ -916,18 +1481,69 @@ class BlockchainService {
     }
   }
 
+  /**
+   * Current price of the chain's native asset in ETH (1 on ETH-native chains), or null when no
+   * price is available
+   */
+  private async getNativeEthRate(): Promise<number | null> {
+    try {
+      const rate = await this.priceService.getEthPrice(this.chain.nativeSymbol, Math.floor(Date.now() / 1000));
+      if (rate === null) {
+        console.warn(`No ${this.chain.nativeSymbol} price available to convert ${this.chain.name} volume`);
+      }
+      return rate;
+    } catch (error) {
+      console.warn(`Could not price ${this.chain.nativeSymbol} to convert ${this.chain.name} volume:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Value native volume at each transaction's block timestamp and the staking balance at the current price
+   */
+  private async calculateUsdMetrics(
+    transactions: TransactionData[],
+    stakingBalance: string
+  ): Promise<{ totalVolumeUsd?: string; stakingBalanceUsd?: string }> {
+    try {
+      // Prices are looked up once per UTC day rather than per transaction
+      const valued = transactions.filter(tx => parseFloat(tx.value) !== 0);
+      const prices = await this.priceService.getUsdPrices(this.chain.nativeSymbol, valued.map(tx => tx.timestamp));
+
+      let totalVolumeUsd = 0;
+      for (let i = 0; i < valued.length; i++) {
+        const price = prices[i];
+        if (price === null) {
+          return {};
+        }
+        totalVolumeUsd += parseFloat(valued[i].value) * price;
+      }
+
+      const stakingBalanceUsd = await this.priceService.ethToUsd(
+        parseFloat(stakingBalance) || 0,
+        Math.floor(Date.now() / 1000)
+      );
+
+      return {
+        totalVolumeUsd: totalVolumeUsd.toString(),
+        ...(stakingBalanceUsd !== null && { stakingBalanceUsd: stakingBalanceUsd.toString() })
+      };
+    } catch (error) {
+      console.warn('Could not value metrics in USD:', error);
+      return {};
+    }
+  }
+
   /**
    * Get current ETH balance for an address
    */
   async getBalance(address: string): Promise<string> {
     try {
-      const provider = await this.getProvider();
-      
       if (!ethers.isAddress(address)) {
         throw new Error('Invalid Ethereum address format');
       }
       
-      const balance = await provider.getBalance(address);
+      const balance = await this.dataSource.getBalance(address);
       return ethers.formatEther(balance);
       
     } catch (error) {
@@ -945,9 +1561,8 @@ class BlockchainService {
     networkName: string;
   }> {
     try {
-      const provider = await this.getProvider();
-      const blockNumber = await provider.getBlockNumber();
-      const network = await provider.getNetwork();
+      const blockNumber = await this.dataSource.getBlockNumber();
+      const network = await this.dataSource.getNetwork();
       
       return {
         connected: true,
@@ -968,4 +1583,19 @@ class BlockchainService {
 
 // Export singleton instance
 export const blockchainService = new BlockchainService();
+
+const chainServices = new Map<number, BlockchainService>([[MAINNET_CHAIN_ID, blockchainService]]);
+
+/**
+ * Get the blockchain service for a supported chain, created on first use
+ */
+export function getBlockchainService(chainId: number): BlockchainService {
+  let service = chainServices.get(chainId);
+  if (!service) {
+    service = new BlockchainService(undefined, undefined, defaultPriceService, chainId);
+    chainServices.set(chainId, service);
+  }
+  return service;
+}
+
 export default blockchainService;
\ No newline at end of file
@@ -0,0 +1,205 @@
+import dotenv from 'dotenv';
+import { EtherscanDataSource } from './etherscanDataSource';
+import { RpcDataSource } from './rpcDataSource';
+import { FixtureDataSource } from './fixtureDataSource';
+import { TokenMetadata } from './tokenRegistry';
+import { ChainRegistry, MAINNET_CHAIN_ID } from './chainRegistry';
+
+dotenv.config();
+
+/**
+ * Chain Data Source abstraction
+ * Decouples BlockchainService from the concrete provider (Etherscan, raw JSON-RPC,
+ * recorded fixtures) used to read on-chain data.
+ */
+
+export type ChainDataSourceKind = 'etherscan' | 'rpc' | 'fixture';
+
+/**
+ * Transaction as returned by a data source. Amounts are raw wei decimal strings,
+ * conversion to ETH/gwei happens in BlockchainService.
+ */
+export interface ChainTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: string; // wei
+  gasPrice: string; // wei
+  gasUsed: string;
+  timestamp: number; // unix seconds
+  blockNumber: number;
+  input?: string;
+  isError?: boolean;
+}
+
+/**
+ * Call made inside a transaction (message call, delegatecall, create...).
+ * Value is a raw wei decimal string.
+ */
+export interface ChainTraceCall {
+  from: string;
+  to: string | null;
+  value: string; // wei
+  type: string; // call, delegatecall, staticcall, create, ...
+  depth: number; // 1 for calls made directly by the top-level transaction
+  isError?: boolean;
+}
+
+/**
+ * Internal transaction touching an address, as indexed by an explorer
+ */
+export interface ChainInternalCall extends ChainTraceCall {
+  hash: string; // parent transaction hash
+  timestamp: number; // unix seconds
+  blockNumber: number;
+}
+
+export interface ChainLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  timestamp?: number; // unix seconds, when the source provides it
+}
+
+export interface TransactionQuery {
+  sort: 'asc' | 'desc';
+  limit: number;
+  startBlock?: number;
+  endBlock?: number;
+}
+
+export interface LogFilter {
+  address?: string | string[];
+  // Positional topic filter, null matches any value, arrays match any of the values
+  topics?: Array<string | string[] | null>;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface ChainNetwork {
+  name: string;
+  chainId: number;
+}
+
+export interface ChainDataSource {
+  readonly kind: ChainDataSourceKind;
+  // Whether getLogs is served from an index, so a query over a wallet's whole history is a few
+  // requests rather than one per block range
+  readonly indexesLogs: boolean;
+
+  getTransactions(address: string, query: TransactionQuery): Promise<ChainTransaction[]>;
+  getBalance(address: string): Promise<bigint>;
+  getTokenBalance(tokenAddress: string, holder: string): Promise<bigint>;
+  getTokenMetadata(tokenAddress: string): Promise<TokenMetadata | null>;
+  // Internal transactions sent or received by the address ([] when the source cannot index them)
+  getInternalTransactions(address: string, query: TransactionQuery): Promise<ChainInternalCall[]>;
+  // Full call trace of a transaction, or null when the source does not support tracing
+  traceTransaction(hash: string): Promise<ChainTraceCall[] | null>;
+  // ERC-20 Transfer events sent or received by the address, as logs, or null when the source has
+  // no token transfer index
+  getTokenTransfers(address: string, query: TransactionQuery): Promise<ChainLog[] | null>;
+  // Every matching log, queried in pages when the source limits block range or result size
+  getLogs(filter: LogFilter): Promise<ChainLog[]>;
+  getBlockTimestamp(blockNumber: number): Promise<number>;
+  getBlockNumber(): Promise<number>;
+  getNetwork(): Promise<ChainNetwork>;
+}
+
+export interface ChainDataSourceConfig {
+  kind: ChainDataSourceKind;
+  rpcUrl?: string;
+  fallbackRpcUrl?: string;
+  etherscanApiKey?: string;
+  etherscanApiUrl?: string;
+  fixturePath?: string;
+}
+
+/**
+ * Create a single data source from explicit configuration
+ */
+export function createChainDataSource(config: ChainDataSourceConfig): ChainDataSource {
+  switch (config.kind) {
+    case 'etherscan':
+      return new EtherscanDataSource(config.etherscanApiKey, config.etherscanApiUrl);
+    case 'rpc':
+      if (!config.rpcUrl) {
+        throw new Error('No Ethereum RPC URL configured');
+      }
+      return new RpcDataSource(config.rpcUrl, config.fallbackRpcUrl);
+    case 'fixture':
+      if (!config.fixturePath) {
+        throw new Error('No chain fixture path configured (CHAIN_FIXTURE_PATH)');
+      }
+      return new FixtureDataSource(config.fixturePath);
+    default:
+      throw new Error(`Unknown chain data source: ${config.kind}`);
+  }
+}
+
+/**
+ * Read data source configuration from the environment.
+ *
+ * CHAIN_DATA_SOURCE selects the primary source (etherscan, rpc or fixture, default etherscan).
+ * When the primary source is Etherscan and an RPC URL is configured, JSON-RPC is used as fallback.
+ *
+ * Mainnet reads ETHEREUM_RPC_URL, ETHERSCAN_API_KEY, ETHERSCAN_API_URL and CHAIN_FIXTURE_PATH.
+ * Other chains read the same settings under their prefix (ARBITRUM_RPC_URL,
+ * ARBITRUM_EXPLORER_API_KEY, ARBITRUM_EXPLORER_API_URL, ARBITRUM_CHAIN_FIXTURE_PATH,
+ * ARBITRUM_CHAIN_DATA_SOURCE), falling back to the mainnet API key and data source kind.
+ */
+export function getChainDataSourceConfigFromEnv(chainId: number = MAINNET_CHAIN_ID): ChainDataSourceConfig {
+  const chain = ChainRegistry.getChain(chainId);
+  if (!chain) {
+    throw new Error(`Unsupported chain: ${chainId}`);
+  }
+
+  const infuraUrl = process.env.INFURA_API_KEY && chain.infuraNetwork
+    ? `https://${chain.infuraNetwork}.infura.io/v3/${process.env.INFURA_API_KEY}`
+    : undefined;
+
+  if (chainId === MAINNET_CHAIN_ID) {
+    const kind = (process.env.CHAIN_DATA_SOURCE || 'etherscan').toLowerCase() as ChainDataSourceKind;
+
+    return {
+      kind,
+      rpcUrl: process.env.ETHEREUM_RPC_URL || process.env.MAINNET_RPC_URL,
+      fallbackRpcUrl: infuraUrl,
+      etherscanApiKey: process.env.ETHERSCAN_API_KEY,
+      etherscanApiUrl: process.env.ETHERSCAN_API_URL,
+      fixturePath: process.env.CHAIN_FIXTURE_PATH
+    };
+  }
+
+  const env = (name: string) => process.env[`${chain.envPrefix}_${name}`];
+  const kind = (env('CHAIN_DATA_SOURCE') || process.env.CHAIN_DATA_SOURCE || 'etherscan').toLowerCase() as ChainDataSourceKind;
+
+  return {
+    kind,
+    rpcUrl: env('RPC_URL') || infuraUrl,
+    fallbackRpcUrl: infuraUrl,
+    etherscanApiKey: env('EXPLORER_API_KEY') || process.env.ETHERSCAN_API_KEY,
+    etherscanApiUrl: env('EXPLORER_API_URL') || chain.explorerApiUrl,
+    fixturePath: env('CHAIN_FIXTURE_PATH')
+  };
+}
+
+/**
+ * Build the primary and fallback data sources for a chain from the environment
+ */
+export function createChainDataSourcesFromEnv(chainId: number = MAINNET_CHAIN_ID): {
+  primary: ChainDataSource;
+  fallback: ChainDataSource | null;
+} {
+  const config = getChainDataSourceConfigFromEnv(chainId);
+  const primary = createChainDataSource(config);
+
+  let fallback: ChainDataSource | null = null;
+  if (config.kind === 'etherscan' && config.rpcUrl) {
+    fallback = createChainDataSource({ ...config, kind: 'rpc' });
+  }
+
+  return { primary, fallback };
+}
@@ -0,0 +1,106 @@
+/**
+ * Chain Registry
+ * EVM networks supported for scoring, with the defaults needed to read each one.
+ */
+
+export interface SupportedChain {
+  chainId: number;
+  key: string; // short name accepted in the ?chains= query parameter
+  name: string;
+  nativeSymbol: string; // asset gas and transaction values are denominated in
+  envPrefix: string; // prefix of the per-chain environment variables
+  explorerApiUrl: string; // Etherscan-compatible explorer API
+  infuraNetwork?: string;
+}
+
+export const MAINNET_CHAIN_ID = 1;
+
+// chain_id used for scores aggregated across several chains
+export const AGGREGATE_CHAIN_ID = 0;
+
+const SUPPORTED_CHAINS: SupportedChain[] = [
+  {
+    chainId: 1,
+    key: 'ethereum',
+    name: 'Ethereum',
+    nativeSymbol: 'ETH',
+    envPrefix: 'ETHEREUM',
+    explorerApiUrl: 'https://api.etherscan.io/api',
+    infuraNetwork: 'mainnet'
+  },
+  {
+    chainId: 42161,
+    key: 'arbitrum',
+    name: 'Arbitrum One',
+    nativeSymbol: 'ETH',
+    envPrefix: 'ARBITRUM',
+    explorerApiUrl: 'https://api.arbiscan.io/api',
+    infuraNetwork: 'arbitrum-mainnet'
+  },
+  {
+    chainId: 10,
+    key: 'optimism',
+    name: 'OP Mainnet',
+    nativeSymbol: 'ETH',
+    envPrefix: 'OPTIMISM',
+    explorerApiUrl: 'https://api-optimistic.etherscan.io/api',
+    infuraNetwork: 'optimism-mainnet'
+  },
+  {
+    chainId: 8453,
+    key: 'base',
+    name: 'Base',
+    nativeSymbol: 'ETH',
+    envPrefix: 'BASE',
+    explorerApiUrl: 'https://api.basescan.org/api',
+    infuraNetwork: 'base-mainnet'
+  },
+  {
+    chainId: 137,
+    key: 'polygon',
+    name: 'Polygon PoS',
+    nativeSymbol: 'POL',
+    envPrefix: 'POLYGON',
+    explorerApiUrl: 'https://api.polygonscan.com/api',
+    infuraNetwork: 'polygon-mainnet'
+  }
+];
+
+export class ChainRegistry {
+  /**
+   * Get a supported chain by id, or null when the chain is not supported
+   */
+  static getChain(chainId: number): SupportedChain | null {
+    return SUPPORTED_CHAINS.find(chain => chain.chainId === chainId) || null;
+  }
+
+  static getSupportedChains(): SupportedChain[] {
+    return [...SUPPORTED_CHAINS];
+  }
+
+  /**
+   * Parse a comma separated list of chain ids or keys (e.g. "1,arbitrum,base")
+   */
+  static parseChains(value: string): number[] {
+    const chainIds = value
+      .split(',')
+      .map(part => part.trim().toLowerCase())
+      .filter(part => part.length > 0)
+      .map(part => {
+        const chain = /^\d+$/.test(part)
+          ? this.getChain(parseInt(part, 10))
+          : SUPPORTED_CHAINS.find(c => c.key === part) || null;
+
+        if (!chain) {
+          throw new Error(`Unsupported chain: ${part}`);
+        }
+        return chain.chainId;
+      });
+
+    if (chainIds.length === 0) {
+      throw new Error('At least one chain is required');
+    }
+
+    return [...new Set(chainIds)];
+  }
+}
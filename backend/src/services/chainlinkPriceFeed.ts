@@ -0,0 +1,163 @@
+import { ethers } from 'ethers';
+import { PriceFeed } from './priceService';
+import { RateLimiter } from './requestUtils';
+
+// Chainlink USD aggregator proxies (mainnet)
+const CHAINLINK_USD_FEEDS: { [asset: string]: string } = {
+  ETH: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+  BTC: '0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c',
+  USDC: '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6',
+  USDT: '0x3E7d1eAB13ad0104d2750B8863b2Bb2BA1e2E3A2',
+  DAI: '0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9',
+  LINK: '0x2c1d072e956AFFC0D435Cb7AC38EF18d24d9127c',
+  POL: '0x7bAC85A8a13A4BcD8abb3eB7d6b4d632c5a57676', // MATIC / USD
+  MATIC: '0x7bAC85A8a13A4BcD8abb3eB7d6b4d632c5a57676',
+  UNI: '0x553303d460EE0afB37EdFf9bE42922D8FF63220e',
+  AAVE: '0x547a514d5e3769680Ce22B2361c10Ea13619e8a9',
+  MKR: '0xec1D1B3b0443256cc3860e24a46F108e699484Aa',
+  COMP: '0xdbd020CAeF83eFd542f4De03e3cF0C28A4428bd5',
+  CRV: '0xCd627aA160A6fA45Eb793D19Ef54f5062F20f33f'
+};
+
+const AGGREGATOR_PROXY_ABI = [
+  'function decimals() view returns (uint8)',
+  'function phaseId() view returns (uint16)',
+  'function phaseAggregators(uint16) view returns (address)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function getRoundData(uint80 roundId) view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+];
+
+const AGGREGATOR_ABI = ['function latestRound() view returns (uint256)'];
+
+interface RoundData {
+  answer: bigint;
+  updatedAt: number;
+}
+
+/**
+ * Chainlink aggregator price feed
+ * Reads historical answers by binary searching aggregator rounds, walking back
+ * through earlier phases when the timestamp predates the current aggregator.
+ */
+export class ChainlinkPriceFeed implements PriceFeed {
+  readonly kind = 'chainlink' as const;
+
+  private provider: ethers.Provider;
+  private feeds: { [asset: string]: string };
+  private decimals = new Map<string, number>();
+  private rateLimiter = new RateLimiter(10, 1000); // 10 calls per second
+
+  constructor(provider: ethers.Provider, feeds: { [asset: string]: string } = CHAINLINK_USD_FEEDS) {
+    this.provider = provider;
+    this.feeds = feeds;
+  }
+
+  static fromRpcUrl(rpcUrl: string): ChainlinkPriceFeed {
+    return new ChainlinkPriceFeed(new ethers.JsonRpcProvider(rpcUrl));
+  }
+
+  async getUsdPrice(asset: string, timestamp: number): Promise<number | null> {
+    const feedAddress = this.feeds[asset.toUpperCase()];
+    if (!feedAddress) {
+      return null;
+    }
+
+    const proxy = new ethers.Contract(feedAddress, AGGREGATOR_PROXY_ABI, this.provider);
+    const decimals = await this.getDecimals(feedAddress, proxy);
+
+    await this.rateLimiter.waitIfNeeded();
+    const latest = await proxy.latestRoundData();
+    if (Number(latest.updatedAt) <= timestamp) {
+      return Number(ethers.formatUnits(latest.answer, decimals));
+    }
+
+    await this.rateLimiter.waitIfNeeded();
+    const currentPhase = Number(await proxy.phaseId());
+
+    for (let phase = currentPhase; phase >= 1; phase--) {
+      const lastRound = phase === currentPhase
+        ? Number(BigInt(latest.roundId) & ((1n << 64n) - 1n))
+        : await this.getPhaseLatestRound(proxy, phase);
+
+      if (lastRound === 0) continue;
+
+      const round = await this.findRoundAtOrBefore(proxy, phase, lastRound, timestamp);
+      if (round) {
+        return Number(ethers.formatUnits(round.answer, decimals));
+      }
+    }
+
+    return null;
+  }
+
+  private async getDecimals(feedAddress: string, proxy: ethers.Contract): Promise<number> {
+    const cached = this.decimals.get(feedAddress);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    await this.rateLimiter.waitIfNeeded();
+    const decimals = Number(await proxy.decimals());
+    this.decimals.set(feedAddress, decimals);
+    return decimals;
+  }
+
+  private async getPhaseLatestRound(proxy: ethers.Contract, phase: number): Promise<number> {
+    await this.rateLimiter.waitIfNeeded();
+    const aggregatorAddress: string = await proxy.phaseAggregators(phase);
+    if (aggregatorAddress === ethers.ZeroAddress) {
+      return 0;
+    }
+
+    const aggregator = new ethers.Contract(aggregatorAddress, AGGREGATOR_ABI, this.provider);
+    await this.rateLimiter.waitIfNeeded();
+    return Number(await aggregator.latestRound());
+  }
+
+  private async getRound(proxy: ethers.Contract, phase: number, aggregatorRound: number): Promise<RoundData | null> {
+    const roundId = (BigInt(phase) << 64n) | BigInt(aggregatorRound);
+
+    try {
+      await this.rateLimiter.waitIfNeeded();
+      const round = await proxy.getRoundData(roundId);
+      const updatedAt = Number(round.updatedAt);
+      return updatedAt > 0 ? { answer: round.answer, updatedAt } : null;
+    } catch {
+      // Missing rounds revert
+      return null;
+    }
+  }
+
+  /**
+   * Binary search the latest round within a phase updated at or before the timestamp
+   */
+  private async findRoundAtOrBefore(
+    proxy: ethers.Contract,
+    phase: number,
+    lastRound: number,
+    timestamp: number
+  ): Promise<RoundData | null> {
+    const first = await this.getRound(proxy, phase, 1);
+    if (!first || first.updatedAt > timestamp) {
+      return null;
+    }
+
+    let low = 1;
+    let high = lastRound;
+    let best: RoundData = first;
+
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      const round = await this.getRound(proxy, phase, mid);
+
+      if (round && round.updatedAt <= timestamp) {
+        best = round;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return best;
+  }
+}
@@ -0,0 +1,89 @@
+import { UserMetrics, TokenVolume } from './blockchainService';
+import { AGGREGATE_CHAIN_ID, MAINNET_CHAIN_ID } from './chainRegistry';
+import { LendingHistoryService, LendingSummary } from './lendingHistory';
+
+/**
+ * Cross-Chain Aggregator
+ * Merges per-chain metrics for one address into a single set of metrics so the
+ * standard score calculator can score activity across every requested chain.
+ */
+
+// How each metric is combined, returned with aggregated scores
+export const AGGREGATION_RULES: { [metric: string]: string } = {
+  totalTransactions: 'sum across chains',
+  totalVolume: 'sum of ETH-equivalent volume across chains',
+  avgTransactionValue: 'aggregated totalVolume / aggregated totalTransactions',
+  stakingBalance: 'sum of ETH-equivalent staking balances across chains',
+  defiProtocolsUsed: 'union of protocol names across chains',
+  accountAge: 'age of the oldest chain account',
+  firstTransactionDate: 'earliest first transaction on any chain',
+  lastTransactionDate: 'latest transaction on any chain',
+  tokenVolumeEth: 'sum across chains',
+  tokenVolumes: 'per-chain token volumes, each tagged with its chainId',
+  totalVolumeUsd: 'sum across chains, omitted when any chain could not be priced',
+  stakingBalanceUsd: 'sum across chains, omitted when any chain could not be priced',
+  tokenVolumeUsd: 'sum across chains',
+  lendingHistory: 'counts and ETH values summed, ratios recomputed from the sums, highest maxLtv, omitted when no chain could be read',
+  unavailableMetrics: 'union across chains'
+};
+
+export class CrossChainAggregator {
+  /**
+   * Merge per-chain metrics for one address, following AGGREGATION_RULES
+   */
+  public static aggregate(chainMetrics: UserMetrics[]): UserMetrics {
+    if (chainMetrics.length === 0) {
+      throw new Error('At least one chain is required');
+    }
+
+    const active = chainMetrics.filter(metrics => metrics.totalTransactions > 0);
+
+    const totalTransactions = this.sum(chainMetrics, metrics => metrics.totalTransactions.toString());
+    const totalVolume = this.sum(chainMetrics, metrics => metrics.totalVolume);
+
+    const tokenVolumes: TokenVolume[] = chainMetrics.flatMap(metrics => metrics.tokenVolumes || []);
+    const protocols = new Set(chainMetrics.flatMap(metrics => metrics.defiProtocolsUsed));
+    const unavailableMetrics = new Set(chainMetrics.flatMap(metrics => metrics.unavailableMetrics || []));
+    const lendingSummaries = chainMetrics
+      .map(metrics => metrics.lendingHistory)
+      .filter((summary): summary is LendingSummary => summary !== undefined);
+
+    return {
+      chainId: AGGREGATE_CHAIN_ID,
+      chains: chainMetrics.map(metrics => metrics.chainId ?? MAINNET_CHAIN_ID),
+      totalTransactions,
+      totalVolume: totalVolume.toString(),
+      avgTransactionValue: (totalTransactions > 0 ? totalVolume / totalTransactions : 0).toString(),
+      stakingBalance: this.sum(chainMetrics, metrics => metrics.stakingBalance).toString(),
+      defiProtocolsUsed: Array.from(protocols),
+      accountAge: Math.max(0, ...chainMetrics.map(metrics => metrics.accountAge)),
+      firstTransactionDate: active.length > 0 ? Math.min(...active.map(metrics => metrics.firstTransactionDate)) : 0,
+      lastTransactionDate: Math.max(0, ...chainMetrics.map(metrics => metrics.lastTransactionDate)),
+      tokenTransferCount: this.sum(chainMetrics, metrics => (metrics.tokenTransferCount || 0).toString()),
+      tokenVolumes,
+      tokenVolumeEth: this.sum(chainMetrics, metrics => metrics.tokenVolumeEth).toString(),
+      tokenVolumeUsd: this.sum(chainMetrics, metrics => metrics.tokenVolumeUsd).toString(),
+      ...this.sumIfComplete(chainMetrics, 'totalVolumeUsd'),
+      ...this.sumIfComplete(chainMetrics, 'stakingBalanceUsd'),
+      ...(lendingSummaries.length > 0 && { lendingHistory: LendingHistoryService.mergeSummaries(lendingSummaries) }),
+      ...(unavailableMetrics.size > 0 && { unavailableMetrics: Array.from(unavailableMetrics) })
+    };
+  }
+
+  private static sum(chainMetrics: UserMetrics[], value: (metrics: UserMetrics) => string | undefined): number {
+    return chainMetrics.reduce((total, metrics) => total + (parseFloat(value(metrics) || '0') || 0), 0);
+  }
+
+  /**
+   * Sum a USD figure only when every chain reported it, so a partial total is never mistaken for a full one
+   */
+  private static sumIfComplete(
+    chainMetrics: UserMetrics[],
+    field: 'totalVolumeUsd' | 'stakingBalanceUsd'
+  ): { [key: string]: string } {
+    if (chainMetrics.some(metrics => metrics[field] === undefined)) {
+      return {};
+    }
+    return { [field]: this.sum(chainMetrics, metrics => metrics[field]).toString() };
+  }
+}
@@ -1,26 +1,63 @@
-import { getDatabase } from '../database/connection';
+import { getDatabase, withTransaction } from '../database/connection';
 import { CreditScore } from './scoreCalculator';
+import { MAINNET_CHAIN_ID } from './chainRegistry';
+import { ScoreLeaf } from './scoreMerkleTree';
+import { AnomalyDetectorType } from './anomalyDetectionEngine';
+import { RiskAssessment } from './riskAssessmentEngine';
+import { RiskMonitoringAlert, RiskThreshold } from './riskMonitoringService';
+import { ProtocolPreferenceAnalysis } from './protocolPreferenceEngine';
 
 export interface ScoreHistoryEntry {
   id: number;
   address: string;
+  chainId: number;
   score: number;
+  modelVersion: string;
   timestamp: number;
 }
 
 export interface CachedScore {
   address: string;
+  chainId: number; // AGGREGATE_CHAIN_ID for cross-chain scores
   score: number;
   breakdown: {
     transactionVolume: number;
     transactionFrequency: number;
     stakingActivity: number;
     defiInteractions: number;
+    lendingHistory?: number;
   };
+  modelVersion: string; // scoring model the score was calculated under
   lastUpdated: number;
   createdAt: number;
 }
 
+// Flag column recording whether each anomaly detector found something
+const ANOMALY_DETECTOR_COLUMNS: { [detector in AnomalyDetectorType]: string } = {
+  statistical: 'has_statistical_anomalies',
+  wash_trading: 'has_wash_trading',
+  bot: 'has_bot_behavior',
+  coordination: 'has_coordinated_activity'
+};
+
+export interface RiskHistoryEntry {
+  id: number;
+  address: string;
+  assessment: RiskAssessment;
+  timestamp: number; // milliseconds
+}
+
+export interface ScorePublication {
+  id: number;
+  kind: 'MERKLE_ROOT' | 'BATCH';
+  registryAddress: string;
+  merkleRoot: string | null;
+  scoreCount: number;
+  txHash: string;
+  blockNumber: number | null;
+  publishedAt: number;
+}
+
 // New interfaces for enhanced intelligence features
 export interface EnhancedScoreHistoryEntry {
   id: number;
@@ -29,6 +66,7 @@ export interface EnhancedScoreHistoryEntry {
   confidence: number;
   timestamp: number;
   version: string;
+  modelVersion?: string; // scoring model version, absent on rows written before models were versioned
   
   // Component scores
   volumeScore?: number;
@@ -53,6 +91,7 @@ export interface EnhancedScoreHistoryEntry {
   // Metadata
   calculationTimeMs?: number;
   dataQualityScore?: number;
+  backfilled?: boolean; // reconstructed from transaction history rather than scored at the time
 }
 
 export interface BehavioralPattern {
@@ -80,6 +119,25 @@ export interface Recommendation {
   status: string;
   progress: number;
   completedAt?: number;
+  source: string; // RISK_MITIGATION or SCORE
+  details?: string; // JSON string
+  baseline?: string; // JSON string
+  updatedAt?: number;
+}
+
+export interface RecommendationOutcome {
+  id: number;
+  address: string;
+  recommendationId: number; // recommendations.id
+  recommendationKey: string;
+  predictedImpact: number;
+  basePredictedImpact: number;
+  completedAt: number;
+  scoreAtCompletion: number;
+  windowEndsAt: number;
+  scoreAfter: number | null;
+  actualImpact: number | null;
+  resolvedAt: number | null;
 }
 
 // Real-time benchmarking interfaces
@@ -110,6 +168,48 @@ export interface BenchmarkUpdateJob {
   maxRetries: number;
 }
 
+// Background job queue interfaces
+export type JobPriority = 'HIGH' | 'MEDIUM' | 'LOW';
+
+export interface QueuedJob {
+  id: number;
+  jobType: string;
+  payload: any;
+  priority: JobPriority;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED';
+  attempts: number;
+  maxAttempts: number;
+  runAt: number;
+  leaseOwner: string | null;
+  leaseExpiresAt: number | null;
+  lastError: string | null;
+  dedupeKey: string | null;
+  createdAt: number;
+  startedAt: number | null;
+  completedAt: number | null;
+}
+
+export interface DeadLetterJob {
+  id: number;
+  jobId: number; // id the job had in the queue
+  jobType: string;
+  payload: any;
+  priority: JobPriority;
+  attempts: number;
+  lastError: string | null;
+  createdAt: number;
+  failedAt: number;
+}
+
+export interface JobTypeCounts {
+  pending: number;
+  running: number;
+  completed: number;
+  dead: number;
+}
+
+const JOB_PRIORITY_RANK: { [priority in JobPriority]: number } = { HIGH: 3, MEDIUM: 2, LOW: 1 };
+
 export interface PeerGroupSnapshot {
   id: number;
   peerGroupId: string;
@@ -136,12 +236,13 @@ export class DatabaseService {
     try {
       const now = Math.floor(Date.now() / 1000);
       const breakdownJson = JSON.stringify(creditScore.breakdown);
+      const chainId = creditScore.chainId ?? MAINNET_CHAIN_ID;
 
       // Check if score already exists
       const existingScore = await new Promise<any>((resolve, reject) => {
         db.get(
-          'SELECT address FROM credit_scores WHERE address = ?',
-          [creditScore.address.toLowerCase()],
+          'SELECT address FROM credit_scores WHERE address = ? AND chain_id = ?',
+          [creditScore.address.toLowerCase(), chainId],
           (err, row) => {
             if (err) reject(err);
             else resolve(row);
@@ -154,13 +255,15 @@ export class DatabaseService {
         await new Promise<void>((resolve, reject) => {
           db.run(`
             UPDATE credit_scores 
-            SET score = ?, breakdown = ?, last_updated = ?
-            WHERE address = ?
+            SET score = ?, breakdown = ?, model_version = ?, last_updated = ?
+            WHERE address = ? AND chain_id = ?
           `, [
             creditScore.score,
             breakdownJson,
+            creditScore.modelVersion,
             creditScore.timestamp,
-            creditScore.address.toLowerCase()
+            creditScore.address.toLowerCase(),
+            chainId
           ], (err) => {
             if (err) reject(err);
             else resolve();
@@ -170,12 +273,14 @@ export class DatabaseService {
         // Insert new score
         await new Promise<void>((resolve, reject) => {
           db.run(`
-            INSERT INTO credit_scores (address, score, breakdown, last_updated, created_at)
-            VALUES (?, ?, ?, ?, ?)
+            INSERT INTO credit_scores (address, chain_id, score, breakdown, model_version, last_updated, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
           `, [
             creditScore.address.toLowerCase(),
+            chainId,
             creditScore.score,
             breakdownJson,
+            creditScore.modelVersion,
             creditScore.timestamp,
             now
           ], (err) => {
@@ -188,11 +293,13 @@ export class DatabaseService {
       // Add to history
       await new Promise<void>((resolve, reject) => {
         db.run(`
-          INSERT INTO score_history (address, score, timestamp)
-          VALUES (?, ?, ?)
+          INSERT INTO score_history (address, chain_id, score, model_version, timestamp)
+          VALUES (?, ?, ?, ?, ?)
         `, [
           creditScore.address.toLowerCase(),
+          chainId,
           creditScore.score,
+          creditScore.modelVersion,
           creditScore.timestamp
         ], (err) => {
           if (err) reject(err);
@@ -200,7 +307,7 @@ export class DatabaseService {
         });
       });
 
-      console.log(`Saved credit score for address ${creditScore.address}: ${creditScore.score}`);
+      console.log(`Saved credit score for address ${creditScore.address} on chain ${chainId}: ${creditScore.score}`);
     } catch (error) {
       console.error('Error saving credit score:', error);
       throw new Error(`Failed to save credit score: ${error}`);
@@ -208,18 +315,18 @@ export class DatabaseService {
   }
 
   /**
-   * Get cached credit score by address
+   * Get cached credit score by address and chain
    */
-  static async getCachedScore(address: string): Promise<CachedScore | null> {
+  static async getCachedScore(address: string, chainId: number = MAINNET_CHAIN_ID): Promise<CachedScore | null> {
     const db = getDatabase();
 
     try {
       const result = await new Promise<any>((resolve, reject) => {
         db.get(`
-          SELECT address, score, breakdown, last_updated, created_at
+          SELECT address, chain_id, score, breakdown, model_version, last_updated, created_at
           FROM credit_scores 
-          WHERE address = ?
-        `, [address.toLowerCase()], (err, row) => {
+          WHERE address = ? AND chain_id = ?
+        `, [address.toLowerCase(), chainId], (err, row) => {
           if (err) reject(err);
           else resolve(row);
         });
@@ -231,8 +338,10 @@ export class DatabaseService {
 
       return {
         address: result.address,
+        chainId: result.chain_id,
         score: result.score,
         breakdown: JSON.parse(result.breakdown),
+        modelVersion: result.model_version,
         lastUpdated: result.last_updated,
         createdAt: result.created_at
       };
@@ -254,18 +363,22 @@ export class DatabaseService {
   /**
    * Get score history for an address
    */
-  static async getScoreHistory(address: string, limit: number = 100): Promise<ScoreHistoryEntry[]> {
+  static async getScoreHistory(
+    address: string,
+    limit: number = 100,
+    chainId: number = MAINNET_CHAIN_ID
+  ): Promise<ScoreHistoryEntry[]> {
     const db = getDatabase();
 
     try {
       const results = await new Promise<any[]>((resolve, reject) => {
         db.all(`
-          SELECT id, address, score, timestamp
+          SELECT id, address, chain_id AS chainId, score, model_version AS modelVersion, timestamp
           FROM score_history 
-          WHERE address = ?
+          WHERE address = ? AND chain_id = ?
           ORDER BY timestamp DESC
           LIMIT ?
-        `, [address.toLowerCase(), limit], (err, rows) => {
+        `, [address.toLowerCase(), chainId, limit], (err, rows) => {
           if (err) reject(err);
           else resolve(rows || []);
         });
@@ -281,7 +394,10 @@ export class DatabaseService {
   /**
    * Get multiple cached scores by addresses
    */
-  static async getMultipleCachedScores(addresses: string[]): Promise<CachedScore[]> {
+  static async getMultipleCachedScores(
+    addresses: string[],
+    chainId: number = MAINNET_CHAIN_ID
+  ): Promise<CachedScore[]> {
     const db = getDatabase();
 
     try {
@@ -295,10 +411,10 @@ export class DatabaseService {
 
       const results = await new Promise<any[]>((resolve, reject) => {
         db.all(`
-          SELECT address, score, breakdown, last_updated, created_at
+          SELECT address, chain_id, score, breakdown, model_version, last_updated, created_at
           FROM credit_scores 
-          WHERE address IN (${placeholders})
-        `, lowercaseAddresses, (err, rows) => {
+          WHERE address IN (${placeholders}) AND chain_id = ?
+        `, [...lowercaseAddresses, chainId], (err, rows) => {
           if (err) reject(err);
           else resolve(rows || []);
         });
@@ -306,8 +422,10 @@ export class DatabaseService {
 
       return results.map((result: any) => ({
         address: result.address,
+        chainId: result.chain_id,
         score: result.score,
         breakdown: JSON.parse(result.breakdown),
+        modelVersion: result.model_version,
         lastUpdated: result.last_updated,
         createdAt: result.created_at
       }));
@@ -395,6 +513,211 @@ export class DatabaseService {
     }
   }
 
+  // Price Database Methods
+
+  /**
+   * Get stored daily prices of an asset from a price feed, by day
+   */
+  static async getDailyPrices(feed: string, asset: string, days: number[]): Promise<Map<number, number>> {
+    const db = getDatabase();
+    const prices = new Map<number, number>();
+
+    try {
+      // Queried in chunks to stay under SQLite's bound parameter limit
+      for (let i = 0; i < days.length; i += 500) {
+        const chunk = days.slice(i, i + 500);
+        const results = await new Promise<any[]>((resolve, reject) => {
+          db.all(`
+            SELECT day, price FROM daily_prices
+            WHERE feed = ? AND asset = ? AND day IN (${chunk.map(() => '?').join(', ')})
+          `, [feed, asset.toUpperCase(), ...chunk], (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows || []);
+          });
+        });
+
+        for (const row of results) {
+          prices.set(row.day, row.price);
+        }
+      }
+
+      return prices;
+    } catch (error) {
+      console.error('Error getting daily prices:', error);
+      throw new Error(`Failed to get daily prices: ${error}`);
+    }
+  }
+
+  /**
+   * Store the price of an asset from a price feed for a day
+   */
+  static async saveDailyPrice(feed: string, asset: string, day: number, price: number): Promise<void> {
+    const db = getDatabase();
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        db.run(`
+          INSERT OR REPLACE INTO daily_prices (feed, asset, day, price, fetched_at)
+          VALUES (?, ?, ?, ?, ?)
+        `, [feed, asset.toUpperCase(), day, price, Math.floor(Date.now() / 1000)], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    } catch (error) {
+      console.error('Error saving daily price:', error);
+      throw new Error(`Failed to save daily price: ${error}`);
+    }
+  }
+
+  // Score Registry Database Methods
+
+  /**
+   * Get current scores on every chain, optionally only those updated since a time
+   */
+  static async getCurrentScores(updatedSince: number = 0): Promise<ScoreLeaf[]> {
+    const db = getDatabase();
+
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT address, chain_id, score, model_version, last_updated
+          FROM credit_scores
+          WHERE last_updated >= ?
+          ORDER BY address, chain_id
+        `, [updatedSince], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map((row: any) => ({
+        address: row.address,
+        chainId: row.chain_id,
+        score: row.score,
+        modelVersion: row.model_version,
+        timestamp: row.last_updated
+      }));
+    } catch (error) {
+      console.error('Error getting current scores:', error);
+      throw new Error(`Failed to get current scores: ${error}`);
+    }
+  }
+
+  /**
+   * Record a publication to the score registry, with the scores of a Merkle root
+   */
+  static async saveScorePublication(
+    publication: Omit<ScorePublication, 'id'>,
+    leaves: ScoreLeaf[] = []
+  ): Promise<number> {
+    try {
+      const publicationId = await withTransaction(async run => {
+        const result = await run(`
+          INSERT INTO score_publications (
+            kind, registry_address, merkle_root, score_count, tx_hash, block_number, published_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        `, [
+          publication.kind,
+          publication.registryAddress.toLowerCase(),
+          publication.merkleRoot,
+          publication.scoreCount,
+          publication.txHash,
+          publication.blockNumber,
+          publication.publishedAt
+        ]);
+
+        for (const leaf of leaves) {
+          await run(`
+            INSERT INTO score_publication_leaves (publication_id, address, chain_id, score, model_version, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?)
+          `, [result.lastID, leaf.address.toLowerCase(), leaf.chainId, leaf.score, leaf.modelVersion, leaf.timestamp]);
+        }
+
+        return result.lastID;
+      });
+
+      console.log(`Saved ${publication.kind} score publication ${publication.txHash}`);
+      return publicationId;
+    } catch (error) {
+      console.error('Error saving score publication:', error);
+      throw new Error(`Failed to save score publication: ${error}`);
+    }
+  }
+
+  /**
+   * Get the latest publication of a kind to a registry
+   */
+  static async getLatestScorePublication(
+    kind: ScorePublication['kind'],
+    registryAddress: string
+  ): Promise<ScorePublication | null> {
+    const db = getDatabase();
+
+    try {
+      const result = await new Promise<any>((resolve, reject) => {
+        db.get(`
+          SELECT * FROM score_publications
+          WHERE kind = ? AND registry_address = ?
+          ORDER BY published_at DESC, id DESC
+          LIMIT 1
+        `, [kind, registryAddress.toLowerCase()], (err, row) => {
+          if (err) reject(err);
+          else resolve(row);
+        });
+      });
+
+      if (!result) {
+        return null;
+      }
+
+      return {
+        id: result.id,
+        kind: result.kind,
+        registryAddress: result.registry_address,
+        merkleRoot: result.merkle_root,
+        scoreCount: result.score_count,
+        txHash: result.tx_hash,
+        blockNumber: result.block_number,
+        publishedAt: result.published_at
+      };
+    } catch (error) {
+      console.error('Error getting score publication:', error);
+      throw new Error(`Failed to get score publication: ${error}`);
+    }
+  }
+
+  /**
+   * Get the scores included in a published Merkle root
+   */
+  static async getScorePublicationLeaves(publicationId: number): Promise<ScoreLeaf[]> {
+    const db = getDatabase();
+
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT address, chain_id, score, model_version, timestamp
+          FROM score_publication_leaves
+          WHERE publication_id = ?
+        `, [publicationId], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map((row: any) => ({
+        address: row.address,
+        chainId: row.chain_id,
+        score: row.score,
+        modelVersion: row.model_version,
+        timestamp: row.timestamp
+      }));
+    } catch (error) {
+      console.error('Error getting score publication leaves:', error);
+      throw new Error(`Failed to get score publication leaves: ${error}`);
+    }
+  }
+
   // Enhanced Intelligence Features Database Methods
 
   /**
@@ -407,19 +730,20 @@ export class DatabaseService {
       const result = await new Promise<any>((resolve, reject) => {
         db.run(`
           INSERT INTO enhanced_score_history (
-            address, score, confidence, timestamp, version,
+            address, score, confidence, timestamp, version, model_version,
             volume_score, frequency_score, staking_score, defi_score,
             gas_efficiency_score, consistency_score, diversification_score,
             risk_score, risk_level, risk_flags,
             activity_pattern, user_archetype, sophistication_level, growth_trend,
-            calculation_time_ms, data_quality_score
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            calculation_time_ms, data_quality_score, backfilled
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `, [
           entry.address.toLowerCase(),
           entry.score,
           entry.confidence,
           entry.timestamp,
           entry.version,
+          entry.modelVersion,
           entry.volumeScore,
           entry.frequencyScore,
           entry.stakingScore,
@@ -435,7 +759,8 @@ export class DatabaseService {
           entry.sophisticationLevel,
           entry.growthTrend,
           entry.calculationTimeMs,
-          entry.dataQualityScore
+          entry.dataQualityScore,
+          entry.backfilled ? 1 : 0
         ], function(err) {
           if (err) reject(err);
           else resolve(this);
@@ -469,36 +794,103 @@ export class DatabaseService {
         });
       });
 
-      return results.map(row => ({
-        id: row.id,
-        address: row.address,
-        score: row.score,
-        confidence: row.confidence,
-        timestamp: row.timestamp,
-        version: row.version,
-        volumeScore: row.volume_score,
-        frequencyScore: row.frequency_score,
-        stakingScore: row.staking_score,
-        defiScore: row.defi_score,
-        gasEfficiencyScore: row.gas_efficiency_score,
-        consistencyScore: row.consistency_score,
-        diversificationScore: row.diversification_score,
-        riskScore: row.risk_score,
-        riskLevel: row.risk_level,
-        riskFlags: row.risk_flags,
-        activityPattern: row.activity_pattern,
-        userArchetype: row.user_archetype,
-        sophisticationLevel: row.sophistication_level,
-        growthTrend: row.growth_trend,
-        calculationTimeMs: row.calculation_time_ms,
-        dataQualityScore: row.data_quality_score
-      }));
+      return results.map(row => this.mapEnhancedScoreHistoryRow(row));
     } catch (error) {
       console.error('Error getting enhanced score history:', error);
       throw new Error(`Failed to get enhanced score history: ${error}`);
     }
   }
 
+  /**
+   * Get all backfilled score history of an address
+   */
+  static async getBackfilledScoreHistory(address: string): Promise<EnhancedScoreHistoryEntry[]> {
+    const db = getDatabase();
+
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT * FROM enhanced_score_history
+          WHERE address = ? AND backfilled = 1
+          ORDER BY timestamp ASC
+        `, [address.toLowerCase()], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => this.mapEnhancedScoreHistoryRow(row));
+    } catch (error) {
+      console.error('Error getting backfilled score history:', error);
+      throw new Error(`Failed to get backfilled score history: ${error}`);
+    }
+  }
+
+  /**
+   * Replace the score of a backfilled score history entry, when a later backfill replays different inputs
+   */
+  static async updateBackfilledScoreHistory(id: number, entry: Omit<EnhancedScoreHistoryEntry, 'id'>): Promise<void> {
+    const db = getDatabase();
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        db.run(`
+          UPDATE enhanced_score_history
+          SET score = ?, confidence = ?, version = ?, model_version = ?,
+              volume_score = ?, frequency_score = ?, staking_score = ?, defi_score = ?,
+              calculation_time_ms = ?
+          WHERE id = ? AND backfilled = 1
+        `, [
+          entry.score,
+          entry.confidence,
+          entry.version,
+          entry.modelVersion,
+          entry.volumeScore,
+          entry.frequencyScore,
+          entry.stakingScore,
+          entry.defiScore,
+          entry.calculationTimeMs,
+          id
+        ], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    } catch (error) {
+      console.error('Error updating backfilled score history:', error);
+      throw new Error(`Failed to update backfilled score history: ${error}`);
+    }
+  }
+
+  private static mapEnhancedScoreHistoryRow(row: any): EnhancedScoreHistoryEntry {
+    return {
+      id: row.id,
+      address: row.address,
+      score: row.score,
+      confidence: row.confidence,
+      timestamp: row.timestamp,
+      version: row.version,
+      modelVersion: row.model_version ?? undefined,
+      volumeScore: row.volume_score,
+      frequencyScore: row.frequency_score,
+      stakingScore: row.staking_score,
+      defiScore: row.defi_score,
+      gasEfficiencyScore: row.gas_efficiency_score,
+      consistencyScore: row.consistency_score,
+      diversificationScore: row.diversification_score,
+      riskScore: row.risk_score,
+      riskLevel: row.risk_level,
+      riskFlags: row.risk_flags,
+      activityPattern: row.activity_pattern,
+      userArchetype: row.user_archetype,
+      sophisticationLevel: row.sophistication_level,
+      growthTrend: row.growth_trend,
+      calculationTimeMs: row.calculation_time_ms,
+      dataQualityScore: row.data_quality_score,
+      backfilled: row.backfilled === 1
+    };
+  }
+
   /**
    * Save behavioral pattern
    */
@@ -625,6 +1017,63 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Cache the latest protocol preference analysis of an address
+   */
+  static async saveProtocolPreferenceAnalysis(address: string, analysis: ProtocolPreferenceAnalysis): Promise<number> {
+    const db = getDatabase();
+    const analyzedAt = Math.floor(Date.now() / 1000);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        db.run(`
+          INSERT OR REPLACE INTO protocol_preference_analyses (address, analysis, analyzed_at)
+          VALUES (?, ?, ?)
+        `, [address.toLowerCase(), JSON.stringify(analysis), analyzedAt], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+
+      return analyzedAt;
+    } catch (error) {
+      console.error('Error saving protocol preference analysis:', error);
+      throw new Error(`Failed to save protocol preference analysis: ${error}`);
+    }
+  }
+
+  /**
+   * Get the cached protocol preference analysis of an address
+   */
+  static async getProtocolPreferenceAnalysis(address: string): Promise<{ analysis: ProtocolPreferenceAnalysis; analyzedAt: number } | null> {
+    const db = getDatabase();
+
+    try {
+      const row = await new Promise<any>((resolve, reject) => {
+        db.get(
+          'SELECT * FROM protocol_preference_analyses WHERE address = ?',
+          [address.toLowerCase()],
+          (err, row) => {
+            if (err) reject(err);
+            else resolve(row);
+          }
+        );
+      });
+
+      if (!row) {
+        return null;
+      }
+
+      return {
+        analysis: JSON.parse(row.analysis),
+        analyzedAt: row.analyzed_at
+      };
+    } catch (error) {
+      console.error('Error getting protocol preference analysis:', error);
+      throw new Error(`Failed to get protocol preference analysis: ${error}`);
+    }
+  }
+
   /**
    * Save recommendation
    */
@@ -636,8 +1085,9 @@ export class DatabaseService {
         db.run(`
           INSERT INTO recommendations (
             address, recommendation_id, category, priority, title, description,
-            expected_impact, difficulty, created_at, status, progress, completed_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            expected_impact, difficulty, created_at, status, progress, completed_at,
+            source, details, baseline, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `, [
           recommendation.address.toLowerCase(),
           recommendation.recommendationId,
@@ -650,7 +1100,11 @@ export class DatabaseService {
           recommendation.createdAt,
           recommendation.status,
           recommendation.progress,
-          recommendation.completedAt
+          recommendation.completedAt,
+          recommendation.source,
+          recommendation.details,
+          recommendation.baseline,
+          recommendation.updatedAt ?? recommendation.createdAt
         ], function(err) {
           if (err) reject(err);
           else resolve(this);
@@ -668,7 +1122,7 @@ export class DatabaseService {
   /**
    * Get recommendations for an address
    */
-  static async getRecommendations(address: string, status?: string): Promise<Recommendation[]> {
+  static async getRecommendations(address: string, status?: string, source?: string): Promise<Recommendation[]> {
     const db = getDatabase();
 
     try {
@@ -680,6 +1134,11 @@ export class DatabaseService {
         params.push(status);
       }
 
+      if (source) {
+        query += ' AND source = ?';
+        params.push(source);
+      }
+
       query += ' ORDER BY priority DESC, created_at DESC';
 
       const results = await new Promise<any[]>((resolve, reject) => {
@@ -702,7 +1161,11 @@ export class DatabaseService {
         createdAt: row.created_at,
         status: row.status,
         progress: row.progress,
-        completedAt: row.completed_at
+        completedAt: row.completed_at,
+        source: row.source,
+        details: row.details,
+        baseline: row.baseline,
+        updatedAt: row.updated_at
       }));
     } catch (error) {
       console.error('Error getting recommendations:', error);
@@ -724,9 +1187,9 @@ export class DatabaseService {
       await new Promise<void>((resolve, reject) => {
         db.run(`
           UPDATE recommendations 
-          SET progress = ?, status = ?, completed_at = ?
+          SET progress = ?, status = ?, completed_at = ?, updated_at = ?
           WHERE id = ?
-        `, [progress, finalStatus, completedAt, id], (err) => {
+        `, [progress, finalStatus, completedAt, now, id], (err) => {
           if (err) reject(err);
           else resolve();
         });
@@ -739,18 +1202,211 @@ export class DatabaseService {
     }
   }
 
-  // Anomaly Detection Database Methods
-
   /**
-   * Save anomaly detection results
+   * Update recommendation content
    */
-  static async saveAnomalyDetectionResult(result: any): Promise<number> {
+  static async updateRecommendation(
+    id: number,
+    updates: Partial<Pick<Recommendation, 'priority' | 'description' | 'expectedImpact' | 'difficulty' | 'details' | 'updatedAt'>>
+  ): Promise<void> {
     const db = getDatabase();
 
     try {
-      const insertResult = await new Promise<any>((resolve, reject) => {
+      const setClause: string[] = [];
+      const params: any[] = [];
+
+      if (updates.priority !== undefined) {
+        setClause.push('priority = ?');
+        params.push(updates.priority);
+      }
+      if (updates.description !== undefined) {
+        setClause.push('description = ?');
+        params.push(updates.description);
+      }
+      if (updates.expectedImpact !== undefined) {
+        setClause.push('expected_impact = ?');
+        params.push(updates.expectedImpact);
+      }
+      if (updates.difficulty !== undefined) {
+        setClause.push('difficulty = ?');
+        params.push(updates.difficulty);
+      }
+      if (updates.details !== undefined) {
+        setClause.push('details = ?');
+        params.push(updates.details);
+      }
+      if (updates.updatedAt !== undefined) {
+        setClause.push('updated_at = ?');
+        params.push(updates.updatedAt);
+      }
+
+      if (setClause.length === 0) {
+        return; // No updates to make
+      }
+
+      params.push(id);
+
+      await new Promise<void>((resolve, reject) => {
         db.run(`
-          INSERT INTO anomaly_detection_results (
+          UPDATE recommendations 
+          SET ${setClause.join(', ')}
+          WHERE id = ?
+        `, params, (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    } catch (error) {
+      console.error('Error updating recommendation:', error);
+      throw new Error(`Failed to update recommendation: ${error}`);
+    }
+  }
+
+  /**
+   * Save a recommendation outcome, pending until its window has passed
+   */
+  static async saveRecommendationOutcome(
+    outcome: Omit<RecommendationOutcome, 'id' | 'scoreAfter' | 'actualImpact' | 'resolvedAt'>
+  ): Promise<number> {
+    const db = getDatabase();
+
+    try {
+      const result = await new Promise<any>((resolve, reject) => {
+        db.run(`
+          INSERT INTO recommendation_outcomes (
+            address, recommendation_id, recommendation_key, predicted_impact, base_predicted_impact,
+            completed_at, score_at_completion, window_ends_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          outcome.address.toLowerCase(),
+          outcome.recommendationId,
+          outcome.recommendationKey,
+          outcome.predictedImpact,
+          outcome.basePredictedImpact,
+          outcome.completedAt,
+          outcome.scoreAtCompletion,
+          outcome.windowEndsAt
+        ], function(err) {
+          if (err) reject(err);
+          else resolve(this);
+        });
+      });
+
+      return result.lastID;
+    } catch (error) {
+      console.error('Error saving recommendation outcome:', error);
+      throw new Error(`Failed to save recommendation outcome: ${error}`);
+    }
+  }
+
+  /**
+   * Get recommendation outcomes, optionally only those of an address or only pending or resolved ones
+   */
+  static async getRecommendationOutcomes(
+    options: { address?: string; resolved?: boolean } = {}
+  ): Promise<RecommendationOutcome[]> {
+    const db = getDatabase();
+
+    try {
+      let query = 'SELECT * FROM recommendation_outcomes WHERE 1 = 1';
+      const params: any[] = [];
+
+      if (options.address) {
+        query += ' AND address = ?';
+        params.push(options.address.toLowerCase());
+      }
+
+      if (options.resolved !== undefined) {
+        query += options.resolved ? ' AND resolved_at IS NOT NULL' : ' AND resolved_at IS NULL';
+      }
+
+      query += ' ORDER BY completed_at DESC';
+
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(query, params, (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => ({
+        id: row.id,
+        address: row.address,
+        recommendationId: row.recommendation_id,
+        recommendationKey: row.recommendation_key,
+        predictedImpact: row.predicted_impact,
+        basePredictedImpact: row.base_predicted_impact,
+        completedAt: row.completed_at,
+        scoreAtCompletion: row.score_at_completion,
+        windowEndsAt: row.window_ends_at,
+        scoreAfter: row.score_after,
+        actualImpact: row.actual_impact,
+        resolvedAt: row.resolved_at
+      }));
+    } catch (error) {
+      console.error('Error getting recommendation outcomes:', error);
+      throw new Error(`Failed to get recommendation outcomes: ${error}`);
+    }
+  }
+
+  /**
+   * Record the score change measured for a recommendation outcome
+   */
+  static async resolveRecommendationOutcome(id: number, scoreAfter: number, actualImpact: number): Promise<void> {
+    const db = getDatabase();
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        db.run(`
+          UPDATE recommendation_outcomes 
+          SET score_after = ?, actual_impact = ?, resolved_at = ?
+          WHERE id = ?
+        `, [scoreAfter, actualImpact, Math.floor(Date.now() / 1000), id], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    } catch (error) {
+      console.error('Error resolving recommendation outcome:', error);
+      throw new Error(`Failed to resolve recommendation outcome: ${error}`);
+    }
+  }
+
+  /**
+   * Delete the pending outcome of a recommendation, when it is reopened
+   */
+  static async deletePendingRecommendationOutcomes(recommendationId: number): Promise<void> {
+    const db = getDatabase();
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        db.run(
+          'DELETE FROM recommendation_outcomes WHERE recommendation_id = ? AND resolved_at IS NULL',
+          [recommendationId],
+          (err) => {
+            if (err) reject(err);
+            else resolve();
+          }
+        );
+      });
+    } catch (error) {
+      console.error('Error deleting recommendation outcomes:', error);
+      throw new Error(`Failed to delete recommendation outcomes: ${error}`);
+    }
+  }
+
+  // Anomaly Detection Database Methods
+
+  /**
+   * Save anomaly detection results
+   */
+  static async saveAnomalyDetectionResult(result: any): Promise<number> {
+    const db = getDatabase();
+
+    try {
+      const insertResult = await new Promise<any>((resolve, reject) => {
+        db.run(`
+          INSERT INTO anomaly_detection_results (
             address, timestamp, overall_anomaly_score, confidence,
             has_statistical_anomalies, has_wash_trading, has_bot_behavior, 
             has_coordinated_activity, requires_investigation,
@@ -974,202 +1630,614 @@ export class DatabaseService {
 
       if (!result) return null;
 
-      return {
-        id: result.id,
-        address: result.address,
-        timestamp: result.timestamp,
-        overallAnomalyScore: result.overall_anomaly_score,
-        confidence: result.confidence,
-        flags: {
-          hasStatisticalAnomalies: result.has_statistical_anomalies,
-          hasWashTrading: result.has_wash_trading,
-          hasBotBehavior: result.has_bot_behavior,
-          hasCoordinatedActivity: result.has_coordinated_activity,
-          requiresInvestigation: result.requires_investigation
-        },
-        statisticalAnomalies: JSON.parse(result.statistical_anomalies || '[]'),
-        washTradingDetection: JSON.parse(result.wash_trading_result || '{}'),
-        botBehaviorDetection: JSON.parse(result.bot_behavior_result || '{}'),
-        coordinatedActivityDetection: JSON.parse(result.coordinated_activity_result || '{}'),
-        riskExplanation: result.risk_explanation,
-        recommendations: JSON.parse(result.recommendations || '[]')
-      };
+      return this.mapAnomalyDetectionRow(result);
     } catch (error) {
       console.error('Error getting latest anomaly detection result:', error);
       throw new Error(`Failed to get latest anomaly detection result: ${error}`);
     }
   }
 
-  // Competitive Positioning Database Methods
+  /**
+   * Get anomaly detection history for an address, newest first. With detectors,
+   * only results where at least one of them found something are returned.
+   */
+  static async getAnomalyDetectionHistory(
+    address: string,
+    limit: number = 20,
+    detectors: AnomalyDetectorType[] = []
+  ): Promise<any[]> {
+    const db = getDatabase();
+
+    try {
+      let query = 'SELECT * FROM anomaly_detection_results WHERE address = ?';
+      if (detectors.length > 0) {
+        query += ` AND (${detectors.map(detector => `${ANOMALY_DETECTOR_COLUMNS[detector]} = 1`).join(' OR ')})`;
+      }
+      query += ' ORDER BY timestamp DESC LIMIT ?';
+
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(query, [address.toLowerCase(), limit], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => this.mapAnomalyDetectionRow(row));
+    } catch (error) {
+      console.error('Error getting anomaly detection history:', error);
+      throw new Error(`Failed to get anomaly detection history: ${error}`);
+    }
+  }
+
+  private static mapAnomalyDetectionRow(row: any): any {
+    return {
+      id: row.id,
+      address: row.address,
+      timestamp: row.timestamp,
+      overallAnomalyScore: row.overall_anomaly_score,
+      confidence: row.confidence,
+      flags: {
+        hasStatisticalAnomalies: !!row.has_statistical_anomalies,
+        hasWashTrading: !!row.has_wash_trading,
+        hasBotBehavior: !!row.has_bot_behavior,
+        hasCoordinatedActivity: !!row.has_coordinated_activity,
+        requiresInvestigation: !!row.requires_investigation
+      },
+      statisticalAnomalies: JSON.parse(row.statistical_anomalies || '[]'),
+      washTradingDetection: JSON.parse(row.wash_trading_result || '{}'),
+      botBehaviorDetection: JSON.parse(row.bot_behavior_result || '{}'),
+      coordinatedActivityDetection: JSON.parse(row.coordinated_activity_result || '{}'),
+      riskExplanation: row.risk_explanation,
+      recommendations: JSON.parse(row.recommendations || '[]')
+    };
+  }
+
+  // Risk Monitoring Database Methods
 
   /**
-   * Save competitive positioning data
+   * Record a risk assessment in the risk monitoring history
    */
-  static async saveCompetitivePositioningData(data: any): Promise<number> {
+  static async saveRiskMonitoringHistory(address: string, assessment: RiskAssessment, timestamp: number = Date.now()): Promise<number> {
     const db = getDatabase();
 
     try {
       const result = await new Promise<any>((resolve, reject) => {
         db.run(`
-          INSERT INTO competitive_positioning_data (
-            address, timestamp, overall_market_rank, total_market_size, market_percentile,
-            market_segment_name, market_segment_data, competitive_landscape_data, market_share_data,
-            user_trends_data, peer_group_trends_data, market_average_trends_data,
-            trend_velocity_data, trend_positioning_data,
-            competitive_advantages, market_opportunities, competitive_threats, strategic_recommendations,
-            analysis_version, processing_time_ms
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          INSERT INTO risk_monitoring_history (
+            address, risk_score, risk_level, confidence,
+            concentration_risk, volatility_risk, inactivity_risk,
+            new_account_risk, anomaly_risk, liquidity_risk,
+            flags, recommendations, risk_factors, timestamp
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `, [
-          data.address.toLowerCase(),
-          data.timestamp || Math.floor(Date.now() / 1000),
-          data.marketPosition.overallMarketRank,
-          data.marketPosition.totalMarketSize,
-          data.marketPosition.marketPercentile,
-          data.marketPosition.marketSegment.name,
-          JSON.stringify(data.marketPosition.marketSegment),
-          JSON.stringify(data.marketPosition.competitiveLandscape),
-          JSON.stringify(data.marketPosition.marketShare),
-          JSON.stringify(data.trendComparison.userTrends),
-          JSON.stringify(data.trendComparison.peerGroupTrends),
-          JSON.stringify(data.trendComparison.marketAverageTrends),
-          JSON.stringify(data.trendComparison.trendVelocity),
-          JSON.stringify(data.trendComparison.trendPositioning),
-          JSON.stringify(data.competitiveAdvantages),
-          JSON.stringify(data.marketOpportunities),
-          JSON.stringify(data.competitiveThreats),
-          JSON.stringify(data.strategicRecommendations),
-          '1.0',
-          Date.now() - (data.timestamp || Math.floor(Date.now() / 1000)) * 1000
+          address.toLowerCase(),
+          assessment.riskScore,
+          assessment.overallRisk,
+          assessment.confidence,
+          assessment.riskFactors.concentrationRisk.score,
+          assessment.riskFactors.volatilityRisk.score,
+          assessment.riskFactors.inactivityRisk.score,
+          assessment.riskFactors.newAccountRisk.score,
+          assessment.riskFactors.anomalyRisk.score,
+          assessment.riskFactors.liquidityRisk.score,
+          JSON.stringify(assessment.flags),
+          JSON.stringify(assessment.recommendations),
+          JSON.stringify(assessment.riskFactors),
+          timestamp
         ], function(err) {
           if (err) reject(err);
           else resolve(this);
         });
       });
 
-      const positioningId = result.lastID;
-
-      // Save detailed competitive advantages
-      for (const advantage of data.competitiveAdvantages) {
-        await this.saveCompetitiveAdvantage(data.address, positioningId, advantage);
-      }
-
-      // Save market opportunities
-      for (const opportunity of data.marketOpportunities) {
-        await this.saveMarketOpportunity(data.address, positioningId, opportunity);
-      }
+      return result.lastID;
+    } catch (error) {
+      console.error('Error saving risk monitoring history:', error);
+      throw new Error(`Failed to save risk monitoring history: ${error}`);
+    }
+  }
 
-      // Save competitive threats
-      for (const threat of data.competitiveThreats) {
-        await this.saveCompetitiveThreat(data.address, positioningId, threat);
-      }
+  /**
+   * Get recorded risk assessments for an address, newest first
+   */
+  static async getRiskMonitoringHistory(address: string, since: number = 0, limit: number = 100): Promise<RiskHistoryEntry[]> {
+    const db = getDatabase();
 
-      // Save strategic recommendations
-      for (const recommendation of data.strategicRecommendations) {
-        await this.saveStrategicRecommendation(data.address, positioningId, recommendation);
-      }
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT * FROM risk_monitoring_history
+          WHERE address = ? AND timestamp >= ? AND risk_factors IS NOT NULL
+          ORDER BY timestamp DESC
+          LIMIT ?
+        `, [address.toLowerCase(), since, limit], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
 
-      console.log(`Saved competitive positioning data for address ${data.address} with ID ${positioningId}`);
-      return positioningId;
+      return results.map(row => ({
+        id: row.id,
+        address: row.address,
+        assessment: {
+          overallRisk: row.risk_level,
+          riskScore: row.risk_score,
+          confidence: row.confidence,
+          riskFactors: JSON.parse(row.risk_factors),
+          flags: JSON.parse(row.flags || '{}'),
+          recommendations: JSON.parse(row.recommendations || '[]')
+        },
+        timestamp: row.timestamp
+      }));
     } catch (error) {
-      console.error('Error saving competitive positioning data:', error);
-      throw new Error(`Failed to save competitive positioning data: ${error}`);
+      console.error('Error getting risk monitoring history:', error);
+      throw new Error(`Failed to get risk monitoring history: ${error}`);
     }
   }
 
   /**
-   * Save competitive advantage
+   * Save a risk monitoring alert
    */
-  private static async saveCompetitiveAdvantage(address: string, positioningId: number, advantage: any): Promise<void> {
+  static async saveRiskAlert(alert: RiskMonitoringAlert): Promise<number> {
     const db = getDatabase();
 
-    await new Promise<void>((resolve, reject) => {
-      db.run(`
-        INSERT INTO competitive_advantages (
-          address, positioning_id, area, advantage_type, strength, market_gap,
-          defensibility, monetization_potential, description, supporting_metrics, threats, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `, [
-        address.toLowerCase(),
-        positioningId,
-        advantage.area,
-        advantage.advantageType,
-        advantage.strength,
-        advantage.marketGap,
-        advantage.defensibility,
-        advantage.monetizationPotential,
-        advantage.description,
-        JSON.stringify(advantage.supportingMetrics),
-        JSON.stringify(advantage.threats),
-        Math.floor(Date.now() / 1000)
-      ], (err) => {
-        if (err) reject(err);
-        else resolve();
+    try {
+      const result = await new Promise<any>((resolve, reject) => {
+        db.run(`
+          INSERT INTO risk_monitoring_alerts (
+            address, alert_type, severity, title, description,
+            current_risk_level, previous_risk_level, risk_score, previous_risk_score,
+            triggered_factors, recommendations, timestamp, acknowledged
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          alert.address.toLowerCase(),
+          alert.alertType,
+          alert.severity,
+          alert.title,
+          alert.description,
+          alert.currentRiskLevel,
+          alert.previousRiskLevel,
+          alert.riskScore,
+          alert.previousRiskScore,
+          JSON.stringify(alert.triggeredFactors),
+          JSON.stringify(alert.recommendations),
+          alert.timestamp,
+          alert.acknowledged
+        ], function(err) {
+          if (err) reject(err);
+          else resolve(this);
+        });
       });
-    });
+
+      return result.lastID;
+    } catch (error) {
+      console.error('Error saving risk alert:', error);
+      throw new Error(`Failed to save risk alert: ${error}`);
+    }
   }
 
   /**
-   * Save market opportunity
+   * Get risk monitoring alerts for an address, newest first
    */
-  private static async saveMarketOpportunity(address: string, positioningId: number, opportunity: any): Promise<void> {
+  static async getRiskAlerts(
+    address: string,
+    options: { acknowledged?: boolean; since?: number; limit?: number } = {}
+  ): Promise<RiskMonitoringAlert[]> {
     const db = getDatabase();
 
-    await new Promise<void>((resolve, reject) => {
-      db.run(`
-        INSERT INTO market_opportunities (
-          address, positioning_id, area, opportunity_size, difficulty, time_to_capture,
-          market_demand, competition_level, potential_score_improvement,
-          potential_market_position_gain, potential_competitive_advantage_gain,
-          description, action_plan, success_metrics, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `, [
-        address.toLowerCase(),
-        positioningId,
-        opportunity.area,
-        opportunity.opportunitySize,
-        opportunity.difficulty,
-        opportunity.timeToCapture,
-        opportunity.marketDemand,
-        opportunity.competitionLevel,
-        opportunity.potentialImpact.scoreImprovement,
-        opportunity.potentialImpact.marketPositionGain,
-        opportunity.potentialImpact.competitiveAdvantageGain,
-        opportunity.description,
-        JSON.stringify(opportunity.actionPlan),
-        JSON.stringify(opportunity.successMetrics),
-        Math.floor(Date.now() / 1000)
-      ], (err) => {
-        if (err) reject(err);
-        else resolve();
+    try {
+      let query = 'SELECT * FROM risk_monitoring_alerts WHERE address = ? AND timestamp >= ?';
+      const params: any[] = [address.toLowerCase(), options.since || 0];
+
+      if (options.acknowledged !== undefined) {
+        query += ' AND acknowledged = ?';
+        params.push(options.acknowledged ? 1 : 0);
+      }
+
+      query += ' ORDER BY timestamp DESC LIMIT ?';
+      params.push(options.limit || 50);
+
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(query, params, (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
       });
-    });
+
+      return results.map(row => ({
+        id: row.id,
+        address: row.address,
+        alertType: row.alert_type,
+        severity: row.severity,
+        title: row.title,
+        description: row.description,
+        currentRiskLevel: row.current_risk_level,
+        previousRiskLevel: row.previous_risk_level || undefined,
+        riskScore: row.risk_score,
+        previousRiskScore: row.previous_risk_score ?? undefined,
+        triggeredFactors: JSON.parse(row.triggered_factors || '[]'),
+        recommendations: JSON.parse(row.recommendations || '[]'),
+        timestamp: row.timestamp,
+        acknowledged: !!row.acknowledged
+      }));
+    } catch (error) {
+      console.error('Error getting risk alerts:', error);
+      throw new Error(`Failed to get risk alerts: ${error}`);
+    }
   }
 
   /**
-   * Save competitive threat
+   * Acknowledge a risk alert. Returns false when the address has no such alert.
    */
-  private static async saveCompetitiveThreat(address: string, positioningId: number, threat: any): Promise<void> {
+  static async acknowledgeRiskAlert(address: string, alertId: number): Promise<boolean> {
+    const db = getDatabase();
+
+    try {
+      const result = await new Promise<any>((resolve, reject) => {
+        db.run(`
+          UPDATE risk_monitoring_alerts
+          SET acknowledged = 1, acknowledged_at = ?
+          WHERE id = ? AND address = ?
+        `, [Date.now(), alertId, address.toLowerCase()], function(err) {
+          if (err) reject(err);
+          else resolve(this);
+        });
+      });
+
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error acknowledging risk alert:', error);
+      throw new Error(`Failed to acknowledge risk alert: ${error}`);
+    }
+  }
+
+  /**
+   * Get risk thresholds for an address
+   */
+  static async getRiskThresholds(address: string, enabledOnly: boolean = false): Promise<RiskThreshold[]> {
+    const db = getDatabase();
+
+    try {
+      let query = 'SELECT * FROM risk_thresholds WHERE address = ?';
+      if (enabledOnly) {
+        query += ' AND enabled = 1';
+      }
+      query += ' ORDER BY created_at ASC';
+
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(query, [address.toLowerCase()], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => ({
+        id: row.id,
+        address: row.address,
+        riskFactor: row.risk_factor,
+        thresholdType: row.threshold_type,
+        thresholdValue: row.threshold_value,
+        alertSeverity: row.alert_severity,
+        enabled: !!row.enabled,
+        lastTriggered: row.last_triggered || undefined
+      }));
+    } catch (error) {
+      console.error('Error getting risk thresholds:', error);
+      throw new Error(`Failed to get risk thresholds: ${error}`);
+    }
+  }
+
+  /**
+   * Get addresses with at least one enabled risk threshold
+   */
+  static async getAddressesWithRiskThresholds(): Promise<string[]> {
+    const db = getDatabase();
+
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT DISTINCT address FROM risk_thresholds WHERE enabled = 1
+        `, (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => row.address);
+    } catch (error) {
+      console.error('Error getting addresses with risk thresholds:', error);
+      throw new Error(`Failed to get addresses with risk thresholds: ${error}`);
+    }
+  }
+
+  /**
+   * Save a risk threshold
+   */
+  static async saveRiskThreshold(threshold: Omit<RiskThreshold, 'id' | 'lastTriggered'>): Promise<number> {
+    const db = getDatabase();
+
+    try {
+      const result = await new Promise<any>((resolve, reject) => {
+        db.run(`
+          INSERT INTO risk_thresholds (
+            address, risk_factor, threshold_type, threshold_value, alert_severity, enabled, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        `, [
+          threshold.address.toLowerCase(),
+          threshold.riskFactor,
+          threshold.thresholdType,
+          threshold.thresholdValue,
+          threshold.alertSeverity,
+          threshold.enabled,
+          Date.now()
+        ], function(err) {
+          if (err) reject(err);
+          else resolve(this);
+        });
+      });
+
+      console.log(`Saved risk threshold for address ${threshold.address}: ${threshold.riskFactor} ${threshold.thresholdType}`);
+      return result.lastID;
+    } catch (error) {
+      console.error('Error saving risk threshold:', error);
+      throw new Error(`Failed to save risk threshold: ${error}`);
+    }
+  }
+
+  /**
+   * Update a risk threshold. Returns false when the address has no such threshold.
+   */
+  static async updateRiskThreshold(
+    address: string,
+    id: number,
+    updates: Partial<Omit<RiskThreshold, 'id' | 'address'>>
+  ): Promise<boolean> {
+    const db = getDatabase();
+
+    try {
+      const setClause: string[] = [];
+      const params: any[] = [];
+
+      if (updates.riskFactor !== undefined) {
+        setClause.push('risk_factor = ?');
+        params.push(updates.riskFactor);
+      }
+      if (updates.thresholdType !== undefined) {
+        setClause.push('threshold_type = ?');
+        params.push(updates.thresholdType);
+      }
+      if (updates.thresholdValue !== undefined) {
+        setClause.push('threshold_value = ?');
+        params.push(updates.thresholdValue);
+      }
+      if (updates.alertSeverity !== undefined) {
+        setClause.push('alert_severity = ?');
+        params.push(updates.alertSeverity);
+      }
+      if (updates.enabled !== undefined) {
+        setClause.push('enabled = ?');
+        params.push(updates.enabled);
+      }
+      if (updates.lastTriggered !== undefined) {
+        setClause.push('last_triggered = ?');
+        params.push(updates.lastTriggered);
+      }
+
+      if (setClause.length === 0) {
+        return (await this.getRiskThresholds(address)).some(threshold => threshold.id === id);
+      }
+
+      params.push(id, address.toLowerCase());
+
+      const result = await new Promise<any>((resolve, reject) => {
+        db.run(`
+          UPDATE risk_thresholds
+          SET ${setClause.join(', ')}
+          WHERE id = ? AND address = ?
+        `, params, function(err) {
+          if (err) reject(err);
+          else resolve(this);
+        });
+      });
+
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error updating risk threshold:', error);
+      throw new Error(`Failed to update risk threshold: ${error}`);
+    }
+  }
+
+  /**
+   * Delete a risk threshold. Returns false when the address has no such threshold.
+   */
+  static async deleteRiskThreshold(address: string, id: number): Promise<boolean> {
+    const db = getDatabase();
+
+    try {
+      const result = await new Promise<any>((resolve, reject) => {
+        db.run('DELETE FROM risk_thresholds WHERE id = ? AND address = ?', [id, address.toLowerCase()], function(err) {
+          if (err) reject(err);
+          else resolve(this);
+        });
+      });
+
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error deleting risk threshold:', error);
+      throw new Error(`Failed to delete risk threshold: ${error}`);
+    }
+  }
+
+  // Competitive Positioning Database Methods
+
+  /**
+   * Save competitive positioning data
+   */
+  static async saveCompetitivePositioningData(data: any): Promise<number> {
+    const db = getDatabase();
+
+    try {
+      const result = await new Promise<any>((resolve, reject) => {
+        db.run(`
+          INSERT INTO competitive_positioning_data (
+            address, timestamp, overall_market_rank, total_market_size, market_percentile,
+            market_segment_name, market_segment_data, competitive_landscape_data, market_share_data,
+            user_trends_data, peer_group_trends_data, market_average_trends_data,
+            trend_velocity_data, trend_positioning_data,
+            competitive_advantages, market_opportunities, competitive_threats, strategic_recommendations,
+            analysis_version, processing_time_ms
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          data.address.toLowerCase(),
+          data.timestamp || Math.floor(Date.now() / 1000),
+          data.marketPosition.overallMarketRank,
+          data.marketPosition.totalMarketSize,
+          data.marketPosition.marketPercentile,
+          data.marketPosition.marketSegment.name,
+          JSON.stringify(data.marketPosition.marketSegment),
+          JSON.stringify(data.marketPosition.competitiveLandscape),
+          JSON.stringify(data.marketPosition.marketShare),
+          JSON.stringify(data.trendComparison.userTrends),
+          JSON.stringify(data.trendComparison.peerGroupTrends),
+          JSON.stringify(data.trendComparison.marketAverageTrends),
+          JSON.stringify(data.trendComparison.trendVelocity),
+          JSON.stringify(data.trendComparison.trendPositioning),
+          JSON.stringify(data.competitiveAdvantages),
+          JSON.stringify(data.marketOpportunities),
+          JSON.stringify(data.competitiveThreats),
+          JSON.stringify(data.strategicRecommendations),
+          '1.0',
+          Date.now() - (data.timestamp || Math.floor(Date.now() / 1000)) * 1000
+        ], function(err) {
+          if (err) reject(err);
+          else resolve(this);
+        });
+      });
+
+      const positioningId = result.lastID;
+
+      // Save detailed competitive advantages
+      for (const advantage of data.competitiveAdvantages) {
+        await this.saveCompetitiveAdvantage(data.address, positioningId, advantage);
+      }
+
+      // Save market opportunities
+      for (const opportunity of data.marketOpportunities) {
+        await this.saveMarketOpportunity(data.address, positioningId, opportunity);
+      }
+
+      // Save competitive threats
+      for (const threat of data.competitiveThreats) {
+        await this.saveCompetitiveThreat(data.address, positioningId, threat);
+      }
+
+      // Save strategic recommendations
+      for (const recommendation of data.strategicRecommendations) {
+        await this.saveStrategicRecommendation(data.address, positioningId, recommendation);
+      }
+
+      console.log(`Saved competitive positioning data for address ${data.address} with ID ${positioningId}`);
+      return positioningId;
+    } catch (error) {
+      console.error('Error saving competitive positioning data:', error);
+      throw new Error(`Failed to save competitive positioning data: ${error}`);
+    }
+  }
+
+  /**
+   * Save competitive advantage
+   */
+  private static async saveCompetitiveAdvantage(address: string, positioningId: number, advantage: any): Promise<void> {
     const db = getDatabase();
 
     await new Promise<void>((resolve, reject) => {
       db.run(`
-        INSERT INTO competitive_threats (
-          address, positioning_id, threat, severity, probability, timeframe,
-          impact_areas, potential_score_impact, potential_market_position_loss,
-          potential_competitive_disadvantage, description, mitigation_strategies,
-          early_warning_signals, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO competitive_advantages (
+          address, positioning_id, area, advantage_type, strength, market_gap,
+          defensibility, monetization_potential, description, supporting_metrics, threats, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         address.toLowerCase(),
         positioningId,
-        threat.threat,
-        threat.severity,
-        threat.probability,
-        threat.timeframe,
-        JSON.stringify(threat.impactAreas),
-        threat.potentialLoss.scoreImpact,
-        threat.potentialLoss.marketPositionLoss,
-        threat.potentialLoss.competitiveDisadvantage,
+        advantage.area,
+        advantage.advantageType,
+        advantage.strength,
+        advantage.marketGap,
+        advantage.defensibility,
+        advantage.monetizationPotential,
+        advantage.description,
+        JSON.stringify(advantage.supportingMetrics),
+        JSON.stringify(advantage.threats),
+        Math.floor(Date.now() / 1000)
+      ], (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  /**
+   * Save market opportunity
+   */
+  private static async saveMarketOpportunity(address: string, positioningId: number, opportunity: any): Promise<void> {
+    const db = getDatabase();
+
+    await new Promise<void>((resolve, reject) => {
+      db.run(`
+        INSERT INTO market_opportunities (
+          address, positioning_id, area, opportunity_size, difficulty, time_to_capture,
+          market_demand, competition_level, potential_score_improvement,
+          potential_market_position_gain, potential_competitive_advantage_gain,
+          description, action_plan, success_metrics, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        address.toLowerCase(),
+        positioningId,
+        opportunity.area,
+        opportunity.opportunitySize,
+        opportunity.difficulty,
+        opportunity.timeToCapture,
+        opportunity.marketDemand,
+        opportunity.competitionLevel,
+        opportunity.potentialImpact.scoreImprovement,
+        opportunity.potentialImpact.marketPositionGain,
+        opportunity.potentialImpact.competitiveAdvantageGain,
+        opportunity.description,
+        JSON.stringify(opportunity.actionPlan),
+        JSON.stringify(opportunity.successMetrics),
+        Math.floor(Date.now() / 1000)
+      ], (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  /**
+   * Save competitive threat
+   */
+  private static async saveCompetitiveThreat(address: string, positioningId: number, threat: any): Promise<void> {
+    const db = getDatabase();
+
+    await new Promise<void>((resolve, reject) => {
+      db.run(`
+        INSERT INTO competitive_threats (
+          address, positioning_id, threat, severity, probability, timeframe,
+          impact_areas, potential_score_impact, potential_market_position_loss,
+          potential_competitive_disadvantage, description, mitigation_strategies,
+          early_warning_signals, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        address.toLowerCase(),
+        positioningId,
+        threat.threat,
+        threat.severity,
+        threat.probability,
+        threat.timeframe,
+        JSON.stringify(threat.impactAreas),
+        threat.potentialLoss.scoreImpact,
+        threat.potentialLoss.marketPositionLoss,
+        threat.potentialLoss.competitiveDisadvantage,
         threat.description,
         JSON.stringify(threat.mitigationStrategies),
         JSON.stringify(threat.earlyWarningSignals),
@@ -1178,56 +2246,406 @@ export class DatabaseService {
         if (err) reject(err);
         else resolve();
       });
-    });
+    });
+  }
+
+  /**
+   * Save strategic recommendation
+   */
+  private static async saveStrategicRecommendation(address: string, positioningId: number, recommendation: any): Promise<void> {
+    const db = getDatabase();
+
+    await new Promise<void>((resolve, reject) => {
+      db.run(`
+        INSERT INTO strategic_recommendations (
+          address, positioning_id, priority, category, title, description,
+          rationale, expected_outcome, implementation_steps, timeline,
+          resources, risks, success_metrics, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        address.toLowerCase(),
+        positioningId,
+        recommendation.priority,
+        recommendation.category,
+        recommendation.title,
+        recommendation.description,
+        recommendation.rationale,
+        recommendation.expectedOutcome,
+        JSON.stringify(recommendation.implementation.steps),
+        recommendation.implementation.timeline,
+        JSON.stringify(recommendation.implementation.resources),
+        JSON.stringify(recommendation.implementation.risks),
+        JSON.stringify(recommendation.successMetrics),
+        Math.floor(Date.now() / 1000)
+      ], (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  /**
+   * Get latest competitive positioning data for an address
+   */
+  static async getLatestCompetitivePositioningData(address: string): Promise<any | null> {
+    const db = getDatabase();
+
+    try {
+      const result = await new Promise<any>((resolve, reject) => {
+        db.get(`
+          SELECT * FROM competitive_positioning_data 
+          WHERE address = ?
+          ORDER BY timestamp DESC
+          LIMIT 1
+        `, [address.toLowerCase()], (err, row) => {
+          if (err) reject(err);
+          else resolve(row);
+        });
+      });
+
+      if (!result) return null;
+
+      return {
+        id: result.id,
+        address: result.address,
+        timestamp: result.timestamp,
+        marketPosition: {
+          overallMarketRank: result.overall_market_rank,
+          totalMarketSize: result.total_market_size,
+          marketPercentile: result.market_percentile,
+          marketSegment: JSON.parse(result.market_segment_data || '{}'),
+          competitiveLandscape: JSON.parse(result.competitive_landscape_data || '{}'),
+          marketShare: JSON.parse(result.market_share_data || '{}')
+        },
+        trendComparison: {
+          userTrends: JSON.parse(result.user_trends_data || '{}'),
+          peerGroupTrends: JSON.parse(result.peer_group_trends_data || '{}'),
+          marketAverageTrends: JSON.parse(result.market_average_trends_data || '{}'),
+          trendVelocity: JSON.parse(result.trend_velocity_data || '{}'),
+          trendPositioning: JSON.parse(result.trend_positioning_data || '{}')
+        },
+        competitiveAdvantages: JSON.parse(result.competitive_advantages || '[]'),
+        marketOpportunities: JSON.parse(result.market_opportunities || '[]'),
+        competitiveThreats: JSON.parse(result.competitive_threats || '[]'),
+        strategicRecommendations: JSON.parse(result.strategic_recommendations || '[]'),
+        analysisVersion: result.analysis_version,
+        processingTimeMs: result.processing_time_ms
+      };
+    } catch (error) {
+      console.error('Error getting latest competitive positioning data:', error);
+      throw new Error(`Failed to get latest competitive positioning data: ${error}`);
+    }
+  }
+
+  /**
+   * Get competitive positioning history for an address
+   */
+  static async getCompetitivePositioningHistory(address: string, limit: number = 10): Promise<any[]> {
+    const db = getDatabase();
+
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT * FROM competitive_positioning_data 
+          WHERE address = ?
+          ORDER BY timestamp DESC
+          LIMIT ?
+        `, [address.toLowerCase(), limit], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => ({
+        id: row.id,
+        address: row.address,
+        timestamp: row.timestamp,
+        marketPercentile: row.market_percentile,
+        overallMarketRank: row.overall_market_rank,
+        marketSegmentName: row.market_segment_name,
+        analysisVersion: row.analysis_version
+      }));
+    } catch (error) {
+      console.error('Error getting competitive positioning history:', error);
+      throw new Error(`Failed to get competitive positioning history: ${error}`);
+    }
+  }
+
+  /**
+   * Get competitive advantages for an address
+   */
+  static async getCompetitiveAdvantages(address: string, positioningId?: number): Promise<any[]> {
+    const db = getDatabase();
+
+    try {
+      let query = 'SELECT * FROM competitive_advantages WHERE address = ?';
+      const params: any[] = [address.toLowerCase()];
+
+      if (positioningId) {
+        query += ' AND positioning_id = ?';
+        params.push(positioningId);
+      }
+
+      query += ' ORDER BY market_gap DESC';
+
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(query, params, (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => ({
+        id: row.id,
+        area: row.area,
+        advantageType: row.advantage_type,
+        strength: row.strength,
+        marketGap: row.market_gap,
+        defensibility: row.defensibility,
+        monetizationPotential: row.monetization_potential,
+        description: row.description,
+        supportingMetrics: JSON.parse(row.supporting_metrics || '[]'),
+        threats: JSON.parse(row.threats || '[]'),
+        createdAt: row.created_at
+      }));
+    } catch (error) {
+      console.error('Error getting competitive advantages:', error);
+      throw new Error(`Failed to get competitive advantages: ${error}`);
+    }
+  }
+
+  /**
+   * Get market opportunities for an address
+   */
+  static async getMarketOpportunities(address: string, positioningId?: number): Promise<any[]> {
+    const db = getDatabase();
+
+    try {
+      let query = 'SELECT * FROM market_opportunities WHERE address = ?';
+      const params: any[] = [address.toLowerCase()];
+
+      if (positioningId) {
+        query += ' AND positioning_id = ?';
+        params.push(positioningId);
+      }
+
+      query += ' ORDER BY potential_score_improvement DESC';
+
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(query, params, (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => ({
+        id: row.id,
+        area: row.area,
+        opportunitySize: row.opportunity_size,
+        difficulty: row.difficulty,
+        timeToCapture: row.time_to_capture,
+        marketDemand: row.market_demand,
+        competitionLevel: row.competition_level,
+        potentialImpact: {
+          scoreImprovement: row.potential_score_improvement,
+          marketPositionGain: row.potential_market_position_gain,
+          competitiveAdvantageGain: row.potential_competitive_advantage_gain
+        },
+        description: row.description,
+        actionPlan: JSON.parse(row.action_plan || '[]'),
+        successMetrics: JSON.parse(row.success_metrics || '[]'),
+        createdAt: row.created_at
+      }));
+    } catch (error) {
+      console.error('Error getting market opportunities:', error);
+      throw new Error(`Failed to get market opportunities: ${error}`);
+    }
+  }
+
+  /**
+   * Get competitive threats for an address
+   */
+  static async getCompetitiveThreats(address: string, positioningId?: number): Promise<any[]> {
+    const db = getDatabase();
+
+    try {
+      let query = 'SELECT * FROM competitive_threats WHERE address = ?';
+      const params: any[] = [address.toLowerCase()];
+
+      if (positioningId) {
+        query += ' AND positioning_id = ?';
+        params.push(positioningId);
+      }
+
+      query += ' ORDER BY severity DESC, probability DESC';
+
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(query, params, (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => ({
+        id: row.id,
+        threat: row.threat,
+        severity: row.severity,
+        probability: row.probability,
+        timeframe: row.timeframe,
+        impactAreas: JSON.parse(row.impact_areas || '[]'),
+        potentialLoss: {
+          scoreImpact: row.potential_score_impact,
+          marketPositionLoss: row.potential_market_position_loss,
+          competitiveDisadvantage: row.potential_competitive_disadvantage
+        },
+        description: row.description,
+        mitigationStrategies: JSON.parse(row.mitigation_strategies || '[]'),
+        earlyWarningSignals: JSON.parse(row.early_warning_signals || '[]'),
+        createdAt: row.created_at
+      }));
+    } catch (error) {
+      console.error('Error getting competitive threats:', error);
+      throw new Error(`Failed to get competitive threats: ${error}`);
+    }
+  }
+
+  /**
+   * Get strategic recommendations for an address
+   */
+  static async getStrategicRecommendations(address: string, positioningId?: number, status?: string): Promise<any[]> {
+    const db = getDatabase();
+
+    try {
+      let query = 'SELECT * FROM strategic_recommendations WHERE address = ?';
+      const params: any[] = [address.toLowerCase()];
+
+      if (positioningId) {
+        query += ' AND positioning_id = ?';
+        params.push(positioningId);
+      }
+
+      if (status) {
+        query += ' AND status = ?';
+        params.push(status);
+      }
+
+      query += ' ORDER BY priority DESC, created_at DESC';
+
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(query, params, (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => ({
+        id: row.id,
+        priority: row.priority,
+        category: row.category,
+        title: row.title,
+        description: row.description,
+        rationale: row.rationale,
+        expectedOutcome: row.expected_outcome,
+        implementation: {
+          steps: JSON.parse(row.implementation_steps || '[]'),
+          timeline: row.timeline,
+          resources: JSON.parse(row.resources || '[]'),
+          risks: JSON.parse(row.risks || '[]')
+        },
+        successMetrics: JSON.parse(row.success_metrics || '[]'),
+        createdAt: row.created_at,
+        status: row.status,
+        progress: row.progress,
+        completedAt: row.completed_at,
+        source: row.source,
+        details: row.details,
+        baseline: row.baseline,
+        updatedAt: row.updated_at
+      }));
+    } catch (error) {
+      console.error('Error getting strategic recommendations:', error);
+      throw new Error(`Failed to get strategic recommendations: ${error}`);
+    }
+  }
+
+  /**
+   * Update strategic recommendation progress
+   */
+  static async updateStrategicRecommendationProgress(id: number, progress: number, status?: string): Promise<void> {
+    const db = getDatabase();
+
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const completedAt = progress >= 100 ? now : null;
+      const finalStatus = status || (progress >= 100 ? 'COMPLETED' : 'IN_PROGRESS');
+
+      await new Promise<void>((resolve, reject) => {
+        db.run(`
+          UPDATE strategic_recommendations 
+          SET progress = ?, status = ?, completed_at = ?
+          WHERE id = ?
+        `, [progress, finalStatus, completedAt, id], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+
+      console.log(`Updated strategic recommendation ${id} progress to ${progress}%`);
+    } catch (error) {
+      console.error('Error updating strategic recommendation progress:', error);
+      throw new Error(`Failed to update strategic recommendation progress: ${error}`);
+    }
   }
+  // Real-time Benchmarking Database Methods
 
   /**
-   * Save strategic recommendation
+   * Save real-time benchmark data
    */
-  private static async saveStrategicRecommendation(address: string, positioningId: number, recommendation: any): Promise<void> {
+  static async saveRealTimeBenchmarkData(data: Omit<RealTimeBenchmarkData, 'id'>): Promise<number> {
     const db = getDatabase();
 
-    await new Promise<void>((resolve, reject) => {
-      db.run(`
-        INSERT INTO strategic_recommendations (
-          address, positioning_id, priority, category, title, description,
-          rationale, expected_outcome, implementation_steps, timeline,
-          resources, risks, success_metrics, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `, [
-        address.toLowerCase(),
-        positioningId,
-        recommendation.priority,
-        recommendation.category,
-        recommendation.title,
-        recommendation.description,
-        recommendation.rationale,
-        recommendation.expectedOutcome,
-        JSON.stringify(recommendation.implementation.steps),
-        recommendation.implementation.timeline,
-        JSON.stringify(recommendation.implementation.resources),
-        JSON.stringify(recommendation.implementation.risks),
-        JSON.stringify(recommendation.successMetrics),
-        Math.floor(Date.now() / 1000)
-      ], (err) => {
-        if (err) reject(err);
-        else resolve();
+    try {
+      const result = await new Promise<any>((resolve, reject) => {
+        db.run(`
+          INSERT INTO real_time_benchmark_data (
+            address, peer_group_id, overall_percentile, component_percentiles,
+            benchmark_timestamp, last_updated, update_frequency, is_stale
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          data.address.toLowerCase(),
+          data.peerGroupId,
+          data.overallPercentile,
+          data.componentPercentiles,
+          data.benchmarkTimestamp,
+          data.lastUpdated,
+          data.updateFrequency,
+          data.isStale ? 1 : 0
+        ], function(err) {
+          if (err) reject(err);
+          else resolve(this);
+        });
       });
-    });
+
+      console.log(`Saved real-time benchmark data for address ${data.address}`);
+      return result.lastID;
+    } catch (error) {
+      console.error('Error saving real-time benchmark data:', error);
+      throw new Error(`Failed to save real-time benchmark data: ${error}`);
+    }
   }
 
   /**
-   * Get latest competitive positioning data for an address
+   * Get real-time benchmark data for an address
    */
-  static async getLatestCompetitivePositioningData(address: string): Promise<any | null> {
+  static async getRealTimeBenchmarkData(address: string): Promise<RealTimeBenchmarkData | null> {
     const db = getDatabase();
 
     try {
       const result = await new Promise<any>((resolve, reject) => {
         db.get(`
-          SELECT * FROM competitive_positioning_data 
+          SELECT * FROM real_time_benchmark_data 
           WHERE address = ?
-          ORDER BY timestamp DESC
+          ORDER BY last_updated DESC
           LIMIT 1
         `, [address.toLowerCase()], (err, row) => {
           if (err) reject(err);
@@ -1240,88 +2658,141 @@ export class DatabaseService {
       return {
         id: result.id,
         address: result.address,
-        timestamp: result.timestamp,
-        marketPosition: {
-          overallMarketRank: result.overall_market_rank,
-          totalMarketSize: result.total_market_size,
-          marketPercentile: result.market_percentile,
-          marketSegment: JSON.parse(result.market_segment_data || '{}'),
-          competitiveLandscape: JSON.parse(result.competitive_landscape_data || '{}'),
-          marketShare: JSON.parse(result.market_share_data || '{}')
-        },
-        trendComparison: {
-          userTrends: JSON.parse(result.user_trends_data || '{}'),
-          peerGroupTrends: JSON.parse(result.peer_group_trends_data || '{}'),
-          marketAverageTrends: JSON.parse(result.market_average_trends_data || '{}'),
-          trendVelocity: JSON.parse(result.trend_velocity_data || '{}'),
-          trendPositioning: JSON.parse(result.trend_positioning_data || '{}')
-        },
-        competitiveAdvantages: JSON.parse(result.competitive_advantages || '[]'),
-        marketOpportunities: JSON.parse(result.market_opportunities || '[]'),
-        competitiveThreats: JSON.parse(result.competitive_threats || '[]'),
-        strategicRecommendations: JSON.parse(result.strategic_recommendations || '[]'),
-        analysisVersion: result.analysis_version,
-        processingTimeMs: result.processing_time_ms
+        peerGroupId: result.peer_group_id,
+        overallPercentile: result.overall_percentile,
+        componentPercentiles: result.component_percentiles,
+        benchmarkTimestamp: result.benchmark_timestamp,
+        lastUpdated: result.last_updated,
+        updateFrequency: result.update_frequency,
+        isStale: result.is_stale === 1
       };
     } catch (error) {
-      console.error('Error getting latest competitive positioning data:', error);
-      throw new Error(`Failed to get latest competitive positioning data: ${error}`);
+      console.error('Error getting real-time benchmark data:', error);
+      throw new Error(`Failed to get real-time benchmark data: ${error}`);
     }
   }
 
   /**
-   * Get competitive positioning history for an address
+   * Update real-time benchmark data
    */
-  static async getCompetitivePositioningHistory(address: string, limit: number = 10): Promise<any[]> {
+  static async updateRealTimeBenchmarkData(
+    address: string, 
+    updates: Partial<Omit<RealTimeBenchmarkData, 'id' | 'address'>>
+  ): Promise<void> {
     const db = getDatabase();
 
     try {
-      const results = await new Promise<any[]>((resolve, reject) => {
-        db.all(`
-          SELECT * FROM competitive_positioning_data 
+      const setClause: string[] = [];
+      const params: any[] = [];
+
+      if (updates.overallPercentile !== undefined) {
+        setClause.push('overall_percentile = ?');
+        params.push(updates.overallPercentile);
+      }
+      if (updates.componentPercentiles !== undefined) {
+        setClause.push('component_percentiles = ?');
+        params.push(updates.componentPercentiles);
+      }
+      if (updates.lastUpdated !== undefined) {
+        setClause.push('last_updated = ?');
+        params.push(updates.lastUpdated);
+      }
+      if (updates.isStale !== undefined) {
+        setClause.push('is_stale = ?');
+        params.push(updates.isStale ? 1 : 0);
+      }
+
+      if (setClause.length === 0) return;
+
+      params.push(address.toLowerCase());
+
+      await new Promise<void>((resolve, reject) => {
+        db.run(`
+          UPDATE real_time_benchmark_data 
+          SET ${setClause.join(', ')}
           WHERE address = ?
-          ORDER BY timestamp DESC
-          LIMIT ?
-        `, [address.toLowerCase(), limit], (err, rows) => {
+        `, params, (err) => {
           if (err) reject(err);
-          else resolve(rows || []);
+          else resolve();
         });
       });
 
-      return results.map(row => ({
-        id: row.id,
-        address: row.address,
-        timestamp: row.timestamp,
-        marketPercentile: row.market_percentile,
-        overallMarketRank: row.overall_market_rank,
-        marketSegmentName: row.market_segment_name,
-        analysisVersion: row.analysis_version
-      }));
+      console.log(`Updated real-time benchmark data for address ${address}`);
     } catch (error) {
-      console.error('Error getting competitive positioning history:', error);
-      throw new Error(`Failed to get competitive positioning history: ${error}`);
+      console.error('Error updating real-time benchmark data:', error);
+      throw new Error(`Failed to update real-time benchmark data: ${error}`);
     }
   }
 
   /**
-   * Get competitive advantages for an address
+   * Mark benchmark data as stale for addresses that need updates
    */
-  static async getCompetitiveAdvantages(address: string, positioningId?: number): Promise<any[]> {
+  static async markStaleRealTimeBenchmarks(olderThanSeconds: number): Promise<number> {
     const db = getDatabase();
 
     try {
-      let query = 'SELECT * FROM competitive_advantages WHERE address = ?';
-      const params: any[] = [address.toLowerCase()];
+      const cutoffTimestamp = Math.floor(Date.now() / 1000) - olderThanSeconds;
+      
+      const result = await new Promise<any>((resolve, reject) => {
+        db.run(`
+          UPDATE real_time_benchmark_data 
+          SET is_stale = 1
+          WHERE last_updated < ? AND is_stale = 0
+        `, [cutoffTimestamp], function(err) {
+          if (err) reject(err);
+          else resolve(this);
+        });
+      });
 
-      if (positioningId) {
-        query += ' AND positioning_id = ?';
-        params.push(positioningId);
-      }
+      const updatedCount = result.changes || 0;
+      console.log(`Marked ${updatedCount} benchmark entries as stale`);
+      return updatedCount;
+    } catch (error) {
+      console.error('Error marking stale benchmarks:', error);
+      throw new Error(`Failed to mark stale benchmarks: ${error}`);
+    }
+  }
 
-      query += ' ORDER BY market_gap DESC';
+  /**
+   * Get addresses with stale benchmark data
+   */
+  static async getStaleRealTimeBenchmarks(limit: number = 100): Promise<string[]> {
+    const db = getDatabase();
 
+    try {
       const results = await new Promise<any[]>((resolve, reject) => {
-        db.all(query, params, (err, rows) => {
+        db.all(`
+          SELECT DISTINCT address FROM real_time_benchmark_data 
+          WHERE is_stale = 1
+          ORDER BY last_updated ASC
+          LIMIT ?
+        `, [limit], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => row.address);
+    } catch (error) {
+      console.error('Error getting stale benchmarks:', error);
+      throw new Error(`Failed to get stale benchmarks: ${error}`);
+    }
+  }
+
+  /**
+   * Get pending benchmark update jobs, only those that have come due unless dueOnly is false
+   */
+  static async getPendingBenchmarkUpdateJobs(limit: number = 50, dueOnly: boolean = true): Promise<BenchmarkUpdateJob[]> {
+    const db = getDatabase();
+
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT * FROM benchmark_update_jobs 
+          WHERE status = 'PENDING' AND (? = 0 OR scheduled_at <= ?)
+          ORDER BY priority DESC, scheduled_at ASC
+          LIMIT ?
+        `, [dueOnly ? 1 : 0, Math.floor(Date.now() / 1000), limit], (err, rows) => {
           if (err) reject(err);
           else resolve(rows || []);
         });
@@ -1329,370 +2800,395 @@ export class DatabaseService {
 
       return results.map(row => ({
         id: row.id,
-        area: row.area,
-        advantageType: row.advantage_type,
-        strength: row.strength,
-        marketGap: row.market_gap,
-        defensibility: row.defensibility,
-        monetizationPotential: row.monetization_potential,
-        description: row.description,
-        supportingMetrics: JSON.parse(row.supporting_metrics || '[]'),
-        threats: JSON.parse(row.threats || '[]'),
-        createdAt: row.created_at
+        jobType: row.job_type,
+        targetAddress: row.target_address,
+        peerGroupId: row.peer_group_id,
+        priority: row.priority,
+        scheduledAt: row.scheduled_at,
+        startedAt: row.started_at,
+        completedAt: row.completed_at,
+        status: row.status,
+        errorMessage: row.error_message,
+        retryCount: row.retry_count,
+        maxRetries: row.max_retries
       }));
     } catch (error) {
-      console.error('Error getting competitive advantages:', error);
-      throw new Error(`Failed to get competitive advantages: ${error}`);
+      console.error('Error getting pending benchmark update jobs:', error);
+      throw new Error(`Failed to get pending benchmark update jobs: ${error}`);
     }
   }
 
   /**
-   * Get market opportunities for an address
+   * Update benchmark job status
    */
-  static async getMarketOpportunities(address: string, positioningId?: number): Promise<any[]> {
+  static async updateBenchmarkJobStatus(
+    jobId: number, 
+    status: BenchmarkUpdateJob['status'], 
+    errorMessage?: string
+  ): Promise<void> {
     const db = getDatabase();
 
     try {
-      let query = 'SELECT * FROM market_opportunities WHERE address = ?';
-      const params: any[] = [address.toLowerCase()];
+      const now = Math.floor(Date.now() / 1000);
+      let setClause = 'status = ?';
+      const params: any[] = [status];
 
-      if (positioningId) {
-        query += ' AND positioning_id = ?';
-        params.push(positioningId);
+      if (status === 'RUNNING') {
+        setClause += ', started_at = ?';
+        params.push(now);
+      } else if (status === 'COMPLETED' || status === 'FAILED') {
+        setClause += ', completed_at = ?';
+        params.push(now);
       }
 
-      query += ' ORDER BY potential_score_improvement DESC';
+      if (errorMessage) {
+        setClause += ', error_message = ?';
+        params.push(errorMessage);
+      }
 
-      const results = await new Promise<any[]>((resolve, reject) => {
-        db.all(query, params, (err, rows) => {
+      params.push(jobId);
+
+      await new Promise<void>((resolve, reject) => {
+        db.run(`
+          UPDATE benchmark_update_jobs 
+          SET ${setClause}
+          WHERE id = ?
+        `, params, (err) => {
           if (err) reject(err);
-          else resolve(rows || []);
+          else resolve();
         });
       });
 
-      return results.map(row => ({
-        id: row.id,
-        area: row.area,
-        opportunitySize: row.opportunity_size,
-        difficulty: row.difficulty,
-        timeToCapture: row.time_to_capture,
-        marketDemand: row.market_demand,
-        competitionLevel: row.competition_level,
-        potentialImpact: {
-          scoreImprovement: row.potential_score_improvement,
-          marketPositionGain: row.potential_market_position_gain,
-          competitiveAdvantageGain: row.potential_competitive_advantage_gain
-        },
-        description: row.description,
-        actionPlan: JSON.parse(row.action_plan || '[]'),
-        successMetrics: JSON.parse(row.success_metrics || '[]'),
-        createdAt: row.created_at
-      }));
+      console.log(`Updated benchmark job ${jobId} status to ${status}`);
     } catch (error) {
-      console.error('Error getting market opportunities:', error);
-      throw new Error(`Failed to get market opportunities: ${error}`);
+      console.error('Error updating benchmark job status:', error);
+      throw new Error(`Failed to update benchmark job status: ${error}`);
     }
   }
 
+  // Background Job Queue Methods
+
   /**
-   * Get competitive threats for an address
+   * Add a job to the queue. A job with a dedupe key is not added while another job with the
+   * key is pending or running; that job's id is returned instead.
    */
-  static async getCompetitiveThreats(address: string, positioningId?: number): Promise<any[]> {
+  static async enqueueJob(job: {
+    jobType: string;
+    payload: any;
+    priority: JobPriority;
+    maxAttempts: number;
+    runAt: number;
+    dedupeKey?: string;
+  }): Promise<number> {
     const db = getDatabase();
 
     try {
-      let query = 'SELECT * FROM competitive_threats WHERE address = ?';
-      const params: any[] = [address.toLowerCase()];
-
-      if (positioningId) {
-        query += ' AND positioning_id = ?';
-        params.push(positioningId);
-      }
+      // The job holding the dedupe key can finish between the insert and the lookup, freeing the
+      // key, so the insert is tried again
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const result = await new Promise<any>((resolve, reject) => {
+          db.run(`
+            INSERT OR IGNORE INTO jobs (
+              job_type, payload, priority, status, attempts, max_attempts, run_at, dedupe_key, created_at
+            ) VALUES (?, ?, ?, 'PENDING', 0, ?, ?, ?, ?)
+          `, [
+            job.jobType,
+            JSON.stringify(job.payload || {}),
+            JOB_PRIORITY_RANK[job.priority],
+            job.maxAttempts,
+            job.runAt,
+            job.dedupeKey || null,
+            Math.floor(Date.now() / 1000)
+          ], function(err) {
+            if (err) reject(err);
+            else resolve(this);
+          });
+        });
 
-      query += ' ORDER BY severity DESC, probability DESC';
+        if (result.changes > 0) {
+          return result.lastID;
+        }
 
-      const results = await new Promise<any[]>((resolve, reject) => {
-        db.all(query, params, (err, rows) => {
-          if (err) reject(err);
-          else resolve(rows || []);
+        const existing = await new Promise<any>((resolve, reject) => {
+          db.get(`
+            SELECT id FROM jobs
+            WHERE dedupe_key = ? AND status IN ('PENDING', 'RUNNING')
+          `, [job.dedupeKey], (err, row) => {
+            if (err) reject(err);
+            else resolve(row);
+          });
         });
-      });
 
-      return results.map(row => ({
-        id: row.id,
-        threat: row.threat,
-        severity: row.severity,
-        probability: row.probability,
-        timeframe: row.timeframe,
-        impactAreas: JSON.parse(row.impact_areas || '[]'),
-        potentialLoss: {
-          scoreImpact: row.potential_score_impact,
-          marketPositionLoss: row.potential_market_position_loss,
-          competitiveDisadvantage: row.potential_competitive_disadvantage
-        },
-        description: row.description,
-        mitigationStrategies: JSON.parse(row.mitigation_strategies || '[]'),
-        earlyWarningSignals: JSON.parse(row.early_warning_signals || '[]'),
-        createdAt: row.created_at
-      }));
+        if (existing) {
+          return existing.id;
+        }
+      }
+
+      throw new Error(`Job was neither added nor found under dedupe key ${job.dedupeKey}`);
     } catch (error) {
-      console.error('Error getting competitive threats:', error);
-      throw new Error(`Failed to get competitive threats: ${error}`);
+      console.error('Error enqueueing job:', error);
+      throw new Error(`Failed to enqueue job: ${error}`);
     }
   }
 
   /**
-   * Get strategic recommendations for an address
+   * Lease the next due job to a worker, highest priority first: a pending job whose run time has
+   * come or a running job whose lease expired. The claim counts an attempt. Returns null when no
+   * job is due.
    */
-  static async getStrategicRecommendations(address: string, positioningId?: number, status?: string): Promise<any[]> {
+  static async claimJob(workerId: string, now: number, leaseExpiresAt: number): Promise<QueuedJob | null> {
     const db = getDatabase();
 
     try {
-      let query = 'SELECT * FROM strategic_recommendations WHERE address = ?';
-      const params: any[] = [address.toLowerCase()];
-
-      if (positioningId) {
-        query += ' AND positioning_id = ?';
-        params.push(positioningId);
-      }
-
-      if (status) {
-        query += ' AND status = ?';
-        params.push(status);
-      }
+      // Another worker may claim the job between the select and the update, then the next is tried
+      for (;;) {
+        const due = await new Promise<any>((resolve, reject) => {
+          db.get(`
+            SELECT id FROM jobs
+            WHERE (status = 'PENDING' AND run_at <= ?) OR (status = 'RUNNING' AND lease_expires_at <= ?)
+            ORDER BY priority DESC, run_at ASC
+            LIMIT 1
+          `, [now, now], (err, row) => {
+            if (err) reject(err);
+            else resolve(row);
+          });
+        });
 
-      query += ' ORDER BY priority DESC, created_at DESC';
+        if (!due) {
+          return null;
+        }
 
-      const results = await new Promise<any[]>((resolve, reject) => {
-        db.all(query, params, (err, rows) => {
-          if (err) reject(err);
-          else resolve(rows || []);
+        const claimed = await new Promise<any>((resolve, reject) => {
+          db.run(`
+            UPDATE jobs
+            SET status = 'RUNNING', lease_owner = ?, lease_expires_at = ?, started_at = ?, attempts = attempts + 1
+            WHERE id = ? AND ((status = 'PENDING' AND run_at <= ?) OR (status = 'RUNNING' AND lease_expires_at <= ?))
+          `, [workerId, leaseExpiresAt, now, due.id, now, now], function(err) {
+            if (err) reject(err);
+            else resolve(this);
+          });
         });
-      });
 
-      return results.map(row => ({
-        id: row.id,
-        priority: row.priority,
-        category: row.category,
-        title: row.title,
-        description: row.description,
-        rationale: row.rationale,
-        expectedOutcome: row.expected_outcome,
-        implementation: {
-          steps: JSON.parse(row.implementation_steps || '[]'),
-          timeline: row.timeline,
-          resources: JSON.parse(row.resources || '[]'),
-          risks: JSON.parse(row.risks || '[]')
-        },
-        successMetrics: JSON.parse(row.success_metrics || '[]'),
-        createdAt: row.created_at,
-        status: row.status,
-        progress: row.progress,
-        completedAt: row.completed_at
-      }));
+        if (claimed.changes > 0) {
+          return await this.getJob(due.id);
+        }
+      }
     } catch (error) {
-      console.error('Error getting strategic recommendations:', error);
-      throw new Error(`Failed to get strategic recommendations: ${error}`);
+      console.error('Error claiming job:', error);
+      throw new Error(`Failed to claim job: ${error}`);
     }
   }
 
   /**
-   * Update strategic recommendation progress
+   * Extend the lease of a running job. Returns false when the worker no longer holds the lease.
    */
-  static async updateStrategicRecommendationProgress(id: number, progress: number, status?: string): Promise<void> {
+  static async renewJobLease(jobId: number, workerId: string, leaseExpiresAt: number): Promise<boolean> {
     const db = getDatabase();
 
     try {
-      const now = Math.floor(Date.now() / 1000);
-      const completedAt = progress >= 100 ? now : null;
-      const finalStatus = status || (progress >= 100 ? 'COMPLETED' : 'IN_PROGRESS');
-
-      await new Promise<void>((resolve, reject) => {
+      const result = await new Promise<any>((resolve, reject) => {
         db.run(`
-          UPDATE strategic_recommendations 
-          SET progress = ?, status = ?, completed_at = ?
-          WHERE id = ?
-        `, [progress, finalStatus, completedAt, id], (err) => {
+          UPDATE jobs SET lease_expires_at = ?
+          WHERE id = ? AND status = 'RUNNING' AND lease_owner = ?
+        `, [leaseExpiresAt, jobId, workerId], function(err) {
           if (err) reject(err);
-          else resolve();
+          else resolve(this);
         });
       });
 
-      console.log(`Updated strategic recommendation ${id} progress to ${progress}%`);
+      return result.changes > 0;
     } catch (error) {
-      console.error('Error updating strategic recommendation progress:', error);
-      throw new Error(`Failed to update strategic recommendation progress: ${error}`);
+      console.error('Error renewing job lease:', error);
+      throw new Error(`Failed to renew job lease: ${error}`);
     }
   }
-  // Real-time Benchmarking Database Methods
 
   /**
-   * Save real-time benchmark data
+   * Mark a leased job completed. Returns false when the worker no longer holds the lease.
    */
-  static async saveRealTimeBenchmarkData(data: Omit<RealTimeBenchmarkData, 'id'>): Promise<number> {
+  static async completeJob(jobId: number, workerId: string): Promise<boolean> {
     const db = getDatabase();
 
     try {
       const result = await new Promise<any>((resolve, reject) => {
         db.run(`
-          INSERT INTO real_time_benchmark_data (
-            address, peer_group_id, overall_percentile, component_percentiles,
-            benchmark_timestamp, last_updated, update_frequency, is_stale
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-        `, [
-          data.address.toLowerCase(),
-          data.peerGroupId,
-          data.overallPercentile,
-          data.componentPercentiles,
-          data.benchmarkTimestamp,
-          data.lastUpdated,
-          data.updateFrequency,
-          data.isStale ? 1 : 0
-        ], function(err) {
+          UPDATE jobs
+          SET status = 'COMPLETED', completed_at = ?, lease_owner = NULL, lease_expires_at = NULL
+          WHERE id = ? AND status = 'RUNNING' AND lease_owner = ?
+        `, [Math.floor(Date.now() / 1000), jobId, workerId], function(err) {
           if (err) reject(err);
           else resolve(this);
         });
       });
 
-      console.log(`Saved real-time benchmark data for address ${data.address}`);
-      return result.lastID;
+      return result.changes > 0;
     } catch (error) {
-      console.error('Error saving real-time benchmark data:', error);
-      throw new Error(`Failed to save real-time benchmark data: ${error}`);
+      console.error('Error completing job:', error);
+      throw new Error(`Failed to complete job: ${error}`);
     }
   }
 
   /**
-   * Get real-time benchmark data for an address
+   * Return a leased job to the queue to run again at runAt. Returns false when the worker no
+   * longer holds the lease.
    */
-  static async getRealTimeBenchmarkData(address: string): Promise<RealTimeBenchmarkData | null> {
+  static async releaseJobForRetry(jobId: number, workerId: string, runAt: number, errorMessage: string): Promise<boolean> {
     const db = getDatabase();
 
     try {
       const result = await new Promise<any>((resolve, reject) => {
-        db.get(`
-          SELECT * FROM real_time_benchmark_data 
-          WHERE address = ?
-          ORDER BY last_updated DESC
-          LIMIT 1
-        `, [address.toLowerCase()], (err, row) => {
+        db.run(`
+          UPDATE jobs
+          SET status = 'PENDING', run_at = ?, last_error = ?, lease_owner = NULL, lease_expires_at = NULL
+          WHERE id = ? AND status = 'RUNNING' AND lease_owner = ?
+        `, [runAt, errorMessage, jobId, workerId], function(err) {
           if (err) reject(err);
-          else resolve(row);
+          else resolve(this);
         });
       });
 
-      if (!result) return null;
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error releasing job for retry:', error);
+      throw new Error(`Failed to release job for retry: ${error}`);
+    }
+  }
 
-      return {
-        id: result.id,
-        address: result.address,
-        peerGroupId: result.peer_group_id,
-        overallPercentile: result.overall_percentile,
-        componentPercentiles: result.component_percentiles,
-        benchmarkTimestamp: result.benchmark_timestamp,
-        lastUpdated: result.last_updated,
-        updateFrequency: result.update_frequency,
-        isStale: result.is_stale === 1
-      };
+  /**
+   * Move a leased job that has used up its attempts to the dead letter table.
+   * Returns false when the worker no longer holds the lease.
+   */
+  static async deadLetterJob(job: QueuedJob, workerId: string, errorMessage: string): Promise<boolean> {
+    try {
+      return await withTransaction(async run => {
+        const deleted = await run(`
+          DELETE FROM jobs WHERE id = ? AND status = 'RUNNING' AND lease_owner = ?
+        `, [job.id, workerId]);
+
+        if (deleted.changes > 0) {
+          await run(`
+            INSERT INTO dead_letter_jobs (
+              job_id, job_type, payload, priority, attempts, last_error, created_at, failed_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          `, [
+            job.id,
+            job.jobType,
+            JSON.stringify(job.payload),
+            JOB_PRIORITY_RANK[job.priority],
+            job.attempts,
+            errorMessage,
+            job.createdAt,
+            Math.floor(Date.now() / 1000)
+          ]);
+        }
+
+        return deleted.changes > 0;
+      });
     } catch (error) {
-      console.error('Error getting real-time benchmark data:', error);
-      throw new Error(`Failed to get real-time benchmark data: ${error}`);
+      console.error('Error dead-lettering job:', error);
+      throw new Error(`Failed to dead-letter job: ${error}`);
     }
   }
 
   /**
-   * Update real-time benchmark data
+   * Get queued jobs, most recently created first
    */
-  static async updateRealTimeBenchmarkData(
-    address: string, 
-    updates: Partial<Omit<RealTimeBenchmarkData, 'id' | 'address'>>
-  ): Promise<void> {
+  static async getJobs(filter: {
+    status?: QueuedJob['status'];
+    jobType?: string;
+    limit?: number;
+  } = {}): Promise<QueuedJob[]> {
     const db = getDatabase();
 
     try {
-      const setClause: string[] = [];
-      const params: any[] = [];
-
-      if (updates.overallPercentile !== undefined) {
-        setClause.push('overall_percentile = ?');
-        params.push(updates.overallPercentile);
-      }
-      if (updates.componentPercentiles !== undefined) {
-        setClause.push('component_percentiles = ?');
-        params.push(updates.componentPercentiles);
-      }
-      if (updates.lastUpdated !== undefined) {
-        setClause.push('last_updated = ?');
-        params.push(updates.lastUpdated);
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (filter.status) {
+        conditions.push('status = ?');
+        params.push(filter.status);
       }
-      if (updates.isStale !== undefined) {
-        setClause.push('is_stale = ?');
-        params.push(updates.isStale ? 1 : 0);
+      if (filter.jobType) {
+        conditions.push('job_type = ?');
+        params.push(filter.jobType);
       }
+      params.push(filter.limit || 50);
 
-      if (setClause.length === 0) return;
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT * FROM jobs
+          ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+          ORDER BY created_at DESC, id DESC
+          LIMIT ?
+        `, params, (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
 
-      params.push(address.toLowerCase());
+      return results.map(row => this.mapJobRow(row));
+    } catch (error) {
+      console.error('Error getting jobs:', error);
+      throw new Error(`Failed to get jobs: ${error}`);
+    }
+  }
 
-      await new Promise<void>((resolve, reject) => {
-        db.run(`
-          UPDATE real_time_benchmark_data 
-          SET ${setClause.join(', ')}
-          WHERE address = ?
-        `, params, (err) => {
+  /**
+   * Get a queued job by id
+   */
+  static async getJob(jobId: number): Promise<QueuedJob | null> {
+    const db = getDatabase();
+
+    try {
+      const result = await new Promise<any>((resolve, reject) => {
+        db.get('SELECT * FROM jobs WHERE id = ?', [jobId], (err, row) => {
           if (err) reject(err);
-          else resolve();
+          else resolve(row);
         });
       });
 
-      console.log(`Updated real-time benchmark data for address ${address}`);
+      return result ? this.mapJobRow(result) : null;
     } catch (error) {
-      console.error('Error updating real-time benchmark data:', error);
-      throw new Error(`Failed to update real-time benchmark data: ${error}`);
+      console.error('Error getting job:', error);
+      throw new Error(`Failed to get job: ${error}`);
     }
   }
 
   /**
-   * Mark benchmark data as stale for addresses that need updates
+   * Move a pending job's run time, e.g. to run one waiting out a retry backoff now.
+   * Returns false when the job is not pending.
    */
-  static async markStaleRealTimeBenchmarks(olderThanSeconds: number): Promise<number> {
+  static async rescheduleJob(jobId: number, runAt: number): Promise<boolean> {
     const db = getDatabase();
 
     try {
-      const cutoffTimestamp = Math.floor(Date.now() / 1000) - olderThanSeconds;
-      
       const result = await new Promise<any>((resolve, reject) => {
         db.run(`
-          UPDATE real_time_benchmark_data 
-          SET is_stale = 1
-          WHERE last_updated < ? AND is_stale = 0
-        `, [cutoffTimestamp], function(err) {
+          UPDATE jobs SET run_at = ? WHERE id = ? AND status = 'PENDING'
+        `, [runAt, jobId], function(err) {
           if (err) reject(err);
           else resolve(this);
         });
       });
 
-      const updatedCount = result.changes || 0;
-      console.log(`Marked ${updatedCount} benchmark entries as stale`);
-      return updatedCount;
+      return result.changes > 0;
     } catch (error) {
-      console.error('Error marking stale benchmarks:', error);
-      throw new Error(`Failed to mark stale benchmarks: ${error}`);
+      console.error('Error rescheduling job:', error);
+      throw new Error(`Failed to reschedule job: ${error}`);
     }
   }
 
   /**
-   * Get addresses with stale benchmark data
+   * Get dead-lettered jobs, most recently failed first
    */
-  static async getStaleRealTimeBenchmarks(limit: number = 100): Promise<string[]> {
+  static async getDeadLetterJobs(limit: number = 50): Promise<DeadLetterJob[]> {
     const db = getDatabase();
 
     try {
       const results = await new Promise<any[]>((resolve, reject) => {
         db.all(`
-          SELECT DISTINCT address FROM real_time_benchmark_data 
-          WHERE is_stale = 1
-          ORDER BY last_updated ASC
+          SELECT * FROM dead_letter_jobs
+          ORDER BY failed_at DESC, id DESC
           LIMIT ?
         `, [limit], (err, rows) => {
           if (err) reject(err);
@@ -1700,165 +3196,184 @@ export class DatabaseService {
         });
       });
 
-      return results.map(row => row.address);
+      return results.map(row => this.mapDeadLetterJobRow(row));
     } catch (error) {
-      console.error('Error getting stale benchmarks:', error);
-      throw new Error(`Failed to get stale benchmarks: ${error}`);
+      console.error('Error getting dead letter jobs:', error);
+      throw new Error(`Failed to get dead letter jobs: ${error}`);
     }
   }
 
   /**
-   * Create benchmark update job
+   * Get a dead-lettered job by id
    */
-  static async createBenchmarkUpdateJob(job: Omit<BenchmarkUpdateJob, 'id'>): Promise<number> {
+  static async getDeadLetterJob(deadLetterId: number): Promise<DeadLetterJob | null> {
     const db = getDatabase();
 
     try {
       const result = await new Promise<any>((resolve, reject) => {
-        db.run(`
-          INSERT INTO benchmark_update_jobs (
-            job_type, target_address, peer_group_id, priority,
-            scheduled_at, started_at, completed_at, status,
-            error_message, retry_count, max_retries
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `, [
-          job.jobType,
-          job.targetAddress?.toLowerCase(),
-          job.peerGroupId,
-          job.priority,
-          job.scheduledAt,
-          job.startedAt,
-          job.completedAt,
-          job.status,
-          job.errorMessage,
-          job.retryCount,
-          job.maxRetries
-        ], function(err) {
+        db.get('SELECT * FROM dead_letter_jobs WHERE id = ?', [deadLetterId], (err, row) => {
           if (err) reject(err);
-          else resolve(this);
+          else resolve(row);
         });
       });
 
-      console.log(`Created benchmark update job: ${job.jobType}`);
-      return result.lastID;
+      return result ? this.mapDeadLetterJobRow(result) : null;
     } catch (error) {
-      console.error('Error creating benchmark update job:', error);
-      throw new Error(`Failed to create benchmark update job: ${error}`);
+      console.error('Error getting dead letter job:', error);
+      throw new Error(`Failed to get dead letter job: ${error}`);
     }
   }
 
   /**
-   * Get pending benchmark update jobs
+   * Queue a dead-lettered job again with fresh attempts and remove it from the dead letter table,
+   * together. Returns the new job's id, or null when the job has already left the table.
    */
-  static async getPendingBenchmarkUpdateJobs(limit: number = 50): Promise<BenchmarkUpdateJob[]> {
-    const db = getDatabase();
-
+  static async requeueDeadLetterJob(deadLetter: DeadLetterJob, maxAttempts: number, runAt: number): Promise<number | null> {
     try {
-      const results = await new Promise<any[]>((resolve, reject) => {
-        db.all(`
-          SELECT * FROM benchmark_update_jobs 
-          WHERE status = 'PENDING' AND scheduled_at <= ?
-          ORDER BY priority DESC, scheduled_at ASC
-          LIMIT ?
-        `, [Math.floor(Date.now() / 1000), limit], (err, rows) => {
-          if (err) reject(err);
-          else resolve(rows || []);
-        });
-      });
+      return await withTransaction(async run => {
+        const deleted = await run('DELETE FROM dead_letter_jobs WHERE id = ?', [deadLetter.id]);
+        if (deleted.changes === 0) {
+          return null;
+        }
+
+        const inserted = await run(`
+          INSERT INTO jobs (
+            job_type, payload, priority, status, attempts, max_attempts, run_at, created_at
+          ) VALUES (?, ?, ?, 'PENDING', 0, ?, ?, ?)
+        `, [
+          deadLetter.jobType,
+          JSON.stringify(deadLetter.payload || {}),
+          JOB_PRIORITY_RANK[deadLetter.priority],
+          maxAttempts,
+          runAt,
+          Math.floor(Date.now() / 1000)
+        ]);
 
-      return results.map(row => ({
-        id: row.id,
-        jobType: row.job_type,
-        targetAddress: row.target_address,
-        peerGroupId: row.peer_group_id,
-        priority: row.priority,
-        scheduledAt: row.scheduled_at,
-        startedAt: row.started_at,
-        completedAt: row.completed_at,
-        status: row.status,
-        errorMessage: row.error_message,
-        retryCount: row.retry_count,
-        maxRetries: row.max_retries
-      }));
+        return inserted.lastID;
+      });
     } catch (error) {
-      console.error('Error getting pending benchmark update jobs:', error);
-      throw new Error(`Failed to get pending benchmark update jobs: ${error}`);
+      console.error('Error requeueing dead letter job:', error);
+      throw new Error(`Failed to requeue dead letter job: ${error}`);
     }
   }
 
   /**
-   * Update benchmark job status
+   * Count queued and dead-lettered jobs per job type and status, with the run time of the
+   * longest overdue pending job
    */
-  static async updateBenchmarkJobStatus(
-    jobId: number, 
-    status: BenchmarkUpdateJob['status'], 
-    errorMessage?: string
-  ): Promise<void> {
+  static async getJobQueueStats(now: number): Promise<{
+    byType: { [jobType: string]: JobTypeCounts };
+    oldestDueRunAt: number | null;
+  }> {
     const db = getDatabase();
 
     try {
-      const now = Math.floor(Date.now() / 1000);
-      let setClause = 'status = ?';
-      const params: any[] = [status];
+      const [jobRows, deadRows, oldest] = await Promise.all([
+        new Promise<any[]>((resolve, reject) => {
+          db.all(`
+            SELECT job_type, status, COUNT(*) AS count FROM jobs GROUP BY job_type, status
+          `, (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows || []);
+          });
+        }),
+        new Promise<any[]>((resolve, reject) => {
+          db.all(`
+            SELECT job_type, COUNT(*) AS count FROM dead_letter_jobs GROUP BY job_type
+          `, (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows || []);
+          });
+        }),
+        new Promise<any>((resolve, reject) => {
+          db.get(`
+            SELECT MIN(run_at) AS run_at FROM jobs WHERE status = 'PENDING' AND run_at <= ?
+          `, [now], (err, row) => {
+            if (err) reject(err);
+            else resolve(row);
+          });
+        })
+      ]);
 
-      if (status === 'RUNNING') {
-        setClause += ', started_at = ?';
-        params.push(now);
-      } else if (status === 'COMPLETED' || status === 'FAILED') {
-        setClause += ', completed_at = ?';
-        params.push(now);
-      }
+      const byType: { [jobType: string]: JobTypeCounts } = {};
+      const countsFor = (jobType: string) =>
+        byType[jobType] = byType[jobType] || { pending: 0, running: 0, completed: 0, dead: 0 };
 
-      if (errorMessage) {
-        setClause += ', error_message = ?';
-        params.push(errorMessage);
+      for (const row of jobRows) {
+        countsFor(row.job_type)[(row.status as string).toLowerCase() as keyof JobTypeCounts] = row.count;
+      }
+      for (const row of deadRows) {
+        countsFor(row.job_type).dead = row.count;
       }
 
-      params.push(jobId);
-
-      await new Promise<void>((resolve, reject) => {
-        db.run(`
-          UPDATE benchmark_update_jobs 
-          SET ${setClause}
-          WHERE id = ?
-        `, params, (err) => {
-          if (err) reject(err);
-          else resolve();
-        });
-      });
-
-      console.log(`Updated benchmark job ${jobId} status to ${status}`);
+      return { byType, oldestDueRunAt: oldest?.run_at ?? null };
     } catch (error) {
-      console.error('Error updating benchmark job status:', error);
-      throw new Error(`Failed to update benchmark job status: ${error}`);
+      console.error('Error getting job queue stats:', error);
+      throw new Error(`Failed to get job queue stats: ${error}`);
     }
   }
 
   /**
-   * Increment job retry count
+   * Delete completed jobs that completed before a timestamp
    */
-  static async incrementBenchmarkJobRetryCount(jobId: number): Promise<void> {
+  static async purgeCompletedJobs(before: number): Promise<number> {
     const db = getDatabase();
 
     try {
-      await new Promise<void>((resolve, reject) => {
+      const result = await new Promise<any>((resolve, reject) => {
         db.run(`
-          UPDATE benchmark_update_jobs 
-          SET retry_count = retry_count + 1, status = 'PENDING'
-          WHERE id = ?
-        `, [jobId], (err) => {
+          DELETE FROM jobs WHERE status = 'COMPLETED' AND completed_at < ?
+        `, [before], function(err) {
           if (err) reject(err);
-          else resolve();
+          else resolve(this);
         });
       });
 
-      console.log(`Incremented retry count for benchmark job ${jobId}`);
+      return result.changes;
     } catch (error) {
-      console.error('Error incrementing benchmark job retry count:', error);
-      throw new Error(`Failed to increment benchmark job retry count: ${error}`);
+      console.error('Error purging completed jobs:', error);
+      throw new Error(`Failed to purge completed jobs: ${error}`);
     }
   }
 
+  private static mapJobRow(row: any): QueuedJob {
+    return {
+      id: row.id,
+      jobType: row.job_type,
+      payload: JSON.parse(row.payload || '{}'),
+      priority: this.mapJobPriority(row.priority),
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      runAt: row.run_at,
+      leaseOwner: row.lease_owner,
+      leaseExpiresAt: row.lease_expires_at,
+      lastError: row.last_error,
+      dedupeKey: row.dedupe_key,
+      createdAt: row.created_at,
+      startedAt: row.started_at,
+      completedAt: row.completed_at
+    };
+  }
+
+  private static mapDeadLetterJobRow(row: any): DeadLetterJob {
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      jobType: row.job_type,
+      payload: JSON.parse(row.payload || '{}'),
+      priority: this.mapJobPriority(row.priority),
+      attempts: row.attempts,
+      lastError: row.last_error,
+      createdAt: row.created_at,
+      failedAt: row.failed_at
+    };
+  }
+
+  private static mapJobPriority(rank: number): JobPriority {
+    return rank >= JOB_PRIORITY_RANK.HIGH ? 'HIGH' : rank >= JOB_PRIORITY_RANK.MEDIUM ? 'MEDIUM' : 'LOW';
+  }
+
   /**
    * Save peer group snapshot
    */
@@ -1988,8 +3503,8 @@ export class DatabaseService {
         new Promise<any>((resolve, reject) => {
           db.get(`
             SELECT COUNT(*) as pending
-            FROM benchmark_update_jobs
-            WHERE status = 'PENDING'
+            FROM jobs
+            WHERE status = 'PENDING' AND job_type IN ('BENCHMARK_UPDATE', 'PEER_GROUP_REFRESH', 'PERCENTILE_RECALC')
           `, (err, row) => {
             if (err) reject(err);
             else resolve(row);
@@ -2108,6 +3623,169 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Get predictions whose target date has passed without an accuracy result,
+   * skipping ones that failed to resolve maxAttempts times
+   */
+  static async getDuePredictions(now: number, limit: number = 50, maxAttempts: number = 3): Promise<any[]> {
+    const db = getDatabase();
+
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT * FROM predictions p
+          WHERE p.target_date <= ? AND p.resolution_attempts < ?
+            AND NOT EXISTS (SELECT 1 FROM prediction_accuracy a WHERE a.prediction_id = p.prediction_id)
+          ORDER BY p.target_date ASC
+          LIMIT ?
+        `, [now, maxAttempts, limit], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(result => ({
+        predictionId: result.prediction_id,
+        address: result.address,
+        predictionDate: result.prediction_date,
+        targetDate: result.target_date,
+        predictedScore: result.predicted_score,
+        confidenceInterval: {
+          lower: result.confidence_lower,
+          upper: result.confidence_upper
+        },
+        confidence: result.confidence,
+        methodology: result.methodology,
+        factors: JSON.parse(result.factors),
+        createdAt: result.created_at,
+        resolutionAttempts: result.resolution_attempts
+      }));
+    } catch (error) {
+      console.error('Error getting due predictions:', error);
+      throw new Error(`Failed to get due predictions: ${error}`);
+    }
+  }
+
+  /**
+   * Get the accuracy of predictions resolved since a timestamp, per methodology
+   */
+  static async getRecentPredictionAccuracy(since: number): Promise<{
+    methodology: string;
+    sampleSize: number;
+    meanAbsoluteError: number;
+    intervalCoverage: number; // percentage of actual scores within the confidence interval
+  }[]> {
+    const db = getDatabase();
+
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT methodology, COUNT(*) AS sample_size, AVG(absolute_error) AS mean_absolute_error,
+            AVG(CASE WHEN was_within_interval THEN 100.0 ELSE 0 END) AS interval_coverage
+          FROM prediction_accuracy
+          WHERE created_at >= ?
+          GROUP BY methodology
+        `, [since], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => ({
+        methodology: row.methodology,
+        sampleSize: row.sample_size,
+        meanAbsoluteError: row.mean_absolute_error,
+        intervalCoverage: row.interval_coverage
+      }));
+    } catch (error) {
+      console.error('Error getting recent prediction accuracy:', error);
+      throw new Error(`Failed to get recent prediction accuracy: ${error}`);
+    }
+  }
+
+  /**
+   * Get predictions resolved since a timestamp with their actual score and stored prediction
+   */
+  static async getResolvedPredictions(since: number): Promise<any[]> {
+    const db = getDatabase();
+
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT a.prediction_id, a.methodology, a.prediction_date, a.target_date, a.predicted_score,
+            a.actual_score, p.prediction_data
+          FROM prediction_accuracy a
+          LEFT JOIN predictions p ON p.prediction_id = a.prediction_id
+          WHERE a.created_at >= ?
+          ORDER BY a.created_at ASC
+        `, [since], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(result => ({
+        predictionId: result.prediction_id,
+        methodology: result.methodology,
+        predictionDate: result.prediction_date,
+        targetDate: result.target_date,
+        predictedScore: result.predicted_score,
+        actualScore: result.actual_score,
+        predictionData: result.prediction_data ? JSON.parse(result.prediction_data) : null
+      }));
+    } catch (error) {
+      console.error('Error getting resolved predictions:', error);
+      throw new Error(`Failed to get resolved predictions: ${error}`);
+    }
+  }
+
+  /**
+   * Count a failed attempt to resolve a prediction
+   */
+  static async recordPredictionResolutionFailure(predictionId: string): Promise<void> {
+    const db = getDatabase();
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        db.run(`
+          UPDATE predictions SET resolution_attempts = resolution_attempts + 1
+          WHERE prediction_id = ?
+        `, [predictionId], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    } catch (error) {
+      console.error('Error recording prediction resolution failure:', error);
+      throw new Error(`Failed to record prediction resolution failure: ${error}`);
+    }
+  }
+
+  /**
+   * Get addresses with backfilled score history
+   */
+  static async getBackfilledAddresses(): Promise<string[]> {
+    const db = getDatabase();
+
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT DISTINCT address FROM enhanced_score_history
+          WHERE backfilled = 1
+          ORDER BY address
+        `, [], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map(row => row.address);
+    } catch (error) {
+      console.error('Error getting backfilled addresses:', error);
+      throw new Error(`Failed to get backfilled addresses: ${error}`);
+    }
+  }
+
   /**
    * Save prediction accuracy result
    */
@@ -0,0 +1,454 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+import {
+  ChainDataSource,
+  ChainInternalCall,
+  ChainLog,
+  ChainNetwork,
+  ChainTraceCall,
+  ChainTransaction,
+  LogFilter,
+  TransactionQuery
+} from './chainDataSource';
+import { RateLimiter, RequestCache } from './requestUtils';
+import { TokenMetadata, ERC20_TRANSFER_TOPIC } from './tokenRegistry';
+
+const DEFAULT_ETHERSCAN_API_URL = 'https://api.etherscan.io/api';
+
+// Most logs the getLogs endpoint returns per request
+const LOGS_PAGE_SIZE = 1000;
+
+// ERC-20 function selectors
+const ERC20_SYMBOL_SELECTOR = ethers.id('symbol()').slice(0, 10);
+const ERC20_DECIMALS_SELECTOR = ethers.id('decimals()').slice(0, 10);
+
+/**
+ * Decode a symbol() return value, supporting both string and legacy bytes32 tokens
+ */
+function decodeTokenSymbol(result: string): string {
+  try {
+    return ethers.AbiCoder.defaultAbiCoder().decode(['string'], result)[0];
+  } catch {
+    return ethers.decodeBytes32String(result);
+  }
+}
+
+/**
+ * Etherscan-compatible indexer data source
+ * Works against Etherscan and any explorer exposing the same API (Blockscout, etc.)
+ */
+export class EtherscanDataSource implements ChainDataSource {
+  readonly kind = 'etherscan' as const;
+  readonly indexesLogs = true;
+
+  private apiKey?: string;
+  private apiUrl: string;
+  private rateLimiter = new RateLimiter(5, 1000); // 5 requests per second for Etherscan
+  private cache = new RequestCache();
+
+  constructor(apiKey?: string, apiUrl?: string) {
+    this.apiKey = apiKey;
+    this.apiUrl = apiUrl || DEFAULT_ETHERSCAN_API_URL;
+  }
+
+  /**
+   * Perform a rate limited request against the explorer API
+   */
+  private async request(params: Record<string, string | number>): Promise<any> {
+    if (!this.apiKey) {
+      throw new Error('Etherscan API key not configured');
+    }
+
+    await this.rateLimiter.waitIfNeeded();
+
+    try {
+      const response = await axios.get(this.apiUrl, {
+        params: { ...params, apikey: this.apiKey },
+        timeout: 10000
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error('Etherscan API error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Perform a request against the proxy module (JSON-RPC passthrough)
+   */
+  private async proxyRequest(action: string, params: Record<string, string | number> = {}): Promise<any> {
+    const data = await this.request({ module: 'proxy', action, ...params });
+
+    if (data.error) {
+      throw new Error(`Etherscan proxy error: ${data.error.message || data.error}`);
+    }
+
+    return data.result;
+  }
+
+  /**
+   * Fetch transaction history using the txlist endpoint
+   */
+  async getTransactions(address: string, query: TransactionQuery): Promise<ChainTransaction[]> {
+    const startBlock = query.startBlock ?? 0;
+    const endBlock = query.endBlock ?? 99999999;
+    const cacheKey = `etherscan_txs_${address}_${query.sort}_${query.limit}_${startBlock}_${endBlock}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const data = await this.request({
+      module: 'account',
+      action: 'txlist',
+      address,
+      startblock: startBlock,
+      endblock: endBlock,
+      page: 1,
+      offset: query.limit,
+      sort: query.sort
+    });
+
+    if (data.status !== '1') {
+      // Handle "No transactions found" as a valid empty result
+      if (data.message === 'No transactions found') {
+        const emptyResult: ChainTransaction[] = [];
+        this.cache.set(cacheKey, emptyResult, 300000); // Cache for 5 minutes
+        return emptyResult;
+      }
+      throw new Error(`Etherscan API error: ${data.message}`);
+    }
+
+    const transactions: ChainTransaction[] = (data.result || []).map((tx: any) => ({
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to || null,
+      value: tx.value || '0',
+      gasPrice: tx.gasPrice || '0',
+      gasUsed: tx.gasUsed || '0',
+      timestamp: parseInt(tx.timeStamp),
+      blockNumber: parseInt(tx.blockNumber),
+      input: tx.input,
+      isError: tx.isError === '1'
+    }));
+
+    this.cache.set(cacheKey, transactions, 300000); // Cache for 5 minutes
+    return transactions;
+  }
+
+  /**
+   * Fetch internal transactions using the txlistinternal endpoint
+   */
+  async getInternalTransactions(address: string, query: TransactionQuery): Promise<ChainInternalCall[]> {
+    const startBlock = query.startBlock ?? 0;
+    const endBlock = query.endBlock ?? 99999999;
+    const cacheKey = `etherscan_internal_${address}_${query.sort}_${query.limit}_${startBlock}_${endBlock}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const data = await this.request({
+      module: 'account',
+      action: 'txlistinternal',
+      address,
+      startblock: startBlock,
+      endblock: endBlock,
+      page: 1,
+      offset: query.limit,
+      sort: query.sort
+    });
+
+    if (data.status !== '1') {
+      if (data.message === 'No transactions found') {
+        const emptyResult: ChainInternalCall[] = [];
+        this.cache.set(cacheKey, emptyResult, 300000); // Cache for 5 minutes
+        return emptyResult;
+      }
+      throw new Error(`Etherscan API error: ${data.message}`);
+    }
+
+    const internalCalls: ChainInternalCall[] = (data.result || []).map((call: any) => ({
+      hash: call.hash,
+      from: call.from,
+      to: call.to || call.contractAddress || null,
+      value: call.value || '0',
+      type: call.type || 'call',
+      // traceId is the path of the call in the trace tree, e.g. "0_1"
+      depth: call.traceId ? call.traceId.split('_').length : 1,
+      isError: call.isError === '1',
+      timestamp: parseInt(call.timeStamp),
+      blockNumber: parseInt(call.blockNumber)
+    }));
+
+    this.cache.set(cacheKey, internalCalls, 300000); // Cache for 5 minutes
+    return internalCalls;
+  }
+
+  /**
+   * Fetch ERC-20 transfers using the tokentx endpoint, rebuilt as Transfer logs
+   */
+  async getTokenTransfers(address: string, query: TransactionQuery): Promise<ChainLog[] | null> {
+    const startBlock = query.startBlock ?? 0;
+    const endBlock = query.endBlock ?? 99999999;
+    const cacheKey = `etherscan_tokentx_${address}_${query.sort}_${query.limit}_${startBlock}_${endBlock}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const data = await this.request({
+      module: 'account',
+      action: 'tokentx',
+      address,
+      startblock: startBlock,
+      endblock: endBlock,
+      page: 1,
+      offset: query.limit,
+      sort: query.sort
+    });
+
+    if (data.status !== '1') {
+      if (data.message === 'No transactions found') {
+        const emptyResult: ChainLog[] = [];
+        this.cache.set(cacheKey, emptyResult, 300000); // Cache for 5 minutes
+        return emptyResult;
+      }
+      throw new Error(`Etherscan API error: ${data.message}`);
+    }
+
+    // Older explorer versions omit the log index, so transfers are numbered within their transaction
+    const ordinals = new Map<string, number>();
+    const logs: ChainLog[] = (data.result || []).map((transfer: any) => {
+      const ordinal = ordinals.get(transfer.hash) || 0;
+      ordinals.set(transfer.hash, ordinal + 1);
+
+      return {
+        address: transfer.contractAddress,
+        topics: [
+          ERC20_TRANSFER_TOPIC,
+          ethers.zeroPadValue(transfer.from.toLowerCase(), 32),
+          ethers.zeroPadValue(transfer.to.toLowerCase(), 32)
+        ],
+        data: ethers.toBeHex(BigInt(transfer.value || '0'), 32),
+        blockNumber: parseInt(transfer.blockNumber),
+        transactionHash: transfer.hash,
+        logIndex: transfer.logIndex !== undefined && transfer.logIndex !== '' ? parseInt(transfer.logIndex) : ordinal,
+        timestamp: parseInt(transfer.timeStamp)
+      };
+    });
+
+    this.cache.set(cacheKey, logs, 300000); // Cache for 5 minutes
+    return logs;
+  }
+
+  /**
+   * Etherscan only indexes value-bearing internal transactions, not full call traces
+   */
+  async traceTransaction(): Promise<ChainTraceCall[] | null> {
+    return null;
+  }
+
+  /**
+   * Get native balance in wei
+   */
+  async getBalance(address: string): Promise<bigint> {
+    const data = await this.request({
+      module: 'account',
+      action: 'balance',
+      address,
+      tag: 'latest'
+    });
+
+    if (data.status !== '1') {
+      throw new Error(`Etherscan API error: ${data.message}`);
+    }
+
+    return BigInt(data.result);
+  }
+
+  /**
+   * Get ERC-20 token balance in the token's smallest unit
+   */
+  async getTokenBalance(tokenAddress: string, holder: string): Promise<bigint> {
+    const data = await this.request({
+      module: 'account',
+      action: 'tokenbalance',
+      contractaddress: tokenAddress,
+      address: holder,
+      tag: 'latest'
+    });
+
+    if (data.status !== '1') {
+      throw new Error(`Etherscan API error: ${data.message}`);
+    }
+
+    return BigInt(data.result);
+  }
+
+  /**
+   * Read ERC-20 symbol and decimals through eth_call
+   */
+  async getTokenMetadata(tokenAddress: string): Promise<TokenMetadata | null> {
+    const cacheKey = `etherscan_token_${tokenAddress.toLowerCase()}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const [symbolResult, decimalsResult] = await Promise.all([
+        this.proxyRequest('eth_call', { to: tokenAddress, data: ERC20_SYMBOL_SELECTOR, tag: 'latest' }),
+        this.proxyRequest('eth_call', { to: tokenAddress, data: ERC20_DECIMALS_SELECTOR, tag: 'latest' })
+      ]);
+
+      const metadata: TokenMetadata = {
+        symbol: decodeTokenSymbol(symbolResult),
+        decimals: Number(BigInt(decimalsResult))
+      };
+
+      this.cache.set(cacheKey, metadata, 24 * 60 * 60 * 1000); // Token metadata rarely changes
+      return metadata;
+    } catch (error) {
+      console.warn(`Could not read token metadata for ${tokenAddress}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch event logs. Etherscan only accepts a single value per topic and a single
+   * address, so OR-filters are expanded into one request per combination.
+   */
+  async getLogs(filter: LogFilter): Promise<ChainLog[]> {
+    const addresses = Array.isArray(filter.address) ? filter.address : [filter.address];
+    const topicCombinations = this.expandTopics(filter.topics || []);
+    const logs: ChainLog[] = [];
+    const seen = new Set<string>();
+
+    for (const address of addresses) {
+      for (const topics of topicCombinations) {
+        const params: Record<string, string | number> = {
+          module: 'logs',
+          action: 'getLogs',
+          toBlock: filter.toBlock ?? 'latest',
+          page: 1,
+          offset: LOGS_PAGE_SIZE
+        };
+
+        if (address) {
+          params.address = address;
+        }
+
+        topics.forEach((topic, index) => {
+          if (topic === null) return;
+          params[`topic${index}`] = topic;
+        });
+
+        // Every specified topic pair must match
+        const specified = topics
+          .map((topic, index) => (topic === null ? -1 : index))
+          .filter(index => index >= 0);
+        for (let i = 0; i < specified.length - 1; i++) {
+          params[`topic${specified[i]}_${specified[i + 1]}_opr`] = 'and';
+        }
+
+        // Results are capped per request, so full pages are followed from the block they ended in
+        let fromBlock = filter.fromBlock ?? 0;
+        for (;;) {
+          const data = await this.request({ ...params, fromBlock });
+
+          if (data.status !== '1') {
+            if (data.message === 'No records found') break;
+            throw new Error(`Etherscan API error: ${data.message}`);
+          }
+
+          const page: any[] = data.result || [];
+          for (const log of page) {
+            const key = `${log.transactionHash}_${log.logIndex}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            logs.push({
+              address: log.address,
+              topics: log.topics,
+              data: log.data,
+              blockNumber: parseInt(log.blockNumber, 16),
+              transactionHash: log.transactionHash,
+              logIndex: log.logIndex === '0x' ? 0 : parseInt(log.logIndex, 16),
+              timestamp: log.timeStamp ? parseInt(log.timeStamp, 16) : undefined
+            });
+          }
+
+          if (page.length < LOGS_PAGE_SIZE) break;
+
+          const lastBlock = parseInt(page[page.length - 1].blockNumber, 16);
+          if (lastBlock <= fromBlock) {
+            throw new Error(`More than ${LOGS_PAGE_SIZE} matching logs in block ${fromBlock}`);
+          }
+          fromBlock = lastBlock;
+        }
+      }
+    }
+
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  /**
+   * Get the timestamp of a block
+   */
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cacheKey = `etherscan_block_ts_${blockNumber}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const block = await this.proxyRequest('eth_getBlockByNumber', {
+      tag: ethers.toQuantity(blockNumber),
+      boolean: 'false'
+    });
+
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+
+    const timestamp = parseInt(block.timestamp, 16);
+    this.cache.set(cacheKey, timestamp, 24 * 60 * 60 * 1000); // Block timestamps never change
+    return timestamp;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    const result = await this.proxyRequest('eth_blockNumber');
+    return parseInt(result, 16);
+  }
+
+  async getNetwork(): Promise<ChainNetwork> {
+    const result = await this.proxyRequest('eth_chainId');
+    const chainId = parseInt(result, 16);
+    return {
+      name: ethers.Network.from(chainId).name,
+      chainId
+    };
+  }
+
+  /**
+   * Expand OR-topic filters into concrete single-value combinations
+   */
+  private expandTopics(topics: Array<string | string[] | null>): Array<Array<string | null>> {
+    let combinations: Array<Array<string | null>> = [[]];
+
+    for (const topic of topics) {
+      const options = Array.isArray(topic) ? topic : [topic];
+      const next: Array<Array<string | null>> = [];
+      for (const combination of combinations) {
+        for (const option of options) {
+          next.push([...combination, option]);
+        }
+      }
+      combinations = next;
+    }
+
+    return combinations;
+  }
+}
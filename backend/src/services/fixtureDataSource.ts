@@ -0,0 +1,186 @@
+import fs from 'fs';
+import {
+  ChainDataSource,
+  ChainInternalCall,
+  ChainLog,
+  ChainNetwork,
+  ChainTraceCall,
+  ChainTransaction,
+  LogFilter,
+  TransactionQuery
+} from './chainDataSource';
+import { TokenMetadata } from './tokenRegistry';
+
+/**
+ * Recorded chain data, as stored in a fixture file.
+ *
+ * {
+ *   "network": { "name": "mainnet", "chainId": 1 },
+ *   "blockNumber": 19000000,
+ *   "blocks": { "18999999": 1704067200 },
+ *   "transactions": [ChainTransaction, ...],
+ *   "internalTransactions": [ChainInternalCall, ...],
+ *   "traces": { "<tx hash>": [ChainTraceCall, ...] },
+ *   "logs": [ChainLog, ...],
+ *   "balances": { "<address>": "<wei>" },
+ *   "tokenBalances": { "<token address>": { "<holder>": "<amount>" } },
+ *   "tokens": { "<token address>": { "symbol": "USDC", "decimals": 6 } }
+ * }
+ */
+export interface ChainFixture {
+  network?: ChainNetwork;
+  blockNumber?: number;
+  blocks?: { [blockNumber: string]: number };
+  transactions: ChainTransaction[];
+  internalTransactions?: ChainInternalCall[];
+  traces?: { [hash: string]: ChainTraceCall[] };
+  logs?: ChainLog[];
+  balances?: { [address: string]: string };
+  tokenBalances?: { [tokenAddress: string]: { [holder: string]: string } };
+  tokens?: { [tokenAddress: string]: TokenMetadata };
+}
+
+/**
+ * File-backed data source
+ * Serves recorded chain data so scoring can run offline and deterministically
+ */
+export class FixtureDataSource implements ChainDataSource {
+  readonly kind = 'fixture' as const;
+  readonly indexesLogs = true;
+
+  private fixture: ChainFixture;
+
+  constructor(source: string | ChainFixture) {
+    this.fixture = typeof source === 'string'
+      ? FixtureDataSource.load(source)
+      : source;
+  }
+
+  /**
+   * Load and validate a fixture file
+   */
+  static load(fixturePath: string): ChainFixture {
+    try {
+      const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+
+      if (!Array.isArray(fixture.transactions)) {
+        throw new Error('fixture must contain a transactions array');
+      }
+
+      return fixture;
+    } catch (error) {
+      throw new Error(`Failed to load chain fixture ${fixturePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async getTransactions(address: string, query: TransactionQuery): Promise<ChainTransaction[]> {
+    const lowerAddress = address.toLowerCase();
+
+    const matching = this.fixture.transactions.filter(tx =>
+      (tx.from.toLowerCase() === lowerAddress || tx.to?.toLowerCase() === lowerAddress) &&
+      (query.startBlock === undefined || tx.blockNumber >= query.startBlock) &&
+      (query.endBlock === undefined || tx.blockNumber <= query.endBlock)
+    );
+
+    return matching
+      .sort((a, b) => query.sort === 'asc' ? a.blockNumber - b.blockNumber : b.blockNumber - a.blockNumber)
+      .slice(0, query.limit);
+  }
+
+  async getInternalTransactions(address: string, query: TransactionQuery): Promise<ChainInternalCall[]> {
+    const lowerAddress = address.toLowerCase();
+
+    const matching = (this.fixture.internalTransactions || []).filter(call =>
+      (call.from.toLowerCase() === lowerAddress || call.to?.toLowerCase() === lowerAddress) &&
+      (query.startBlock === undefined || call.blockNumber >= query.startBlock) &&
+      (query.endBlock === undefined || call.blockNumber <= query.endBlock)
+    );
+
+    return matching
+      .sort((a, b) => query.sort === 'asc' ? a.blockNumber - b.blockNumber : b.blockNumber - a.blockNumber)
+      .slice(0, query.limit);
+  }
+
+  async getTokenTransfers(): Promise<ChainLog[] | null> {
+    // Fixtures record Transfer events as logs
+    return null;
+  }
+
+  async traceTransaction(hash: string): Promise<ChainTraceCall[] | null> {
+    if (!this.fixture.traces) {
+      return null;
+    }
+
+    return this.findByKey(this.fixture.traces, hash) || [];
+  }
+
+  async getBalance(address: string): Promise<bigint> {
+    return BigInt(this.findByKey(this.fixture.balances || {}, address) || '0');
+  }
+
+  async getTokenBalance(tokenAddress: string, holder: string): Promise<bigint> {
+    const holders = this.findByKey(this.fixture.tokenBalances || {}, tokenAddress) || {};
+    return BigInt(this.findByKey(holders, holder) || '0');
+  }
+
+  async getTokenMetadata(tokenAddress: string): Promise<TokenMetadata | null> {
+    return this.findByKey(this.fixture.tokens || {}, tokenAddress) || null;
+  }
+
+  async getLogs(filter: LogFilter): Promise<ChainLog[]> {
+    const addresses = filter.address === undefined
+      ? null
+      : (Array.isArray(filter.address) ? filter.address : [filter.address]).map(a => a.toLowerCase());
+
+    return (this.fixture.logs || []).filter(log => {
+      if (addresses && !addresses.includes(log.address.toLowerCase())) return false;
+      if (filter.fromBlock !== undefined && log.blockNumber < filter.fromBlock) return false;
+      if (filter.toBlock !== undefined && log.blockNumber > filter.toBlock) return false;
+
+      return (filter.topics || []).every((topic, index) => {
+        if (topic === null) return true;
+        const options = (Array.isArray(topic) ? topic : [topic]).map(t => t.toLowerCase());
+        return log.topics[index] !== undefined && options.includes(log.topics[index].toLowerCase());
+      });
+    });
+  }
+
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const recorded = this.fixture.blocks?.[blockNumber.toString()];
+    if (recorded !== undefined) {
+      return recorded;
+    }
+
+    // Fall back to any recorded transaction or log in that block
+    const tx = this.fixture.transactions.find(t => t.blockNumber === blockNumber);
+    if (tx) {
+      return tx.timestamp;
+    }
+
+    const log = (this.fixture.logs || []).find(l => l.blockNumber === blockNumber && l.timestamp !== undefined);
+    if (log?.timestamp !== undefined) {
+      return log.timestamp;
+    }
+
+    throw new Error(`Block ${blockNumber} not present in fixture`);
+  }
+
+  async getBlockNumber(): Promise<number> {
+    if (this.fixture.blockNumber !== undefined) {
+      return this.fixture.blockNumber;
+    }
+
+    return this.fixture.transactions.reduce((max, tx) => Math.max(max, tx.blockNumber), 0);
+  }
+
+  async getNetwork(): Promise<ChainNetwork> {
+    return this.fixture.network || { name: 'fixture', chainId: 1 };
+  }
+
+  private findByKey<T>(map: { [key: string]: T }, key: string): T | undefined {
+    // Addresses and hashes are matched case-insensitively
+    const lowerKey = key.toLowerCase();
+    const match = Object.keys(map).find(k => k.toLowerCase() === lowerKey);
+    return match === undefined ? undefined : map[match];
+  }
+}
@@ -0,0 +1,182 @@
+import { blockchainService, TransactionData } from './blockchainService';
+import { CreditScore } from './scoreCalculator';
+import { DatabaseService, EnhancedScoreHistoryEntry } from './databaseService';
+import { PredictiveAnalyticsEngine } from './predictiveAnalyticsEngine';
+import { ScoreBackfillService } from './scoreBackfillService';
+
+/**
+ * Forecast Backtester
+ * Measures how well generateScoreForecast would have predicted an address's score history.
+ * Walking forward through the history, each point is forecast from the points before it, and
+ * each predicted horizon is compared with the last recorded score at or before its target date.
+ * Horizons that reach past the end of the history are not scored. The overall, horizon and score
+ * range metrics are of the champion's forecasts; every model's are reported by model as well.
+ *
+ * Metrics reconstructed from transaction history stand in for the metrics at each point.
+ */
+
+export interface BacktestMetrics {
+  sampleSize: number;
+  meanAbsoluteError: number;
+  rootMeanSquaredError: number;
+  meanError: number; // actual - predicted
+  coverage: number; // percentage of actual scores within the 80% interval
+}
+
+export interface BacktestReport {
+  addresses: string[];
+  forecasts: number;
+  overall: BacktestMetrics | null;
+  byHorizon: { [horizon: string]: BacktestMetrics };
+  byScoreRange: { [range: string]: BacktestMetrics }; // range of the predicted score
+  byModel: { [model: string]: BacktestMetrics };
+  generatedAt: number;
+}
+
+interface BacktestSample {
+  model: string;
+  champion: boolean;
+  horizon: number;
+  predicted: number;
+  actual: number;
+  lower: number;
+  upper: number;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export class ForecastBacktester {
+
+  /**
+   * Backtest forecasts over the score history of the given addresses, or of every address with
+   * backfilled history
+   */
+  static async backtest(addresses?: string[]): Promise<BacktestReport> {
+    try {
+      const targets = addresses && addresses.length > 0
+        ? addresses.map(address => address.toLowerCase())
+        : await DatabaseService.getBackfilledAddresses();
+
+      const samples: BacktestSample[] = [];
+      let forecasts = 0;
+
+      for (const address of targets) {
+        const history = (await DatabaseService.getEnhancedScoreHistory(address, 1000))
+          .sort((a, b) => a.timestamp - b.timestamp);
+        if (history.length <= PredictiveAnalyticsEngine.MIN_HISTORY_POINTS) {
+          continue;
+        }
+
+        const transactions = await blockchainService.fetchTransactionHistory(address, 1000);
+        const addressSamples = await this.backtestAddress(address, history, transactions);
+        forecasts += addressSamples.forecasts;
+        samples.push(...addressSamples.samples);
+      }
+
+      const championSamples = samples.filter(sample => sample.champion);
+      const group = (key: (sample: BacktestSample) => string, groupedSamples: BacktestSample[] = championSamples) => {
+        const groups: { [key: string]: BacktestSample[] } = {};
+        for (const sample of groupedSamples) {
+          (groups[key(sample)] = groups[key(sample)] || []).push(sample);
+        }
+        const metrics: { [key: string]: BacktestMetrics } = {};
+        for (const [groupKey, groupSamples] of Object.entries(groups)) {
+          metrics[groupKey] = this.summarize(groupSamples);
+        }
+        return metrics;
+      };
+
+      return {
+        addresses: targets,
+        forecasts,
+        overall: championSamples.length > 0 ? this.summarize(championSamples) : null,
+        byHorizon: group(sample => `${sample.horizon}d`),
+        byScoreRange: group(sample => PredictiveAnalyticsEngine.getScoreRange(sample.predicted)),
+        byModel: group(sample => sample.model, samples),
+        generatedAt: Math.floor(Date.now() / 1000)
+      };
+    } catch (error) {
+      throw new Error(`Failed to backtest forecasts: ${error}`);
+    }
+  }
+
+  private static async backtestAddress(
+    address: string,
+    history: EnhancedScoreHistoryEntry[],
+    transactions: TransactionData[]
+  ): Promise<{ forecasts: number; samples: BacktestSample[] }> {
+    const samples: BacktestSample[] = [];
+    const lastTimestamp = history[history.length - 1].timestamp;
+    let forecasts = 0;
+
+    for (let i = PredictiveAnalyticsEngine.MIN_HISTORY_POINTS - 1; i < history.length - 1; i++) {
+      const point = history[i];
+      const currentScore: CreditScore = {
+        address,
+        score: point.score,
+        confidence: point.confidence,
+        timestamp: point.timestamp,
+        modelVersion: point.modelVersion ?? point.version,
+        breakdown: {
+          transactionVolume: point.volumeScore ?? 0,
+          transactionFrequency: point.frequencyScore ?? 0,
+          stakingActivity: point.stakingScore ?? 0,
+          defiInteractions: point.defiScore ?? 0
+        }
+      };
+      const metrics = ScoreBackfillService.reconstructMetrics(address, transactions, point.timestamp);
+
+      // The engine sorts the history it is given, so it gets a copy
+      const forecast = await PredictiveAnalyticsEngine.generateScoreForecast(
+        address,
+        currentScore,
+        metrics,
+        history.slice(0, i + 1)
+      );
+      forecasts++;
+
+      const models = [
+        { methodology: forecast.methodology, predictedScores: forecast.predictedScores, champion: true },
+        ...(forecast.challengers || []).map(challenger => ({ ...challenger, champion: false }))
+      ];
+
+      for (const model of models) {
+        for (const predicted of model.predictedScores) {
+          const targetDate = point.timestamp + predicted.timeframe * DAY_SECONDS;
+          if (targetDate > lastTimestamp) {
+            continue;
+          }
+
+          const actual = history.filter(entry => entry.timestamp <= targetDate).pop()!;
+          samples.push({
+            model: model.methodology,
+            champion: model.champion,
+            horizon: predicted.timeframe,
+            predicted: predicted.predictedScore,
+            actual: actual.score,
+            lower: predicted.confidenceInterval.lower,
+            upper: predicted.confidenceInterval.upper
+          });
+        }
+      }
+    }
+
+    return { forecasts, samples };
+  }
+
+  private static summarize(samples: BacktestSample[]): BacktestMetrics {
+    const n = samples.length;
+    const errors = samples.map(sample => sample.actual - sample.predicted);
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return {
+      sampleSize: n,
+      meanAbsoluteError: round(errors.reduce((sum, error) => sum + Math.abs(error), 0) / n),
+      rootMeanSquaredError: round(Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / n)),
+      meanError: round(errors.reduce((sum, error) => sum + error, 0) / n),
+      coverage: round((samples.filter(sample => sample.actual >= sample.lower && sample.actual <= sample.upper).length / n) * 100)
+    };
+  }
+}
+
+export default ForecastBacktester;
@@ -0,0 +1,83 @@
+import { ForecastCalibrationService, ResidualSample } from './forecastCalibrationService';
+import { FORECASTING_MODELS } from './forecastingModels';
+
+const METHODOLOGY = 'Holt-Winters';
+
+// Residuals -20..20 at a horizon, evenly spread
+function samples(horizon: number, count: number = 41, methodology: string = METHODOLOGY): ResidualSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    methodology,
+    horizon,
+    residual: -20 + (40 * i) / (count - 1)
+  }));
+}
+
+describe('ForecastCalibrationService.getCalibration', () => {
+  it('takes interval offsets from the residual quantiles at the horizon', () => {
+    const calibration = ForecastCalibrationService.getCalibration(samples(30), METHODOLOGY, 30)!;
+
+    expect(calibration.pooled).toBe(false);
+    expect(calibration.sampleSize).toBe(41);
+    expect(calibration.offsets).toEqual([
+      { level: 80, lower: -16, upper: 16 },
+      { level: 95, lower: -19, upper: 19 }
+    ]);
+  });
+
+  it('pools residuals from other horizons scaled by the square root of the horizon ratio', () => {
+    const calibration = ForecastCalibrationService.getCalibration(samples(7), METHODOLOGY, 28)!;
+
+    expect(calibration.pooled).toBe(true);
+    expect(calibration.offsets[0]).toEqual({ level: 80, lower: -32, upper: 32 });
+  });
+
+  it('returns null with too few residuals, ignoring other models', () => {
+    const mixed = [...samples(30, 10), ...samples(30, 41, 'ARIMA-lite')];
+
+    expect(ForecastCalibrationService.getCalibration(mixed, METHODOLOGY, 30)).toBeNull();
+  });
+});
+
+describe('ForecastCalibrationService.calibrateIntervals', () => {
+  it('adds the residual offsets to the predicted score', () => {
+    const intervals = ForecastCalibrationService.calibrateIntervals(samples(30), METHODOLOGY, 30, 600, { lower: 590, upper: 610, level: 90 });
+
+    expect(intervals).toEqual([
+      { level: 80, lower: 584, upper: 616, calibrated: true },
+      { level: 95, lower: 581, upper: 619, calibrated: true }
+    ]);
+  });
+
+  it('rescales the model interval from the level it was built at when uncalibrated', () => {
+    const intervals = ForecastCalibrationService.calibrateIntervals([], METHODOLOGY, 30, 600, { lower: 550, upper: 650, level: 90 });
+
+    expect(intervals).toEqual([
+      { level: 80, lower: 561, upper: 639, calibrated: false },
+      { level: 95, lower: 540, upper: 660, calibrated: false }
+    ]);
+  });
+
+  it('keeps an 80% model interval as the 80% interval', () => {
+    const intervals = ForecastCalibrationService.calibrateIntervals([], METHODOLOGY, 30, 600, { lower: 560, upper: 650, level: 80 });
+
+    expect(intervals[0]).toEqual({ level: 80, lower: 560, upper: 650, calibrated: false });
+  });
+
+  it('clamps intervals to the score range', () => {
+    const intervals = ForecastCalibrationService.calibrateIntervals([], METHODOLOGY, 30, 980, { lower: 940, upper: 1000, level: 80 });
+
+    expect(intervals[1].upper).toBe(1000);
+  });
+
+  it('widens the interval of every forecasting model', () => {
+    for (const model of FORECASTING_MODELS) {
+      expect(() => ForecastCalibrationService.calibrateIntervals([], model.name, 30, 600, { lower: 590, upper: 610, level: model.intervalLevel }))
+        .not.toThrow();
+    }
+  });
+
+  it('rejects a model interval level it has no normal quantile for', () => {
+    expect(() => ForecastCalibrationService.calibrateIntervals([], METHODOLOGY, 30, 600, { lower: 590, upper: 610, level: 75 }))
+      .toThrow('No normal quantile for a 75% interval');
+  });
+});
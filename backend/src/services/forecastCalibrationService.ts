@@ -0,0 +1,254 @@
+import { DatabaseService } from './databaseService';
+
+/**
+ * Forecast Calibration Service
+ * Derives prediction intervals from the residuals of resolved predictions (actual - predicted
+ * score, in prediction_accuracy) instead of the forecasting models' own uncertainty heuristics.
+ * An interval at a level spans the empirical residual quantiles that leave (100 - level) / 2
+ * percent of residuals on either side, added to the predicted score.
+ *
+ * Each forecasting model and horizon is calibrated from its own residuals. With too few, the
+ * model's residuals at other horizons are pooled, scaled by the square root of the horizon ratio
+ * as for a random walk; with too few of those as well, the model's own interval is rescaled as if
+ * normal from the level it was built at to each level, and is marked uncalibrated.
+ *
+ * The calibration report checks the intervals stated with resolved predictions against the
+ * scores they were resolved against, level by level.
+ */
+
+export const INTERVAL_LEVELS = [80, 95];
+
+export interface PredictionInterval {
+  level: number; // percentage of actual scores the interval is meant to contain
+  lower: number;
+  upper: number;
+  calibrated: boolean; // from residuals rather than the model's own interval
+}
+
+export interface ResidualSample {
+  methodology: string;
+  horizon: number; // days
+  residual: number; // actual - predicted
+}
+
+export interface ResidualCalibration {
+  methodology: string;
+  horizon: number;
+  sampleSize: number;
+  pooled: boolean; // residuals from the model's other horizons, scaled to this one
+  offsets: { level: number; lower: number; upper: number }[]; // added to the predicted score
+}
+
+export interface IntervalCoverage {
+  level: number;
+  sampleSize: number; // resolved predictions stated with an interval at the level
+  coverage: number | null; // percentage of actual scores within the stated interval
+  gap: number | null; // coverage - level, negative when intervals are too narrow
+}
+
+export interface ForecastCalibrationReport {
+  generatedAt: number;
+  windowDays: number;
+  resolvedPredictions: number;
+  overall: IntervalCoverage[];
+  calibratedOnly: IntervalCoverage[]; // intervals derived from residuals
+  byMethodology: { [methodology: string]: IntervalCoverage[] };
+  byHorizon: { [horizon: string]: IntervalCoverage[] };
+  calibrations: ResidualCalibration[]; // applied to forecasts made now
+}
+
+interface ResolvedInterval {
+  methodology: string;
+  horizon: number;
+  actualScore: number;
+  intervals: PredictionInterval[];
+}
+
+export const CALIBRATION_WINDOW_DAYS = 180;
+
+// Residuals a model needs at a horizon, or pooled over its horizons, to be calibrated
+const MIN_CALIBRATION_SAMPLES = 20;
+
+// Two-sided normal quantiles, to rescale a model's own interval from its level to other levels
+const NORMAL_Z: { [level: number]: number } = { 68: 0.9945, 80: 1.2816, 90: 1.6449, 95: 1.96 };
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export class ForecastCalibrationService {
+
+  /**
+   * Residuals of predictions resolved within the calibration window
+   */
+  static async getResidualSamples(): Promise<ResidualSample[]> {
+    try {
+      const since = Math.floor(Date.now() / 1000) - CALIBRATION_WINDOW_DAYS * DAY_SECONDS;
+      const resolved = await DatabaseService.getResolvedPredictions(since);
+
+      return resolved.map(prediction => ({
+        methodology: prediction.methodology,
+        horizon: this.horizonOf(prediction.predictionDate, prediction.targetDate),
+        residual: prediction.actualScore - prediction.predictedScore
+      }));
+    } catch (error) {
+      throw new Error(`Failed to get prediction residuals: ${error}`);
+    }
+  }
+
+  /**
+   * Intervals at each level around a model's predicted score for a horizon, from the residuals,
+   * or from the model's own interval, built at modelInterval.level, when there are too few of them
+   */
+  static calibrateIntervals(
+    samples: ResidualSample[],
+    methodology: string,
+    horizon: number,
+    predictedScore: number,
+    modelInterval: { lower: number; upper: number; level: number }
+  ): PredictionInterval[] {
+    const modelZ = NORMAL_Z[modelInterval.level];
+    if (modelZ === undefined) {
+      throw new Error(`No normal quantile for a ${modelInterval.level}% interval`);
+    }
+    const clamp = (value: number) => Math.max(0, Math.min(1000, Math.round(value)));
+    const calibration = this.getCalibration(samples, methodology, horizon);
+
+    return INTERVAL_LEVELS.map(level => {
+      if (calibration) {
+        const offset = calibration.offsets.find(entry => entry.level === level)!;
+        return {
+          level,
+          lower: Math.min(predictedScore, clamp(predictedScore + offset.lower)),
+          upper: Math.max(predictedScore, clamp(predictedScore + offset.upper)),
+          calibrated: true
+        };
+      }
+
+      const widening = NORMAL_Z[level] / modelZ;
+      return {
+        level,
+        lower: clamp(predictedScore - (predictedScore - modelInterval.lower) * widening),
+        upper: clamp(predictedScore + (modelInterval.upper - predictedScore) * widening),
+        calibrated: false
+      };
+    });
+  }
+
+  /**
+   * Residual quantile offsets for a model and horizon, or null when there are too few residuals
+   */
+  static getCalibration(samples: ResidualSample[], methodology: string, horizon: number): ResidualCalibration | null {
+    const modelSamples = samples.filter(sample => sample.methodology === methodology);
+    let residuals = modelSamples.filter(sample => sample.horizon === horizon).map(sample => sample.residual);
+    let pooled = false;
+
+    if (residuals.length < MIN_CALIBRATION_SAMPLES) {
+      residuals = modelSamples.map(sample => sample.residual * Math.sqrt(horizon / Math.max(1, sample.horizon)));
+      pooled = true;
+    }
+    if (residuals.length < MIN_CALIBRATION_SAMPLES) {
+      return null;
+    }
+
+    const sorted = [...residuals].sort((a, b) => a - b);
+    return {
+      methodology,
+      horizon,
+      sampleSize: sorted.length,
+      pooled,
+      offsets: INTERVAL_LEVELS.map(level => {
+        const tail = (100 - level) / 200;
+        return {
+          level,
+          lower: Math.round(this.quantile(sorted, tail) * 10) / 10,
+          upper: Math.round(this.quantile(sorted, 1 - tail) * 10) / 10
+        };
+      })
+    };
+  }
+
+  /**
+   * How often the intervals stated with resolved predictions contained the actual score, per
+   * level, alongside the calibrations forecasts are given now
+   */
+  static async getCalibrationReport(): Promise<ForecastCalibrationReport> {
+    try {
+      const since = Math.floor(Date.now() / 1000) - CALIBRATION_WINDOW_DAYS * DAY_SECONDS;
+      const resolved: ResolvedInterval[] = (await DatabaseService.getResolvedPredictions(since)).map(prediction => ({
+        methodology: prediction.methodology,
+        horizon: this.horizonOf(prediction.predictionDate, prediction.targetDate),
+        actualScore: prediction.actualScore,
+        intervals: prediction.predictionData?.intervals || []
+      }));
+
+      const group = (key: (entry: ResolvedInterval) => string) => {
+        const groups: { [key: string]: ResolvedInterval[] } = {};
+        for (const entry of resolved) {
+          (groups[key(entry)] = groups[key(entry)] || []).push(entry);
+        }
+        const coverage: { [key: string]: IntervalCoverage[] } = {};
+        for (const [groupKey, entries] of Object.entries(groups)) {
+          coverage[groupKey] = this.coverage(entries);
+        }
+        return coverage;
+      };
+
+      const samples = await this.getResidualSamples();
+      const calibrations: ResidualCalibration[] = [];
+      for (const methodology of [...new Set(samples.map(sample => sample.methodology))]) {
+        const horizons = [...new Set(samples.filter(sample => sample.methodology === methodology).map(sample => sample.horizon))];
+        for (const horizon of horizons.sort((a, b) => a - b)) {
+          const calibration = this.getCalibration(samples, methodology, horizon);
+          if (calibration) {
+            calibrations.push(calibration);
+          }
+        }
+      }
+
+      return {
+        generatedAt: Math.floor(Date.now() / 1000),
+        windowDays: CALIBRATION_WINDOW_DAYS,
+        resolvedPredictions: resolved.length,
+        overall: this.coverage(resolved),
+        calibratedOnly: this.coverage(resolved, true),
+        byMethodology: group(entry => entry.methodology),
+        byHorizon: group(entry => `${entry.horizon}d`),
+        calibrations
+      };
+    } catch (error) {
+      throw new Error(`Failed to get forecast calibration report: ${error}`);
+    }
+  }
+
+  private static coverage(entries: ResolvedInterval[], calibratedOnly: boolean = false): IntervalCoverage[] {
+    return INTERVAL_LEVELS.map(level => {
+      const stated = entries
+        .map(entry => ({ actualScore: entry.actualScore, interval: entry.intervals.find(interval => interval.level === level) }))
+        .filter(entry => entry.interval && (!calibratedOnly || entry.interval.calibrated));
+      const contained = stated.filter(entry => entry.actualScore >= entry.interval!.lower && entry.actualScore <= entry.interval!.upper);
+      const coverage = stated.length > 0 ? Math.round((contained.length / stated.length) * 1000) / 10 : null;
+
+      return {
+        level,
+        sampleSize: stated.length,
+        coverage,
+        gap: coverage !== null ? Math.round((coverage - level) * 10) / 10 : null
+      };
+    });
+  }
+
+  /**
+   * Linearly interpolated quantile of sorted values
+   */
+  private static quantile(sorted: number[], p: number): number {
+    const position = (sorted.length - 1) * p;
+    const below = Math.floor(position);
+    const above = Math.ceil(position);
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+  }
+
+  private static horizonOf(predictionDate: number, targetDate: number): number {
+    return Math.round((targetDate - predictionDate) / DAY_SECONDS);
+  }
+}
+
+export default ForecastCalibrationService;
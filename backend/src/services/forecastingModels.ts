@@ -0,0 +1,363 @@
+import { UserMetrics } from './blockchainService';
+import { CreditScore } from './scoreCalculator';
+import { EnhancedScoreHistoryEntry } from './databaseService';
+
+/**
+ * Forecasting Models
+ * Interchangeable ways of projecting a score forward from its history. Each model's name is the
+ * methodology its predictions are stored and tracked under, so model performance is measured per
+ * model and PredictiveAnalyticsEngine can pick the most accurate one as champion.
+ *
+ * Time series models work on the history resampled to a regular step (the median spacing of the
+ * history, at least a day), carrying the last score forward over gaps.
+ */
+
+export interface ForecastingContext {
+  address: string;
+  currentScore: CreditScore;
+  history: EnhancedScoreHistoryEntry[]; // oldest first, before the current score
+  metrics: UserMetrics;
+}
+
+export interface ModelForecast {
+  predictedScore: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastingModel {
+  name: string; // methodology of its forecasts and predictions
+  description: string;
+  minHistoryPoints: number;
+  intervalLevel: number; // percentage of actual scores its own interval is meant to contain
+  forecast(context: ForecastingContext, horizonDays: number): ModelForecast;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Most points a resampled series is kept to; longer histories get a coarser step
+const MAX_SERIES_POINTS = 400;
+
+// Two-sided 90% normal interval
+const INTERVAL_LEVEL = 90;
+const INTERVAL_Z = 1.645;
+
+interface Series {
+  values: number[];
+  stepDays: number;
+}
+
+/**
+ * History and current score resampled to a regular step, last score carried forward
+ */
+function resample(context: ForecastingContext): Series {
+  const points = [
+    ...context.history.map(entry => ({ timestamp: entry.timestamp, score: entry.score })),
+    { timestamp: context.currentScore.timestamp, score: context.currentScore.score }
+  ];
+
+  const gaps = points.slice(1).map((point, i) => (point.timestamp - points[i].timestamp) / DAY_SECONDS).sort((a, b) => a - b);
+  const medianGap = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 1;
+  const spanDays = (points[points.length - 1].timestamp - points[0].timestamp) / DAY_SECONDS;
+  const stepDays = Math.max(1, Math.round(medianGap), Math.ceil(spanDays / MAX_SERIES_POINTS));
+
+  const values: number[] = [];
+  let next = 0;
+  for (let t = points[0].timestamp; t <= points[points.length - 1].timestamp; t += stepDays * DAY_SECONDS) {
+    while (next + 1 < points.length && points[next + 1].timestamp <= t) {
+      next++;
+    }
+    values.push(points[next].score);
+  }
+  // The series always ends on the current score
+  values[values.length - 1] = context.currentScore.score;
+
+  return { values, stepDays };
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+/**
+ * Solve A x = b by Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) continue;
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    if (Math.abs(m[row][row]) < 1e-12) continue;
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+function bounded(forecast: ModelForecast): ModelForecast {
+  const clamp = (value: number) => Math.max(0, Math.min(1000, value));
+  const predictedScore = clamp(forecast.predictedScore);
+  return {
+    predictedScore,
+    lower: Math.min(predictedScore, clamp(forecast.lower)),
+    upper: Math.max(predictedScore, clamp(forecast.upper))
+  };
+}
+
+/**
+ * The original heuristic: linear trend over history points, interval from score change volatility
+ */
+export class MovingAverageTrendModel implements ForecastingModel {
+  name = 'Moving Average Trend';
+  description = 'Linear trend per history point projected per day, with an interval widening by the volatility of score changes';
+  minHistoryPoints = 5;
+  intervalLevel = 68; // one standard deviation of score changes either side
+
+  forecast(context: ForecastingContext, horizonDays: number): ModelForecast {
+    const scores = context.history.map(entry => entry.score);
+    const n = scores.length;
+    const meanX = (n - 1) / 2;
+    const meanY = scores.reduce((sum, score) => sum + score, 0) / n;
+    const sxx = scores.reduce((sum, _, i) => sum + (i - meanX) ** 2, 0);
+    const slope = sxx > 0 ? scores.reduce((sum, score, i) => sum + (i - meanX) * (score - meanY), 0) / sxx : 0;
+
+    const changes = scores.slice(1).map((score, i) => score - scores[i]);
+    const intervalWidth = standardDeviation(changes) * (1 + horizonDays / 30);
+    const predictedScore = context.currentScore.score + slope * horizonDays;
+
+    return bounded({ predictedScore, lower: predictedScore - intervalWidth, upper: predictedScore + intervalWidth });
+  }
+}
+
+/**
+ * Holt-Winters exponential smoothing: level and trend, plus an additive monthly season when the
+ * series covers two of them. Smoothing parameters are picked by one-step-ahead error on the series.
+ */
+export class HoltWintersModel implements ForecastingModel {
+  name = 'Holt-Winters Exponential Smoothing';
+  description = 'Exponentially smoothed level, trend and monthly season, fitted by one-step-ahead error';
+  minHistoryPoints = 5;
+  intervalLevel = INTERVAL_LEVEL;
+
+  private static readonly ALPHAS = [0.2, 0.4, 0.6, 0.8];
+  private static readonly BETAS = [0.05, 0.15, 0.3];
+  private static readonly GAMMA = 0.1;
+  private static readonly DAMPING = 0.98; // per step, so long horizons do not run away with the trend
+
+  forecast(context: ForecastingContext, horizonDays: number): ModelForecast {
+    const { values, stepDays } = resample(context);
+    const seasonLength = Math.round(30 / stepDays);
+    const seasonal = seasonLength >= 2 && values.length >= seasonLength * 2;
+
+    let best: { sse: number; level: number; trend: number; season: number[]; residuals: number[]; alpha: number } | null = null;
+    for (const alpha of HoltWintersModel.ALPHAS) {
+      for (const beta of HoltWintersModel.BETAS) {
+        const fit = this.fit(values, alpha, beta, seasonal ? seasonLength : 0);
+        if (!best || fit.sse < best.sse) {
+          best = { ...fit, alpha };
+        }
+      }
+    }
+
+    const steps = horizonDays / stepDays;
+    const phi = HoltWintersModel.DAMPING;
+    const dampedSteps = (phi * (1 - Math.pow(phi, steps))) / (1 - phi);
+    const seasonIndex = seasonal ? (values.length - 1 + Math.ceil(steps)) % seasonLength : 0;
+    const predictedScore = best!.level + best!.trend * dampedSteps + (seasonal ? best!.season[seasonIndex] : 0);
+
+    const sigma = standardDeviation(best!.residuals);
+    const width = INTERVAL_Z * sigma * Math.sqrt(1 + (steps - 1) * best!.alpha ** 2);
+
+    return bounded({ predictedScore, lower: predictedScore - width, upper: predictedScore + width });
+  }
+
+  private fit(values: number[], alpha: number, beta: number, seasonLength: number) {
+    const gamma = HoltWintersModel.GAMMA;
+    const phi = HoltWintersModel.DAMPING;
+    const season: number[] = new Array(Math.max(seasonLength, 1)).fill(0);
+
+    if (seasonLength > 0) {
+      const firstSeasonMean = values.slice(0, seasonLength).reduce((sum, value) => sum + value, 0) / seasonLength;
+      for (let i = 0; i < seasonLength; i++) season[i] = values[i] - firstSeasonMean;
+    }
+
+    let level = values[0];
+    let trend = values.length > 1 ? values[1] - values[0] : 0;
+    const residuals: number[] = [];
+    let sse = 0;
+
+    for (let t = 1; t < values.length; t++) {
+      const s = seasonLength > 0 ? season[t % seasonLength] : 0;
+      const predicted = level + phi * trend + s;
+      const error = values[t] - predicted;
+      residuals.push(error);
+      sse += error * error;
+
+      const previousLevel = level;
+      level = alpha * (values[t] - s) + (1 - alpha) * (previousLevel + phi * trend);
+      trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+      if (seasonLength > 0) {
+        season[t % seasonLength] = gamma * (values[t] - level) + (1 - gamma) * s;
+      }
+    }
+
+    return { sse, level, trend, season, residuals };
+  }
+}
+
+/**
+ * ARIMA(1,1,0) with drift: score changes regressed on the previous change by least squares
+ */
+export class ArimaLiteModel implements ForecastingModel {
+  name = 'ARIMA-lite (1,1,0)';
+  description = 'Autoregression of score changes on the previous change, with drift, summed over the horizon';
+  minHistoryPoints = 6;
+  intervalLevel = INTERVAL_LEVEL;
+
+  forecast(context: ForecastingContext, horizonDays: number): ModelForecast {
+    const { values, stepDays } = resample(context);
+    const differences = values.slice(1).map((value, i) => value - values[i]);
+
+    let drift = 0;
+    let phi = 0;
+    let residuals = differences;
+    if (differences.length >= 3) {
+      const x = differences.slice(0, -1);
+      const y = differences.slice(1);
+      [drift, phi] = solveLinearSystem(
+        [[x.length, x.reduce((s, v) => s + v, 0)], [x.reduce((s, v) => s + v, 0), x.reduce((s, v) => s + v * v, 0)]],
+        [y.reduce((s, v) => s + v, 0), y.reduce((s, v, i) => s + v * x[i], 0)]
+      );
+      // Keep the process stationary
+      phi = Math.max(-0.95, Math.min(0.95, phi));
+      residuals = y.map((v, i) => v - drift - phi * x[i]);
+    } else if (differences.length > 0) {
+      drift = differences.reduce((s, v) => s + v, 0) / differences.length;
+    }
+
+    const steps = Math.max(1, Math.round(horizonDays / stepDays));
+    let change = differences.length > 0 ? differences[differences.length - 1] : 0;
+    let predictedScore = values[values.length - 1];
+    let psi = 0;
+    let variance = 0;
+    for (let h = 0; h < steps; h++) {
+      change = drift + phi * change;
+      predictedScore += change;
+      // Variance of the summed forecast errors grows with the cumulative impulse response
+      psi = 1 + phi * psi;
+      variance += psi * psi;
+    }
+
+    const width = INTERVAL_Z * standardDeviation(residuals) * Math.sqrt(variance);
+    return bounded({ predictedScore, lower: predictedScore - width, upper: predictedScore + width });
+  }
+}
+
+/**
+ * Linear quantile regression of the daily score change on behavioral features, the component
+ * scores of each history point. The 10th, 50th and 90th percentiles of the change rate give the
+ * interval and the prediction.
+ */
+export class QuantileRegressionModel implements ForecastingModel {
+  name = 'Behavioral Quantile Regression';
+  description = 'Quantile regression of daily score change on volume, frequency, staking and DeFi component scores';
+  minHistoryPoints = 8;
+  intervalLevel = 80; // 10th to 90th percentile
+
+  private static readonly RIDGE = 1e-3;
+  private static readonly ITERATIONS = 30;
+
+  forecast(context: ForecastingContext, horizonDays: number): ModelForecast {
+    const points = context.history;
+    const features = (breakdown: { volume?: number; frequency?: number; staking?: number; defi?: number }) => [
+      1,
+      (breakdown.volume ?? 0) / 1000,
+      (breakdown.frequency ?? 0) / 1000,
+      (breakdown.staking ?? 0) / 1000,
+      (breakdown.defi ?? 0) / 1000
+    ];
+
+    const x: number[][] = [];
+    const y: number[] = [];
+    const next = [...points.slice(1), { timestamp: context.currentScore.timestamp, score: context.currentScore.score }];
+    points.forEach((point, i) => {
+      const days = Math.max((next[i].timestamp - point.timestamp) / DAY_SECONDS, 1 / 24);
+      x.push(features({ volume: point.volumeScore, frequency: point.frequencyScore, staking: point.stakingScore, defi: point.defiScore }));
+      y.push((next[i].score - point.score) / days);
+    });
+
+    const { breakdown } = context.currentScore;
+    const current = features({
+      volume: breakdown.transactionVolume,
+      frequency: breakdown.transactionFrequency,
+      staking: breakdown.stakingActivity,
+      defi: breakdown.defiInteractions
+    });
+    const rate = (tau: number) => {
+      const beta = this.fitQuantile(x, y, tau);
+      return beta.reduce((sum, coefficient, i) => sum + coefficient * current[i], 0);
+    };
+
+    const score = context.currentScore.score;
+    const [low, median, high] = [rate(0.1), rate(0.5), rate(0.9)].sort((a, b) => a - b);
+    return bounded({
+      predictedScore: score + median * horizonDays,
+      lower: score + low * horizonDays,
+      upper: score + high * horizonDays
+    });
+  }
+
+  /**
+   * Iteratively reweighted least squares on the pinball loss, with a small ridge penalty
+   */
+  private fitQuantile(x: number[][], y: number[], tau: number): number[] {
+    const k = x[0].length;
+    let weights = new Array(y.length).fill(1);
+    let beta = new Array(k).fill(0);
+
+    for (let iteration = 0; iteration < QuantileRegressionModel.ITERATIONS; iteration++) {
+      const a = Array.from({ length: k }, (_, i) =>
+        Array.from({ length: k }, (_, j) =>
+          x.reduce((sum, row, n) => sum + weights[n] * row[i] * row[j], 0) + (i === j && i > 0 ? QuantileRegressionModel.RIDGE : 0)
+        )
+      );
+      const b = Array.from({ length: k }, (_, i) => x.reduce((sum, row, n) => sum + weights[n] * row[i] * y[n], 0));
+      beta = solveLinearSystem(a, b);
+
+      weights = y.map((value, n) => {
+        const residual = value - x[n].reduce((sum, feature, i) => sum + feature * beta[i], 0);
+        return (residual >= 0 ? tau : 1 - tau) / Math.max(Math.abs(residual), 1e-4);
+      });
+    }
+
+    return beta;
+  }
+}
+
+export const FORECASTING_MODELS: ForecastingModel[] = [
+  new MovingAverageTrendModel(),
+  new HoltWintersModel(),
+  new ArimaLiteModel(),
+  new QuantileRegressionModel()
+];
+
+// Champion until another model has a better recent record
+export const DEFAULT_FORECASTING_MODEL = FORECASTING_MODELS[0];
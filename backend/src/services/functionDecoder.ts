@@ -0,0 +1,328 @@
+import { ethers } from 'ethers';
+import { TransactionCategory } from './transactionAnalysisEngine';
+import { ProtocolDatabase } from './transactionCategorizer';
+import { MAINNET_CHAIN_ID } from './chainRegistry';
+
+/**
+ * Function Decoder
+ * Decodes transaction input data against bundled ABIs of the protocols in the
+ * protocol database, so transactions are labelled by the function they call
+ * (swapExactTokensForTokens, supply, borrow, repay, liquidationCall, ...).
+ */
+
+export type DecodedValue = string | boolean | DecodedValue[] | { [key: string]: DecodedValue };
+
+export interface DecodedCall {
+  selector: string; // 4-byte function selector, 0x-prefixed
+  name: string;
+  signature: string;
+  category: TransactionCategory;
+  args: { [name: string]: DecodedValue }; // empty when the arguments could not be decoded
+  protocolName?: string; // set when decoded with the ABI of the called protocol
+}
+
+interface BundledFunction {
+  fragment: string;
+  category: TransactionCategory;
+}
+
+interface SelectorEntry {
+  fragment: ethers.FunctionFragment;
+  category: TransactionCategory;
+}
+
+const { TRANSFER, TOKEN_APPROVAL, DEFI_SWAP, DEFI_LIQUIDITY, DEFI_LENDING, DEFI_BORROWING, STAKING, UNSTAKING, BRIDGE } = TransactionCategory;
+
+// Bundled ABIs, as human-readable fragments of the functions users call
+const BUNDLED_ABIS: { [abi: string]: BundledFunction[] } = {
+  ERC20: [
+    { fragment: 'function transfer(address to, uint256 amount)', category: TRANSFER },
+    { fragment: 'function transferFrom(address from, address to, uint256 amount)', category: TRANSFER },
+    { fragment: 'function approve(address spender, uint256 amount)', category: TOKEN_APPROVAL },
+    { fragment: 'function increaseAllowance(address spender, uint256 addedValue)', category: TOKEN_APPROVAL },
+    { fragment: 'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)', category: TOKEN_APPROVAL }
+  ],
+  WETH: [
+    { fragment: 'function deposit()', category: DEFI_SWAP },
+    { fragment: 'function withdraw(uint256 wad)', category: DEFI_SWAP }
+  ],
+  UNISWAP_V2_ROUTER: [
+    { fragment: 'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)', category: DEFI_LIQUIDITY },
+    { fragment: 'function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)', category: DEFI_LIQUIDITY },
+    { fragment: 'function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)', category: DEFI_LIQUIDITY },
+    { fragment: 'function removeLiquidityETH(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)', category: DEFI_LIQUIDITY }
+  ],
+  UNISWAP_V3_ROUTER: [
+    { fragment: 'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)', category: DEFI_SWAP },
+    { fragment: 'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params)', category: DEFI_SWAP },
+    { fragment: 'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)', category: DEFI_SWAP },
+    { fragment: 'function exactOutput((bytes path, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum) params)', category: DEFI_SWAP },
+    { fragment: 'function multicall(bytes[] data)', category: DEFI_SWAP }
+  ],
+  UNISWAP_V3_ROUTER_2: [
+    { fragment: 'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)', category: DEFI_SWAP },
+    { fragment: 'function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params)', category: DEFI_SWAP },
+    { fragment: 'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)', category: DEFI_SWAP },
+    { fragment: 'function exactOutput((bytes path, address recipient, uint256 amountOut, uint256 amountInMaximum) params)', category: DEFI_SWAP },
+    { fragment: 'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to)', category: DEFI_SWAP },
+    { fragment: 'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to)', category: DEFI_SWAP },
+    { fragment: 'function multicall(uint256 deadline, bytes[] data)', category: DEFI_SWAP },
+    { fragment: 'function multicall(bytes[] data)', category: DEFI_SWAP }
+  ],
+  SOLIDLY_ROUTER: [
+    { fragment: 'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, (address from, address to, bool stable, address factory)[] routes, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function swapExactETHForTokens(uint256 amountOutMin, (address from, address to, bool stable, address factory)[] routes, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, (address from, address to, bool stable, address factory)[] routes, address to, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function addLiquidity(address tokenA, address tokenB, bool stable, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)', category: DEFI_LIQUIDITY },
+    { fragment: 'function removeLiquidity(address tokenA, address tokenB, bool stable, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)', category: DEFI_LIQUIDITY }
+  ],
+  ONEINCH_V4: [
+    { fragment: 'function swap(address caller, (address srcToken, address dstToken, address srcReceiver, address dstReceiver, uint256 amount, uint256 minReturnAmount, uint256 flags, bytes permit) desc, bytes data)', category: DEFI_SWAP },
+    { fragment: 'function unoswap(address srcToken, uint256 amount, uint256 minReturn, bytes32[] pools)', category: DEFI_SWAP },
+    { fragment: 'function uniswapV3Swap(uint256 amount, uint256 minReturn, uint256[] pools)', category: DEFI_SWAP }
+  ],
+  ONEINCH_V5: [
+    { fragment: 'function swap(address executor, (address srcToken, address dstToken, address srcReceiver, address dstReceiver, uint256 amount, uint256 minReturnAmount, uint256 flags) desc, bytes permit, bytes data)', category: DEFI_SWAP },
+    { fragment: 'function unoswap(address srcToken, uint256 amount, uint256 minReturn, uint256[] pools)', category: DEFI_SWAP },
+    { fragment: 'function uniswapV3Swap(uint256 amount, uint256 minReturn, uint256[] pools)', category: DEFI_SWAP }
+  ],
+  CURVE_POOL: [
+    { fragment: 'function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy)', category: DEFI_SWAP },
+    { fragment: 'function exchange_underlying(int128 i, int128 j, uint256 dx, uint256 min_dy)', category: DEFI_SWAP },
+    { fragment: 'function add_liquidity(uint256[3] amounts, uint256 min_mint_amount)', category: DEFI_LIQUIDITY },
+    { fragment: 'function remove_liquidity(uint256 _amount, uint256[3] min_amounts)', category: DEFI_LIQUIDITY },
+    { fragment: 'function remove_liquidity_one_coin(uint256 _token_amount, int128 i, uint256 min_amount)', category: DEFI_LIQUIDITY }
+  ],
+  BALANCER_VAULT: [
+    { fragment: 'function swap((bytes32 poolId, uint8 kind, address assetIn, address assetOut, uint256 amount, bytes userData) singleSwap, (address sender, bool fromInternalBalance, address recipient, bool toInternalBalance) funds, uint256 limit, uint256 deadline)', category: DEFI_SWAP },
+    { fragment: 'function joinPool(bytes32 poolId, address sender, address recipient, (address[] assets, uint256[] maxAmountsIn, bytes userData, bool fromInternalBalance) request)', category: DEFI_LIQUIDITY },
+    { fragment: 'function exitPool(bytes32 poolId, address sender, address recipient, (address[] assets, uint256[] minAmountsOut, bytes userData, bool toInternalBalance) request)', category: DEFI_LIQUIDITY }
+  ],
+  GMX_ROUTER: [
+    { fragment: 'function swap(address[] _path, uint256 _amountIn, uint256 _minOut, address _receiver)', category: DEFI_SWAP },
+    { fragment: 'function swapETHToTokens(address[] _path, uint256 _minOut, address _receiver)', category: DEFI_SWAP },
+    { fragment: 'function swapTokensToETH(address[] _path, uint256 _amountIn, uint256 _minOut, address _receiver)', category: DEFI_SWAP }
+  ],
+  AAVE_V2_POOL: [
+    { fragment: 'function deposit(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)', category: DEFI_LENDING },
+    { fragment: 'function withdraw(address asset, uint256 amount, address to)', category: DEFI_LENDING },
+    { fragment: 'function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)', category: DEFI_BORROWING },
+    { fragment: 'function repay(address asset, uint256 amount, uint256 rateMode, address onBehalfOf)', category: DEFI_BORROWING },
+    { fragment: 'function swapBorrowRateMode(address asset, uint256 rateMode)', category: DEFI_BORROWING },
+    { fragment: 'function setUserUseReserveAsCollateral(address asset, bool useAsCollateral)', category: DEFI_LENDING },
+    { fragment: 'function liquidationCall(address collateralAsset, address debtAsset, address user, uint256 debtToCover, bool receiveAToken)', category: DEFI_LENDING }
+  ],
+  AAVE_V3_POOL: [
+    { fragment: 'function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)', category: DEFI_LENDING },
+    { fragment: 'function deposit(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)', category: DEFI_LENDING },
+    { fragment: 'function withdraw(address asset, uint256 amount, address to)', category: DEFI_LENDING },
+    { fragment: 'function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)', category: DEFI_BORROWING },
+    { fragment: 'function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf)', category: DEFI_BORROWING },
+    { fragment: 'function repayWithATokens(address asset, uint256 amount, uint256 interestRateMode)', category: DEFI_BORROWING },
+    { fragment: 'function setUserUseReserveAsCollateral(address asset, bool useAsCollateral)', category: DEFI_LENDING },
+    { fragment: 'function setUserEMode(uint8 categoryId)', category: DEFI_LENDING },
+    { fragment: 'function liquidationCall(address collateralAsset, address debtAsset, address user, uint256 debtToCover, bool receiveAToken)', category: DEFI_LENDING }
+  ],
+  COMPOUND_CTOKEN: [
+    { fragment: 'function mint()', category: DEFI_LENDING },
+    { fragment: 'function mint(uint256 mintAmount)', category: DEFI_LENDING },
+    { fragment: 'function redeem(uint256 redeemTokens)', category: DEFI_LENDING },
+    { fragment: 'function redeemUnderlying(uint256 redeemAmount)', category: DEFI_LENDING },
+    { fragment: 'function borrow(uint256 borrowAmount)', category: DEFI_BORROWING },
+    { fragment: 'function repayBorrow()', category: DEFI_BORROWING },
+    { fragment: 'function repayBorrow(uint256 repayAmount)', category: DEFI_BORROWING },
+    { fragment: 'function repayBorrowBehalf(address borrower)', category: DEFI_BORROWING },
+    { fragment: 'function liquidateBorrow(address borrower, address cTokenCollateral)', category: DEFI_LENDING }
+  ],
+  COMPOUND_COMPTROLLER: [
+    { fragment: 'function enterMarkets(address[] cTokens)', category: DEFI_LENDING },
+    { fragment: 'function exitMarket(address cTokenAddress)', category: DEFI_LENDING },
+    { fragment: 'function claimComp(address holder)', category: DEFI_LENDING }
+  ],
+  COMPOUND_V3: [
+    { fragment: 'function supply(address asset, uint256 amount)', category: DEFI_LENDING },
+    { fragment: 'function withdraw(address asset, uint256 amount)', category: DEFI_LENDING },
+    { fragment: 'function absorb(address absorber, address[] accounts)', category: DEFI_LENDING }
+  ],
+  MAKER_CDP_MANAGER: [
+    { fragment: 'function open(bytes32 ilk, address usr)', category: DEFI_BORROWING },
+    { fragment: 'function frob(uint256 cdp, int256 dink, int256 dart)', category: DEFI_BORROWING },
+    { fragment: 'function flux(uint256 cdp, address dst, uint256 wad)', category: DEFI_BORROWING },
+    { fragment: 'function move(uint256 cdp, address dst, uint256 rad)', category: DEFI_BORROWING },
+    { fragment: 'function give(uint256 cdp, address dst)', category: DEFI_BORROWING }
+  ],
+  ETH2_DEPOSIT: [
+    { fragment: 'function deposit(bytes pubkey, bytes withdrawal_credentials, bytes signature, bytes32 deposit_data_root)', category: STAKING }
+  ],
+  LIDO: [
+    { fragment: 'function submit(address _referral)', category: STAKING }
+  ],
+  ROCKET_POOL_RETH: [
+    { fragment: 'function burn(uint256 _rethAmount)', category: UNSTAKING }
+  ],
+  ARBITRUM_INBOX: [
+    { fragment: 'function depositEth()', category: BRIDGE },
+    { fragment: 'function createRetryableTicket(address to, uint256 l2CallValue, uint256 maxSubmissionCost, address excessFeeRefundAddress, address callValueRefundAddress, uint256 gasLimit, uint256 maxFeePerGas, bytes data)', category: BRIDGE }
+  ],
+  ARBITRUM_GATEWAY: [
+    { fragment: 'function outboundTransfer(address _token, address _to, uint256 _amount, uint256 _maxGas, uint256 _gasPriceBid, bytes _data)', category: BRIDGE }
+  ],
+  OPTIMISM_BRIDGE: [
+    { fragment: 'function depositETH(uint32 _l2Gas, bytes _data)', category: BRIDGE },
+    { fragment: 'function depositETHTo(address _to, uint32 _l2Gas, bytes _data)', category: BRIDGE },
+    { fragment: 'function depositERC20(address _l1Token, address _l2Token, uint256 _amount, uint32 _l2Gas, bytes _data)', category: BRIDGE }
+  ],
+  POLYGON_BRIDGE: [
+    { fragment: 'function depositEtherFor(address user)', category: BRIDGE },
+    { fragment: 'function depositFor(address user, address rootToken, bytes depositData)', category: BRIDGE },
+    { fragment: 'function exit(bytes inputData)', category: BRIDGE }
+  ]
+};
+
+// Bundled ABI of each protocol in the protocol database, by protocol name
+const PROTOCOL_ABIS: { [protocolName: string]: string } = {
+  'Uniswap V2 Router': 'UNISWAP_V2_ROUTER',
+  'SushiSwap Router': 'UNISWAP_V2_ROUTER',
+  'QuickSwap Router': 'UNISWAP_V2_ROUTER',
+  'Uniswap V3 Router': 'UNISWAP_V3_ROUTER',
+  'Uniswap V3 Router 2': 'UNISWAP_V3_ROUTER_2',
+  'Velodrome V2 Router': 'SOLIDLY_ROUTER',
+  'Aerodrome Router': 'SOLIDLY_ROUTER',
+  '1inch V4 Router': 'ONEINCH_V4',
+  '1inch V5 Router': 'ONEINCH_V5',
+  'Curve 3Pool': 'CURVE_POOL',
+  'Balancer V2 Vault': 'BALANCER_VAULT',
+  'GMX Router': 'GMX_ROUTER',
+  'Aave V2 Lending Pool': 'AAVE_V2_POOL',
+  'Aave V3 Pool': 'AAVE_V3_POOL',
+  'Compound cETH': 'COMPOUND_CTOKEN',
+  'Compound Comptroller': 'COMPOUND_COMPTROLLER',
+  'Compound V3 USDC': 'COMPOUND_V3',
+  'MakerDAO CDP Manager': 'MAKER_CDP_MANAGER',
+  'DAI Token': 'ERC20',
+  'ETH 2.0 Deposit Contract': 'ETH2_DEPOSIT',
+  'Lido stETH': 'LIDO',
+  'Rocket Pool rETH': 'ROCKET_POOL_RETH',
+  'Arbitrum Inbox': 'ARBITRUM_INBOX',
+  'Arbitrum Bridge': 'ARBITRUM_GATEWAY',
+  'Optimism Gateway': 'OPTIMISM_BRIDGE',
+  'Polygon Bridge': 'POLYGON_BRIDGE'
+};
+
+/**
+ * Build the 4-byte selector tables: one per bundled ABI, and a global table used
+ * for contracts outside the protocol database (first ABI to claim a selector wins)
+ */
+function buildSelectorTables(): {
+  byAbi: Map<string, Map<string, SelectorEntry>>;
+  global: Map<string, SelectorEntry>;
+} {
+  const byAbi = new Map<string, Map<string, SelectorEntry>>();
+  const global = new Map<string, SelectorEntry>();
+
+  for (const [abi, functions] of Object.entries(BUNDLED_ABIS)) {
+    const table = new Map<string, SelectorEntry>();
+
+    for (const { fragment, category } of functions) {
+      const entry = { fragment: ethers.FunctionFragment.from(fragment), category };
+      table.set(entry.fragment.selector, entry);
+      if (!global.has(entry.fragment.selector)) {
+        global.set(entry.fragment.selector, entry);
+      }
+    }
+
+    byAbi.set(abi, table);
+  }
+
+  return { byAbi, global };
+}
+
+const SELECTOR_TABLES = buildSelectorTables();
+
+export class FunctionDecoder {
+  /**
+   * Decode transaction input data, preferring the ABI of the called protocol.
+   * Returns null for plain transfers and unknown selectors.
+   */
+  public static decode(input: string | undefined, to: string | null, chainId: number = MAINNET_CHAIN_ID): DecodedCall | null {
+    if (!input || input.length < 10) {
+      return null;
+    }
+
+    const selector = input.slice(0, 10).toLowerCase();
+    const protocol = to ? ProtocolDatabase.getProtocolInfo(to, chainId) : null;
+    const abi = protocol ? PROTOCOL_ABIS[protocol.name] : undefined;
+
+    const protocolEntry = abi ? SELECTOR_TABLES.byAbi.get(abi)?.get(selector) : undefined;
+    const entry = protocolEntry || SELECTOR_TABLES.global.get(selector);
+    if (!entry) {
+      return null;
+    }
+
+    return {
+      selector,
+      name: entry.fragment.name,
+      signature: entry.fragment.format('sighash'),
+      category: entry.category,
+      args: this.decodeArgs(entry.fragment, input),
+      ...(protocolEntry && protocol && { protocolName: protocol.name })
+    };
+  }
+
+  /**
+   * Look up a selector in the local 4-byte table
+   */
+  public static lookupSelector(selector: string): { name: string; signature: string; category: TransactionCategory } | null {
+    const entry = SELECTOR_TABLES.global.get(selector.toLowerCase());
+    return entry
+      ? { name: entry.fragment.name, signature: entry.fragment.format('sighash'), category: entry.category }
+      : null;
+  }
+
+  private static decodeArgs(fragment: ethers.FunctionFragment, input: string): { [name: string]: DecodedValue } {
+    try {
+      const values = ethers.AbiCoder.defaultAbiCoder().decode(fragment.inputs, ethers.dataSlice(input, 4));
+      const args: { [name: string]: DecodedValue } = {};
+
+      fragment.inputs.forEach((param, index) => {
+        args[param.name || `arg${index}`] = this.formatValue(param, values[index]);
+      });
+
+      return args;
+    } catch {
+      // Selector collisions and malformed calldata still keep the function label
+      return {};
+    }
+  }
+
+  private static formatValue(param: ethers.ParamType, value: any): DecodedValue {
+    if (param.isTuple()) {
+      const tuple: { [key: string]: DecodedValue } = {};
+      param.components.forEach((component, index) => {
+        tuple[component.name || `${index}`] = this.formatValue(component, value[index]);
+      });
+      return tuple;
+    }
+
+    if (param.isArray()) {
+      return Array.from(value as any[]).map(item => this.formatValue(param.arrayChildren, item));
+    }
+
+    if (typeof value === 'boolean') {
+      return value;
+    }
+
+    return value.toString();
+  }
+}
+
+export default FunctionDecoder;
@@ -20,6 +20,20 @@ export interface GrowthTrendAnalysis {
   recommendations: string[];
 }
 
+export type GrowthPeriodGranularity = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY';
+
+export const GROWTH_PERIOD_DAYS: { [granularity in GrowthPeriodGranularity]: number } = {
+  WEEKLY: 7,
+  MONTHLY: 30,
+  QUARTERLY: 90
+};
+
+export interface GrowthTrendOptions {
+  granularity?: GrowthPeriodGranularity; // fixed-length periods; by default the history is split into four
+  from?: number; // unix seconds, inclusive
+  to?: number; // unix seconds, exclusive
+}
+
 export interface PeriodMetrics {
   periodIndex: number;
   startTimestamp: number;
@@ -135,18 +149,26 @@ export class GrowthTrendAnalysisEngine {
   public static analyzeGrowthTrend(
     address: string,
     metrics: UserMetrics,
-    transactionHistory?: TransactionData[]
+    transactionHistory?: TransactionData[],
+    options: GrowthTrendOptions = {}
   ): GrowthTrendAnalysis {
     
-    if (!transactionHistory || transactionHistory.length < 6) {
+    const rangeTxs = (transactionHistory || []).filter(tx =>
+      (options.from === undefined || tx.timestamp >= options.from) &&
+      (options.to === undefined || tx.timestamp < options.to)
+    );
+
+    if (rangeTxs.length < 6) {
       return this.generateBasicGrowthTrend(metrics);
     }
 
     // Sort transactions by timestamp
-    const sortedTxs = [...transactionHistory].sort((a, b) => a.timestamp - b.timestamp);
+    const sortedTxs = [...rangeTxs].sort((a, b) => a.timestamp - b.timestamp);
     
     // Divide into analysis periods
-    const periodAnalysis = this.divideToPeriods(sortedTxs);
+    const periodAnalysis = options.granularity
+      ? this.divideToFixedPeriods(sortedTxs, options.granularity, options.from, options.to)
+      : this.divideToPeriods(sortedTxs);
     
     // Calculate trend metrics
     const keyMetrics = this.calculateTrendMetrics(periodAnalysis);
@@ -161,7 +183,7 @@ export class GrowthTrendAnalysisEngine {
     const evidence = this.generateTrendEvidence(trend, keyMetrics, periodAnalysis);
     
     // Calculate confidence
-    const confidence = this.calculateTrendConfidence(periodAnalysis, transactionHistory.length);
+    const confidence = this.calculateTrendConfidence(periodAnalysis, rangeTxs.length);
     
     // Generate recommendations
     const recommendations = this.generateTrendRecommendations(trend, keyMetrics);
@@ -394,38 +416,7 @@ export class GrowthTrendAnalysisEngine {
       );
       
       if (periodTxs.length > 0) {
-        const totalVolume = periodTxs.reduce((sum, tx) => sum + parseFloat(tx.value), 0);
-        const avgTransactionValue = totalVolume / periodTxs.length;
-        
-        // Calculate gas efficiency
-        const gasEfficiencies = periodTxs.map(tx => {
-          const gasPrice = parseFloat(tx.gasPrice);
-          return gasPrice <= 50 ? 80 : gasPrice <= 100 ? 60 : gasPrice <= 200 ? 40 : 20;
-        });
-        const avgGasEfficiency = gasEfficiencies.reduce((sum, eff) => sum + eff, 0) / gasEfficiencies.length;
-        
-        // Calculate protocol diversity
-        const uniqueProtocols = new Set(periodTxs.map(tx => tx.protocolName || 'unknown'));
-        const protocolDiversity = Math.min(uniqueProtocols.size * 20, 100);
-        
-        // Calculate activity ratios
-        const stakingTxs = periodTxs.filter(tx => tx.isStaking);
-        const defiTxs = periodTxs.filter(tx => tx.isDeFi);
-        const stakingActivity = stakingTxs.length / periodTxs.length;
-        const defiActivity = defiTxs.length / periodTxs.length;
-        
-        periods.push({
-          periodIndex,
-          startTimestamp: currentPeriodStart,
-          endTimestamp: currentPeriodEnd,
-          transactionCount: periodTxs.length,
-          totalVolume,
-          avgGasEfficiency,
-          protocolDiversity,
-          avgTransactionValue,
-          stakingActivity,
-          defiActivity
-        });
+        periods.push(this.calculatePeriodMetrics(periodIndex, currentPeriodStart, currentPeriodEnd, periodTxs));
       }
       
       currentPeriodStart = currentPeriodEnd;
@@ -435,6 +426,73 @@ export class GrowthTrendAnalysisEngine {
     return periods;
   }
 
+  /**
+   * Divide a date range into periods of the given granularity. Periods without
+   * transactions are skipped, leaving a gap in periodIndex.
+   */
+  private static divideToFixedPeriods(
+    transactions: TransactionData[],
+    granularity: GrowthPeriodGranularity,
+    from?: number,
+    to?: number
+  ): PeriodMetrics[] {
+    const periodDuration = GROWTH_PERIOD_DAYS[granularity] * 24 * 60 * 60;
+    const rangeStart = from ?? transactions[0].timestamp;
+    const rangeEnd = to ?? transactions[transactions.length - 1].timestamp + 1;
+    const periods: PeriodMetrics[] = [];
+
+    for (let periodIndex = 0, periodStart = rangeStart; periodStart < rangeEnd; periodIndex++, periodStart += periodDuration) {
+      const periodEnd = Math.min(periodStart + periodDuration, rangeEnd);
+      const periodTxs = transactions.filter(tx => tx.timestamp >= periodStart && tx.timestamp < periodEnd);
+
+      if (periodTxs.length > 0) {
+        periods.push(this.calculatePeriodMetrics(periodIndex, periodStart, periodEnd, periodTxs));
+      }
+    }
+
+    return periods;
+  }
+
+  private static calculatePeriodMetrics(
+    periodIndex: number,
+    startTimestamp: number,
+    endTimestamp: number,
+    periodTxs: TransactionData[]
+  ): PeriodMetrics {
+    const totalVolume = periodTxs.reduce((sum, tx) => sum + parseFloat(tx.value), 0);
+    const avgTransactionValue = totalVolume / periodTxs.length;
+    
+    // Calculate gas efficiency
+    const gasEfficiencies = periodTxs.map(tx => {
+      const gasPrice = parseFloat(tx.gasPrice);
+      return gasPrice <= 50 ? 80 : gasPrice <= 100 ? 60 : gasPrice <= 200 ? 40 : 20;
+    });
+    const avgGasEfficiency = gasEfficiencies.reduce((sum, eff) => sum + eff, 0) / gasEfficiencies.length;
+    
+    // Calculate protocol diversity
+    const uniqueProtocols = new Set(periodTxs.map(tx => tx.protocolName || 'unknown'));
+    const protocolDiversity = Math.min(uniqueProtocols.size * 20, 100);
+    
+    // Calculate activity ratios
+    const stakingTxs = periodTxs.filter(tx => tx.isStaking);
+    const defiTxs = periodTxs.filter(tx => tx.isDeFi);
+    const stakingActivity = stakingTxs.length / periodTxs.length;
+    const defiActivity = defiTxs.length / periodTxs.length;
+    
+    return {
+      periodIndex,
+      startTimestamp,
+      endTimestamp,
+      transactionCount: periodTxs.length,
+      totalVolume,
+      avgGasEfficiency,
+      protocolDiversity,
+      avgTransactionValue,
+      stakingActivity,
+      defiActivity
+    };
+  }
+
   private static calculateTrendMetrics(periods: PeriodMetrics[]): {
     activityTrend: number;
     volumeTrend: number;
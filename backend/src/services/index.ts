@@ -1,8 +1,38 @@
 // Services exports
-export { blockchainService, TransactionData, UserMetrics } from './blockchainService';
+export { blockchainService, BlockchainService, getBlockchainService, TransactionData, InternalCall, UserMetrics, TokenTransfer, TokenVolume } from './blockchainService';
+export { priceService, PriceService, PriceFeed, PriceFeedKind, FilePriceFeed, ReferencePriceFeed } from './priceService';
+export { ChainlinkPriceFeed } from './chainlinkPriceFeed';
+export { TokenRegistry, TokenMetadata, KnownToken, ERC20_TRANSFER_TOPIC } from './tokenRegistry';
+export { ChainRegistry, SupportedChain, MAINNET_CHAIN_ID, AGGREGATE_CHAIN_ID } from './chainRegistry';
+export { CrossChainAggregator, AGGREGATION_RULES } from './crossChainAggregator';
+export { ChainDataSource, ChainDataSourceKind, ChainTransaction, ChainInternalCall, ChainTraceCall, ChainLog, createChainDataSource, createChainDataSourcesFromEnv } from './chainDataSource';
 export { RiskAssessmentEngine, RiskAssessment, RiskFactor, RiskMitigationRecommendation } from './riskAssessmentEngine';
-export { ProtocolPreferenceEngine, ProtocolPreferenceAnalysis, ProtocolPreference, GasOptimizationAnalysis, TransactionTimingAnalysis, ProtocolSophisticationAnalysis } from './protocolPreferenceEngine';
+export { ProtocolPreferenceEngine, ProtocolPreferenceAnalysis, ProtocolPreference, GasOptimizationAnalysis, TransactionTimingAnalysis, ProtocolSophisticationAnalysis, GasOptimizationRecommendation, ProtocolPreferenceSection, PROTOCOL_PREFERENCE_SECTIONS } from './protocolPreferenceEngine';
 export { PeerGroupAnalysisEngine, PeerGroup, UserPeerGroupClassification, PeerGroupMetrics, PeerGroupCriteria } from './peerGroupAnalysisEngine';
 export { BenchmarkingEngine, BenchmarkingData, PercentileRankings, ComparativeAnalysis, BenchmarkCategory, RelativePerformance } from './benchmarkingEngine';
 export { CompetitivePositioningEngine, CompetitivePositioningData, MarketPositionAnalysis, TrendComparisonAnalysis, CompetitiveAdvantage, MarketOpportunity, CompetitiveThreat, StrategicRecommendation } from './competitivePositioningEngine';
-export { DatabaseService } from './databaseService';
\ No newline at end of file
+export { DatabaseService, QueuedJob, DeadLetterJob, JobPriority, JobTypeCounts } from './databaseService';
+export { TransactionStore, TransactionSyncState } from './transactionStore';
+export { FunctionDecoder, DecodedCall, DecodedValue } from './functionDecoder';
+export { LendingHistoryService, LendingHistory, LendingSummary, LendingPosition, LendingEvent, LendingProtocol, LendingEventType } from './lendingHistory';
+export { ScoringModelRegistry, ScoringModel, ScoringModelConfig, ScoringWeights, ScoringParams } from './scoringModels';
+export { ScoreSimulator, MetricsDelta, ComponentDelta, ScoreSimulation } from './scoreSimulator';
+export { ScoreExplainer, ScoreExplanation, FeatureContribution, ReferenceWallet, REFERENCE_WALLETS } from './scoreExplainer';
+export { AttestationService } from './attestationService';
+export { verifyScoreAttestation, hashScoreAttestation, buildAttestationDomain, SCORE_ATTESTATION_TYPES, ScoreAttestationMessage, SignedScoreAttestation, AttestationVerification, VerifyOptions } from './attestationVerifier';
+export { ScorePublisher, SCORE_REGISTRY_ABI, OnChainRoot } from './scorePublisher';
+export { ScoreMerkleTree, ScoreLeaf, ScoreProof, hashScoreLeaf } from './scoreMerkleTree';
+export { AnomalyDetectionEngine, AnomalyDetectionResult, AnomalyDetectorType, AnomalyFlag, ANOMALY_DETECTOR_TYPES } from './anomalyDetectionEngine';
+export { RiskMonitoringService, RiskMonitoringAlert, RiskThreshold, RiskTrend, RISK_THRESHOLD_FACTORS } from './riskMonitoringService';
+export { RiskMitigationService, ComprehensiveRiskReport, RiskMitigationProgress } from './riskMitigationService';
+export { BehavioralPatternService, BehavioralAnalysis, BehavioralHistory, BehavioralChange, BehavioralTransition } from './behavioralPatternService';
+export { GrowthTrendAnalysisEngine, GrowthTrendAnalysis, GrowthTrendOptions, GrowthPeriodGranularity, PeriodMetrics, GROWTH_PERIOD_DAYS } from './growthTrendAnalysisEngine';
+export { RecommendationTrackingService, TrackedRecommendation, RecommendationStatus, RecommendationStatusChange, RecommendationSync, RECOMMENDATION_STATUSES } from './recommendationTrackingService';
+export { RecommendationOutcomeService, ImpactCalibration, ImpactCalibrationReport, OUTCOME_WINDOW_DAYS } from './recommendationOutcomeService';
+export { ScoreBackfillService, BackfillInterval, BackfillOptions, BackfillResult, HistoricalScore, BACKFILL_INTERVALS } from './scoreBackfillService';
+export { PredictionResolutionService, PredictionResolutionConfig, PredictionResolutionResult } from './predictionResolutionService';
+export { ForecastBacktester, BacktestMetrics, BacktestReport } from './forecastBacktester';
+export { ForecastingModel, ForecastingContext, ModelForecast, MovingAverageTrendModel, HoltWintersModel, ArimaLiteModel, QuantileRegressionModel, FORECASTING_MODELS, DEFAULT_FORECASTING_MODEL } from './forecastingModels';
+export { ForecastCalibrationService, PredictionInterval, ResidualSample, ResidualCalibration, IntervalCoverage, ForecastCalibrationReport, INTERVAL_LEVELS, CALIBRATION_WINDOW_DAYS } from './forecastCalibrationService';
+export { JobQueue, JobQueueConfig, EnqueueOptions, JobHandler, JobProcessingResult, JobQueueStats, JOB_PRIORITIES } from './jobQueue';
+export { ScoreRefreshService } from './scoreRefreshService';
\ No newline at end of file
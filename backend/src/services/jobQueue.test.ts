@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initializeDatabase, closeDatabase, getDatabase } from '../database/connection';
+import { DatabaseService } from './databaseService';
+import { JobQueue } from './jobQueue';
+
+const DATABASE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'cryptoscore-jobs-'));
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function exec(sql: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    getDatabase().exec(sql, err => (err ? reject(err) : resolve()));
+  });
+}
+
+describe('JobQueue', () => {
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    process.env.DATABASE_PATH = path.join(DATABASE_DIR, 'cryptoscore.db');
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    delete process.env.DATABASE_PATH;
+    fs.rmSync(DATABASE_DIR, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    await exec('DELETE FROM jobs; DELETE FROM dead_letter_jobs;');
+  });
+
+  it('runs a due job and completes it', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    JobQueue.registerHandler('TEST_COMPLETE', handler);
+
+    const jobId = await JobQueue.enqueue('TEST_COMPLETE', { address: '0xabc' });
+    const result = await JobQueue.processDueJobs();
+
+    expect(result).toEqual(expect.objectContaining({ claimed: 1, completed: 1 }));
+    expect(handler).toHaveBeenCalledWith({ address: '0xabc' }, expect.objectContaining({ id: jobId, attempts: 1 }));
+    expect(await DatabaseService.getJob(jobId)).toEqual(expect.objectContaining({ status: 'COMPLETED' }));
+  });
+
+  it('leaves a delayed job until it is due', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    JobQueue.registerHandler('TEST_DELAYED', handler);
+
+    await JobQueue.enqueue('TEST_DELAYED', {}, { delay: 3600 });
+
+    expect((await JobQueue.processDueJobs()).claimed).toBe(0);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns the pending job holding a dedupe key instead of adding another', async () => {
+    const first = await JobQueue.enqueue('TEST_DEDUPE', {}, { dedupeKey: 'TEST_DEDUPE:1' });
+    const second = await JobQueue.enqueue('TEST_DEDUPE', {}, { dedupeKey: 'TEST_DEDUPE:1' });
+
+    expect(second).toBe(first);
+  });
+
+  it('retries a failed job with backoff, then dead-letters it after its last attempt', async () => {
+    JobQueue.registerHandler('TEST_FAIL', jest.fn().mockRejectedValue(new Error('upstream down')));
+    const jobId = await JobQueue.enqueue('TEST_FAIL', { n: 1 }, { maxAttempts: 2 });
+
+    expect((await JobQueue.processDueJobs()).retried).toBe(1);
+    const retried = await DatabaseService.getJob(jobId);
+    expect(retried).toEqual(expect.objectContaining({ status: 'PENDING', attempts: 1, lastError: 'upstream down' }));
+    expect(retried!.runAt).toBeGreaterThan(now());
+
+    await JobQueue.retryJob(jobId);
+    expect((await JobQueue.processDueJobs()).deadLettered).toBe(1);
+
+    expect(await DatabaseService.getJob(jobId)).toBeNull();
+    expect(await JobQueue.getDeadLetterJobs()).toEqual([
+      expect.objectContaining({ jobId, jobType: 'TEST_FAIL', payload: { n: 1 }, attempts: 2, lastError: 'upstream down' })
+    ]);
+  });
+
+  it('claims a job again once the lease of its worker has expired', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    JobQueue.registerHandler('TEST_LEASE', handler);
+    const jobId = await JobQueue.enqueue('TEST_LEASE');
+
+    // A worker that died holding the job
+    expect(await DatabaseService.claimJob('worker_dead', now(), now() + 300)).toEqual(expect.objectContaining({ id: jobId }));
+    expect((await JobQueue.processDueJobs()).claimed).toBe(0);
+
+    await exec(`UPDATE jobs SET lease_expires_at = ${now() - 1} WHERE id = ${jobId}`);
+    expect((await JobQueue.processDueJobs()).completed).toBe(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await DatabaseService.completeJob(jobId, 'worker_dead')).toBe(false);
+  });
+
+  it('queues a dead-lettered job again with fresh attempts, once', async () => {
+    JobQueue.registerHandler('TEST_REQUEUE', jest.fn().mockRejectedValue(new Error('bad payload')));
+    await JobQueue.enqueue('TEST_REQUEUE', { n: 2 }, { priority: 'HIGH', maxAttempts: 1 });
+    await JobQueue.processDueJobs();
+    const [deadLetter] = await JobQueue.getDeadLetterJobs();
+
+    const job = await JobQueue.retryDeadLetterJob(deadLetter.id);
+
+    expect(job).toEqual(expect.objectContaining({ jobType: 'TEST_REQUEUE', payload: { n: 2 }, priority: 'HIGH', status: 'PENDING', attempts: 0 }));
+    expect(await JobQueue.getDeadLetterJobs()).toEqual([]);
+    expect(await JobQueue.retryDeadLetterJob(deadLetter.id)).toBeNull();
+  });
+
+  it('keeps a dead-lettered job when it cannot be queued again', async () => {
+    JobQueue.registerHandler('TEST_ATOMIC', jest.fn().mockRejectedValue(new Error('bad payload')));
+    await JobQueue.enqueue('TEST_ATOMIC', {}, { maxAttempts: 1 });
+    await JobQueue.processDueJobs();
+    const [deadLetter] = await JobQueue.getDeadLetterJobs();
+
+    await exec(`CREATE TRIGGER reject_jobs BEFORE INSERT ON jobs BEGIN SELECT RAISE(ABORT, 'jobs table is read-only'); END;`);
+    try {
+      await expect(JobQueue.retryDeadLetterJob(deadLetter.id)).rejects.toThrow('jobs table is read-only');
+    } finally {
+      await exec('DROP TRIGGER reject_jobs;');
+    }
+
+    expect(await JobQueue.getDeadLetterJobs()).toEqual([expect.objectContaining({ id: deadLetter.id })]);
+  });
+});
@@ -0,0 +1,377 @@
+import { DatabaseService, QueuedJob, DeadLetterJob, JobPriority, JobTypeCounts } from './databaseService';
+
+/**
+ * Job Queue
+ * Durable background jobs in SQLite, shared by every server instance on the database. Services
+ * register a handler per job type and enqueue jobs with a JSON payload; a worker polls for due
+ * jobs, highest priority first, and leases each one as it starts it for a visibility timeout,
+ * renewed while its handler runs. A worker that dies mid-job leaves its lease to expire, after
+ * which another worker claims the job again, so jobs run at least once and handlers must
+ * tolerate running twice.
+ *
+ * A failed job is retried with exponential backoff until it has used its attempts, then moved to
+ * dead_letter_jobs, from where it can be queued again. A dedupe key keeps a job from being
+ * queued twice while one with the same key is pending or running.
+ *
+ * Recurring jobs replace timers: each run queues the next one interval after it finishes, under
+ * a dedupe key, so only one run is ever pending however many instances register the job.
+ */
+
+export interface JobQueueConfig {
+  pollInterval: number; // seconds between polls when no job was due
+  batchSize: number; // jobs run per poll
+  visibilityTimeout: number; // seconds a lease lasts before the job can be claimed again
+  maxAttempts: number; // default attempts per job before it is dead-lettered
+  backoffBase: number; // seconds before the first retry, doubling with each attempt
+  backoffMax: number; // seconds
+  completedRetention: number; // seconds completed jobs are kept
+}
+
+export interface EnqueueOptions {
+  priority?: JobPriority;
+  delay?: number; // seconds
+  maxAttempts?: number;
+  dedupeKey?: string;
+}
+
+export type JobHandler = (payload: any, job: QueuedJob) => Promise<void>;
+
+export interface JobProcessingResult {
+  claimed: number;
+  completed: number;
+  retried: number;
+  deadLettered: number;
+  lostLeases: number; // jobs whose lease expired before their handler finished
+  processingTimeMs: number;
+}
+
+export interface JobQueueStats {
+  workerId: string;
+  processingStatus: 'ACTIVE' | 'INACTIVE';
+  handlers: string[];
+  recurring: { jobType: string; interval: number }[];
+  totals: JobTypeCounts;
+  byType: { [jobType: string]: JobTypeCounts };
+  oldestDueAge: number | null; // seconds the longest overdue pending job has waited
+  config: JobQueueConfig;
+}
+
+interface RecurringJob {
+  interval: number; // seconds
+  priority: JobPriority;
+}
+
+export const JOB_PRIORITIES: JobPriority[] = ['HIGH', 'MEDIUM', 'LOW'];
+
+export class JobQueue {
+  private static readonly DEFAULT_CONFIG: JobQueueConfig = {
+    pollInterval: 5,
+    batchSize: 20,
+    visibilityTimeout: 300, // 5 minutes
+    maxAttempts: 5,
+    backoffBase: 30,
+    backoffMax: 3600, // 1 hour
+    completedRetention: 7 * 24 * 60 * 60 // 1 week
+  };
+
+  private static config: JobQueueConfig = this.DEFAULT_CONFIG;
+  private static readonly workerId = `worker_${process.pid}_${Math.random().toString(36).substr(2, 9)}`;
+  private static handlers = new Map<string, JobHandler>();
+  private static recurring = new Map<string, RecurringJob>();
+  private static pollTimeout: NodeJS.Timeout | null = null;
+  private static isProcessing = false;
+  private static lastPurge = 0;
+
+  /**
+   * Start polling for due jobs, and queue the first run of each recurring job
+   */
+  static async start(config?: Partial<JobQueueConfig>): Promise<void> {
+    this.config = { ...this.DEFAULT_CONFIG, ...config };
+    this.stop();
+
+    for (const [jobType, recurring] of this.recurring) {
+      await this.enqueueRecurring(jobType, recurring, 0);
+    }
+
+    this.scheduleNextPoll(0);
+    console.log(`Job queue worker ${this.workerId} started with ${this.config.pollInterval}s poll interval`);
+  }
+
+  /**
+   * Stop polling. Jobs leased by this worker are claimed again once their lease expires.
+   */
+  static stop(): void {
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout);
+      this.pollTimeout = null;
+      console.log(`Job queue worker ${this.workerId} stopped`);
+    }
+  }
+
+  static isRunning(): boolean {
+    return this.pollTimeout !== null;
+  }
+
+  /**
+   * Set the handler that runs jobs of a type
+   */
+  static registerHandler(jobType: string, handler: JobHandler): void {
+    this.handlers.set(jobType, handler);
+  }
+
+  /**
+   * Run a job type every interval seconds. Registering it again changes the interval from the
+   * next run on.
+   */
+  static registerRecurring(
+    jobType: string,
+    interval: number,
+    handler: JobHandler,
+    priority: JobPriority = 'LOW'
+  ): void {
+    const recurring = { interval, priority };
+    this.handlers.set(jobType, handler);
+    this.recurring.set(jobType, recurring);
+
+    if (this.isRunning()) {
+      this.enqueueRecurring(jobType, recurring, 0).catch(error => {
+        console.error(`Error queueing recurring ${jobType} job:`, error);
+      });
+    }
+  }
+
+  /**
+   * Stop queueing further runs of a recurring job type; a run already queued still runs
+   */
+  static unregisterRecurring(jobType: string): void {
+    this.recurring.delete(jobType);
+  }
+
+  static isRecurring(jobType: string): boolean {
+    return this.recurring.has(jobType);
+  }
+
+  /**
+   * Queue a job, returning its id, or the id of the pending or running job with its dedupe key
+   */
+  static async enqueue(jobType: string, payload: any = {}, options: EnqueueOptions = {}): Promise<number> {
+    try {
+      return await DatabaseService.enqueueJob({
+        jobType,
+        payload,
+        priority: options.priority || 'MEDIUM',
+        maxAttempts: options.maxAttempts ?? this.config.maxAttempts,
+        runAt: Math.floor(Date.now() / 1000) + (options.delay || 0),
+        dedupeKey: options.dedupeKey
+      });
+    } catch (error) {
+      throw new Error(`Failed to enqueue ${jobType} job: ${error}`);
+    }
+  }
+
+  /**
+   * Run the jobs due now one after another, leasing each as it starts
+   */
+  static async processDueJobs(): Promise<JobProcessingResult> {
+    const startTime = Date.now();
+    const result: JobProcessingResult = { claimed: 0, completed: 0, retried: 0, deadLettered: 0, lostLeases: 0, processingTimeMs: 0 };
+    this.isProcessing = true;
+
+    try {
+      while (result.claimed < this.config.batchSize) {
+        const claimedAt = Math.floor(Date.now() / 1000);
+        const job = await DatabaseService.claimJob(this.workerId, claimedAt, claimedAt + this.config.visibilityTimeout);
+        if (!job) {
+          break;
+        }
+
+        result.claimed++;
+        const outcome = await this.runJob(job);
+        result[outcome]++;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+
+      if (now - this.lastPurge >= 24 * 60 * 60) {
+        this.lastPurge = now;
+        const purged = await DatabaseService.purgeCompletedJobs(now - this.config.completedRetention);
+        if (purged > 0) {
+          console.log(`Purged ${purged} completed jobs`);
+        }
+      }
+
+      result.processingTimeMs = Date.now() - startTime;
+      if (result.claimed > 0) {
+        console.log(`Processed ${result.claimed} jobs: ${result.completed} completed, ${result.retried} retried, ${result.deadLettered} dead-lettered`);
+      }
+      return result;
+    } catch (error) {
+      throw new Error(`Failed to process jobs: ${error}`);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Get queued jobs, most recently created first
+   */
+  static async getJobs(filter: { status?: QueuedJob['status']; jobType?: string; limit?: number } = {}): Promise<QueuedJob[]> {
+    return DatabaseService.getJobs(filter);
+  }
+
+  static async getDeadLetterJobs(limit: number = 50): Promise<DeadLetterJob[]> {
+    return DatabaseService.getDeadLetterJobs(limit);
+  }
+
+  /**
+   * Run a pending job now instead of at its scheduled or backoff time.
+   * Returns null when there is no pending job with the id.
+   */
+  static async retryJob(jobId: number): Promise<QueuedJob | null> {
+    try {
+      const rescheduled = await DatabaseService.rescheduleJob(jobId, Math.floor(Date.now() / 1000));
+      return rescheduled ? await DatabaseService.getJob(jobId) : null;
+    } catch (error) {
+      throw new Error(`Failed to retry job: ${error}`);
+    }
+  }
+
+  /**
+   * Queue a dead-lettered job again with fresh attempts.
+   * Returns null when there is no dead-lettered job with the id.
+   */
+  static async retryDeadLetterJob(deadLetterId: number): Promise<QueuedJob | null> {
+    try {
+      const deadLetter = await DatabaseService.getDeadLetterJob(deadLetterId);
+      if (!deadLetter) {
+        return null;
+      }
+
+      const jobId = await DatabaseService.requeueDeadLetterJob(deadLetter, this.config.maxAttempts, Math.floor(Date.now() / 1000));
+      return jobId === null ? null : await DatabaseService.getJob(jobId);
+    } catch (error) {
+      throw new Error(`Failed to retry dead letter job: ${error}`);
+    }
+  }
+
+  /**
+   * Counts of jobs per type and status, and the worker's state
+   */
+  static async getStats(): Promise<JobQueueStats> {
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const { byType, oldestDueRunAt } = await DatabaseService.getJobQueueStats(now);
+
+      const totals: JobTypeCounts = { pending: 0, running: 0, completed: 0, dead: 0 };
+      for (const counts of Object.values(byType)) {
+        totals.pending += counts.pending;
+        totals.running += counts.running;
+        totals.completed += counts.completed;
+        totals.dead += counts.dead;
+      }
+
+      return {
+        workerId: this.workerId,
+        processingStatus: this.isRunning() ? 'ACTIVE' : 'INACTIVE',
+        handlers: [...this.handlers.keys()].sort(),
+        recurring: [...this.recurring.entries()].map(([jobType, recurring]) => ({ jobType, interval: recurring.interval })),
+        totals,
+        byType,
+        oldestDueAge: oldestDueRunAt !== null ? now - oldestDueRunAt : null,
+        config: { ...this.config }
+      };
+    } catch (error) {
+      throw new Error(`Failed to get job queue stats: ${error}`);
+    }
+  }
+
+  /**
+   * Run a leased job's handler and record how it went
+   */
+  private static async runJob(job: QueuedJob): Promise<'completed' | 'retried' | 'deadLettered' | 'lostLeases'> {
+    let error: string | null = null;
+
+    // An expired lease can leave a job claimed again after its last attempt
+    if (job.attempts > job.maxAttempts) {
+      error = job.lastError || 'Lease expired on the last attempt';
+    } else {
+      const handler = this.handlers.get(job.jobType);
+      const renewal = this.renewLeaseWhileRunning(job);
+      try {
+        if (!handler) {
+          throw new Error(`No handler registered for ${job.jobType} jobs`);
+        }
+        await handler(job.payload, job);
+      } catch (handlerError) {
+        error = handlerError instanceof Error ? handlerError.message : String(handlerError);
+        console.error(`Job ${job.id} (${job.jobType}) failed on attempt ${job.attempts}:`, error);
+      } finally {
+        clearInterval(renewal);
+      }
+    }
+
+    let outcome: 'completed' | 'retried' | 'deadLettered' | 'lostLeases';
+    if (error === null) {
+      outcome = await DatabaseService.completeJob(job.id, this.workerId) ? 'completed' : 'lostLeases';
+    } else if (job.attempts < job.maxAttempts) {
+      const backoff = Math.min(this.config.backoffMax, this.config.backoffBase * Math.pow(2, job.attempts - 1));
+      const runAt = Math.floor(Date.now() / 1000) + backoff;
+      outcome = await DatabaseService.releaseJobForRetry(job.id, this.workerId, runAt, error) ? 'retried' : 'lostLeases';
+    } else {
+      outcome = await DatabaseService.deadLetterJob(job, this.workerId, error) ? 'deadLettered' : 'lostLeases';
+    }
+
+    // The next run of a recurring job is queued once this one is no longer pending or running
+    const recurring = this.recurring.get(job.jobType);
+    if (recurring && outcome !== 'retried' && outcome !== 'lostLeases') {
+      await this.enqueueRecurring(job.jobType, recurring, recurring.interval);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Extend a job's lease every third of the visibility timeout while its handler runs, so a long
+   * job is not claimed again by another worker
+   */
+  private static renewLeaseWhileRunning(job: QueuedJob): NodeJS.Timeout {
+    const renewal = setInterval(async () => {
+      try {
+        const leaseExpiresAt = Math.floor(Date.now() / 1000) + this.config.visibilityTimeout;
+        if (!await DatabaseService.renewJobLease(job.id, this.workerId, leaseExpiresAt)) {
+          console.warn(`Job ${job.id} (${job.jobType}) lost its lease while running`);
+          clearInterval(renewal);
+        }
+      } catch (error) {
+        console.error(`Error renewing lease of job ${job.id}:`, error);
+      }
+    }, Math.max(1, this.config.visibilityTimeout / 3) * 1000);
+    return renewal;
+  }
+
+  private static async enqueueRecurring(jobType: string, recurring: RecurringJob, delay: number): Promise<void> {
+    await this.enqueue(jobType, {}, { priority: recurring.priority, delay, dedupeKey: `recurring:${jobType}` });
+  }
+
+  private static scheduleNextPoll(delaySeconds: number): void {
+    const timeout = setTimeout(async () => {
+      let claimed = 0;
+      if (!this.isProcessing) {
+        try {
+          claimed = (await this.processDueJobs()).claimed;
+        } catch (error) {
+          console.error('Error in job queue worker:', error);
+        }
+      }
+
+      // A full batch suggests more jobs are due, so poll again right away. A worker stopped or
+      // restarted meanwhile has cleared or replaced the timeout.
+      if (this.pollTimeout === timeout) {
+        this.scheduleNextPoll(claimed >= this.config.batchSize ? 0 : this.config.pollInterval);
+      }
+    }, delaySeconds * 1000);
+    this.pollTimeout = timeout;
+  }
+}
+
+export default JobQueue;
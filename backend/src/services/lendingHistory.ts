@@ -0,0 +1,816 @@
+import { ethers } from 'ethers';
+import { ChainDataSource, ChainLog } from './chainDataSource';
+import { TransactionData } from './blockchainService';
+import { PriceService } from './priceService';
+import { MAINNET_CHAIN_ID } from './chainRegistry';
+import { TokenMetadata, TokenRegistry } from './tokenRegistry';
+
+/**
+ * Lending History
+ * Reconstructs borrow, repay and liquidation history on Aave v2/v3, Compound v2/v3
+ * and Maker, and summarises it into the inputs used by the lending history score
+ * component (repayment ratio, liquidation count, max LTV and time-to-repay).
+ *
+ * Known limitations:
+ * - Compound v2 markets do not index events by account, so v2 activity is read
+ *   from the wallet's own decoded cToken calls: liquidations and repayments made
+ *   on the wallet's behalf are not seen, and redeem() amounts (in cTokens) are skipped.
+ * - Maker vaults are found through the wallet's DSProxy and DssCdpManager; vaults
+ *   transferred in with give() or opened directly on the Vat are not seen. Debt is
+ *   read as normalised art, i.e. without accrued stability fees.
+ * - Supplied balances are treated as collateral and interest is not accrued, so
+ *   LTV is an approximation from event amounts valued at each event's timestamp.
+ */
+
+export type LendingProtocol = 'AAVE_V2' | 'AAVE_V3' | 'COMPOUND_V2' | 'COMPOUND_V3' | 'MAKER';
+
+export type LendingEventType = 'SUPPLY' | 'WITHDRAW' | 'BORROW' | 'REPAY' | 'LIQUIDATION' | 'COLLATERAL_SEIZED';
+
+export interface LendingEvent {
+  protocol: LendingProtocol;
+  type: LendingEventType;
+  positionId: string; // market the position lives in (pool, comet or vault)
+  asset: string; // token address, or 'ETH' for native ETH
+  symbol: string;
+  amount: string; // decimal-adjusted
+  valueEth: number | null; // at the event's timestamp, null when the asset could not be priced
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface LendingPosition {
+  protocol: LendingProtocol;
+  positionId: string;
+  openedAt: number;
+  lastActivityAt: number;
+  borrowCount: number;
+  repayCount: number;
+  liquidationCount: number;
+  totalBorrowedEth: string;
+  totalRepaidEth: string;
+  outstandingDebtEth: string; // valued at the last event
+  maxLtv: number;
+}
+
+export interface LendingSummary {
+  protocols: LendingProtocol[];
+  positionCount: number;
+  borrowCount: number;
+  repayCount: number;
+  liquidationCount: number; // liquidation transactions across positions
+  totalBorrowedEth: string;
+  totalRepaidEth: string; // by the wallet, liquidations excluded
+  outstandingDebtEth: string;
+  repaymentRatio: number; // 0-1, repaid / borrowed value
+  maxLtv: number; // highest debt / collateral value observed, 0 when never borrowed
+  fullyRepaidBorrows: number; // borrows repaid in full, oldest first
+  avgTimeToRepay: number | null; // days from a borrow to its full repayment
+}
+
+export interface LendingHistory {
+  events: LendingEvent[];
+  positions: LendingPosition[];
+  summary: LendingSummary;
+}
+
+interface LendingMarkets {
+  aaveV2?: string;
+  aaveV3?: string;
+  comets?: { address: string; baseToken: string }[];
+  compoundV2?: { [cToken: string]: string }; // cToken -> underlying token, or 'ETH'
+  maker?: boolean;
+}
+
+// Lending markets read per chain
+const LENDING_MARKETS: { [chainId: number]: LendingMarkets } = {
+  [MAINNET_CHAIN_ID]: {
+    aaveV2: '0x7d2768dE32b0b80b7a3454c06BdAc94A69DDc7A9',
+    aaveV3: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2',
+    comets: [
+      { address: '0xc3d688B66703497DAA19211EEdff47f25384cdc3', baseToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' }, // cUSDCv3
+      { address: '0xA17581A9E3356d9A858b789D68B4d866e593aE94', baseToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2' } // cWETHv3
+    ],
+    compoundV2: {
+      '0x4Ddc2D193948926D02f9B1fE9e1daa0718270ED5': 'ETH', // cETH
+      '0x39AA39c021dfbaE8faC545936693aC917d5E7563': '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // cUSDC
+      '0x5d3a536E4D6DbD6114cc1Ead35777bAB948E3643': '0x6B175474E89094C44Da98b954EedeAC495271d0F', // cDAI
+      '0xf650C3d88D12dB855b8bf7D11Be6C55A4e07dCC9': '0xdAC17F958D2ee523a2206206994597C13D831ec7', // cUSDT
+      '0xccF4429DB6322D5C611ee964527D42E5d685DD6a': '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599' // cWBTC2
+    },
+    maker: true
+  },
+
+  // Arbitrum One
+  42161: {
+    aaveV3: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+    comets: [{ address: '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf', baseToken: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' }]
+  },
+
+  // OP Mainnet
+  10: {
+    aaveV3: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+    comets: [{ address: '0x2e44e174f7D53F0212823acC11C01A11d58c5bCB', baseToken: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85' }]
+  },
+
+  // Base
+  8453: {
+    aaveV3: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5',
+    comets: [{ address: '0xb125E6687d4313864e53df431d5425969c15Eb2F', baseToken: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' }]
+  },
+
+  // Polygon PoS
+  137: {
+    aaveV2: '0x8dFf5E27EA6b7AC08EbFdf9eB090F32ee9a30fcf',
+    aaveV3: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+    comets: [{ address: '0xF25212E676D1F7F89Cd72fFEe66158f541246445', baseToken: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174' }]
+  }
+};
+
+const AAVE_V2_EVENTS = new ethers.Interface([
+  'event Deposit(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referral)',
+  'event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)',
+  'event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint256 borrowRateMode, uint256 borrowRate, uint16 indexed referral)',
+  'event Repay(address indexed reserve, address indexed user, address indexed repayer, uint256 amount)',
+  'event LiquidationCall(address indexed collateralAsset, address indexed debtAsset, address indexed user, uint256 debtToCover, uint256 liquidatedCollateralAmount, address liquidator, bool receiveAToken)'
+]);
+
+const AAVE_V3_EVENTS = new ethers.Interface([
+  'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)',
+  'event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)',
+  'event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint8 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)',
+  'event Repay(address indexed reserve, address indexed user, address indexed repayer, uint256 amount, bool useATokens)',
+  'event LiquidationCall(address indexed collateralAsset, address indexed debtAsset, address indexed user, uint256 debtToCover, uint256 liquidatedCollateralAmount, address liquidator, bool receiveAToken)'
+]);
+
+const COMET_EVENTS = new ethers.Interface([
+  'event Supply(address indexed from, address indexed dst, uint256 amount)',
+  'event Withdraw(address indexed src, address indexed to, uint256 amount)',
+  'event SupplyCollateral(address indexed from, address indexed dst, address indexed asset, uint256 amount)',
+  'event WithdrawCollateral(address indexed src, address indexed to, address indexed asset, uint256 amount)',
+  'event AbsorbDebt(address indexed absorber, address indexed borrower, uint256 basePaidOut, uint256 usdValue)',
+  'event AbsorbCollateral(address indexed absorber, address indexed borrower, address indexed asset, uint256 collateralAbsorbed, uint256 usdValue)'
+]);
+
+// Maker (mainnet)
+const MAKER_PROXY_REGISTRY = '0x4678f0a6958e4D2Bc4F1BAF7Bc52E8F3564f3fE4';
+const MAKER_CDP_MANAGER = '0x5ef30b9986345249bc32d8928B7ee64DE9435E39';
+const MAKER_VAT = '0x35D1b3F3D7966A1DFe207aa4514C12a259A0492B';
+const MAKER_DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+
+const MAKER_EVENTS = new ethers.Interface([
+  'event Created(address indexed sender, address indexed owner, address proxy, address cache)',
+  'event NewCdp(address indexed usr, address indexed own, uint256 indexed cdp)'
+]);
+
+// DSS contracts log calls as anonymous LogNote events whose first topic is the
+// function selector, left-aligned, and whose data is the ABI-encoded calldata
+const noteTopic = (signature: string): string => ethers.zeroPadBytes(ethers.dataSlice(ethers.id(signature), 0, 4), 32);
+const MANAGER_FROB_NOTE = noteTopic('frob(uint256,int256,int256)');
+const VAT_FROB_NOTE = noteTopic('frob(bytes32,address,address,address,int256,int256)');
+const VAT_GRAB_NOTE = noteTopic('grab(bytes32,address,address,address,int256,int256)');
+
+// Collateral token behind each Maker ilk prefix (ETH-A, WBTC-C, ...)
+const MAKER_ILK_TOKENS: { [prefix: string]: string } = {
+  ETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+  WBTC: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599',
+  USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  RETH: '0xae78736Cd615f374D3085123A210448E74Fc6393',
+  WSTETH: '0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0'
+};
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Balances below this are treated as closed, to absorb rounding in event amounts
+const DUST = 1e-9;
+
+/**
+ * An event as emitted, before valuation
+ */
+interface RawLendingEvent {
+  protocol: LendingProtocol;
+  type: LendingEventType;
+  positionId: string;
+  asset: string;
+  rawAmount: bigint;
+  decimals?: number; // resolved from the asset when absent
+  repayAll?: boolean; // repay the whole outstanding debt (Compound v2 repayBorrow(uint256 max))
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  timestamp?: number;
+}
+
+interface PositionState {
+  position: LendingPosition;
+  collateral: Map<string, number>;
+  debt: Map<string, number>;
+  borrowLots: Map<string, { amount: number; timestamp: number }[]>;
+  liquidationTxs: Set<string>;
+}
+
+export class LendingHistoryService {
+  private chainId: number;
+  private priceService: PriceService;
+  private tokenMetadata = new Map<string, TokenMetadata>();
+
+  constructor(chainId: number, priceService: PriceService) {
+    this.chainId = chainId;
+    this.priceService = priceService;
+  }
+
+  /**
+   * Whether any supported lending market is deployed on the chain
+   */
+  static supportsChain(chainId: number): boolean {
+    return LENDING_MARKETS[chainId] !== undefined;
+  }
+
+  /**
+   * Reconstruct the lending history of an address from protocol events and,
+   * for Compound v2, from the address's own decoded transactions.
+   *
+   * Events are queried from the wallet's first transaction on, and only from sources with a
+   * log index: over plain RPC the queries take one request per block range, too many to make
+   * while scoring, so such sources are rejected.
+   */
+  async reconstruct(address: string, source: ChainDataSource, transactions: TransactionData[]): Promise<LendingHistory> {
+    const markets = LENDING_MARKETS[this.chainId];
+    if (!markets) {
+      return LendingHistoryService.emptyHistory();
+    }
+    if (!source.indexesLogs) {
+      throw new Error(`The ${source.kind} data source has no log index to read lending markets from`);
+    }
+
+    const userTopic = ethers.zeroPadValue(address.toLowerCase(), 32);
+    const fromBlock = transactions.length > 0
+      ? transactions.reduce((min, tx) => Math.min(min, tx.blockNumber), Infinity)
+      : 0;
+    const raw: RawLendingEvent[] = [];
+
+    if (markets.aaveV2) {
+      raw.push(...await this.fetchAaveEvents(source, 'AAVE_V2', markets.aaveV2, AAVE_V2_EVENTS, userTopic, fromBlock));
+    }
+    if (markets.aaveV3) {
+      raw.push(...await this.fetchAaveEvents(source, 'AAVE_V3', markets.aaveV3, AAVE_V3_EVENTS, userTopic, fromBlock));
+    }
+    for (const comet of markets.comets || []) {
+      raw.push(...await this.fetchCometEvents(source, comet.address, comet.baseToken, userTopic, fromBlock));
+    }
+    if (markets.compoundV2) {
+      raw.push(...this.readCompoundV2Calls(address, transactions, markets.compoundV2));
+    }
+    if (markets.maker) {
+      raw.push(...await this.fetchMakerEvents(source, userTopic, fromBlock));
+    }
+
+    raw.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    return this.replay(raw, source);
+  }
+
+  static emptyHistory(): LendingHistory {
+    return { events: [], positions: [], summary: this.summarize([]) };
+  }
+
+  /**
+   * Merge lending summaries from several chains into one
+   */
+  static mergeSummaries(summaries: LendingSummary[]): LendingSummary {
+    const sum = (value: (summary: LendingSummary) => number) => summaries.reduce((total, summary) => total + value(summary), 0);
+
+    const totalBorrowed = sum(summary => parseFloat(summary.totalBorrowedEth) || 0);
+    const totalRepaid = sum(summary => parseFloat(summary.totalRepaidEth) || 0);
+    const fullyRepaidBorrows = sum(summary => summary.fullyRepaidBorrows);
+    const repayDays = sum(summary => (summary.avgTimeToRepay ?? 0) * summary.fullyRepaidBorrows);
+
+    return {
+      protocols: Array.from(new Set(summaries.flatMap(summary => summary.protocols))),
+      positionCount: sum(summary => summary.positionCount),
+      borrowCount: sum(summary => summary.borrowCount),
+      repayCount: sum(summary => summary.repayCount),
+      liquidationCount: sum(summary => summary.liquidationCount),
+      totalBorrowedEth: totalBorrowed.toString(),
+      totalRepaidEth: totalRepaid.toString(),
+      outstandingDebtEth: sum(summary => parseFloat(summary.outstandingDebtEth) || 0).toString(),
+      repaymentRatio: totalBorrowed > 0 ? Math.min(1, totalRepaid / totalBorrowed) : 0,
+      maxLtv: Math.max(0, ...summaries.map(summary => summary.maxLtv)),
+      fullyRepaidBorrows,
+      avgTimeToRepay: fullyRepaidBorrows > 0 ? repayDays / fullyRepaidBorrows : null
+    };
+  }
+
+  /**
+   * Aave pools emit one event per action with the account indexed, so the
+   * history is two log queries per pool
+   */
+  private async fetchAaveEvents(
+    source: ChainDataSource,
+    protocol: 'AAVE_V2' | 'AAVE_V3',
+    pool: string,
+    events: ethers.Interface,
+    userTopic: string,
+    fromBlock: number
+  ): Promise<RawLendingEvent[]> {
+    const supplyEvent = protocol === 'AAVE_V2' ? 'Deposit' : 'Supply';
+    const actionTopics = [supplyEvent, 'Withdraw', 'Borrow', 'Repay'].map(name => events.getEvent(name)!.topicHash);
+    const liquidationTopic = events.getEvent('LiquidationCall')!.topicHash;
+
+    const [actions, liquidations] = await Promise.all([
+      source.getLogs({ address: pool, topics: [actionTopics, null, userTopic], fromBlock }),
+      source.getLogs({ address: pool, topics: [liquidationTopic, null, null, userTopic], fromBlock })
+    ]);
+
+    const positionId = `${protocol}:${pool.toLowerCase()}`;
+    const result: RawLendingEvent[] = [];
+
+    for (const log of [...actions, ...liquidations]) {
+      const parsed = this.parseLog(events, log);
+      if (!parsed) continue;
+
+      const base = { protocol, positionId, ...this.logPosition(log) };
+      switch (parsed.name) {
+        case supplyEvent:
+          result.push({ ...base, type: 'SUPPLY', asset: parsed.args.reserve, rawAmount: parsed.args.amount });
+          break;
+        case 'Withdraw':
+          result.push({ ...base, type: 'WITHDRAW', asset: parsed.args.reserve, rawAmount: parsed.args.amount });
+          break;
+        case 'Borrow':
+          result.push({ ...base, type: 'BORROW', asset: parsed.args.reserve, rawAmount: parsed.args.amount });
+          break;
+        case 'Repay':
+          result.push({ ...base, type: 'REPAY', asset: parsed.args.reserve, rawAmount: parsed.args.amount });
+          // Repaying with aTokens burns the supplied balance
+          if (parsed.args.useATokens === true) {
+            result.push({ ...base, type: 'WITHDRAW', asset: parsed.args.reserve, rawAmount: parsed.args.amount });
+          }
+          break;
+        case 'LiquidationCall':
+          result.push(
+            { ...base, type: 'LIQUIDATION', asset: parsed.args.debtAsset, rawAmount: parsed.args.debtToCover },
+            { ...base, type: 'COLLATERAL_SEIZED', asset: parsed.args.collateralAsset, rawAmount: parsed.args.liquidatedCollateralAmount }
+          );
+          break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Compound v3 tracks a signed base balance per account: supplying the base asset
+   * repays debt first and withdrawing past zero borrows. Absorptions are liquidations.
+   */
+  private async fetchCometEvents(
+    source: ChainDataSource,
+    comet: string,
+    baseToken: string,
+    userTopic: string,
+    fromBlock: number
+  ): Promise<RawLendingEvent[]> {
+    const topic = (name: string) => COMET_EVENTS.getEvent(name)!.topicHash;
+
+    const [received, sent] = await Promise.all([
+      source.getLogs({
+        address: comet,
+        topics: [[topic('Supply'), topic('SupplyCollateral'), topic('AbsorbDebt'), topic('AbsorbCollateral')], null, userTopic],
+        fromBlock
+      }),
+      source.getLogs({ address: comet, topics: [[topic('Withdraw'), topic('WithdrawCollateral')], userTopic], fromBlock })
+    ]);
+
+    const logs = [...received, ...sent].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    const positionId = `COMPOUND_V3:${comet.toLowerCase()}`;
+    const result: RawLendingEvent[] = [];
+    let baseBalance = 0n;
+
+    for (const log of logs) {
+      const parsed = this.parseLog(COMET_EVENTS, log);
+      if (!parsed) continue;
+
+      const base = { protocol: 'COMPOUND_V3' as const, positionId, ...this.logPosition(log) };
+      switch (parsed.name) {
+        case 'Supply': {
+          const amount: bigint = parsed.args.amount;
+          const repaid = baseBalance < 0n ? (amount < -baseBalance ? amount : -baseBalance) : 0n;
+          if (repaid > 0n) result.push({ ...base, type: 'REPAY', asset: baseToken, rawAmount: repaid });
+          if (amount > repaid) result.push({ ...base, type: 'SUPPLY', asset: baseToken, rawAmount: amount - repaid });
+          baseBalance += amount;
+          break;
+        }
+        case 'Withdraw': {
+          const amount: bigint = parsed.args.amount;
+          const withdrawn = baseBalance > 0n ? (amount < baseBalance ? amount : baseBalance) : 0n;
+          if (withdrawn > 0n) result.push({ ...base, type: 'WITHDRAW', asset: baseToken, rawAmount: withdrawn });
+          if (amount > withdrawn) result.push({ ...base, type: 'BORROW', asset: baseToken, rawAmount: amount - withdrawn });
+          baseBalance -= amount;
+          break;
+        }
+        case 'SupplyCollateral':
+          result.push({ ...base, type: 'SUPPLY', asset: parsed.args.asset, rawAmount: parsed.args.amount });
+          break;
+        case 'WithdrawCollateral':
+          result.push({ ...base, type: 'WITHDRAW', asset: parsed.args.asset, rawAmount: parsed.args.amount });
+          break;
+        case 'AbsorbDebt':
+          result.push({ ...base, type: 'LIQUIDATION', asset: baseToken, rawAmount: parsed.args.basePaidOut });
+          baseBalance += parsed.args.basePaidOut as bigint;
+          break;
+        case 'AbsorbCollateral':
+          result.push({ ...base, type: 'COLLATERAL_SEIZED', asset: parsed.args.asset, rawAmount: parsed.args.collateralAbsorbed });
+          break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Compound v2 cToken events do not index the account, so v2 history comes from
+   * the calls the address made to known cToken markets
+   */
+  private readCompoundV2Calls(
+    address: string,
+    transactions: TransactionData[],
+    markets: { [cToken: string]: string }
+  ): RawLendingEvent[] {
+    const underlyingByCToken = new Map(Object.entries(markets).map(([cToken, underlying]) => [cToken.toLowerCase(), underlying]));
+    const result: RawLendingEvent[] = [];
+
+    for (const tx of transactions) {
+      const underlying = tx.to ? underlyingByCToken.get(tx.to.toLowerCase()) : undefined;
+      if (!underlying || !tx.decodedCall || tx.isInternal || tx.from.toLowerCase() !== address.toLowerCase()) {
+        continue;
+      }
+
+      const { signature, args } = tx.decodedCall;
+      const base = {
+        protocol: 'COMPOUND_V2' as const,
+        positionId: 'COMPOUND_V2',
+        asset: underlying,
+        blockNumber: tx.blockNumber,
+        transactionHash: tx.hash,
+        logIndex: 0,
+        timestamp: tx.timestamp
+      };
+      const argAmount = (name: string): bigint => BigInt(args[name] as string);
+      const ethValue = (): bigint => ethers.parseEther(tx.value);
+
+      switch (signature) {
+        case 'mint()':
+          result.push({ ...base, type: 'SUPPLY', rawAmount: ethValue() });
+          break;
+        case 'mint(uint256)':
+          result.push({ ...base, type: 'SUPPLY', rawAmount: argAmount('mintAmount') });
+          break;
+        case 'redeemUnderlying(uint256)':
+          result.push({ ...base, type: 'WITHDRAW', rawAmount: argAmount('redeemAmount') });
+          break;
+        case 'borrow(uint256)':
+          result.push({ ...base, type: 'BORROW', rawAmount: argAmount('borrowAmount') });
+          break;
+        case 'repayBorrow()':
+          result.push({ ...base, type: 'REPAY', rawAmount: ethValue() });
+          break;
+        case 'repayBorrow(uint256)': {
+          const amount = argAmount('repayAmount');
+          result.push({ ...base, type: 'REPAY', rawAmount: amount, ...(amount === ethers.MaxUint256 && { repayAll: true }) });
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Maker vaults are owned by the address's DSProxy through the DssCdpManager.
+   * Each vault's urn is taken from the Vat frob logged in the vault's first
+   * manager frob, then the urn's frob and grab (liquidation) notes give its history.
+   */
+  private async fetchMakerEvents(source: ChainDataSource, userTopic: string, fromBlock: number): Promise<RawLendingEvent[]> {
+    const createdTopic = MAKER_EVENTS.getEvent('Created')!.topicHash;
+    const newCdpTopic = MAKER_EVENTS.getEvent('NewCdp')!.topicHash;
+
+    const proxyLogs = await source.getLogs({ address: MAKER_PROXY_REGISTRY, topics: [createdTopic, null, userTopic], fromBlock });
+    const owners = [userTopic, ...proxyLogs
+      .map(log => this.parseLog(MAKER_EVENTS, log))
+      .filter((parsed): parsed is ethers.LogDescription => parsed !== null)
+      .map(parsed => ethers.zeroPadValue((parsed.args.proxy as string).toLowerCase(), 32))];
+
+    const cdpLogs = await source.getLogs({ address: MAKER_CDP_MANAGER, topics: [newCdpTopic, null, owners], fromBlock });
+    if (cdpLogs.length === 0) {
+      return [];
+    }
+
+    const cdpTopics = cdpLogs.map(log => log.topics[3]);
+    const managerFrobs = await source.getLogs({ address: MAKER_CDP_MANAGER, topics: [MANAGER_FROB_NOTE, null, cdpTopics], fromBlock });
+
+    const result: RawLendingEvent[] = [];
+    for (const cdpTopic of cdpTopics) {
+      const firstFrob = managerFrobs
+        .filter(log => log.topics[2]?.toLowerCase() === cdpTopic.toLowerCase())
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)[0];
+      if (!firstFrob) continue;
+
+      const urnTopic = await this.findMakerUrn(source, firstFrob);
+      if (!urnTopic) continue;
+
+      const urnLogs = await source.getLogs({ address: MAKER_VAT, topics: [[VAT_FROB_NOTE, VAT_GRAB_NOTE], null, urnTopic], fromBlock: firstFrob.blockNumber });
+      const positionId = `MAKER:${BigInt(cdpTopic).toString()}`;
+
+      for (const log of urnLogs) {
+        const call = this.decodeVatNote(log);
+        if (!call) continue;
+
+        const collateral = this.getIlkToken(call.ilk);
+        const base = { protocol: 'MAKER' as const, positionId, decimals: 18, ...this.logPosition(log) };
+        const isGrab = log.topics[0].toLowerCase() === VAT_GRAB_NOTE.toLowerCase();
+
+        if (isGrab) {
+          result.push({ ...base, type: 'LIQUIDATION', asset: MAKER_DAI, rawAmount: -call.dart });
+          if (collateral) result.push({ ...base, type: 'COLLATERAL_SEIZED', asset: collateral, rawAmount: -call.dink });
+          continue;
+        }
+
+        if (collateral && call.dink !== 0n) {
+          result.push({ ...base, type: call.dink > 0n ? 'SUPPLY' : 'WITHDRAW', asset: collateral, rawAmount: call.dink > 0n ? call.dink : -call.dink });
+        }
+        if (call.dart !== 0n) {
+          result.push({ ...base, type: call.dart > 0n ? 'BORROW' : 'REPAY', asset: MAKER_DAI, rawAmount: call.dart > 0n ? call.dart : -call.dart });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * DssCdpManager.frob calls vat.frob(ilk, urn, urn, urn, dink, dart) in the same transaction
+   */
+  private async findMakerUrn(source: ChainDataSource, managerFrob: ChainLog): Promise<string | null> {
+    const vatLogs = await source.getLogs({
+      address: MAKER_VAT,
+      topics: [VAT_FROB_NOTE],
+      fromBlock: managerFrob.blockNumber,
+      toBlock: managerFrob.blockNumber
+    });
+
+    const match = vatLogs.find(log =>
+      log.transactionHash.toLowerCase() === managerFrob.transactionHash.toLowerCase() &&
+      log.topics[2]?.toLowerCase() === log.topics[3]?.toLowerCase()
+    );
+    return match ? match.topics[2] : null;
+  }
+
+  private decodeVatNote(log: ChainLog): { ilk: string; dink: bigint; dart: bigint } | null {
+    try {
+      const [calldata] = ethers.AbiCoder.defaultAbiCoder().decode(['bytes'], log.data);
+      const [ilk, , , , dink, dart] = ethers.AbiCoder.defaultAbiCoder().decode(
+        ['bytes32', 'address', 'address', 'address', 'int256', 'int256'],
+        ethers.dataSlice(calldata, 4, 196)
+      );
+      return { ilk, dink, dart };
+    } catch (error) {
+      console.warn(`Skipping undecodable Vat note ${log.transactionHash}:${log.logIndex}:`, error);
+      return null;
+    }
+  }
+
+  private getIlkToken(ilk: string): string | null {
+    try {
+      const prefix = ethers.decodeBytes32String(ilk).split('-')[0].toUpperCase();
+      return MAKER_ILK_TOKENS[prefix] || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private parseLog(events: ethers.Interface, log: ChainLog): ethers.LogDescription | null {
+    try {
+      return events.parseLog({ topics: log.topics, data: log.data });
+    } catch (error) {
+      console.warn(`Skipping undecodable lending log ${log.transactionHash}:${log.logIndex}:`, error);
+      return null;
+    }
+  }
+
+  private logPosition(log: ChainLog): Pick<RawLendingEvent, 'blockNumber' | 'transactionHash' | 'logIndex' | 'timestamp'> {
+    return {
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+      ...(log.timestamp !== undefined && { timestamp: log.timestamp })
+    };
+  }
+
+  /**
+   * Replay events in order, tracking collateral, debt and open borrow lots per position
+   */
+  private async replay(raw: RawLendingEvent[], source: ChainDataSource): Promise<LendingHistory> {
+    const states = new Map<string, PositionState>();
+    const events: LendingEvent[] = [];
+    const repayDurations: number[] = [];
+
+    for (const item of raw) {
+      const timestamp = item.timestamp ?? await source.getBlockTimestamp(item.blockNumber);
+      const metadata = item.asset === 'ETH'
+        ? { symbol: 'ETH', decimals: 18 }
+        : await this.getTokenMetadata(item.asset, source);
+      const decimals = item.decimals ?? metadata.decimals;
+
+      let state = states.get(item.positionId);
+      if (!state) {
+        state = {
+          position: {
+            protocol: item.protocol,
+            positionId: item.positionId,
+            openedAt: timestamp,
+            lastActivityAt: timestamp,
+            borrowCount: 0,
+            repayCount: 0,
+            liquidationCount: 0,
+            totalBorrowedEth: '0',
+            totalRepaidEth: '0',
+            outstandingDebtEth: '0',
+            maxLtv: 0
+          },
+          collateral: new Map(),
+          debt: new Map(),
+          borrowLots: new Map(),
+          liquidationTxs: new Set()
+        };
+        states.set(item.positionId, state);
+      }
+
+      const asset = item.asset === 'ETH' ? 'ETH' : item.asset.toLowerCase();
+      const outstanding = state.debt.get(asset) || 0;
+      const amount = item.repayAll ? outstanding : parseFloat(ethers.formatUnits(item.rawAmount, decimals));
+      const ethPrice = await this.getEthPrice(item.asset, timestamp);
+      const valueEth = ethPrice === null ? null : amount * ethPrice;
+
+      const position = state.position;
+      position.lastActivityAt = timestamp;
+
+      switch (item.type) {
+        case 'SUPPLY':
+          state.collateral.set(asset, (state.collateral.get(asset) || 0) + amount);
+          break;
+        case 'WITHDRAW':
+        case 'COLLATERAL_SEIZED':
+          state.collateral.set(asset, Math.max(0, (state.collateral.get(asset) || 0) - amount));
+          break;
+        case 'BORROW': {
+          state.debt.set(asset, outstanding + amount);
+          const lots = state.borrowLots.get(asset) || [];
+          lots.push({ amount, timestamp });
+          state.borrowLots.set(asset, lots);
+          position.borrowCount++;
+          position.totalBorrowedEth = ((parseFloat(position.totalBorrowedEth) || 0) + (valueEth ?? 0)).toString();
+          break;
+        }
+        case 'REPAY':
+          state.debt.set(asset, Math.max(0, outstanding - amount));
+          repayDurations.push(...this.consumeLots(state, asset, amount, timestamp));
+          position.repayCount++;
+          position.totalRepaidEth = ((parseFloat(position.totalRepaidEth) || 0) + (valueEth ?? 0)).toString();
+          break;
+        case 'LIQUIDATION':
+          state.debt.set(asset, Math.max(0, outstanding - amount));
+          this.consumeLots(state, asset, amount, timestamp);
+          state.liquidationTxs.add(item.transactionHash.toLowerCase());
+          position.liquidationCount = state.liquidationTxs.size;
+          break;
+      }
+
+      const values = await this.valuePosition(state, timestamp);
+      if (values) {
+        position.outstandingDebtEth = values.debtEth.toString();
+        if (values.collateralEth > 0) {
+          position.maxLtv = Math.max(position.maxLtv, values.debtEth / values.collateralEth);
+        }
+      }
+
+      events.push({
+        protocol: item.protocol,
+        type: item.type,
+        positionId: item.positionId,
+        asset: item.asset,
+        symbol: metadata.symbol,
+        amount: amount.toString(),
+        valueEth,
+        timestamp,
+        blockNumber: item.blockNumber,
+        transactionHash: item.transactionHash,
+        logIndex: item.logIndex
+      });
+    }
+
+    const positions = Array.from(states.values()).map(state => state.position);
+    return { events, positions, summary: LendingHistoryService.summarize(positions, repayDurations) };
+  }
+
+  /**
+   * Pay down the oldest open borrow lots first, returning days-to-repay of each lot closed
+   */
+  private consumeLots(state: PositionState, asset: string, amount: number, timestamp: number): number[] {
+    const lots = state.borrowLots.get(asset) || [];
+    const closed: number[] = [];
+    let remaining = amount;
+
+    while (lots.length > 0 && remaining > DUST) {
+      const lot = lots[0];
+      const paid = Math.min(lot.amount, remaining);
+      lot.amount -= paid;
+      remaining -= paid;
+
+      if (lot.amount <= DUST) {
+        lots.shift();
+        closed.push((timestamp - lot.timestamp) / SECONDS_PER_DAY);
+      }
+    }
+
+    return closed;
+  }
+
+  /**
+   * ETH value of a position's debt and collateral, or null when any held asset cannot be priced
+   */
+  private async valuePosition(state: PositionState, timestamp: number): Promise<{ debtEth: number; collateralEth: number } | null> {
+    const total = async (balances: Map<string, number>): Promise<number | null> => {
+      let sum = 0;
+      for (const [asset, amount] of balances) {
+        if (amount <= DUST) continue;
+        const price = await this.getEthPrice(asset, timestamp);
+        if (price === null) return null;
+        sum += amount * price;
+      }
+      return sum;
+    };
+
+    const [debtEth, collateralEth] = [await total(state.debt), await total(state.collateral)];
+    return debtEth === null || collateralEth === null ? null : { debtEth, collateralEth };
+  }
+
+  /**
+   * Price of one unit of an asset in ETH, falling back to the token's peg
+   */
+  private async getEthPrice(asset: string, timestamp: number): Promise<number | null> {
+    if (asset === 'ETH') {
+      return 1;
+    }
+
+    const [tokenUsd, ethUsd] = await Promise.all([
+      this.priceService.getTokenUsdPrice(asset, timestamp, this.chainId),
+      this.priceService.getUsdPrice('ETH', timestamp)
+    ]);
+    if (tokenUsd !== null && ethUsd) {
+      return tokenUsd / ethUsd;
+    }
+
+    return TokenRegistry.estimateEthValue(asset, 1, this.chainId);
+  }
+
+  private async getTokenMetadata(tokenAddress: string, source: ChainDataSource): Promise<TokenMetadata> {
+    const known = TokenRegistry.getKnownToken(tokenAddress, this.chainId);
+    if (known) {
+      return { symbol: known.symbol, decimals: known.decimals };
+    }
+
+    const key = tokenAddress.toLowerCase();
+    const cached = this.tokenMetadata.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const metadata = await source.getTokenMetadata(tokenAddress) || { symbol: 'UNKNOWN', decimals: 18 };
+    this.tokenMetadata.set(key, metadata);
+    return metadata;
+  }
+
+  private static summarize(positions: LendingPosition[], repayDurations: number[] = []): LendingSummary {
+    const sum = (value: (position: LendingPosition) => number) => positions.reduce((total, position) => total + value(position), 0);
+
+    const totalBorrowed = sum(position => parseFloat(position.totalBorrowedEth) || 0);
+    const totalRepaid = sum(position => parseFloat(position.totalRepaidEth) || 0);
+
+    return {
+      protocols: Array.from(new Set(positions.map(position => position.protocol))),
+      positionCount: positions.length,
+      borrowCount: sum(position => position.borrowCount),
+      repayCount: sum(position => position.repayCount),
+      liquidationCount: sum(position => position.liquidationCount),
+      totalBorrowedEth: totalBorrowed.toString(),
+      totalRepaidEth: totalRepaid.toString(),
+      outstandingDebtEth: sum(position => parseFloat(position.outstandingDebtEth) || 0).toString(),
+      repaymentRatio: totalBorrowed > 0 ? Math.min(1, totalRepaid / totalBorrowed) : 0,
+      maxLtv: Math.max(0, ...positions.map(position => position.maxLtv)),
+      fullyRepaidBorrows: repayDurations.length,
+      avgTimeToRepay: repayDurations.length > 0
+        ? repayDurations.reduce((total, days) => total + days, 0) / repayDurations.length
+        : null
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import { DatabaseService } from './databaseService';
+import { PredictiveAnalyticsEngine, ScoreForecast, PredictionAccuracy } from './predictiveAnalyticsEngine';
+import { JobQueue } from './jobQueue';
+import { ScoreRefreshService } from './scoreRefreshService';
+
+/**
+ * Prediction Resolution Service
+ * Stores each horizon of a saved score forecast as a prediction, for the champion forecasting
+ * model and each challenger, and on a schedule resolves the predictions whose target date has
+ * passed by rescoring their address and tracking the accuracy of the prediction against the new
+ * score, which feeds model performance.
+ *
+ * Predictions are resolved against the score when the scheduler reaches them, so the
+ * resolution frequency bounds how far after its target date a prediction is checked. The
+ * schedule is a recurring PREDICTION_RESOLUTION job in the job queue.
+ */
+
+export interface PredictionResolutionConfig {
+  resolutionFrequency: number; // seconds
+  batchSize: number; // predictions resolved per run
+  maxAttempts: number; // failed rescoring attempts before a prediction is given up on
+}
+
+export interface PredictionResolutionResult {
+  resolved: PredictionAccuracy[];
+  failed: { predictionId: string; address: string; reason: string }[];
+  processingTimeMs: number;
+}
+
+export class PredictionResolutionService {
+  private static readonly DEFAULT_CONFIG: PredictionResolutionConfig = {
+    resolutionFrequency: 3600, // 1 hour
+    batchSize: 50,
+    maxAttempts: 3
+  };
+
+  private static config: PredictionResolutionConfig = this.DEFAULT_CONFIG;
+  private static isResolving = false;
+
+  /**
+   * Start resolving due predictions on a schedule
+   */
+  static initialize(config?: Partial<PredictionResolutionConfig>): void {
+    this.config = { ...this.DEFAULT_CONFIG, ...config };
+
+    JobQueue.registerRecurring('PREDICTION_RESOLUTION', this.config.resolutionFrequency, async () => {
+      if (!this.isResolving) {
+        await this.resolveDuePredictions();
+      }
+    });
+
+    console.log(`Prediction resolution started with ${this.config.resolutionFrequency}s interval`);
+  }
+
+  /**
+   * Stop resolving predictions on a schedule
+   */
+  static stopScheduledResolution(): void {
+    if (JobQueue.isRecurring('PREDICTION_RESOLUTION')) {
+      JobQueue.unregisterRecurring('PREDICTION_RESOLUTION');
+      console.log('Prediction resolution stopped');
+    }
+  }
+
+  /**
+   * Store each predicted score of a forecast, the champion's and the challengers', as a prediction
+   * to resolve at its horizon under its model's methodology
+   */
+  static async recordForecast(forecast: ScoreForecast): Promise<string[]> {
+    try {
+      const predictionIds: string[] = [];
+      const models = [
+        { methodology: forecast.methodology, predictedScores: forecast.predictedScores },
+        ...(forecast.challengers || [])
+      ];
+
+      for (const model of models) {
+        for (const predicted of model.predictedScores) {
+          predictionIds.push(await DatabaseService.savePrediction({
+            address: forecast.address,
+            predictionDate: forecast.lastUpdated,
+            targetDate: forecast.lastUpdated + predicted.timeframe * 24 * 60 * 60,
+            predictedScore: predicted.predictedScore,
+            confidenceInterval: predicted.confidenceInterval,
+            confidence: predicted.confidence,
+            methodology: model.methodology,
+            factors: forecast.keyFactors,
+            timeframe: predicted.timeframe,
+            keyAssumptions: predicted.keyAssumptions,
+            intervals: predicted.intervals
+          }));
+        }
+      }
+
+      return predictionIds;
+    } catch (error) {
+      throw new Error(`Failed to record forecast predictions: ${error}`);
+    }
+  }
+
+  /**
+   * Rescore the addresses of predictions whose target date has passed and track their accuracy.
+   * An address that cannot be scored counts a failed attempt against each of its predictions.
+   */
+  static async resolveDuePredictions(now: number = Math.floor(Date.now() / 1000)): Promise<PredictionResolutionResult> {
+    const startTime = Date.now();
+    this.isResolving = true;
+
+    try {
+      const due = await DatabaseService.getDuePredictions(now, this.config.batchSize, this.config.maxAttempts);
+      const byAddress = new Map<string, any[]>();
+      for (const prediction of due) {
+        byAddress.set(prediction.address, [...(byAddress.get(prediction.address) || []), prediction]);
+      }
+
+      const result: PredictionResolutionResult = { resolved: [], failed: [], processingTimeMs: 0 };
+
+      for (const [address, predictions] of byAddress) {
+        let actualScore: number;
+        try {
+          actualScore = (await ScoreRefreshService.refreshScore(address)).score;
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          for (const prediction of predictions) {
+            await DatabaseService.recordPredictionResolutionFailure(prediction.predictionId);
+            result.failed.push({ predictionId: prediction.predictionId, address, reason });
+          }
+          continue;
+        }
+
+        for (const prediction of predictions) {
+          result.resolved.push(
+            await PredictiveAnalyticsEngine.trackPredictionAccuracy(prediction.predictionId, address, actualScore)
+          );
+        }
+      }
+
+      result.processingTimeMs = Date.now() - startTime;
+      if (due.length > 0) {
+        console.log(`Resolved ${result.resolved.length} predictions, ${result.failed.length} failed`);
+      }
+      return result;
+    } catch (error) {
+      throw new Error(`Failed to resolve due predictions: ${error}`);
+    } finally {
+      this.isResolving = false;
+    }
+  }
+}
+
+export default PredictionResolutionService;
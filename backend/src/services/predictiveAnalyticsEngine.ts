@@ -1,6 +1,8 @@
 import { CreditScore } from './scoreCalculator';
 import { UserMetrics } from './blockchainService';
 import { EnhancedScoreHistoryEntry, DatabaseService } from './databaseService';
+import { ForecastingModel, ForecastingContext, FORECASTING_MODELS, DEFAULT_FORECASTING_MODEL } from './forecastingModels';
+import { ForecastCalibrationService, PredictionInterval, ResidualSample } from './forecastCalibrationService';
 
 // Interfaces for predictive analytics
 export interface ScoreForecast {
@@ -11,21 +13,39 @@ export interface ScoreForecast {
   trendStrength: number; // 0-100
   confidence: number; // 0-100
   predictionHorizon: number; // days
-  methodology: string;
+  methodology: string; // forecasting model of the predicted scores, the champion
   keyFactors: string[];
   uncertaintyFactors: string[];
   lastUpdated: number;
+  challengers?: ChallengerForecast[]; // other models' predictions, tracked to pick the champion
+}
+
+export interface ChallengerForecast {
+  methodology: string;
+  predictedScores: PredictedScore[];
+}
+
+// Recent accuracy of a forecasting model and whether it is the champion
+export interface ForecastingModelStanding {
+  name: string;
+  description: string;
+  minHistoryPoints: number;
+  sampleSize: number; // predictions resolved in the window
+  meanAbsoluteError: number | null;
+  intervalCoverage: number | null;
+  champion: boolean;
 }
 
 export interface PredictedScore {
   timeframe: number; // days from now
   predictedScore: number;
-  confidenceInterval: {
+  confidenceInterval: { // the 80% prediction interval
     lower: number;
     upper: number;
   };
   confidence: number;
   keyAssumptions: string[];
+  intervals?: PredictionInterval[]; // at each level, calibrated from resolved predictions when there are enough
 }
 
 export interface BehavioralTrendPrediction {
@@ -152,8 +172,10 @@ export interface ModelPerformance {
  */
 export class PredictiveAnalyticsEngine {
   private static readonly PREDICTION_HORIZONS = [7, 14, 30, 60, 90]; // days
-  private static readonly MIN_HISTORY_POINTS = 5;
+  static readonly MIN_HISTORY_POINTS = 5;
   private static readonly CONFIDENCE_THRESHOLD = 60; // minimum confidence for predictions
+  private static readonly CHAMPION_WINDOW_DAYS = 90;
+  private static readonly MIN_CHAMPION_SAMPLES = 10; // resolved predictions a model needs to challenge the default
 
   /**
    * Generate comprehensive score forecast for an address
@@ -172,19 +194,35 @@ export class PredictiveAnalyticsEngine {
 
       // Validate sufficient data for prediction
       if (scoreHistory.length < this.MIN_HISTORY_POINTS) {
-        return this.generateBasicForecast(address, currentScore, metrics);
+        return await this.calibrateForecast(this.generateBasicForecast(address, currentScore, metrics));
       }
 
       // Perform time series analysis
       const timeSeriesAnalysis = this.performTimeSeriesAnalysis(scoreHistory);
       
+      // Forecast with the champion model, and with the challengers so their accuracy is tracked too
+      const context: ForecastingContext = { address, currentScore, history: scoreHistory, metrics };
+      const eligibleModels = FORECASTING_MODELS.filter(model => scoreHistory!.length >= model.minHistoryPoints);
+      const champion = await this.selectChampion(eligibleModels);
+      
       // Generate predictions for different horizons
-      const predictedScores = await this.generatePredictedScores(
-        address,
-        currentScore,
-        scoreHistory,
+      const predictedScores = this.generatePredictedScores(
+        champion,
+        context,
         timeSeriesAnalysis
       );
+      
+      const challengers: ChallengerForecast[] = [];
+      for (const model of eligibleModels.filter(candidate => candidate !== champion)) {
+        try {
+          challengers.push({
+            methodology: model.name,
+            predictedScores: this.generatePredictedScores(model, context, timeSeriesAnalysis)
+          });
+        } catch (error) {
+          console.warn(`Forecasting model ${model.name} failed:`, error);
+        }
+      }
 
       // Determine trend direction and strength
       const trendAnalysis = this.analyzeTrend(scoreHistory, timeSeriesAnalysis);
@@ -192,7 +230,7 @@ export class PredictiveAnalyticsEngine {
       // Identify key factors and uncertainties
       const factorAnalysis = await this.analyzeKeyFactors(address, metrics, scoreHistory);
 
-      return {
+      return await this.calibrateForecast({
         address,
         currentScore: currentScore.score,
         predictedScores,
@@ -200,11 +238,12 @@ export class PredictiveAnalyticsEngine {
         trendStrength: trendAnalysis.strength,
         confidence: this.calculateOverallConfidence(predictedScores, timeSeriesAnalysis),
         predictionHorizon: Math.max(...this.PREDICTION_HORIZONS),
-        methodology: 'Time Series Analysis with Behavioral Factors',
+        methodology: champion.name,
         keyFactors: factorAnalysis.keyFactors,
         uncertaintyFactors: factorAnalysis.uncertaintyFactors,
-        lastUpdated: Math.floor(Date.now() / 1000)
-      };
+        lastUpdated: Math.floor(Date.now() / 1000),
+        challengers
+      });
 
     } catch (error) {
       console.error('Error generating score forecast:', error);
@@ -286,7 +325,7 @@ export class PredictiveAnalyticsEngine {
 
       const accuracyResult: PredictionAccuracy = {
         predictionId,
-        address,
+        address: address || prediction.address,
         predictionDate: prediction.predictionDate,
         targetDate: prediction.targetDate,
         predictedScore: prediction.predictedScore,
@@ -326,6 +365,36 @@ export class PredictiveAnalyticsEngine {
     }
   }
 
+  /**
+   * Forecasting models with their accuracy over the champion window, most accurate first
+   */
+  static async getForecastingModelStandings(): Promise<ForecastingModelStanding[]> {
+    try {
+      const since = Math.floor(Date.now() / 1000) - this.CHAMPION_WINDOW_DAYS * 24 * 60 * 60;
+      const accuracy = await DatabaseService.getRecentPredictionAccuracy(since);
+      const champion = this.pickChampion(FORECASTING_MODELS, accuracy);
+
+      return FORECASTING_MODELS
+        .map(model => {
+          const record = accuracy.find(entry => entry.methodology === model.name);
+          return {
+            name: model.name,
+            description: model.description,
+            minHistoryPoints: model.minHistoryPoints,
+            sampleSize: record?.sampleSize ?? 0,
+            meanAbsoluteError: record ? Math.round(record.meanAbsoluteError * 10) / 10 : null,
+            intervalCoverage: record ? Math.round(record.intervalCoverage * 10) / 10 : null,
+            champion: model === champion
+          };
+        })
+        .sort((a, b) => Number(b.champion) - Number(a.champion) ||
+          (a.meanAbsoluteError ?? Infinity) - (b.meanAbsoluteError ?? Infinity));
+    } catch (error) {
+      console.error('Error getting forecasting model standings:', error);
+      throw new Error(`Failed to get forecasting model standings: ${error}`);
+    }
+  }
+
   // Private helper methods
 
   /**
@@ -359,62 +428,117 @@ export class PredictiveAnalyticsEngine {
   }
 
   /**
-   * Generate predicted scores for different time horizons
+   * Pick the champion of the eligible models by their recent accuracy
    */
-  private static async generatePredictedScores(
-    address: string,
-    currentScore: CreditScore,
-    scoreHistory: EnhancedScoreHistoryEntry[],
-    timeSeriesAnalysis: any
-  ): Promise<PredictedScore[]> {
-    const predictions: PredictedScore[] = [];
-
-    for (const horizon of this.PREDICTION_HORIZONS) {
-      const prediction = this.predictScoreForHorizon(
-        currentScore.score,
-        horizon,
-        timeSeriesAnalysis,
-        scoreHistory
-      );
-      
-      predictions.push(prediction);
+  private static async selectChampion(models: ForecastingModel[]): Promise<ForecastingModel> {
+    try {
+      const since = Math.floor(Date.now() / 1000) - this.CHAMPION_WINDOW_DAYS * 24 * 60 * 60;
+      return this.pickChampion(models, await DatabaseService.getRecentPredictionAccuracy(since));
+    } catch (error) {
+      console.warn('Could not rank forecasting models, using the default:', error);
+      return models.includes(DEFAULT_FORECASTING_MODEL) ? DEFAULT_FORECASTING_MODEL : models[0];
     }
+  }
 
-    return predictions;
+  /**
+   * Lowest recent mean absolute error among models with enough resolved predictions,
+   * otherwise the default model
+   */
+  private static pickChampion(
+    models: ForecastingModel[],
+    accuracy: { methodology: string; sampleSize: number; meanAbsoluteError: number }[]
+  ): ForecastingModel {
+    let champion = models.includes(DEFAULT_FORECASTING_MODEL) ? DEFAULT_FORECASTING_MODEL : models[0];
+    let championError = Infinity;
+
+    for (const model of models) {
+      const record = accuracy.find(entry => entry.methodology === model.name);
+      if (record && record.sampleSize >= this.MIN_CHAMPION_SAMPLES && record.meanAbsoluteError < championError) {
+        champion = model;
+        championError = record.meanAbsoluteError;
+      }
+    }
+
+    return champion;
+  }
+
+  /**
+   * Replace the intervals of a forecast's predicted scores, the champion's and the challengers',
+   * with intervals calibrated from the residuals of their model's resolved predictions
+   */
+  private static async calibrateForecast(forecast: ScoreForecast): Promise<ScoreForecast> {
+    let samples: ResidualSample[];
+    try {
+      samples = await ForecastCalibrationService.getResidualSamples();
+    } catch (error) {
+      console.warn('Could not load prediction residuals, using model intervals:', error);
+      samples = [];
+    }
+
+    const calibrate = (methodology: string, predictedScores: PredictedScore[]): PredictedScore[] => {
+      // The basic forecast's fixed band has no stated level; it is taken as 80%
+      const level = FORECASTING_MODELS.find(model => model.name === methodology)?.intervalLevel ?? 80;
+      return predictedScores.map(predicted => {
+        const intervals = ForecastCalibrationService.calibrateIntervals(
+          samples,
+          methodology,
+          predicted.timeframe,
+          predicted.predictedScore,
+          { ...predicted.confidenceInterval, level }
+        );
+        const interval80 = intervals.find(interval => interval.level === 80)!;
+
+        return {
+          ...predicted,
+          confidenceInterval: { lower: interval80.lower, upper: interval80.upper },
+          intervals
+        };
+      });
+    };
+
+    return {
+      ...forecast,
+      predictedScores: calibrate(forecast.methodology, forecast.predictedScores),
+      challengers: forecast.challengers?.map(challenger => ({
+        ...challenger,
+        predictedScores: calibrate(challenger.methodology, challenger.predictedScores)
+      }))
+    };
+  }
+
+  /**
+   * Generate predicted scores for different time horizons
+   */
+  private static generatePredictedScores(
+    model: ForecastingModel,
+    context: ForecastingContext,
+    timeSeriesAnalysis: any
+  ): PredictedScore[] {
+    return this.PREDICTION_HORIZONS.map(horizon =>
+      this.predictScoreForHorizon(model, context, horizon, timeSeriesAnalysis)
+    );
   }
 
   /**
    * Predict score for a specific time horizon
    */
   private static predictScoreForHorizon(
-    currentScore: number,
+    model: ForecastingModel,
+    context: ForecastingContext,
     horizon: number,
-    timeSeriesAnalysis: any,
-    scoreHistory: EnhancedScoreHistoryEntry[]
+    timeSeriesAnalysis: any
   ): PredictedScore {
-    // Simple linear trend projection with adjustments
-    const trendSlope = timeSeriesAnalysis.trend.slope;
-    const baselinePrediction = currentScore + (trendSlope * horizon);
-    
-    // Apply volatility-based confidence interval
-    const volatility = timeSeriesAnalysis.volatility;
-    const confidenceMultiplier = this.getConfidenceMultiplier(horizon);
-    const intervalWidth = volatility * confidenceMultiplier;
-    
-    // Ensure predictions stay within reasonable bounds (0-1000)
-    const predictedScore = Math.max(0, Math.min(1000, baselinePrediction));
-    const lower = Math.max(0, predictedScore - intervalWidth);
-    const upper = Math.min(1000, predictedScore + intervalWidth);
+    const forecast = model.forecast(context, horizon);
     
     // Calculate confidence based on data quality and horizon
-    const confidence = this.calculatePredictionConfidence(horizon, timeSeriesAnalysis, scoreHistory);
+    const confidence = this.calculatePredictionConfidence(horizon, timeSeriesAnalysis, context.history);
     
     return {
       timeframe: horizon,
-      predictedScore: Math.round(predictedScore),
+      predictedScore: Math.round(forecast.predictedScore),
       confidenceInterval: {
-        lower: Math.round(lower),
-        upper: Math.round(upper)
+        lower: Math.round(forecast.lower),
+        upper: Math.round(forecast.upper)
       },
       confidence,
       keyAssumptions: this.generateKeyAssumptions(horizon, timeSeriesAnalysis)
@@ -1013,14 +1137,6 @@ export class PredictiveAnalyticsEngine {
     return Math.max(40, Math.round(confidence));
   }
 
-  /**
-   * Get confidence multiplier based on prediction horizon
-   */
-  private static getConfidenceMultiplier(horizon: number): number {
-    // Confidence interval widens with longer horizons
-    return 1 + (horizon / 30);
-  }
-
   /**
    * Generate key assumptions for predictions
    */
@@ -1146,7 +1262,7 @@ export class PredictiveAnalyticsEngine {
   /**
    * Get score range for performance tracking
    */
-  private static getScoreRange(score: number): string {
+  static getScoreRange(score: number): string {
     if (score < 200) return '0-199';
     if (score < 400) return '200-399';
     if (score < 600) return '400-599';
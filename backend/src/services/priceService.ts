@@ -0,0 +1,390 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { ChainlinkPriceFeed } from './chainlinkPriceFeed';
+import { RequestCache } from './requestUtils';
+import { TokenRegistry } from './tokenRegistry';
+import { MAINNET_CHAIN_ID } from './chainRegistry';
+import { DatabaseService } from './databaseService';
+import { isDatabaseInitialized } from '../database/connection';
+
+dotenv.config();
+
+/**
+ * Price Service
+ * Converts ETH and token amounts into USD at a given block timestamp so volumes
+ * across assets can be compared in a common unit. Prices are taken at the start of
+ * each UTC day, and prices read from a remote feed are stored in SQLite, so a day
+ * is only ever looked up once.
+ */
+
+export type PriceFeedKind = 'file' | 'chainlink' | 'reference';
+
+export interface PriceFeed {
+  readonly kind: PriceFeedKind;
+
+  /**
+   * USD price of an asset symbol (ETH, BTC, USDC, ...) at a unix timestamp, or null when unavailable
+   */
+  getUsdPrice(asset: string, timestamp: number): Promise<number | null>;
+}
+
+export interface PricePoint {
+  timestamp: number; // unix seconds
+  price: number; // USD
+}
+
+/**
+ * Historical prices loaded from a file, for offline and reproducible scoring.
+ *
+ * CSV, with a header row:
+ *   timestamp,asset,price
+ *   1704067200,ETH,2352.11
+ *   2024-01-02,ETH,2355.50
+ *
+ * JSON:
+ *   { "ETH": [{ "timestamp": 1704067200, "price": 2352.11 }, ...], "BTC": [...] }
+ *
+ * Timestamps may be unix seconds or ISO dates. A lookup returns the latest point at
+ * or before the timestamp, clamped to the first point for earlier timestamps.
+ */
+export class FilePriceFeed implements PriceFeed {
+  readonly kind = 'file' as const;
+
+  private series: Map<string, PricePoint[]>;
+
+  constructor(source: string | { [asset: string]: PricePoint[] }) {
+    const data = typeof source === 'string' ? FilePriceFeed.load(source) : source;
+
+    this.series = new Map();
+    for (const [asset, points] of Object.entries(data)) {
+      this.series.set(asset.toUpperCase(), [...points].sort((a, b) => a.timestamp - b.timestamp));
+    }
+  }
+
+  /**
+   * Load and validate a CSV or JSON price file
+   */
+  static load(filePath: string): { [asset: string]: PricePoint[] } {
+    try {
+      const content = fs.readFileSync(filePath, 'utf8');
+      const data = path.extname(filePath).toLowerCase() === '.csv'
+        ? FilePriceFeed.parseCsv(content)
+        : FilePriceFeed.parseJson(content);
+
+      if (Object.keys(data).length === 0) {
+        throw new Error('no price points found');
+      }
+
+      return data;
+    } catch (error) {
+      throw new Error(`Failed to load price file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private static parseCsv(content: string): { [asset: string]: PricePoint[] } {
+    const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+    const header = (lines.shift() || '').split(',').map(column => column.trim().toLowerCase());
+
+    const timestampIndex = header.indexOf('timestamp');
+    const assetIndex = header.indexOf('asset');
+    const priceIndex = header.indexOf('price');
+    if (timestampIndex < 0 || assetIndex < 0 || priceIndex < 0) {
+      throw new Error('CSV header must contain timestamp, asset and price columns');
+    }
+
+    const data: { [asset: string]: PricePoint[] } = {};
+    lines.forEach((line, index) => {
+      const columns = line.split(',').map(column => column.trim());
+      const point = {
+        timestamp: FilePriceFeed.parseTimestamp(columns[timestampIndex]),
+        price: parseFloat(columns[priceIndex])
+      };
+
+      if (isNaN(point.timestamp) || isNaN(point.price)) {
+        throw new Error(`invalid price row ${index + 2}: ${line}`);
+      }
+
+      const asset = columns[assetIndex].toUpperCase();
+      (data[asset] = data[asset] || []).push(point);
+    });
+
+    return data;
+  }
+
+  private static parseJson(content: string): { [asset: string]: PricePoint[] } {
+    const raw = JSON.parse(content);
+    const data: { [asset: string]: PricePoint[] } = {};
+
+    for (const [asset, points] of Object.entries(raw)) {
+      if (!Array.isArray(points)) {
+        throw new Error(`prices for ${asset} must be an array`);
+      }
+
+      data[asset.toUpperCase()] = points.map((point: any) => {
+        const parsed = {
+          timestamp: FilePriceFeed.parseTimestamp(point.timestamp),
+          price: Number(point.price)
+        };
+        if (isNaN(parsed.timestamp) || isNaN(parsed.price)) {
+          throw new Error(`invalid price point for ${asset}: ${JSON.stringify(point)}`);
+        }
+        return parsed;
+      });
+    }
+
+    return data;
+  }
+
+  private static parseTimestamp(value: string | number): number {
+    if (typeof value === 'number' || /^\d+$/.test(value)) {
+      return Number(value);
+    }
+    return Math.floor(new Date(value).getTime() / 1000);
+  }
+
+  async getUsdPrice(asset: string, timestamp: number): Promise<number | null> {
+    const points = this.series.get(asset.toUpperCase());
+    if (!points || points.length === 0) {
+      return null;
+    }
+
+    // Binary search for the latest point at or before the timestamp
+    let low = 0;
+    let high = points.length - 1;
+    let best = 0;
+
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      if (points[mid].timestamp <= timestamp) {
+        best = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return points[best].price;
+  }
+}
+
+/**
+ * Static reference prices, used when no price feed is configured or a feed has no data
+ */
+export class ReferencePriceFeed implements PriceFeed {
+  readonly kind = 'reference' as const;
+
+  private prices: { [asset: string]: number };
+
+  constructor(ethUsdPrice: number = parseFloat(process.env.REFERENCE_ETH_USD_PRICE || '2000')) {
+    this.prices = {
+      ETH: ethUsdPrice,
+      BTC: ethUsdPrice * parseFloat(process.env.REFERENCE_BTC_ETH_RATIO || '15'),
+      POL: parseFloat(process.env.REFERENCE_POL_USD_PRICE || '0.5')
+    };
+  }
+
+  async getUsdPrice(asset: string): Promise<number | null> {
+    return this.prices[asset.toUpperCase()] ?? null;
+  }
+}
+
+export class PriceService {
+  private feed: PriceFeed;
+  private fallbackFeed: PriceFeed | null;
+  private cache = new RequestCache();
+
+  // Prices are bucketed per UTC day to keep per-transaction lookups cheap
+  private static readonly BUCKET_SECONDS = 24 * 60 * 60;
+
+  // Feeds read over the network; file and reference prices are cheap to look up again
+  private static readonly STORED_FEEDS: PriceFeedKind[] = ['chainlink'];
+
+  constructor(feed: PriceFeed, fallbackFeed: PriceFeed | null = null) {
+    this.feed = feed;
+    this.fallbackFeed = fallbackFeed;
+  }
+
+  getFeed(): PriceFeed {
+    return this.feed;
+  }
+
+  /**
+   * USD price of an asset symbol at a unix timestamp, as of the start of its UTC day
+   */
+  async getUsdPrice(asset: string, timestamp: number): Promise<number | null> {
+    const day = PriceService.dayOf(timestamp);
+    const cacheKey = this.cacheKey(asset, day);
+    const cached = this.cache.get(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    let price: number | null = null;
+    if (this.storesPrices()) {
+      try {
+        price = (await DatabaseService.getDailyPrices(this.feed.kind, asset, [day])).get(day) ?? null;
+      } catch (error) {
+        console.warn(`Could not read stored ${asset} price:`, error);
+      }
+    }
+
+    if (price === null) {
+      try {
+        price = await this.feed.getUsdPrice(asset, day);
+        if (price !== null && this.storesPrices()) {
+          await DatabaseService.saveDailyPrice(this.feed.kind, asset, day, price);
+        }
+      } catch (error) {
+        console.warn(`${this.feed.kind} price feed failed for ${asset}:`, error);
+      }
+    }
+
+    if (price === null && this.fallbackFeed) {
+      price = await this.fallbackFeed.getUsdPrice(asset, day);
+    }
+
+    if (price !== null) {
+      this.cache.set(cacheKey, price, 24 * 60 * 60 * 1000); // Cache for 24 hours
+    }
+    return price;
+  }
+
+  /**
+   * USD prices of an asset at many unix timestamps, in the same order. Each UTC day is looked
+   * up once, and the days already stored are read in one query.
+   */
+  async getUsdPrices(asset: string, timestamps: number[]): Promise<(number | null)[]> {
+    const days = [...new Set(timestamps.map(timestamp => PriceService.dayOf(timestamp)))];
+
+    if (this.storesPrices()) {
+      try {
+        const stored = await DatabaseService.getDailyPrices(this.feed.kind, asset, days);
+        for (const [day, price] of stored) {
+          this.cache.set(this.cacheKey(asset, day), price, 24 * 60 * 60 * 1000);
+        }
+      } catch (error) {
+        console.warn(`Could not read stored ${asset} prices:`, error);
+      }
+    }
+
+    const prices = new Map<number, number | null>();
+    for (const day of days) {
+      prices.set(day, await this.getUsdPrice(asset, day));
+    }
+
+    return timestamps.map(timestamp => prices.get(PriceService.dayOf(timestamp)) ?? null);
+  }
+
+  /**
+   * Unix timestamp of the start of the UTC day containing a timestamp
+   */
+  static dayOf(timestamp: number): number {
+    return Math.floor(timestamp / PriceService.BUCKET_SECONDS) * PriceService.BUCKET_SECONDS;
+  }
+
+  private storesPrices(): boolean {
+    return PriceService.STORED_FEEDS.includes(this.feed.kind) && isDatabaseInitialized();
+  }
+
+  private cacheKey(asset: string, day: number): string {
+    return `price_${asset.toUpperCase()}_${day}`;
+  }
+
+  /**
+   * USD price of an ERC-20 token at a unix timestamp, using the token's peg when
+   * no feed quotes the token directly
+   */
+  async getTokenUsdPrice(
+    tokenAddress: string,
+    timestamp: number,
+    chainId: number = MAINNET_CHAIN_ID
+  ): Promise<number | null> {
+    const token = TokenRegistry.getKnownToken(tokenAddress, chainId);
+    if (!token) {
+      return null;
+    }
+
+    const direct = await this.getUsdPrice(token.symbol, timestamp);
+    if (direct !== null) {
+      return direct;
+    }
+
+    switch (token.peg) {
+      case 'USD':
+        return 1;
+      case 'ETH':
+        return this.getUsdPrice('ETH', timestamp);
+      case 'BTC':
+        return this.getUsdPrice('BTC', timestamp);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Convert an ETH amount to USD at a unix timestamp
+   */
+  async ethToUsd(amount: number, timestamp: number): Promise<number | null> {
+    return this.toUsd('ETH', amount, timestamp);
+  }
+
+  /**
+   * Convert an amount of an asset to USD at a unix timestamp
+   */
+  async toUsd(asset: string, amount: number, timestamp: number): Promise<number | null> {
+    const price = await this.getUsdPrice(asset, timestamp);
+    return price === null ? null : amount * price;
+  }
+
+  /**
+   * Price of an asset in ETH at a unix timestamp (1 for ETH itself)
+   */
+  async getEthPrice(asset: string, timestamp: number): Promise<number | null> {
+    if (asset.toUpperCase() === 'ETH') {
+      return 1;
+    }
+
+    const [assetPrice, ethPrice] = await Promise.all([
+      this.getUsdPrice(asset, timestamp),
+      this.getUsdPrice('ETH', timestamp)
+    ]);
+
+    return assetPrice === null || !ethPrice ? null : assetPrice / ethPrice;
+  }
+}
+
+/**
+ * Build the price feed from the environment.
+ *
+ * PRICE_FEED selects file, chainlink or reference. When unset, a configured PRICE_FILE_PATH
+ * is used, otherwise static reference prices. Chainlink reads rounds over the Ethereum RPC URL
+ * and is only used when selected explicitly.
+ */
+export function createPriceServiceFromEnv(): PriceService {
+  const filePath = process.env.PRICE_FILE_PATH;
+  const rpcUrl = process.env.ETHEREUM_RPC_URL || process.env.MAINNET_RPC_URL;
+  const kind = (process.env.PRICE_FEED || (filePath ? 'file' : 'reference')).toLowerCase() as PriceFeedKind;
+
+  const reference = new ReferencePriceFeed();
+
+  switch (kind) {
+    case 'file':
+      if (!filePath) {
+        throw new Error('No price file path configured (PRICE_FILE_PATH)');
+      }
+      return new PriceService(new FilePriceFeed(filePath), reference);
+    case 'chainlink':
+      if (!rpcUrl) {
+        throw new Error('No Ethereum RPC URL configured');
+      }
+      return new PriceService(ChainlinkPriceFeed.fromRpcUrl(rpcUrl), reference);
+    case 'reference':
+      return new PriceService(reference);
+    default:
+      throw new Error(`Unknown price feed: ${kind}`);
+  }
+}
+
+export const priceService = createPriceServiceFromEnv();
+export default priceService;
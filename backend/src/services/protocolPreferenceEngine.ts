@@ -104,6 +104,7 @@ export interface GasOptimizationRecommendation {
   title: string;
   description: string;
   expectedSavings: number; // Percentage
+  estimatedSavingsEth: number; // expectedSavings applied to the total gas cost
   implementationDifficulty: 'EASY' | 'MEDIUM' | 'HARD';
   specificGuidance: string[];
 }
@@ -261,6 +262,22 @@ export interface AnalysisDataQuality {
   protocolCoverage: number; // 0-100
 }
 
+export type ProtocolPreferenceSection =
+  'preferences' | 'diversification' | 'gas' | 'timing' | 'sophistication' | 'insights' | 'recommendations';
+
+// Analysis field served for each section; confidence, timestamp and data quality are always served
+const SECTION_FIELDS: { [section in ProtocolPreferenceSection]: keyof ProtocolPreferenceAnalysis } = {
+  preferences: 'preferredProtocols',
+  diversification: 'protocolDiversification',
+  gas: 'gasOptimizationAnalysis',
+  timing: 'transactionTimingAnalysis',
+  sophistication: 'protocolSophisticationAnalysis',
+  insights: 'insights',
+  recommendations: 'recommendations'
+};
+
+export const PROTOCOL_PREFERENCE_SECTIONS = Object.keys(SECTION_FIELDS) as ProtocolPreferenceSection[];
+
 /**
  * Protocol Preference and Efficiency Analysis Engine
  * Provides comprehensive analysis of protocol usage patterns and efficiency optimization
@@ -290,6 +307,32 @@ export class ProtocolPreferenceEngine {
     RISK_MANAGEMENT: 0.1
   };
 
+  /**
+   * Parse a comma-separated section list, rejecting unknown sections
+   */
+  public static parseSections(value: string): ProtocolPreferenceSection[] {
+    const sections = value.split(',').map(part => part.trim().toLowerCase()).filter(Boolean);
+    const unknown = sections.filter(section => !PROTOCOL_PREFERENCE_SECTIONS.includes(section as ProtocolPreferenceSection));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown protocol preference sections: ${unknown.join(', ')}. Expected ${PROTOCOL_PREFERENCE_SECTIONS.join(', ')}`);
+    }
+    return Array.from(new Set(sections)) as ProtocolPreferenceSection[];
+  }
+
+  /**
+   * Keep only the requested sections of an analysis
+   */
+  public static selectSections(
+    analysis: ProtocolPreferenceAnalysis,
+    sections: ProtocolPreferenceSection[]
+  ): Partial<ProtocolPreferenceAnalysis> {
+    const selected: Partial<ProtocolPreferenceAnalysis> = { ...analysis };
+    for (const section of PROTOCOL_PREFERENCE_SECTIONS) {
+      if (!sections.includes(section)) delete selected[SECTION_FIELDS[section]];
+    }
+    return selected;
+  }
+
   /**
    * Perform comprehensive protocol preference and efficiency analysis
    * Implements requirements 3.2, 3.4, 3.5
@@ -633,7 +676,7 @@ export class ProtocolPreferenceEngine {
     
     // Calculate total gas cost and potential savings
     const totalGasCost = transactionHistory.reduce((sum, tx) => {
-      return sum + (parseFloat(tx.gasPrice) * parseInt(tx.gasUsed)) / 1e18; // Convert to ETH
+      return sum + (parseFloat(tx.gasPrice) * parseInt(tx.gasUsed)) / 1e9; // Gwei to ETH
     }, 0);
     
     const averageTransactionCost = totalGasCost / transactionHistory.length;
@@ -642,7 +685,7 @@ export class ProtocolPreferenceEngine {
     const optimizedGasCost = transactionHistory.reduce((sum, tx) => {
       const currentGasPrice = parseFloat(tx.gasPrice);
       const optimizedGasPrice = Math.min(currentGasPrice, this.GAS_PRICE_THRESHOLDS.GOOD);
-      return sum + (optimizedGasPrice * parseInt(tx.gasUsed)) / 1e18;
+      return sum + (optimizedGasPrice * parseInt(tx.gasUsed)) / 1e9;
     }, 0);
     
     const estimatedSavings = totalGasCost - optimizedGasCost;
@@ -656,7 +699,8 @@ export class ProtocolPreferenceEngine {
       overallEfficiencyScore,
       averageGasPrice,
       gasPriceConsistency,
-      costOptimizationPotential
+      costOptimizationPotential,
+      totalGasCost
     );
 
     return {
@@ -754,10 +798,11 @@ export class ProtocolPreferenceEngine {
     overallEfficiencyScore: number,
     averageGasPrice: number,
     gasPriceConsistency: number,
-    costOptimizationPotential: number
+    costOptimizationPotential: number,
+    totalGasCost: number
   ): GasOptimizationRecommendation[] {
     
-    const recommendations: GasOptimizationRecommendation[] = [];
+    const recommendations: Omit<GasOptimizationRecommendation, 'estimatedSavingsEth'>[] = [];
 
     // Gas price optimization
     if (averageGasPrice > this.GAS_PRICE_THRESHOLDS.GOOD) {
@@ -830,7 +875,10 @@ export class ProtocolPreferenceEngine {
       });
     }
 
-    return recommendations;
+    return recommendations.map(recommendation => ({
+      ...recommendation,
+      estimatedSavingsEth: totalGasCost * recommendation.expectedSavings / 100
+    }));
   } 
  /**
    * Analyze transaction timing for optimal gas usage patterns
@@ -2,7 +2,8 @@ import { BenchmarkingEngine, BenchmarkingData } from './benchmarkingEngine';
 import { PeerGroupAnalysisEngine, PeerGroup } from './peerGroupAnalysisEngine';
 import { CreditScore, ScoreBreakdown } from './scoreCalculator';
 import { UserMetrics, TransactionData } from './blockchainService';
-import { DatabaseService, RealTimeBenchmarkData, BenchmarkUpdateJob, PeerGroupSnapshot } from './databaseService';
+import { DatabaseService, RealTimeBenchmarkData, PeerGroupSnapshot, JobPriority, BenchmarkUpdateJob } from './databaseService';
+import { JobQueue } from './jobQueue';
 
 export interface RealTimeBenchmarkingConfig {
   updateFrequency: number; // seconds
@@ -42,7 +43,9 @@ export interface BenchmarkJobResult {
 
 /**
  * Real-time Benchmarking Engine
- * Extends the static benchmarking engine with real-time capabilities
+ * Extends the static benchmarking engine with real-time capabilities.
+ * Benchmark updates, peer group refreshes and percentile recalculations run as job queue jobs,
+ * and a recurring job marks stale benchmarks and queues their updates.
  */
 export class RealTimeBenchmarkingEngine {
   private static readonly DEFAULT_CONFIG: RealTimeBenchmarkingConfig = {
@@ -57,8 +60,6 @@ export class RealTimeBenchmarkingEngine {
   };
 
   private static config: RealTimeBenchmarkingConfig = this.DEFAULT_CONFIG;
-  private static isProcessingJobs = false;
-  private static jobProcessingInterval: NodeJS.Timeout | null = null;
 
   /**
    * Initialize real-time benchmarking with configuration
@@ -66,25 +67,24 @@ export class RealTimeBenchmarkingEngine {
   static initialize(config?: Partial<RealTimeBenchmarkingConfig>): void {
     this.config = { ...this.DEFAULT_CONFIG, ...config };
     console.log('Real-time benchmarking engine initialized with config:', this.config);
-    
+
+    JobQueue.registerHandler('BENCHMARK_UPDATE', payload => this.runBenchmarkUpdate(payload.address));
+    JobQueue.registerHandler('PEER_GROUP_REFRESH', payload => this.createPeerGroupSnapshot(payload.peerGroupId));
+    JobQueue.registerHandler('PERCENTILE_RECALC', payload => this.recalculatePeerGroupPercentiles(payload.peerGroupId));
+
     // Start background job processing
     this.startBackgroundJobProcessing();
+
+    this.moveLegacyJobs().catch(error => {
+      console.error('Error moving benchmark update jobs to the job queue:', error);
+    });
   }
 
   /**
    * Start background job processing
    */
   private static startBackgroundJobProcessing(): void {
-    if (this.jobProcessingInterval) {
-      clearInterval(this.jobProcessingInterval);
-    }
-
-    this.jobProcessingInterval = setInterval(async () => {
-      if (!this.isProcessingJobs) {
-        await this.processBackgroundJobs();
-      }
-    }, this.config.updateFrequency * 1000);
-
+    JobQueue.registerRecurring('STALE_BENCHMARK_SWEEP', this.config.updateFrequency, () => this.markStaleBenchmarks());
     console.log(`Background job processing started with ${this.config.updateFrequency}s interval`);
   }
 
@@ -92,13 +92,49 @@ export class RealTimeBenchmarkingEngine {
    * Stop background job processing
    */
   static stopBackgroundJobProcessing(): void {
-    if (this.jobProcessingInterval) {
-      clearInterval(this.jobProcessingInterval);
-      this.jobProcessingInterval = null;
+    if (JobQueue.isRecurring('STALE_BENCHMARK_SWEEP')) {
+      JobQueue.unregisterRecurring('STALE_BENCHMARK_SWEEP');
       console.log('Background job processing stopped');
     }
   }
 
+  /**
+   * Jobs used to be kept in benchmark_update_jobs. Pending ones are queued in the job queue with
+   * the delay they had left, and marked completed there.
+   */
+  private static async moveLegacyJobs(): Promise<void> {
+    let moved = 0;
+    let legacyJobs: BenchmarkUpdateJob[];
+
+    // Moved jobs are marked completed, so each batch is the next one
+    do {
+      legacyJobs = await DatabaseService.getPendingBenchmarkUpdateJobs(1000, false);
+      const now = Math.floor(Date.now() / 1000);
+
+      for (const job of legacyJobs) {
+        const delay = Math.max(0, job.scheduledAt - now);
+        let jobId: number | null = null;
+        if (job.jobType === 'BENCHMARK_UPDATE' && job.targetAddress) {
+          jobId = await this.scheduleBenchmarkUpdate(job.targetAddress, job.priority, delay);
+        } else if (job.jobType !== 'BENCHMARK_UPDATE' && job.peerGroupId) {
+          jobId = await this.enqueuePeerGroupJob(job.jobType, job.peerGroupId, job.priority, delay);
+        }
+
+        await DatabaseService.updateBenchmarkJobStatus(
+          job.id,
+          'COMPLETED',
+          jobId ? `Moved to the job queue as job ${jobId}` : 'Dropped: no target'
+        );
+      }
+
+      moved += legacyJobs.length;
+    } while (legacyJobs.length > 0);
+
+    if (moved > 0) {
+      console.log(`Moved ${moved} benchmark update jobs to the job queue`);
+    }
+  }
+
   /**
    * Get or create real-time benchmark data for an address
    */
@@ -220,21 +256,15 @@ export class RealTimeBenchmarkingEngine {
    */
   static async scheduleBenchmarkUpdate(
     address: string,
-    priority: 'HIGH' | 'MEDIUM' | 'LOW' = 'MEDIUM',
+    priority: JobPriority = 'MEDIUM',
     delay: number = 0
   ): Promise<number> {
-    const now = Math.floor(Date.now() / 1000);
-    const job: Omit<BenchmarkUpdateJob, 'id'> = {
-      jobType: 'BENCHMARK_UPDATE',
-      targetAddress: address,
+    return await JobQueue.enqueue('BENCHMARK_UPDATE', { address: address.toLowerCase() }, {
       priority,
-      scheduledAt: now + delay,
-      status: 'PENDING',
-      retryCount: 0,
-      maxRetries: this.config.maxRetries
-    };
-
-    return await DatabaseService.createBenchmarkUpdateJob(job);
+      delay,
+      maxAttempts: this.config.maxRetries + 1,
+      dedupeKey: `BENCHMARK_UPDATE:${address.toLowerCase()}`
+    });
   }
 
   /**
@@ -242,21 +272,10 @@ export class RealTimeBenchmarkingEngine {
    */
   static async schedulePeerGroupRefresh(
     peerGroupId: string,
-    priority: 'HIGH' | 'MEDIUM' | 'LOW' = 'MEDIUM',
+    priority: JobPriority = 'MEDIUM',
     delay: number = 0
   ): Promise<number> {
-    const now = Math.floor(Date.now() / 1000);
-    const job: Omit<BenchmarkUpdateJob, 'id'> = {
-      jobType: 'PEER_GROUP_REFRESH',
-      peerGroupId,
-      priority,
-      scheduledAt: now + delay,
-      status: 'PENDING',
-      retryCount: 0,
-      maxRetries: this.config.maxRetries
-    };
-
-    return await DatabaseService.createBenchmarkUpdateJob(job);
+    return await this.enqueuePeerGroupJob('PEER_GROUP_REFRESH', peerGroupId, priority, delay);
   }
 
   /**
@@ -264,57 +283,27 @@ export class RealTimeBenchmarkingEngine {
    */
   static async schedulePercentileRecalculation(
     peerGroupId: string,
-    priority: 'HIGH' | 'MEDIUM' | 'LOW' = 'LOW',
+    priority: JobPriority = 'LOW',
     delay: number = 0
   ): Promise<number> {
-    const now = Math.floor(Date.now() / 1000);
-    const job: Omit<BenchmarkUpdateJob, 'id'> = {
-      jobType: 'PERCENTILE_RECALC',
-      peerGroupId,
-      priority,
-      scheduledAt: now + delay,
-      status: 'PENDING',
-      retryCount: 0,
-      maxRetries: this.config.maxRetries
-    };
-
-    return await DatabaseService.createBenchmarkUpdateJob(job);
+    return await this.enqueuePeerGroupJob('PERCENTILE_RECALC', peerGroupId, priority, delay);
   }
 
   /**
-   * Process background jobs
+   * Queue a peer group job, at most one per job type and peer group at a time
    */
-  private static async processBackgroundJobs(): Promise<void> {
-    if (this.isProcessingJobs) return;
-
-    this.isProcessingJobs = true;
-    console.log('Processing background benchmark jobs...');
-
-    try {
-      // Mark stale benchmarks
-      await this.markStaleBenchmarks();
-
-      // Get pending jobs
-      const pendingJobs = await DatabaseService.getPendingBenchmarkUpdateJobs(this.config.batchSize);
-      
-      if (pendingJobs.length === 0) {
-        return;
-      }
-
-      console.log(`Processing ${pendingJobs.length} benchmark jobs`);
-
-      // Process jobs by type
-      const jobsByType = this.groupJobsByType(pendingJobs);
-
-      for (const [jobType, jobs] of Object.entries(jobsByType)) {
-        await this.processJobsByType(jobType as BenchmarkUpdateJob['jobType'], jobs);
-      }
-
-    } catch (error) {
-      console.error('Error processing background benchmark jobs:', error);
-    } finally {
-      this.isProcessingJobs = false;
-    }
+  private static async enqueuePeerGroupJob(
+    jobType: 'PEER_GROUP_REFRESH' | 'PERCENTILE_RECALC',
+    peerGroupId: string,
+    priority: JobPriority,
+    delay: number
+  ): Promise<number> {
+    return await JobQueue.enqueue(jobType, { peerGroupId }, {
+      priority,
+      delay,
+      maxAttempts: this.config.maxRetries + 1,
+      dedupeKey: `${jobType}:${peerGroupId}`
+    });
   }
 
   /**
@@ -334,160 +323,17 @@ export class RealTimeBenchmarkingEngine {
   }
 
   /**
-   * Group jobs by type
-   */
-  private static groupJobsByType(jobs: BenchmarkUpdateJob[]): Record<string, BenchmarkUpdateJob[]> {
-    return jobs.reduce((groups, job) => {
-      if (!groups[job.jobType]) {
-        groups[job.jobType] = [];
-      }
-      groups[job.jobType].push(job);
-      return groups;
-    }, {} as Record<string, BenchmarkUpdateJob[]>);
-  }
-
-  /**
-   * Process jobs by type
+   * Run a benchmark update job
    */
-  private static async processJobsByType(
-    jobType: BenchmarkUpdateJob['jobType'],
-    jobs: BenchmarkUpdateJob[]
-  ): Promise<void> {
-    switch (jobType) {
-      case 'BENCHMARK_UPDATE':
-        await this.processBenchmarkUpdateJobs(jobs);
-        break;
-      case 'PEER_GROUP_REFRESH':
-        await this.processPeerGroupRefreshJobs(jobs);
-        break;
-      case 'PERCENTILE_RECALC':
-        await this.processPercentileRecalcJobs(jobs);
-        break;
-    }
-  }
-
-  /**
-   * Process benchmark update jobs
-   */
-  private static async processBenchmarkUpdateJobs(jobs: BenchmarkUpdateJob[]): Promise<void> {
-    for (const job of jobs) {
-      if (!job.targetAddress) continue;
-
-      try {
-        await DatabaseService.updateBenchmarkJobStatus(job.id, 'RUNNING');
-
-        // This would typically fetch fresh data and recalculate benchmarks
-        // For now, we'll mark the benchmark as no longer stale
-        await DatabaseService.updateRealTimeBenchmarkData(job.targetAddress, {
-          lastUpdated: Math.floor(Date.now() / 1000),
-          isStale: false
-        });
-
-        await DatabaseService.updateBenchmarkJobStatus(job.id, 'COMPLETED');
-        console.log(`Completed benchmark update job for ${job.targetAddress}`);
-
-      } catch (error) {
-        console.error(`Error processing benchmark update job ${job.id}:`, error);
-        
-        if (job.retryCount < job.maxRetries) {
-          await DatabaseService.incrementBenchmarkJobRetryCount(job.id);
-        } else {
-          await DatabaseService.updateBenchmarkJobStatus(
-            job.id, 
-            'FAILED', 
-            error instanceof Error ? error.message : 'Unknown error'
-          );
-        }
-      }
-    }
-  }
-
-  /**
-   * Process peer group refresh jobs
-   */
-  private static async processPeerGroupRefreshJobs(jobs: BenchmarkUpdateJob[]): Promise<void> {
-    const uniquePeerGroups = [...new Set(jobs.map(job => job.peerGroupId).filter(Boolean))];
-
-    for (const peerGroupId of uniquePeerGroups) {
-      const peerGroupJobs = jobs.filter(job => job.peerGroupId === peerGroupId);
-      
-      try {
-        // Mark all jobs as running
-        for (const job of peerGroupJobs) {
-          await DatabaseService.updateBenchmarkJobStatus(job.id, 'RUNNING');
-        }
-
-        // Create peer group snapshot
-        await this.createPeerGroupSnapshot(peerGroupId!);
-
-        // Mark all jobs as completed
-        for (const job of peerGroupJobs) {
-          await DatabaseService.updateBenchmarkJobStatus(job.id, 'COMPLETED');
-        }
-
-        console.log(`Completed peer group refresh for ${peerGroupId}`);
-
-      } catch (error) {
-        console.error(`Error processing peer group refresh for ${peerGroupId}:`, error);
-        
-        // Handle retries for all jobs
-        for (const job of peerGroupJobs) {
-          if (job.retryCount < job.maxRetries) {
-            await DatabaseService.incrementBenchmarkJobRetryCount(job.id);
-          } else {
-            await DatabaseService.updateBenchmarkJobStatus(
-              job.id, 
-              'FAILED', 
-              error instanceof Error ? error.message : 'Unknown error'
-            );
-          }
-        }
-      }
-    }
-  }
-
-  /**
-   * Process percentile recalculation jobs
-   */
-  private static async processPercentileRecalcJobs(jobs: BenchmarkUpdateJob[]): Promise<void> {
-    const uniquePeerGroups = [...new Set(jobs.map(job => job.peerGroupId).filter(Boolean))];
-
-    for (const peerGroupId of uniquePeerGroups) {
-      const peerGroupJobs = jobs.filter(job => job.peerGroupId === peerGroupId);
-      
-      try {
-        // Mark all jobs as running
-        for (const job of peerGroupJobs) {
-          await DatabaseService.updateBenchmarkJobStatus(job.id, 'RUNNING');
-        }
-
-        // Recalculate percentiles for all members of this peer group
-        await this.recalculatePeerGroupPercentiles(peerGroupId!);
-
-        // Mark all jobs as completed
-        for (const job of peerGroupJobs) {
-          await DatabaseService.updateBenchmarkJobStatus(job.id, 'COMPLETED');
-        }
+  private static async runBenchmarkUpdate(address: string): Promise<void> {
+    // This would typically fetch fresh data and recalculate benchmarks
+    // For now, we'll mark the benchmark as no longer stale
+    await DatabaseService.updateRealTimeBenchmarkData(address, {
+      lastUpdated: Math.floor(Date.now() / 1000),
+      isStale: false
+    });
 
-        console.log(`Completed percentile recalculation for ${peerGroupId}`);
-
-      } catch (error) {
-        console.error(`Error processing percentile recalculation for ${peerGroupId}:`, error);
-        
-        // Handle retries for all jobs
-        for (const job of peerGroupJobs) {
-          if (job.retryCount < job.maxRetries) {
-            await DatabaseService.incrementBenchmarkJobRetryCount(job.id);
-          } else {
-            await DatabaseService.updateBenchmarkJobStatus(
-              job.id, 
-              'FAILED', 
-              error instanceof Error ? error.message : 'Unknown error'
-            );
-          }
-        }
-      }
-    }
+    console.log(`Completed benchmark update job for ${address}`);
   }
 
   /**
@@ -559,7 +405,7 @@ export class RealTimeBenchmarkingEngine {
     
     return {
       ...dbStats,
-      processingStatus: this.jobProcessingInterval ? 'ACTIVE' : 'INACTIVE',
+      processingStatus: JobQueue.isRunning() && JobQueue.isRecurring('STALE_BENCHMARK_SWEEP') ? 'ACTIVE' : 'INACTIVE',
       config: this.config
     };
   }
@@ -590,9 +436,8 @@ export class RealTimeBenchmarkingEngine {
   static updateConfig(newConfig: Partial<RealTimeBenchmarkingConfig>): void {
     this.config = { ...this.config, ...newConfig };
     
-    // Restart background processing with new config
-    if (this.jobProcessingInterval) {
-      this.stopBackgroundJobProcessing();
+    // Reschedule background processing with new config
+    if (JobQueue.isRecurring('STALE_BENCHMARK_SWEEP')) {
       this.startBackgroundJobProcessing();
     }
     
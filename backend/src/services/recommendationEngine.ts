@@ -2,6 +2,7 @@ import { UserMetrics, TransactionData } from './blockchainService';
 import { RiskAssessmentEngine, RiskAssessment } from './riskAssessmentEngine';
 import { BehavioralPatternEngine, BehavioralInsights } from './behavioralPatternEngine';
 import { GrowthTrendAnalysisEngine, GrowthTrendAnalysis } from './growthTrendAnalysisEngine';
+import { RecommendationOutcomeService, ImpactCalibration } from './recommendationOutcomeService';
 
 /**
  * Personalized Recommendations Interface
@@ -31,6 +32,9 @@ export interface PersonalizedRecommendations {
   confidence: number; // 0-100
   estimatedCost?: string;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+  
+  // Present when expectedScoreImpact was calibrated against observed outcomes
+  impactCalibration?: ImpactPredictionCalibration;
 }
 
 export interface ActionItem {
@@ -48,6 +52,7 @@ export interface RecommendationContext {
   behavioralInsights: BehavioralInsights;
   growthTrend: GrowthTrendAnalysis;
   transactionHistory?: TransactionData[];
+  impactCalibrations: { [recommendationKey: string]: ImpactCalibration };
 }
 
 export interface ImpactPrediction {
@@ -55,6 +60,13 @@ export interface ImpactPrediction {
   confidence: number; // 0-100
   timeframe: 'IMMEDIATE' | 'SHORT_TERM' | 'LONG_TERM';
   factors: ImpactFactor[];
+  calibration?: ImpactPredictionCalibration;
+}
+
+export interface ImpactPredictionCalibration {
+  uncalibratedImpact: number;
+  factor: number; // observed over predicted impact
+  sampleSize: number; // resolved outcomes behind the factor
 }
 
 export interface ImpactFactor {
@@ -180,7 +192,8 @@ export class RecommendationEngine {
   public static async generateRecommendations(
     address: string,
     metrics: UserMetrics,
-    transactionHistory?: TransactionData[]
+    transactionHistory?: TransactionData[],
+    limit: number = 8
   ): Promise<PersonalizedRecommendations[]> {
     
     // Gather comprehensive analysis context
@@ -211,7 +224,20 @@ export class RecommendationEngine {
     const sortedRecommendations = this.prioritizeRecommendations(recommendations);
     
     // Return top recommendations (limit to prevent overwhelming user)
-    return sortedRecommendations.slice(0, 8);
+    return sortedRecommendations.slice(0, limit);
+  }
+
+  /**
+   * Stable key of a recommendation, from the template it was generated from
+   * (e.g. VOLUME_INCREASE_ACTIVITY), so it can be recognized across runs
+   */
+  public static getRecommendationKey(recommendation: PersonalizedRecommendations): string {
+    const templates: { [key: string]: { title: string } } = this.RECOMMENDATION_TEMPLATES[recommendation.category];
+    const templateKey = Object.keys(templates).find(key => templates[key].title === recommendation.title);
+    
+    return templateKey
+      ? `${recommendation.category}_${templateKey}`
+      : `${recommendation.category}_${recommendation.title.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
   }
 
   /**
@@ -232,12 +258,21 @@ export class RecommendationEngine {
     // Get growth trend analysis
     const growthTrend = GrowthTrendAnalysisEngine.analyzeGrowthTrend(address, metrics, transactionHistory);
     
+    // Get impact calibration from observed outcomes; predictions stay uncalibrated without it
+    let impactCalibrations: { [recommendationKey: string]: ImpactCalibration } = {};
+    try {
+      impactCalibrations = await RecommendationOutcomeService.getCalibrations();
+    } catch (error) {
+      console.error('Error getting impact calibrations:', error);
+    }
+    
     return {
       userMetrics: metrics,
       riskAssessment,
       behavioralInsights,
       growthTrend,
-      transactionHistory
+      transactionHistory,
+      impactCalibrations
     };
   }
 
@@ -288,6 +323,7 @@ export class RecommendationEngine {
         ],
         trackingEnabled: true,
         confidence: impactPrediction.confidence,
+        impactCalibration: impactPrediction.calibration,
         estimatedCost: '0.5-2.0 ETH over 3 months',
         riskLevel: 'LOW'
       });
@@ -328,6 +364,7 @@ export class RecommendationEngine {
         ],
         trackingEnabled: true,
         confidence: impactPrediction.confidence,
+        impactCalibration: impactPrediction.calibration,
         riskLevel: 'LOW'
       });
     }
@@ -379,6 +416,7 @@ export class RecommendationEngine {
         ],
         trackingEnabled: true,
         confidence: impactPrediction.confidence,
+        impactCalibration: impactPrediction.calibration,
         riskLevel: 'LOW'
       });
     }
@@ -418,6 +456,7 @@ export class RecommendationEngine {
         ],
         trackingEnabled: true,
         confidence: impactPrediction.confidence,
+        impactCalibration: impactPrediction.calibration,
         riskLevel: 'LOW'
       });
     }
@@ -478,6 +517,7 @@ export class RecommendationEngine {
         ],
         trackingEnabled: true,
         confidence: impactPrediction.confidence,
+        impactCalibration: impactPrediction.calibration,
         estimatedCost: '0.1+ ETH plus gas fees',
         riskLevel: 'MEDIUM'
       });
@@ -523,6 +563,7 @@ export class RecommendationEngine {
         ],
         trackingEnabled: true,
         confidence: impactPrediction.confidence,
+        impactCalibration: impactPrediction.calibration,
         riskLevel: 'MEDIUM'
       });
     }
@@ -582,6 +623,7 @@ export class RecommendationEngine {
         ],
         trackingEnabled: true,
         confidence: impactPrediction.confidence,
+        impactCalibration: impactPrediction.calibration,
         estimatedCost: '0.05-0.5 ETH plus gas fees',
         riskLevel: 'HIGH'
       });
@@ -623,6 +665,7 @@ export class RecommendationEngine {
         ],
         trackingEnabled: true,
         confidence: impactPrediction.confidence,
+        impactCalibration: impactPrediction.calibration,
         estimatedCost: '0.1-0.5 ETH plus gas fees',
         riskLevel: 'MEDIUM'
       });
@@ -674,6 +717,7 @@ export class RecommendationEngine {
         ],
         trackingEnabled: true,
         confidence: impactPrediction.confidence,
+        impactCalibration: impactPrediction.calibration,
         riskLevel: 'MEDIUM'
       });
     }
@@ -713,6 +757,7 @@ export class RecommendationEngine {
         ],
         trackingEnabled: true,
         confidence: impactPrediction.confidence,
+        impactCalibration: impactPrediction.calibration,
         riskLevel: 'LOW'
       });
     }
@@ -769,6 +814,7 @@ export class RecommendationEngine {
         ],
         trackingEnabled: true,
         confidence: impactPrediction.confidence,
+        impactCalibration: impactPrediction.calibration,
         riskLevel: 'LOW'
       });
     }
@@ -817,6 +863,7 @@ export class RecommendationEngine {
           ],
           trackingEnabled: true,
           confidence: impactPrediction.confidence,
+          impactCalibration: impactPrediction.calibration,
           riskLevel: 'LOW'
         });
       }
@@ -970,11 +1017,24 @@ export class RecommendationEngine {
       confidence -= 10;
     }
     
+    // Scale by the observed effectiveness of this recommendation
+    const calibration = context.impactCalibrations[`${category}_${recommendationType}`];
+    if (calibration) {
+      factors.forEach(factor => {
+        factor.expectedChange *= calibration.factor;
+      });
+    }
+    
     return {
-      scoreImpact: Math.round(baseImpact),
+      scoreImpact: Math.round(baseImpact * (calibration ? calibration.factor : 1)),
       confidence: Math.max(30, Math.min(95, confidence)),
       timeframe: template.timeframe as 'IMMEDIATE' | 'SHORT_TERM' | 'LONG_TERM',
-      factors
+      factors,
+      calibration: calibration && {
+        uncalibratedImpact: Math.round(baseImpact),
+        factor: calibration.factor,
+        sampleSize: calibration.sampleSize
+      }
     };
   }
 
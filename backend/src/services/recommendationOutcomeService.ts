@@ -0,0 +1,206 @@
+import { DatabaseService, Recommendation, RecommendationOutcome } from './databaseService';
+import { PersonalizedRecommendations } from './recommendationEngine';
+
+/**
+ * Recommendation Outcome Service
+ * Checks the score impact predicted for recommendations against what happened. When a tracked
+ * recommendation is done, the current score is recorded; once the outcome window has passed,
+ * the score change over the window is the recommendation's actual impact. The whole change is
+ * attributed to every recommendation done at the start of the window.
+ *
+ * Resolved outcomes calibrate RecommendationEngine.predictImpact: each recommendation key gets
+ * the ratio of observed to predicted impact, shrunk toward 1 while outcomes are few, which scales
+ * its future predictions and with them the ranking of recommendations.
+ */
+
+export const OUTCOME_WINDOW_DAYS = 30;
+
+// Number of outcomes the uncalibrated prediction weighs as much as
+const CALIBRATION_PRIOR_WEIGHT = 5;
+const MIN_CALIBRATION_FACTOR = 0.1;
+const MAX_CALIBRATION_FACTOR = 2;
+
+export interface ImpactCalibration {
+  recommendationKey: string;
+  sampleSize: number;
+  meanPredictedImpact: number; // predictions as shown, calibrated when they were made
+  meanActualImpact: number;
+  meanError: number; // actual - predicted
+  meanAbsoluteError: number;
+  factor: number; // applied to uncalibrated predictions
+}
+
+export interface ImpactCalibrationReport {
+  generatedAt: number;
+  windowDays: number;
+  pendingOutcomes: number;
+  resolvedOutcomes: number;
+  meanAbsoluteError: number | null;
+  calibrations: ImpactCalibration[];
+}
+
+export class RecommendationOutcomeService {
+
+  /**
+   * Start measuring the outcome of a recommendation that is done.
+   * Returns null when the address has no score to measure from.
+   */
+  static async recordCompletion(row: Recommendation): Promise<number | null> {
+    try {
+      const [latestScore] = await DatabaseService.getScoreHistory(row.address, 1);
+      if (!latestScore) {
+        return null;
+      }
+
+      const recommendation: Partial<PersonalizedRecommendations> = JSON.parse(row.details || '{}');
+      const predictedImpact = recommendation.expectedScoreImpact ?? row.expectedImpact ?? 0;
+      const completedAt = Math.floor(Date.now() / 1000);
+
+      return await DatabaseService.saveRecommendationOutcome({
+        address: row.address,
+        recommendationId: row.id,
+        recommendationKey: row.recommendationId,
+        predictedImpact,
+        basePredictedImpact: recommendation.impactCalibration?.uncalibratedImpact ?? predictedImpact,
+        completedAt,
+        scoreAtCompletion: latestScore.score,
+        windowEndsAt: completedAt + OUTCOME_WINDOW_DAYS * 24 * 60 * 60
+      });
+    } catch (error) {
+      throw new Error(`Failed to record recommendation completion: ${error}`);
+    }
+  }
+
+  /**
+   * Stop measuring a recommendation that was reopened
+   */
+  static async cancelPendingOutcome(row: Recommendation): Promise<void> {
+    await DatabaseService.deletePendingRecommendationOutcomes(row.id);
+  }
+
+  /**
+   * Measure the outcomes whose window has passed, of one address or all.
+   * The score at the end of a window is the last one recorded in it, or the first one after it
+   * when none was; outcomes stay pending until there is such a score.
+   */
+  static async resolvePendingOutcomes(address?: string): Promise<RecommendationOutcome[]> {
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const due = (await DatabaseService.getRecommendationOutcomes({ address, resolved: false }))
+        .filter(outcome => outcome.windowEndsAt <= now);
+
+      const historyByAddress = new Map<string, { score: number; timestamp: number }[]>();
+      const resolved: RecommendationOutcome[] = [];
+
+      for (const outcome of due) {
+        if (!historyByAddress.has(outcome.address)) {
+          const history = await DatabaseService.getScoreHistory(outcome.address, 1000);
+          historyByAddress.set(outcome.address, history.sort((a, b) => a.timestamp - b.timestamp));
+        }
+
+        const after = historyByAddress.get(outcome.address)!.filter(entry => entry.timestamp > outcome.completedAt);
+        const inWindow = after.filter(entry => entry.timestamp <= outcome.windowEndsAt);
+        const end = inWindow.length > 0 ? inWindow[inWindow.length - 1] : after[0];
+        if (!end) {
+          continue;
+        }
+
+        const actualImpact = end.score - outcome.scoreAtCompletion;
+        await DatabaseService.resolveRecommendationOutcome(outcome.id, end.score, actualImpact);
+        resolved.push({ ...outcome, scoreAfter: end.score, actualImpact, resolvedAt: now });
+      }
+
+      return resolved;
+    } catch (error) {
+      throw new Error(`Failed to resolve recommendation outcomes: ${error}`);
+    }
+  }
+
+  /**
+   * Outcomes of an address's recommendations, newest first, after resolving due ones
+   */
+  static async getOutcomes(address: string): Promise<RecommendationOutcome[]> {
+    try {
+      await this.resolvePendingOutcomes(address);
+      return await DatabaseService.getRecommendationOutcomes({ address });
+    } catch (error) {
+      throw new Error(`Failed to get recommendation outcomes: ${error}`);
+    }
+  }
+
+  /**
+   * Calibration of each recommendation key with resolved outcomes
+   */
+  static async getCalibrations(): Promise<{ [recommendationKey: string]: ImpactCalibration }> {
+    try {
+      const outcomes = await DatabaseService.getRecommendationOutcomes({ resolved: true });
+      const byKey = new Map<string, RecommendationOutcome[]>();
+      for (const outcome of outcomes) {
+        byKey.set(outcome.recommendationKey, [...(byKey.get(outcome.recommendationKey) || []), outcome]);
+      }
+
+      const calibrations: { [recommendationKey: string]: ImpactCalibration } = {};
+      for (const [recommendationKey, keyOutcomes] of byKey) {
+        calibrations[recommendationKey] = this.calibrate(recommendationKey, keyOutcomes);
+      }
+      return calibrations;
+    } catch (error) {
+      throw new Error(`Failed to get impact calibrations: ${error}`);
+    }
+  }
+
+  /**
+   * Resolve due outcomes, then report prediction error and calibration per recommendation key
+   */
+  static async getCalibrationReport(): Promise<ImpactCalibrationReport> {
+    try {
+      await this.resolvePendingOutcomes();
+
+      const [pending, resolved, calibrations] = await Promise.all([
+        DatabaseService.getRecommendationOutcomes({ resolved: false }),
+        DatabaseService.getRecommendationOutcomes({ resolved: true }),
+        this.getCalibrations()
+      ]);
+
+      const meanAbsoluteError = resolved.length > 0
+        ? resolved.reduce((sum, outcome) => sum + Math.abs(outcome.actualImpact! - outcome.predictedImpact), 0) / resolved.length
+        : null;
+
+      return {
+        generatedAt: Math.floor(Date.now() / 1000),
+        windowDays: OUTCOME_WINDOW_DAYS,
+        pendingOutcomes: pending.length,
+        resolvedOutcomes: resolved.length,
+        meanAbsoluteError: meanAbsoluteError !== null ? Math.round(meanAbsoluteError * 10) / 10 : null,
+        calibrations: Object.values(calibrations).sort((a, b) => b.sampleSize - a.sampleSize)
+      };
+    } catch (error) {
+      throw new Error(`Failed to get calibration report: ${error}`);
+    }
+  }
+
+  private static calibrate(recommendationKey: string, outcomes: RecommendationOutcome[]): ImpactCalibration {
+    const n = outcomes.length;
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / n;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const meanPredictedImpact = mean(outcomes.map(outcome => outcome.predictedImpact));
+    const meanActualImpact = mean(outcomes.map(outcome => outcome.actualImpact!));
+    const meanBasePredictedImpact = mean(outcomes.map(outcome => outcome.basePredictedImpact));
+
+    const observedRatio = meanBasePredictedImpact > 0 ? meanActualImpact / meanBasePredictedImpact : 1;
+    const factor = (n * observedRatio + CALIBRATION_PRIOR_WEIGHT) / (n + CALIBRATION_PRIOR_WEIGHT);
+
+    return {
+      recommendationKey,
+      sampleSize: n,
+      meanPredictedImpact: round(meanPredictedImpact),
+      meanActualImpact: round(meanActualImpact),
+      meanError: round(meanActualImpact - meanPredictedImpact),
+      meanAbsoluteError: round(mean(outcomes.map(outcome => Math.abs(outcome.actualImpact! - outcome.predictedImpact)))),
+      factor: round(Math.max(MIN_CALIBRATION_FACTOR, Math.min(MAX_CALIBRATION_FACTOR, factor)))
+    };
+  }
+}
+
+export default RecommendationOutcomeService;
@@ -0,0 +1,281 @@
+import { DatabaseService, Recommendation } from './databaseService';
+import { RecommendationEngine, PersonalizedRecommendations } from './recommendationEngine';
+import { RecommendationOutcomeService } from './recommendationOutcomeService';
+import { UserMetrics, TransactionData } from './blockchainService';
+
+/**
+ * Recommendation Tracking Service
+ * Keeps the recommendation engine's output in the recommendations table, one row per
+ * address and recommendation key, and moves each row through its lifecycle:
+ * OPEN -> IN_PROGRESS -> DONE, or DISMISSED by the user.
+ *
+ * Every sync regenerates recommendations from current metrics. A recommendation generated
+ * again refreshes its row; while open, its progress is measured against the metrics recorded
+ * when it was first made, and on-chain activity since then moves it to IN_PROGRESS.
+ * An open recommendation that is no longer generated has had its condition resolved and is DONE.
+ * DONE and DISMISSED rows are only reopened by the user.
+ *
+ * Recommendations that are done have their score outcome measured by RecommendationOutcomeService.
+ */
+
+// Source of score recommendations in the shared recommendations table
+export const SCORE_RECOMMENDATION_SOURCE = 'SCORE';
+
+export type RecommendationStatus = 'OPEN' | 'IN_PROGRESS' | 'DONE' | 'DISMISSED';
+
+export const RECOMMENDATION_STATUSES: RecommendationStatus[] = ['OPEN', 'IN_PROGRESS', 'DONE', 'DISMISSED'];
+
+// Every template, so a recommendation missing from a sync has really been resolved
+const ALL_RECOMMENDATIONS = 100;
+
+// Metrics a recommendation was made against
+export interface RecommendationBaseline {
+  totalTransactions: number;
+  totalVolume: number; // ETH
+  avgTransactionValue: number; // ETH
+  stakingBalance: number; // ETH
+  defiProtocolCount: number;
+  accountAge: number; // days
+  lastTransactionDate: number;
+}
+
+export interface TrackedRecommendation {
+  id: number;
+  key: string;
+  status: RecommendationStatus;
+  progress: number; // 0-100
+  createdAt: number;
+  updatedAt: number;
+  completedAt: number | null;
+  recommendation: PersonalizedRecommendations;
+}
+
+export interface RecommendationStatusChange {
+  key: string;
+  title: string;
+  from: RecommendationStatus | null; // null for a new recommendation
+  to: RecommendationStatus;
+}
+
+export interface RecommendationSync {
+  address: string;
+  recommendations: TrackedRecommendation[];
+  changes: RecommendationStatusChange[]; // made by this sync
+}
+
+// Metric targets of recommendations whose condition is a threshold, matching the engine's
+const PROGRESS_TARGETS: { [key: string]: { measure: (metrics: RecommendationBaseline) => number; target: number } } = {
+  VOLUME_INCREASE_ACTIVITY: { measure: metrics => metrics.totalVolume, target: 1.0 },
+  VOLUME_OPTIMIZE_SIZE: { measure: metrics => metrics.avgTransactionValue, target: 0.05 },
+  FREQUENCY_INCREASE_FREQUENCY: {
+    measure: metrics => (metrics.totalTransactions / Math.max(metrics.accountAge, 1)) * 30,
+    target: 2
+  },
+  DEFI_DIVERSIFY_PROTOCOLS: { measure: metrics => metrics.defiProtocolCount, target: 3 }
+};
+
+const STATUS_ORDER: { [status in RecommendationStatus]: number } = {
+  IN_PROGRESS: 0,
+  OPEN: 1,
+  DONE: 2,
+  DISMISSED: 3
+};
+
+export class RecommendationTrackingService {
+
+  /**
+   * Regenerate recommendations for an address and update the tracked ones
+   */
+  static async sync(
+    address: string,
+    metrics: UserMetrics,
+    transactionHistory?: TransactionData[]
+  ): Promise<RecommendationSync> {
+    try {
+      // Outcomes resolved first, so they calibrate the regenerated recommendations
+      await RecommendationOutcomeService.resolvePendingOutcomes(address);
+
+      const generated = await RecommendationEngine.generateRecommendations(
+        address,
+        metrics,
+        transactionHistory,
+        ALL_RECOMMENDATIONS
+      );
+      const rows = await DatabaseService.getRecommendations(address, undefined, SCORE_RECOMMENDATION_SOURCE);
+      const rowsByKey = new Map(rows.map(row => [row.recommendationId, row]));
+      const current = this.toBaseline(metrics);
+      const now = Math.floor(Date.now() / 1000);
+      const changes: RecommendationStatusChange[] = [];
+      const generatedKeys = new Set<string>();
+
+      for (const recommendation of generated) {
+        const key = RecommendationEngine.getRecommendationKey(recommendation);
+        generatedKeys.add(key);
+        const row = rowsByKey.get(key);
+
+        if (!row) {
+          await DatabaseService.saveRecommendation({
+            address,
+            recommendationId: key,
+            category: recommendation.category,
+            priority: recommendation.priority,
+            title: recommendation.title,
+            description: recommendation.description,
+            expectedImpact: recommendation.expectedScoreImpact,
+            difficulty: recommendation.implementationDifficulty,
+            createdAt: now,
+            status: 'OPEN',
+            progress: 0,
+            source: SCORE_RECOMMENDATION_SOURCE,
+            details: JSON.stringify(recommendation),
+            baseline: JSON.stringify(current),
+            updatedAt: now
+          });
+          changes.push({ key, title: recommendation.title, from: null, to: 'OPEN' });
+          continue;
+        }
+
+        await DatabaseService.updateRecommendation(row.id, {
+          priority: recommendation.priority,
+          description: recommendation.description,
+          expectedImpact: recommendation.expectedScoreImpact,
+          difficulty: recommendation.implementationDifficulty,
+          details: JSON.stringify(recommendation),
+          updatedAt: now
+        });
+
+        if (row.status !== 'OPEN' && row.status !== 'IN_PROGRESS') {
+          continue;
+        }
+
+        const baseline: RecommendationBaseline = row.baseline ? JSON.parse(row.baseline) : current;
+        const progress = Math.max(row.progress, this.measureProgress(key, baseline, current));
+        const active = progress > 0 || current.lastTransactionDate > baseline.lastTransactionDate;
+        const status: RecommendationStatus = row.status === 'OPEN' && active ? 'IN_PROGRESS' : row.status;
+
+        if (progress !== row.progress || status !== row.status) {
+          await DatabaseService.updateRecommendationProgress(row.id, progress, status);
+          if (status !== row.status) {
+            changes.push({ key, title: row.title, from: row.status, to: status });
+          }
+        }
+      }
+
+      // Open recommendations that are no longer generated have been resolved
+      for (const row of rows) {
+        if (!generatedKeys.has(row.recommendationId) && (row.status === 'OPEN' || row.status === 'IN_PROGRESS')) {
+          await DatabaseService.updateRecommendationProgress(row.id, 100, 'DONE');
+          await RecommendationOutcomeService.recordCompletion(row);
+          changes.push({ key: row.recommendationId, title: row.title, from: row.status, to: 'DONE' });
+        }
+      }
+
+      return {
+        address,
+        recommendations: await this.getTrackedRecommendations(address),
+        changes
+      };
+    } catch (error) {
+      throw new Error(`Failed to sync recommendations: ${error}`);
+    }
+  }
+
+  /**
+   * Tracked recommendations, in progress first, then by expected score impact
+   */
+  static async getTrackedRecommendations(address: string, statuses?: RecommendationStatus[]): Promise<TrackedRecommendation[]> {
+    try {
+      const rows = await DatabaseService.getRecommendations(address, undefined, SCORE_RECOMMENDATION_SOURCE);
+
+      return rows
+        .map(row => this.toTrackedRecommendation(row))
+        .filter(tracked => !statuses || statuses.includes(tracked.status))
+        .sort((a, b) =>
+          STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+          b.recommendation.expectedScoreImpact - a.recommendation.expectedScoreImpact
+        );
+    } catch (error) {
+      throw new Error(`Failed to get tracked recommendations: ${error}`);
+    }
+  }
+
+  /**
+   * Set a recommendation's status, returning null when the address has no such recommendation
+   */
+  static async updateStatus(
+    address: string,
+    key: string,
+    status: RecommendationStatus
+  ): Promise<TrackedRecommendation | null> {
+    try {
+      const rows = await DatabaseService.getRecommendations(address, undefined, SCORE_RECOMMENDATION_SOURCE);
+      const row = rows.find(candidate => candidate.recommendationId === key);
+      if (!row) {
+        return null;
+      }
+
+      // Reopening a done recommendation starts its progress over
+      const progress = status === 'DONE' ? 100 : row.progress >= 100 ? 0 : row.progress;
+      await DatabaseService.updateRecommendationProgress(row.id, progress, status);
+      if (status === 'DONE' && row.status !== 'DONE') {
+        await RecommendationOutcomeService.recordCompletion(row);
+      } else if (status !== 'DONE' && row.status === 'DONE') {
+        await RecommendationOutcomeService.cancelPendingOutcome(row);
+      }
+
+      const tracked = await this.getTrackedRecommendations(address);
+      return tracked.find(candidate => candidate.key === key) || null;
+    } catch (error) {
+      throw new Error(`Failed to update recommendation status: ${error}`);
+    }
+  }
+
+  /**
+   * Progress toward a threshold recommendation's target since its baseline, 0 for other recommendations.
+   * Capped below 100, since the recommendation is still generated.
+   */
+  private static measureProgress(key: string, baseline: RecommendationBaseline, current: RecommendationBaseline): number {
+    const target = PROGRESS_TARGETS[key];
+    if (!target) {
+      return 0;
+    }
+
+    const start = target.measure(baseline);
+    const span = target.target - start;
+    if (span <= 0) {
+      return 0;
+    }
+
+    const progress = Math.round(((target.measure(current) - start) / span) * 100);
+    return Math.max(0, Math.min(99, progress));
+  }
+
+  private static toBaseline(metrics: UserMetrics): RecommendationBaseline {
+    return {
+      totalTransactions: metrics.totalTransactions,
+      totalVolume: parseFloat(metrics.totalVolume),
+      avgTransactionValue: parseFloat(metrics.avgTransactionValue),
+      stakingBalance: parseFloat(metrics.stakingBalance),
+      defiProtocolCount: metrics.defiProtocolsUsed.length,
+      accountAge: metrics.accountAge,
+      lastTransactionDate: metrics.lastTransactionDate
+    };
+  }
+
+  private static toTrackedRecommendation(row: Recommendation): TrackedRecommendation {
+    const recommendation: PersonalizedRecommendations = JSON.parse(row.details || '{}');
+
+    return {
+      id: row.id,
+      key: row.recommendationId,
+      status: row.status as RecommendationStatus,
+      progress: row.progress,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt ?? row.createdAt,
+      completedAt: row.completedAt ?? null,
+      recommendation: { ...recommendation, currentProgress: row.progress }
+    };
+  }
+}
+
+export default RecommendationTrackingService;
@@ -10,8 +10,12 @@ import { UserMetrics, TransactionData } from './blockchainService';
  * Implements requirements 2.3, 2.4, 2.5
  */
 
+// Source of mitigation recommendations in the shared recommendations table
+export const RISK_MITIGATION_SOURCE = 'RISK_MITIGATION';
+
 export interface EnhancedRiskMitigationRecommendation extends RiskMitigationRecommendation {
-  id: string;
+  id: string; // stable per recommendation, so progress is tracked across reports
+  currentProgress?: number; // 0-100, from progress tracking
   riskFactorTargeted: string[];
   confidenceScore: number; // 0-100
   impactPrediction: {
@@ -107,6 +111,9 @@ export class RiskMitigationService {
     // Perform risk assessment
     const riskAssessment = await RiskAssessmentEngine.assessRisk(address, metrics, transactionHistory);
     
+    // Record the assessment first, so the trend and alerts below include it
+    await RiskMonitoringService.recordAssessment(address, riskAssessment);
+    
     // Perform anomaly detection
     let anomalyDetection: AnomalyDetectionResult;
     if (transactionHistory && transactionHistory.length > 0) {
@@ -121,6 +128,7 @@ export class RiskMitigationService {
       anomalyDetection, 
       metrics
     );
+    await this.trackMitigationRecommendations(address, mitigationRecommendations);
     
     // Generate detailed risk factor explanations
     const riskFactorExplanations = await this.generateRiskFactorExplanations(
@@ -262,7 +270,7 @@ export class RiskMitigationService {
     
     if (metrics.defiProtocolsUsed.length <= 1) {
       recommendations.push({
-        id: `concentration-diversify-${Date.now()}`,
+        id: 'concentration-diversify',
         priority: 'HIGH',
         category: 'DIVERSIFICATION',
         title: 'Diversify DeFi Protocol Usage',
@@ -301,7 +309,7 @@ export class RiskMitigationService {
     const stakingRatio = parseFloat(metrics.stakingBalance) / parseFloat(metrics.totalVolume);
     if (stakingRatio > 0.8) {
       recommendations.push({
-        id: `concentration-staking-${Date.now()}`,
+        id: 'concentration-staking',
         priority: 'MEDIUM',
         category: 'DIVERSIFICATION',
         title: 'Balance Staking and Liquid Assets',
@@ -351,7 +359,7 @@ export class RiskMitigationService {
     const recommendations: EnhancedRiskMitigationRecommendation[] = [];
     
     recommendations.push({
-      id: `volatility-consistency-${Date.now()}`,
+      id: 'volatility-consistency',
       priority: 'HIGH',
       category: 'BEHAVIORAL',
       title: 'Establish Consistent Transaction Patterns',
@@ -403,7 +411,7 @@ export class RiskMitigationService {
     
     if (daysSinceLastTx > 30) {
       recommendations.push({
-        id: `inactivity-reactivate-${Date.now()}`,
+        id: 'inactivity-reactivate',
         priority: 'HIGH',
         category: 'ACTIVITY',
         title: 'Reactivate Account with Regular Transactions',
@@ -454,7 +462,7 @@ export class RiskMitigationService {
     
     if (metrics.accountAge < 30) {
       recommendations.push({
-        id: `newaccount-history-${Date.now()}`,
+        id: 'newaccount-history',
         priority: 'MEDIUM',
         category: 'ACTIVITY',
         title: 'Build Consistent Transaction History',
@@ -504,7 +512,7 @@ export class RiskMitigationService {
     const recommendations: EnhancedRiskMitigationRecommendation[] = [];
     
     recommendations.push({
-      id: `anomaly-patterns-${Date.now()}`,
+      id: 'anomaly-patterns',
       priority: 'HIGH',
       category: 'BEHAVIORAL',
       title: 'Normalize Transaction Patterns',
@@ -556,7 +564,7 @@ export class RiskMitigationService {
     
     if (stakingRatio > 0.7) {
       recommendations.push({
-        id: `liquidity-balance-${Date.now()}`,
+        id: 'liquidity-balance',
         priority: 'MEDIUM',
         category: 'DIVERSIFICATION',
         title: 'Improve Liquidity Management',
@@ -607,7 +615,7 @@ export class RiskMitigationService {
     
     if (anomalyDetection.flags.hasWashTrading) {
       recommendations.push({
-        id: `washtrading-avoid-${Date.now()}`,
+        id: 'washtrading-avoid',
         priority: 'HIGH',
         category: 'SECURITY',
         title: 'Eliminate Wash Trading Patterns',
@@ -645,7 +653,7 @@ export class RiskMitigationService {
     
     if (anomalyDetection.flags.hasBotBehavior) {
       recommendations.push({
-        id: `botbehavior-humanize-${Date.now()}`,
+        id: 'botbehavior-humanize',
         priority: 'HIGH',
         category: 'BEHAVIORAL',
         title: 'Humanize Transaction Patterns',
@@ -696,7 +704,7 @@ export class RiskMitigationService {
     
     // Gas optimization recommendation
     recommendations.push({
-      id: `general-gasopt-${Date.now()}`,
+      id: 'general-gasopt',
       priority: 'LOW',
       category: 'BEHAVIORAL',
       title: 'Optimize Gas Usage Patterns',
@@ -1212,15 +1220,48 @@ export class RiskMitigationService {
    */
   private static async getRecentMonitoringAlerts(address: string): Promise<RiskMonitoringAlert[]> {
     try {
-      // This would typically query the database for recent alerts
-      // For now, return empty array as placeholder
-      return [];
+      return await DatabaseService.getRiskAlerts(address, { acknowledged: false, limit: 20 });
     } catch (error) {
       console.error('Error fetching monitoring alerts:', error);
       return [];
     }
   }
 
+  /**
+   * Start tracking new mitigation recommendations and attach the progress of known ones
+   */
+  private static async trackMitigationRecommendations(
+    address: string,
+    recommendations: EnhancedRiskMitigationRecommendation[]
+  ): Promise<void> {
+    const tracked = await DatabaseService.getRecommendations(address, undefined, RISK_MITIGATION_SOURCE);
+    
+    for (const recommendation of recommendations) {
+      const existing = tracked.find(r => r.recommendationId === recommendation.id);
+      
+      if (existing) {
+        recommendation.currentProgress = existing.progress;
+        continue;
+      }
+      
+      await DatabaseService.saveRecommendation({
+        address,
+        recommendationId: recommendation.id,
+        category: recommendation.category,
+        priority: recommendation.priority,
+        title: recommendation.title,
+        description: recommendation.description,
+        expectedImpact: recommendation.impactPrediction.expectedRiskReduction,
+        difficulty: recommendation.impactPrediction.implementationComplexity,
+        createdAt: Math.floor(Date.now() / 1000),
+        status: 'ACTIVE',
+        progress: 0,
+        source: RISK_MITIGATION_SOURCE
+      });
+      recommendation.currentProgress = 0;
+    }
+  }
+
   /**
    * Create empty anomaly result for cases with no transaction history
    */
@@ -1269,11 +1310,11 @@ export class RiskMitigationService {
     recommendationId: string,
     progress: number,
     milestoneCompleted?: string
-  ): Promise<void> {
+  ): Promise<boolean> {
     
     try {
       // Get existing recommendations to find the one to update
-      const recommendations = await DatabaseService.getRecommendations(address);
+      const recommendations = await DatabaseService.getRecommendations(address, undefined, RISK_MITIGATION_SOURCE);
       const targetRecommendation = recommendations.find(r => r.recommendationId === recommendationId);
       
       if (targetRecommendation) {
@@ -1286,12 +1327,15 @@ export class RiskMitigationService {
           console.log(`Milestone completed: ${milestoneCompleted}`);
           // In a full implementation, you'd store milestone data separately
         }
-      } else {
-        console.warn(`Recommendation ${recommendationId} not found for address ${address}`);
+        return true;
       }
       
+      console.warn(`Recommendation ${recommendationId} not found for address ${address}`);
+      return false;
+      
     } catch (error) {
       console.error('Error tracking recommendation progress:', error);
+      throw new Error(`Failed to track recommendation progress: ${error}`);
     }
   }
 
@@ -1303,7 +1347,7 @@ export class RiskMitigationService {
   ): Promise<RiskMitigationProgress[]> {
     
     try {
-      const recommendations = await DatabaseService.getRecommendations(address);
+      const recommendations = await DatabaseService.getRecommendations(address, undefined, RISK_MITIGATION_SOURCE);
       
       const progressList: RiskMitigationProgress[] = [];
       
@@ -1,6 +1,8 @@
-import { DatabaseService } from './databaseService';
+import { DatabaseService, JobPriority } from './databaseService';
 import { RiskAssessmentEngine, RiskAssessment, RiskFactor } from './riskAssessmentEngine';
-import { UserMetrics, TransactionData } from './blockchainService';
+import { blockchainService, UserMetrics, TransactionData } from './blockchainService';
+import { ScoreCalculator } from './scoreCalculator';
+import { JobQueue } from './jobQueue';
 
 /**
  * Risk Monitoring Service
@@ -43,6 +45,7 @@ export interface RiskDataPoint {
 }
 
 export interface RiskThreshold {
+  id?: number;
   address: string;
   riskFactor: string;
   thresholdType: 'SCORE' | 'LEVEL' | 'CHANGE_RATE';
@@ -65,12 +68,52 @@ export interface RiskMonitoringConfig {
   };
 }
 
+// Risk factors a threshold can watch: the overall risk score or one of the assessment's factors
+export const RISK_THRESHOLD_FACTORS = [
+  'overall',
+  'concentrationRisk',
+  'volatilityRisk',
+  'inactivityRisk',
+  'newAccountRisk',
+  'anomalyRisk',
+  'liquidityRisk'
+];
+
+const RISK_LEVEL_RANK: { [level: string]: number } = { LOW: 1, MEDIUM: 2, HIGH: 3, CRITICAL: 4 };
+
 /**
  * Risk Monitoring Service
- * Provides ongoing risk level tracking and alert generation
+ * Provides ongoing risk level tracking and alert generation.
+ * Addresses with enabled thresholds are reassessed on a schedule: a recurring
+ * RISK_MONITORING_SWEEP job queues a RISK_MONITORING job per address.
  */
 export class RiskMonitoringService {
   
+  /**
+   * Reassess addresses with enabled thresholds every monitoringFrequency seconds
+   */
+  public static initialize(monitoringFrequency: number = 6 * 60 * 60): void {
+    JobQueue.registerHandler('RISK_MONITORING', payload => this.runMonitoring(payload.address));
+    JobQueue.registerRecurring('RISK_MONITORING_SWEEP', monitoringFrequency, async () => {
+      for (const address of await DatabaseService.getAddressesWithRiskThresholds()) {
+        await this.scheduleMonitoring(address, 'LOW');
+      }
+    });
+
+    console.log(`Risk monitoring started with ${monitoringFrequency}s interval`);
+  }
+
+  /**
+   * Queue a reassessment of an address, at most one per address at a time
+   */
+  public static async scheduleMonitoring(address: string, priority: JobPriority = 'MEDIUM'): Promise<number> {
+    return await JobQueue.enqueue('RISK_MONITORING', { address: address.toLowerCase() }, {
+      priority,
+      dedupeKey: `RISK_MONITORING:${address.toLowerCase()}`
+    });
+  }
+
+
   // Risk monitoring thresholds
   private static readonly MONITORING_THRESHOLDS = {
     SIGNIFICANT_CHANGE: 10,    // Points change to trigger alert
@@ -235,6 +278,159 @@ export class RiskMonitoringService {
     };
   }
 
+  /**
+   * Record a new assessment, raising alerts for changes since the previous one and
+   * for breached thresholds. At most MAX_ALERTS_PER_DAY alerts are raised per address,
+   * most severe first.
+   */
+  public static async recordAssessment(
+    address: string,
+    assessment: RiskAssessment
+  ): Promise<RiskMonitoringAlert[]> {
+    try {
+      const [previous] = await DatabaseService.getRiskMonitoringHistory(address, 0, 1);
+      const previousAssessment = previous?.assessment;
+
+      const alerts = await this.monitorRiskChanges(address, assessment, previousAssessment);
+
+      const thresholds = await DatabaseService.getRiskThresholds(address, true);
+      const breaches = this.evaluateThresholds(address, assessment, previousAssessment, thresholds);
+      alerts.push(...breaches.map(breach => breach.alert));
+
+      const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
+      const recentAlerts = await DatabaseService.getRiskAlerts(address, {
+        since: dayAgo,
+        limit: this.MONITORING_THRESHOLDS.MAX_ALERTS_PER_DAY
+      });
+      const allowed = Math.max(0, this.MONITORING_THRESHOLDS.MAX_ALERTS_PER_DAY - recentAlerts.length);
+
+      const raised = alerts
+        .sort((a, b) => RISK_LEVEL_RANK[b.severity] - RISK_LEVEL_RANK[a.severity])
+        .slice(0, allowed);
+
+      for (const alert of raised) {
+        alert.id = await DatabaseService.saveRiskAlert(alert);
+      }
+
+      for (const breach of breaches) {
+        if (raised.includes(breach.alert)) {
+          await DatabaseService.updateRiskThreshold(address, breach.threshold.id!, { lastTriggered: breach.alert.timestamp });
+        }
+      }
+
+      await this.storeRiskAssessment(address, assessment);
+      return raised;
+    } catch (error) {
+      console.error('Error recording risk assessment:', error);
+      throw new Error(`Failed to record risk assessment: ${error}`);
+    }
+  }
+
+  /**
+   * Check an assessment against per-address thresholds.
+   * SCORE and CHANGE_RATE thresholds are risk points (0-100); a CHANGE_RATE threshold
+   * is breached by an increase of at least that many points since the previous assessment.
+   * LEVEL thresholds are 1 (LOW) to 4 (CRITICAL).
+   */
+  public static evaluateThresholds(
+    address: string,
+    current: RiskAssessment,
+    previous: RiskAssessment | undefined,
+    thresholds: RiskThreshold[]
+  ): { threshold: RiskThreshold; alert: RiskMonitoringAlert }[] {
+    const breaches: { threshold: RiskThreshold; alert: RiskMonitoringAlert }[] = [];
+    const timestamp = Date.now();
+
+    for (const threshold of thresholds) {
+      if (!threshold.enabled) continue;
+
+      const factor = this.getThresholdFactor(current, threshold.riskFactor);
+      if (!factor) continue;
+
+      let breached = false;
+      let description = '';
+
+      switch (threshold.thresholdType) {
+        case 'SCORE':
+          breached = factor.score >= threshold.thresholdValue;
+          description = `${threshold.riskFactor} risk score ${factor.score} reached the threshold of ${threshold.thresholdValue}`;
+          break;
+        case 'LEVEL':
+          breached = (RISK_LEVEL_RANK[factor.level] || 0) >= threshold.thresholdValue;
+          description = `${threshold.riskFactor} risk level ${factor.level} reached the threshold level`;
+          break;
+        case 'CHANGE_RATE': {
+          const previousFactor = previous ? this.getThresholdFactor(previous, threshold.riskFactor) : null;
+          if (previousFactor) {
+            const change = factor.score - previousFactor.score;
+            breached = change >= threshold.thresholdValue;
+            description = `${threshold.riskFactor} risk score rose by ${change} points, above the threshold of ${threshold.thresholdValue}`;
+          }
+          break;
+        }
+      }
+
+      if (breached) {
+        breaches.push({
+          threshold,
+          alert: {
+            address,
+            alertType: 'RISK_THRESHOLD_BREACH',
+            severity: threshold.alertSeverity,
+            title: `Risk Threshold Breached: ${threshold.riskFactor}`,
+            description,
+            currentRiskLevel: current.overallRisk,
+            previousRiskLevel: previous?.overallRisk,
+            riskScore: current.riskScore,
+            previousRiskScore: previous?.riskScore,
+            triggeredFactors: [threshold.riskFactor.replace('Risk', '')],
+            recommendations: current.recommendations
+              .filter(r => r.priority === 'HIGH')
+              .map(r => r.title),
+            timestamp,
+            acknowledged: false
+          }
+        });
+      }
+    }
+
+    return breaches;
+  }
+
+  /**
+   * Validate a threshold definition, returning the problems found
+   */
+  public static validateThreshold(threshold: Partial<RiskThreshold>): string[] {
+    const errors: string[] = [];
+
+    if (!threshold.riskFactor || !RISK_THRESHOLD_FACTORS.includes(threshold.riskFactor)) {
+      errors.push(`riskFactor must be one of ${RISK_THRESHOLD_FACTORS.join(', ')}`);
+    }
+
+    if (!threshold.thresholdType || !['SCORE', 'LEVEL', 'CHANGE_RATE'].includes(threshold.thresholdType)) {
+      errors.push('thresholdType must be SCORE, LEVEL or CHANGE_RATE');
+    }
+
+    const value = threshold.thresholdValue;
+    if (typeof value !== 'number' || !isFinite(value)) {
+      errors.push('thresholdValue must be a number');
+    } else if (threshold.thresholdType === 'LEVEL' && (value < 1 || value > 4)) {
+      errors.push('thresholdValue for LEVEL thresholds must be between 1 (LOW) and 4 (CRITICAL)');
+    } else if (threshold.thresholdType !== 'LEVEL' && (value < 0 || value > 100)) {
+      errors.push('thresholdValue must be between 0 and 100');
+    }
+
+    if (!threshold.alertSeverity || !(threshold.alertSeverity in RISK_LEVEL_RANK)) {
+      errors.push('alertSeverity must be LOW, MEDIUM, HIGH or CRITICAL');
+    }
+
+    if (threshold.enabled !== undefined && typeof threshold.enabled !== 'boolean') {
+      errors.push('enabled must be a boolean');
+    }
+
+    return errors;
+  }
+
   /**
    * Store risk assessment for monitoring
    */
@@ -243,18 +439,7 @@ export class RiskMonitoringService {
     assessment: RiskAssessment
   ): Promise<void> {
     try {
-      // For now, we'll store this in the enhanced score history table
-      // In a production system, you'd want a dedicated risk monitoring table
-      await DatabaseService.saveEnhancedScoreHistory({
-        address,
-        score: 100 - assessment.riskScore, // Convert risk score to credit score equivalent
-        confidence: assessment.confidence,
-        timestamp: Date.now(),
-        version: '1.0',
-        riskScore: assessment.riskScore,
-        riskLevel: assessment.overallRisk,
-        riskFlags: JSON.stringify(assessment.flags)
-      });
+      await DatabaseService.saveRiskMonitoringHistory(address, assessment);
       
       console.log(`Stored risk assessment for address ${address}: ${assessment.overallRisk} risk`);
     } catch (error) {
@@ -263,6 +448,21 @@ export class RiskMonitoringService {
     }
   }
 
+  /**
+   * Assess an address from fresh metrics and record the assessment, raising alerts
+   */
+  private static async runMonitoring(address: string): Promise<void> {
+    const metrics = await blockchainService.getUserMetrics(address);
+    const validation = ScoreCalculator.validateMetricsForScoring(metrics);
+    if (!validation.isValid) {
+      throw new Error(validation.reasons.join('; '));
+    }
+
+    const transactions = await blockchainService.fetchTransactionHistory(address);
+    const assessment = await RiskAssessmentEngine.assessRisk(address, metrics, transactions);
+    await this.recordAssessment(address, assessment);
+  }
+
   /**
    * Get historical risk data for trend analysis
    */
@@ -276,17 +476,21 @@ export class RiskMonitoringService {
       
       const cutoffTime = Date.now() - (daysBack * 24 * 60 * 60 * 1000);
       
-      // Get enhanced score history which includes risk data
-      const history = await DatabaseService.getEnhancedScoreHistory(address, 100);
+      const history = await DatabaseService.getRiskMonitoringHistory(address, cutoffTime, 100);
       
-      // Filter by timeframe and convert to risk data points
-      const filteredHistory = history.filter(entry => entry.timestamp > cutoffTime);
-      
-      return filteredHistory.map(entry => ({
+      // Oldest first, so the regression slope follows time
+      return history.reverse().map(entry => ({
         timestamp: entry.timestamp,
-        riskScore: entry.riskScore || 0,
-        riskLevel: entry.riskLevel || 'LOW',
-        primaryRiskFactors: this.identifyPrimaryRiskFactorsFromFlags(entry.riskFlags)
+        riskScore: entry.assessment.riskScore,
+        riskLevel: entry.assessment.overallRisk,
+        primaryRiskFactors: this.identifyPrimaryRiskFactors({
+          concentrationRisk: entry.assessment.riskFactors.concentrationRisk.score,
+          volatilityRisk: entry.assessment.riskFactors.volatilityRisk.score,
+          inactivityRisk: entry.assessment.riskFactors.inactivityRisk.score,
+          newAccountRisk: entry.assessment.riskFactors.newAccountRisk.score,
+          anomalyRisk: entry.assessment.riskFactors.anomalyRisk.score,
+          liquidityRisk: entry.assessment.riskFactors.liquidityRisk.score
+        })
       }));
     } catch (error) {
       console.error('Error getting historical risk data:', error);
@@ -338,6 +542,16 @@ export class RiskMonitoringService {
     return Math.max(0, Math.min(100, latestRisk + projectedChange));
   }
 
+  private static getThresholdFactor(
+    assessment: RiskAssessment,
+    riskFactor: string
+  ): { score: number; level: string } | null {
+    if (riskFactor === 'overall') {
+      return { score: assessment.riskScore, level: assessment.overallRisk };
+    }
+    return assessment.riskFactors[riskFactor as keyof RiskAssessment['riskFactors']] || null;
+  }
+
   /**
    * Helper methods for alert generation
    */
@@ -423,24 +637,4 @@ export class RiskMonitoringService {
     
     return factors;
   }
-
-  private static identifyPrimaryRiskFactorsFromFlags(riskFlags?: string): string[] {
-    if (!riskFlags) return [];
-    
-    try {
-      const flags = JSON.parse(riskFlags);
-      const factors: string[] = [];
-      
-      if (flags.suspiciousActivity) factors.push('suspicious');
-      if (flags.washTrading) factors.push('washTrading');
-      if (flags.botBehavior) factors.push('botBehavior');
-      if (flags.coordinatedActivity) factors.push('coordinated');
-      if (flags.unusualPatterns) factors.push('unusual');
-      
-      return factors;
-    } catch (error) {
-      console.error('Error parsing risk flags:', error);
-      return [];
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,336 @@
+import { ethers } from 'ethers';
+import {
+  ChainDataSource,
+  ChainInternalCall,
+  ChainLog,
+  ChainNetwork,
+  ChainTraceCall,
+  ChainTransaction,
+  LogFilter,
+  TransactionQuery
+} from './chainDataSource';
+import { RateLimiter, RequestCache } from './requestUtils';
+import { TokenMetadata } from './tokenRegistry';
+
+// Raw block scanning is expensive, so limit how far back we look
+const MAX_BLOCKS_TO_SCAN = 1000;
+
+// Nodes reject log queries over wide block ranges or with too many results, so queries are split
+const MAX_LOG_BLOCK_RANGE = 10000;
+const MIN_LOG_BLOCK_RANGE = 100;
+
+/**
+ * Raw JSON-RPC data source
+ * Talks directly to a node, with an optional fallback node and a circuit breaker
+ */
+export class RpcDataSource implements ChainDataSource {
+  readonly kind = 'rpc' as const;
+  readonly indexesLogs = false;
+
+  private provider: ethers.JsonRpcProvider;
+  private fallbackProvider: ethers.JsonRpcProvider | null = null;
+  private rateLimiter = new RateLimiter(3, 1000); // 3 requests per second
+  private cache = new RequestCache();
+
+  // Circuit breaker state
+  private providerFailures = 0;
+  private maxFailures = 3;
+  private circuitBreakerTimeout = 60000; // 1 minute
+  private lastFailureTime = 0;
+
+  // Cleared when the node rejects debug_traceTransaction
+  private tracingSupported = true;
+
+  constructor(rpcUrl: string, fallbackUrl?: string) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+
+    if (fallbackUrl && fallbackUrl !== rpcUrl) {
+      this.fallbackProvider = new ethers.JsonRpcProvider(fallbackUrl);
+    }
+  }
+
+  /**
+   * Get the current provider, with fallback logic and circuit breaker
+   */
+  async getProvider(): Promise<ethers.JsonRpcProvider> {
+    // Check circuit breaker
+    if (this.providerFailures >= this.maxFailures) {
+      const timeSinceLastFailure = Date.now() - this.lastFailureTime;
+      if (timeSinceLastFailure < this.circuitBreakerTimeout) {
+        throw new Error(`Circuit breaker open. Retrying in ${Math.ceil((this.circuitBreakerTimeout - timeSinceLastFailure) / 1000)} seconds`);
+      } else {
+        // Reset circuit breaker
+        this.providerFailures = 0;
+      }
+    }
+
+    await this.rateLimiter.waitIfNeeded();
+
+    try {
+      // Test the primary provider
+      await this.provider.getBlockNumber();
+      this.providerFailures = 0; // Reset on success
+      return this.provider;
+    } catch (error) {
+      console.warn('Primary provider failed, trying fallback:', error);
+      this.providerFailures++;
+      this.lastFailureTime = Date.now();
+
+      if (this.fallbackProvider) {
+        try {
+          await this.fallbackProvider.getBlockNumber();
+          return this.fallbackProvider;
+        } catch (fallbackError) {
+          console.error('Fallback provider also failed:', fallbackError);
+          this.providerFailures++;
+        }
+      }
+
+      throw new Error('All RPC providers are unavailable');
+    }
+  }
+
+  /**
+   * Scan recent blocks for transactions involving the address (limited scope)
+   */
+  async getTransactions(address: string, query: TransactionQuery): Promise<ChainTransaction[]> {
+    const provider = await this.getProvider();
+    const transactions: ChainTransaction[] = [];
+
+    // Get current block number
+    const currentBlock = query.endBlock ?? await provider.getBlockNumber();
+    const blocksToScan = Math.min(MAX_BLOCKS_TO_SCAN, currentBlock); // Only scan the last 1000 blocks
+    const startBlock = Math.max(query.startBlock ?? 0, currentBlock - blocksToScan);
+
+    console.log(`RPC scan: Scanning blocks ${startBlock} to ${currentBlock} for address ${address}`);
+
+    const lowerAddress = address.toLowerCase();
+    let transactionCount = 0;
+
+    // Scan in smaller batches with delays
+    for (let i = currentBlock; i >= startBlock && transactionCount < query.limit; i -= 100) {
+      const endBlock = Math.max(startBlock, i - 99);
+
+      try {
+        await this.rateLimiter.waitIfNeeded();
+
+        // Get blocks one by one to avoid overwhelming the API
+        for (let blockNum = i; blockNum >= endBlock && transactionCount < query.limit; blockNum--) {
+          try {
+            const block = await provider.getBlock(blockNum, true);
+            if (!block) continue;
+
+            for (const transaction of block.prefetchedTransactions) {
+              if (transaction.from?.toLowerCase() === lowerAddress ||
+                  transaction.to?.toLowerCase() === lowerAddress) {
+
+                transactions.push({
+                  hash: transaction.hash,
+                  from: transaction.from,
+                  to: transaction.to,
+                  value: transaction.value.toString(),
+                  gasPrice: (transaction.gasPrice || 0n).toString(),
+                  gasUsed: '0', // Skip receipt fetching to reduce API calls
+                  timestamp: block.timestamp,
+                  blockNumber: transaction.blockNumber || blockNum,
+                  input: transaction.data
+                });
+                transactionCount++;
+
+                if (transactionCount >= query.limit) break;
+              }
+            }
+          } catch (blockError) {
+            console.warn(`Error fetching block ${blockNum}:`, blockError);
+            continue;
+          }
+        }
+      } catch (error) {
+        console.warn(`Error scanning blocks ${endBlock}-${i}:`, error);
+        continue;
+      }
+    }
+
+    console.log(`RPC scan: Found ${transactions.length} transactions for address ${address}`);
+    return transactions.sort((a, b) =>
+      query.sort === 'asc' ? a.timestamp - b.timestamp : b.timestamp - a.timestamp
+    );
+  }
+
+  async getBalance(address: string): Promise<bigint> {
+    const provider = await this.getProvider();
+    return provider.getBalance(address);
+  }
+
+  async getTokenBalance(tokenAddress: string, holder: string): Promise<bigint> {
+    const provider = await this.getProvider();
+    const contract = new ethers.Contract(
+      tokenAddress,
+      ['function balanceOf(address) view returns (uint256)'],
+      provider
+    );
+    return contract.balanceOf(holder);
+  }
+
+  async getTokenMetadata(tokenAddress: string): Promise<TokenMetadata | null> {
+    const cacheKey = `rpc_token_${tokenAddress.toLowerCase()}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const provider = await this.getProvider();
+      const contract = new ethers.Contract(
+        tokenAddress,
+        ['function symbol() view returns (string)', 'function decimals() view returns (uint8)'],
+        provider
+      );
+
+      const [symbol, decimals] = await Promise.all([contract.symbol(), contract.decimals()]);
+      const metadata: TokenMetadata = { symbol, decimals: Number(decimals) };
+
+      this.cache.set(cacheKey, metadata, 24 * 60 * 60 * 1000); // Token metadata rarely changes
+      return metadata;
+    } catch (error) {
+      console.warn(`Could not read token metadata for ${tokenAddress}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * A plain node cannot list internal transactions by address without an indexer
+   */
+  async getInternalTransactions(): Promise<ChainInternalCall[]> {
+    return [];
+  }
+
+  /**
+   * A plain node has no token transfer index; Transfer logs are queried instead
+   */
+  async getTokenTransfers(): Promise<ChainLog[] | null> {
+    return null;
+  }
+
+  /**
+   * Trace a transaction with the callTracer, when the node exposes the debug namespace
+   */
+  async traceTransaction(hash: string): Promise<ChainTraceCall[] | null> {
+    if (!this.tracingSupported) {
+      return null;
+    }
+
+    const cacheKey = `rpc_trace_${hash}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const provider = await this.getProvider();
+
+    let trace: any;
+    try {
+      trace = await provider.send('debug_traceTransaction', [hash, { tracer: 'callTracer' }]);
+    } catch (error) {
+      console.warn('debug_traceTransaction not supported by node, disabling tracing:', error);
+      this.tracingSupported = false;
+      return null;
+    }
+
+    const calls: ChainTraceCall[] = [];
+    const flatten = (frame: any, depth: number) => {
+      for (const child of frame.calls || []) {
+        calls.push({
+          from: child.from,
+          to: child.to || null,
+          value: child.value ? BigInt(child.value).toString() : '0',
+          type: (child.type || 'CALL').toLowerCase(),
+          depth,
+          isError: child.error !== undefined
+        });
+        flatten(child, depth + 1);
+      }
+    };
+    flatten(trace || {}, 1);
+
+    this.cache.set(cacheKey, calls, 24 * 60 * 60 * 1000); // Traces never change
+    return calls;
+  }
+
+  async getLogs(filter: LogFilter): Promise<ChainLog[]> {
+    const provider = await this.getProvider();
+    const toBlock = filter.toBlock ?? await provider.getBlockNumber();
+    const logs: ethers.Log[] = [];
+
+    for (let fromBlock = filter.fromBlock ?? 0; fromBlock <= toBlock; fromBlock += MAX_LOG_BLOCK_RANGE) {
+      logs.push(...await this.getLogsInRange(provider, filter, fromBlock, Math.min(toBlock, fromBlock + MAX_LOG_BLOCK_RANGE - 1)));
+    }
+
+    return logs.map(log => ({
+      address: log.address,
+      topics: [...log.topics],
+      data: log.data,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index
+    }));
+  }
+
+  /**
+   * Query logs in a block range, halving the range while the node rejects it for returning
+   * too many results
+   */
+  private async getLogsInRange(
+    provider: ethers.JsonRpcProvider,
+    filter: LogFilter,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<ethers.Log[]> {
+    await this.rateLimiter.waitIfNeeded();
+
+    try {
+      return await provider.getLogs({ address: filter.address, topics: filter.topics, fromBlock, toBlock });
+    } catch (error) {
+      if (toBlock - fromBlock < MIN_LOG_BLOCK_RANGE) {
+        throw error;
+      }
+
+      const middle = Math.floor((fromBlock + toBlock) / 2);
+      return [
+        ...await this.getLogsInRange(provider, filter, fromBlock, middle),
+        ...await this.getLogsInRange(provider, filter, middle + 1, toBlock)
+      ];
+    }
+  }
+
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cacheKey = `rpc_block_ts_${blockNumber}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const provider = await this.getProvider();
+    const block = await provider.getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+
+    this.cache.set(cacheKey, block.timestamp, 24 * 60 * 60 * 1000); // Block timestamps never change
+    return block.timestamp;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    const provider = await this.getProvider();
+    return provider.getBlockNumber();
+  }
+
+  async getNetwork(): Promise<ChainNetwork> {
+    const provider = await this.getProvider();
+    const network = await provider.getNetwork();
+    return {
+      name: network.name,
+      chainId: Number(network.chainId)
+    };
+  }
+}
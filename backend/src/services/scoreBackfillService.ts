@@ -0,0 +1,321 @@
+import { blockchainService, UserMetrics, TransactionData } from './blockchainService';
+import { ScoreCalculator, CreditScore } from './scoreCalculator';
+import { DatabaseService, EnhancedScoreHistoryEntry } from './databaseService';
+import { CustomError, createError } from '../middleware/errorHandler';
+
+/**
+ * Score Backfill Service
+ * Reconstructs what a wallet's score was at a past date or block by replaying its indexed
+ * transaction history up to that point and scoring the metrics it yields with the active model.
+ *
+ * Replay only sees what transactions record: volume, count, account age, DeFi protocols and
+ * staking deposits. Balances read from contracts (Lido stETH), token transfers and lending
+ * positions are not reconstructed, so a replayed score can differ from the one calculated live.
+ *
+ * A backfill writes the replayed score at each checkpoint since the wallet's first transaction to
+ * enhanced_score_history, flagged as backfilled, so forecasting has history to fit a trend to.
+ * Running it again rewrites backfilled checkpoints whose replayed score has changed, for instance
+ * once more of the wallet's history has been indexed.
+ */
+
+export type BackfillInterval = 'MONTHLY' | 'WEEKLY';
+
+export const BACKFILL_INTERVALS: BackfillInterval[] = ['MONTHLY', 'WEEKLY'];
+
+export interface BackfillOptions {
+  interval?: BackfillInterval; // calendar checkpoints, MONTHLY by default
+  blockInterval?: number; // checkpoint every this many blocks instead
+}
+
+export interface HistoricalScore {
+  address: string;
+  asOf: number; // timestamp the score is reconstructed at
+  blockNumber: number | null; // block the score is reconstructed at, when asked for by block
+  creditScore: CreditScore;
+  metrics: UserMetrics;
+  transactionsReplayed: number;
+}
+
+export interface BackfillResult {
+  address: string;
+  interval: BackfillInterval | 'BLOCKS';
+  checkpoints: number;
+  written: number;
+  updated: number; // backfilled before, rewritten because the replayed score changed
+  skipped: number; // already backfilled with the same score, or too little history to score yet
+  firstCheckpoint: number | null;
+  lastCheckpoint: number | null;
+}
+
+interface Checkpoint {
+  timestamp: number;
+  blockNumber: number | null;
+}
+
+interface ReplayHistory {
+  transactions: TransactionData[];
+  indexedThrough: Checkpoint | null; // last indexed block while later transactions remain, null once fully indexed
+}
+
+// Version of enhanced_score_history rows written by backfills
+const BACKFILL_VERSION = 'backfill-1.0';
+
+// Most recent checkpoints kept when a wallet's history spans more
+const MAX_CHECKPOINTS = 120;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export class ScoreBackfillService {
+
+  /**
+   * Metrics of an address as of a timestamp, from the transactions made up to then.
+   * With a block number, transactions after that block are left out as well.
+   */
+  static reconstructMetrics(
+    address: string,
+    transactions: TransactionData[],
+    asOf: number,
+    blockNumber?: number
+  ): UserMetrics {
+    const replayed = transactions
+      .filter(tx => tx.timestamp <= asOf && (blockNumber === undefined || tx.blockNumber <= blockNumber))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    if (replayed.length === 0) {
+      return {
+        totalTransactions: 0,
+        totalVolume: '0',
+        avgTransactionValue: '0',
+        stakingBalance: '0',
+        defiProtocolsUsed: [],
+        accountAge: 0,
+        firstTransactionDate: 0,
+        lastTransactionDate: 0
+      };
+    }
+
+    const totalVolume = replayed.reduce((sum, tx) => sum + parseFloat(tx.value), 0);
+    const stakingBalance = replayed
+      .filter(tx => tx.isStaking && tx.from.toLowerCase() === address.toLowerCase())
+      .reduce((sum, tx) => sum + parseFloat(tx.value), 0);
+    const defiProtocolsUsed = [...new Set(
+      replayed
+        .filter(tx => tx.isDeFi && tx.protocolName !== undefined)
+        .map(tx => tx.protocolName as string)
+    )];
+
+    const firstTransactionDate = replayed[0].timestamp;
+    const accountAge = Math.floor((asOf - firstTransactionDate) / DAY_SECONDS);
+
+    return {
+      totalTransactions: replayed.length,
+      totalVolume: totalVolume.toString(),
+      avgTransactionValue: (totalVolume / replayed.length).toString(),
+      stakingBalance: stakingBalance.toString(),
+      defiProtocolsUsed,
+      accountAge: Math.max(0, Math.min(accountAge, 3650)),
+      firstTransactionDate,
+      lastTransactionDate: replayed[replayed.length - 1].timestamp
+    };
+  }
+
+  /**
+   * Reconstruct an address's score at a past timestamp, or at a block when one is given
+   */
+  static async scoreAt(address: string, point: { timestamp?: number; blockNumber?: number }): Promise<HistoricalScore> {
+    try {
+      const checkpoint = point.blockNumber !== undefined
+        ? { timestamp: await blockchainService.getDataSource().getBlockTimestamp(point.blockNumber), blockNumber: point.blockNumber }
+        : { timestamp: point.timestamp ?? Math.floor(Date.now() / 1000), blockNumber: null };
+
+      const { transactions, indexedThrough } = await this.getReplayHistory(address);
+      if (!this.isIndexed(checkpoint, indexedThrough)) {
+        throw createError(
+          `Transactions of ${address} are only indexed through block ${indexedThrough!.blockNumber} so far`,
+          409,
+          'HISTORY_NOT_INDEXED'
+        );
+      }
+      return this.replay(address, transactions, checkpoint);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new Error(`Failed to reconstruct historical score: ${error}`);
+    }
+  }
+
+  /**
+   * Write replayed scores at each checkpoint of an address's indexed history to enhanced_score_history.
+   * Checkpoints already backfilled are rewritten when their replayed score changed, and ones with too
+   * little history to score are skipped.
+   */
+  static async backfill(address: string, options: BackfillOptions = {}): Promise<BackfillResult> {
+    try {
+      const { transactions, indexedThrough } = await this.getReplayHistory(address);
+      const checkpoints = (options.blockInterval
+        ? await this.getBlockCheckpoints(transactions, options.blockInterval)
+        : this.getCalendarCheckpoints(transactions, options.interval || 'MONTHLY'))
+        .filter(checkpoint => this.isIndexed(checkpoint, indexedThrough));
+
+      const existing = await DatabaseService.getBackfilledScoreHistory(address);
+      const backfilledAt = new Map(existing.map(entry => [entry.timestamp, entry]));
+
+      let written = 0;
+      let updated = 0;
+      for (const checkpoint of checkpoints) {
+        const started = Date.now();
+        const historical = this.replay(address, transactions, checkpoint);
+        if (!ScoreCalculator.validateMetricsForScoring(historical.metrics).isValid) {
+          continue;
+        }
+
+        const { creditScore } = historical;
+        const entry = {
+          address,
+          score: creditScore.score,
+          confidence: creditScore.confidence,
+          timestamp: checkpoint.timestamp,
+          version: BACKFILL_VERSION,
+          modelVersion: creditScore.modelVersion,
+          volumeScore: creditScore.breakdown.transactionVolume,
+          frequencyScore: creditScore.breakdown.transactionFrequency,
+          stakingScore: creditScore.breakdown.stakingActivity,
+          defiScore: creditScore.breakdown.defiInteractions,
+          calculationTimeMs: Date.now() - started,
+          backfilled: true
+        };
+
+        const previous = backfilledAt.get(checkpoint.timestamp);
+        if (!previous) {
+          await DatabaseService.saveEnhancedScoreHistory(entry);
+          written++;
+        } else if (this.scoreChanged(previous, entry)) {
+          await DatabaseService.updateBackfilledScoreHistory(previous.id, entry);
+          updated++;
+        }
+      }
+
+      return {
+        address,
+        interval: options.blockInterval ? 'BLOCKS' : options.interval || 'MONTHLY',
+        checkpoints: checkpoints.length,
+        written,
+        updated,
+        skipped: checkpoints.length - written - updated,
+        firstCheckpoint: checkpoints.length > 0 ? checkpoints[0].timestamp : null,
+        lastCheckpoint: checkpoints.length > 0 ? checkpoints[checkpoints.length - 1].timestamp : null
+      };
+    } catch (error) {
+      throw new Error(`Failed to backfill score history: ${error}`);
+    }
+  }
+
+  /**
+   * Full indexed history of an address, and how far it is indexed while later transactions remain
+   */
+  private static async getReplayHistory(address: string): Promise<ReplayHistory> {
+    const history = await blockchainService.getIndexedTransactionHistory(address);
+    if (history.complete) {
+      return { transactions: history.transactions, indexedThrough: null };
+    }
+
+    const timestamp = await blockchainService.getDataSource().getBlockTimestamp(history.lastBlock);
+    return {
+      transactions: history.transactions,
+      indexedThrough: { timestamp, blockNumber: history.lastBlock }
+    };
+  }
+
+  /**
+   * Whether every transaction up to a checkpoint is indexed, so replaying it sees the full history
+   */
+  private static isIndexed(checkpoint: Checkpoint, indexedThrough: Checkpoint | null): boolean {
+    if (!indexedThrough) {
+      return true;
+    }
+    return checkpoint.blockNumber !== null
+      ? checkpoint.blockNumber <= indexedThrough.blockNumber!
+      : checkpoint.timestamp <= indexedThrough.timestamp;
+  }
+
+  private static scoreChanged(previous: EnhancedScoreHistoryEntry, entry: Omit<EnhancedScoreHistoryEntry, 'id'>): boolean {
+    return previous.score !== entry.score ||
+      previous.confidence !== entry.confidence ||
+      previous.modelVersion !== entry.modelVersion ||
+      previous.volumeScore !== entry.volumeScore ||
+      previous.frequencyScore !== entry.frequencyScore ||
+      previous.stakingScore !== entry.stakingScore ||
+      previous.defiScore !== entry.defiScore;
+  }
+
+  private static replay(address: string, transactions: TransactionData[], checkpoint: Checkpoint): HistoricalScore {
+    const metrics = this.reconstructMetrics(address, transactions, checkpoint.timestamp, checkpoint.blockNumber ?? undefined);
+    const creditScore = ScoreCalculator.calculateCreditScore(address, metrics);
+
+    return {
+      address,
+      asOf: checkpoint.timestamp,
+      blockNumber: checkpoint.blockNumber,
+      creditScore: { ...creditScore, timestamp: checkpoint.timestamp },
+      metrics,
+      transactionsReplayed: metrics.totalTransactions
+    };
+  }
+
+  /**
+   * Last second of each month, or every 7 days, from the first transaction until now
+   */
+  private static getCalendarCheckpoints(transactions: TransactionData[], interval: BackfillInterval): Checkpoint[] {
+    if (transactions.length === 0) {
+      return [];
+    }
+
+    const first = transactions.reduce((min, tx) => Math.min(min, tx.timestamp), Infinity);
+    const now = Math.floor(Date.now() / 1000);
+    const checkpoints: Checkpoint[] = [];
+
+    if (interval === 'WEEKLY') {
+      for (let timestamp = first + 7 * DAY_SECONDS; timestamp < now; timestamp += 7 * DAY_SECONDS) {
+        checkpoints.push({ timestamp, blockNumber: null });
+      }
+    } else {
+      const start = new Date(first * 1000);
+      for (let month = start.getUTCMonth() + 1; ; month++) {
+        const timestamp = Date.UTC(start.getUTCFullYear(), month, 1) / 1000 - 1;
+        if (timestamp >= now) {
+          break;
+        }
+        checkpoints.push({ timestamp, blockNumber: null });
+      }
+    }
+
+    return checkpoints.slice(-MAX_CHECKPOINTS);
+  }
+
+  /**
+   * Every blockInterval blocks from the first transaction's block to the latest block
+   */
+  private static async getBlockCheckpoints(transactions: TransactionData[], blockInterval: number): Promise<Checkpoint[]> {
+    if (transactions.length === 0) {
+      return [];
+    }
+
+    const dataSource = blockchainService.getDataSource();
+    const firstBlock = transactions.reduce((min, tx) => Math.min(min, tx.blockNumber), Infinity);
+    const latestBlock = await dataSource.getBlockNumber();
+
+    // Only the most recent checkpoints are kept, so the walk starts at the earliest of those
+    const lastOffset = Math.floor((latestBlock - firstBlock) / blockInterval);
+    const firstOffset = Math.max(1, lastOffset - MAX_CHECKPOINTS + 1);
+
+    const checkpoints: Checkpoint[] = [];
+    for (let offset = firstOffset; offset <= lastOffset; offset++) {
+      const blockNumber = firstBlock + offset * blockInterval;
+      checkpoints.push({ timestamp: await dataSource.getBlockTimestamp(blockNumber), blockNumber });
+    }
+    return checkpoints;
+  }
+}
+
+export default ScoreBackfillService;
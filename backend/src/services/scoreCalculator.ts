@@ -1,15 +1,20 @@
 import { UserMetrics } from './blockchainService';
+import { LendingSummary } from './lendingHistory';
+import { ScoringModel, ScoringModelRegistry, ScoringParams } from './scoringModels';
 
 export interface CreditScore {
   address: string;
+  chainId?: number; // mainnet when absent, AGGREGATE_CHAIN_ID for cross-chain scores
   score: number; // 0-1000
   confidence: number; // 0-100
   timestamp: number;
+  modelVersion: string; // scoring model the score was calculated under
   breakdown: {
     transactionVolume: number;
     transactionFrequency: number;
     stakingActivity: number;
     defiInteractions: number;
+    lendingHistory?: number; // 0 and unweighted for wallets that never borrowed
   };
 }
 
@@ -23,6 +28,7 @@ export interface RiskAssessment {
     inactivityRisk: boolean;
     newAccountRisk: boolean;
     unusualPatterns: boolean;
+    liquidationRisk: boolean;
   };
 }
 
@@ -37,7 +43,7 @@ export interface BehavioralInsights {
 
 export interface PersonalizedRecommendations {
   priority: 'HIGH' | 'MEDIUM' | 'LOW';
-  category: 'VOLUME' | 'FREQUENCY' | 'STAKING' | 'DEFI' | 'RISK';
+  category: 'VOLUME' | 'FREQUENCY' | 'STAKING' | 'DEFI' | 'LENDING' | 'RISK';
   title: string;
   description: string;
   impact: string;
@@ -62,6 +68,10 @@ export interface ScoreBreakdown {
     weightedScore: number;
     details: {
       totalVolume: string;
+      totalVolumeUsd?: string;
+      unavailableMetrics?: string[]; // metrics that could not be priced, omitted or counted as zero
+      tokenVolumeEth?: string; // ETH-equivalent ERC-20 volume included in the score
+      tokenTransferCount?: number;
       volumeScore: number;
       volumeCategory: string;
       gasEfficiency: number;
@@ -87,6 +97,7 @@ export interface ScoreBreakdown {
     weightedScore: number;
     details: {
       stakingBalance: string;
+      stakingBalanceUsd?: string;
       stakingScore: number;
       stakingRatio: number;
       stakingProtocols: string[];
@@ -107,6 +118,23 @@ export interface ScoreBreakdown {
     };
     insights: DetailedScoreInsights;
   };
+  lendingHistory?: {
+    score: number;
+    weight: number; // 0 when the wallet never borrowed
+    weightedScore: number;
+    details: {
+      protocols: string[];
+      borrowCount: number;
+      repayCount: number;
+      liquidationCount: number;
+      repaymentRatio: number; // percentage
+      maxLtv: number; // percentage
+      avgTimeToRepay: number | null; // days
+      totalBorrowedEth: string;
+      outstandingDebtEth: string;
+    };
+    insights: DetailedScoreInsights;
+  };
   riskAssessment: RiskAssessment;
   behavioralInsights: BehavioralInsights;
   recommendations: PersonalizedRecommendations[];
@@ -117,59 +145,50 @@ export interface ScoreBreakdown {
  * Implements the scoring algorithm based on on-chain metrics
  */
 export class ScoreCalculator {
-  // Scoring weights (must sum to 1.0)
-  private static readonly WEIGHTS = {
-    TRANSACTION_VOLUME: 0.30,    // 30%
-    TRANSACTION_FREQUENCY: 0.25, // 25%
-    STAKING_ACTIVITY: 0.25,      // 25%
-    DEFI_INTERACTIONS: 0.20      // 20%
-  };
+  /**
+   * Component weights for a wallet under a model, including lending history only
+   * when it has borrowed. The other weights are scaled down to make room, so
+   * wallets that never borrowed are scored on the model's base weights.
+   */
+  private static getWeights(metrics: UserMetrics, model: ScoringModel) {
+    const lendingWeight = this.hasBorrowed(metrics.lendingHistory) ? model.lendingWeight : 0;
+    const scale = 1 - lendingWeight;
 
-  // Scoring parameters for normalization
-  private static readonly SCORING_PARAMS = {
-    // Volume scoring (logarithmic scale)
-    VOLUME: {
-      MIN_ETH: 0.001,    // Minimum ETH for scoring (very inclusive - 0.001 ETH)
-      MAX_ETH: 10000,    // ETH amount that gives max score
-      LOG_BASE: 10       // Logarithmic base for scaling
-    },
-
-    // Frequency scoring
-    FREQUENCY: {
-      MIN_TRANSACTIONS: 1,     // Minimum transactions
-      MAX_TRANSACTIONS: 1000,  // Transactions that give max score
-      MIN_ACCOUNT_AGE: 1,      // Minimum account age in days
-      OPTIMAL_ACCOUNT_AGE: 365 // Account age that gives max score
-    },
-
-    // Staking scoring
-    STAKING: {
-      MIN_STAKE: 0.01,   // Minimum stake in ETH
-      MAX_STAKE: 100,    // Stake amount that gives max score
-    },
-
-    // DeFi scoring
-    DEFI: {
-      MIN_PROTOCOLS: 1,  // Minimum protocols used
-      MAX_PROTOCOLS: 20  // Number of protocols that gives max score
-    }
-  };
+    return {
+      TRANSACTION_VOLUME: model.weights.TRANSACTION_VOLUME * scale,
+      TRANSACTION_FREQUENCY: model.weights.TRANSACTION_FREQUENCY * scale,
+      STAKING_ACTIVITY: model.weights.STAKING_ACTIVITY * scale,
+      DEFI_INTERACTIONS: model.weights.DEFI_INTERACTIONS * scale,
+      LENDING_HISTORY: lendingWeight
+    };
+  }
+
+  private static hasBorrowed(lending?: LendingSummary): lending is LendingSummary {
+    return lending !== undefined && lending.borrowCount > 0;
+  }
+
+  /**
+   * Combined ETH and ETH-equivalent ERC-20 volume used for scoring
+   */
+  private static getEffectiveVolume(metrics: UserMetrics): number {
+    return (parseFloat(metrics.totalVolume) || 0) + (parseFloat(metrics.tokenVolumeEth || '0') || 0);
+  }
 
   /**
    * Calculate transaction volume score (0-1000)
    * Uses logarithmic scaling to handle wide range of transaction volumes
    */
-  private static calculateVolumeScore(totalVolume: string): number {
+  private static calculateVolumeScore(totalVolume: string, params: ScoringParams['VOLUME']): number {
     const volume = parseFloat(totalVolume);
 
-    if (volume < this.SCORING_PARAMS.VOLUME.MIN_ETH) {
+    if (volume < params.MIN_ETH) {
       return 0;
     }
 
     // Use logarithmic scale for volume scoring
-    const logMin = Math.log(this.SCORING_PARAMS.VOLUME.MIN_ETH) / Math.log(this.SCORING_PARAMS.VOLUME.LOG_BASE);
-    const logMax = Math.log(this.SCORING_PARAMS.VOLUME.MAX_ETH) / Math.log(this.SCORING_PARAMS.VOLUME.LOG_BASE);
-    const logVolume = Math.log(volume) / Math.log(this.SCORING_PARAMS.VOLUME.LOG_BASE);
+    const logMin = Math.log(params.MIN_ETH) / Math.log(params.LOG_BASE);
+    const logMax = Math.log(params.MAX_ETH) / Math.log(params.LOG_BASE);
+    const logVolume = Math.log(volume) / Math.log(params.LOG_BASE);
 
     // Normalize to 0-1000 scale
     const normalizedScore = Math.min(1, (logVolume - logMin) / (logMax - logMin));
@@ -180,26 +199,26 @@ export class ScoreCalculator {
    * Calculate transaction frequency score (0-1000)
    * Based on transaction count and account age consistency
    */
-  private static calculateFrequencyScore(totalTransactions: number, accountAge: number): number {
-    if (totalTransactions < this.SCORING_PARAMS.FREQUENCY.MIN_TRANSACTIONS || accountAge < this.SCORING_PARAMS.FREQUENCY.MIN_ACCOUNT_AGE) {
+  private static calculateFrequencyScore(totalTransactions: number, accountAge: number, params: ScoringParams['FREQUENCY']): number {
+    if (totalTransactions < params.MIN_TRANSACTIONS || accountAge < params.MIN_ACCOUNT_AGE) {
       return 0;
     }
 
     // Calculate transaction frequency (transactions per day)
     const transactionsPerDay = totalTransactions / Math.max(accountAge, 1);
 
-    // Score based on transaction count (0-500 points)
-    const transactionScore = Math.min(500,
-      (totalTransactions / this.SCORING_PARAMS.FREQUENCY.MAX_TRANSACTIONS) * 500
+    // Score based on transaction count
+    const transactionScore = Math.min(params.TRANSACTION_POINTS,
+      (totalTransactions / params.MAX_TRANSACTIONS) * params.TRANSACTION_POINTS
     );
 
-    // Score based on account age and consistency (0-500 points)
-    const ageScore = Math.min(500,
-      (accountAge / this.SCORING_PARAMS.FREQUENCY.OPTIMAL_ACCOUNT_AGE) * 300
+    // Score based on account age and consistency
+    const ageScore = Math.min(params.MAX_AGE_POINTS,
+      (accountAge / params.OPTIMAL_ACCOUNT_AGE) * params.AGE_POINTS
     );
 
-    // Bonus for consistent activity (up to 200 points)
-    const consistencyBonus = Math.min(200, transactionsPerDay * 50);
+    // Bonus for consistent activity
+    const consistencyBonus = Math.min(params.CONSISTENCY_POINTS, transactionsPerDay * params.POINTS_PER_DAILY_TRANSACTION);
 
     const totalScore = transactionScore + ageScore + consistencyBonus;
     return Math.round(Math.min(1000, totalScore));
@@ -209,64 +228,95 @@ export class ScoreCalculator {
    * Calculate staking activity score (0-1000)
    * Based on amount staked relative to account activity
    */
-  private static calculateStakingScore(stakingBalance: string): number {
+  private static calculateStakingScore(stakingBalance: string, params: ScoringParams['STAKING']): number {
     const staked = parseFloat(stakingBalance);
 
-    if (staked < this.SCORING_PARAMS.STAKING.MIN_STAKE) {
+    if (staked < params.MIN_STAKE) {
       return 0;
     }
 
     // Linear scaling for staking amount
-    const stakingRatio = Math.min(1, staked / this.SCORING_PARAMS.STAKING.MAX_STAKE);
+    const stakingRatio = Math.min(1, staked / params.MAX_STAKE);
 
-    // Base score from staking amount (0-800 points)
-    const baseScore = stakingRatio * 800;
+    // Base score from staking amount, plus a bonus for any staking activity
+    const baseScore = stakingRatio * params.BASE_POINTS;
 
-    // Bonus for any staking activity (200 points)
-    const stakingBonus = 200;
-
-    return Math.round(baseScore + stakingBonus);
+    return Math.round(baseScore + params.PARTICIPATION_POINTS);
   }
 
   /**
    * Calculate DeFi interactions score (0-1000)
    * Based on number of unique protocols used
    */
-  private static calculateDeFiScore(protocolsUsed: string[]): number {
+  private static calculateDeFiScore(protocolsUsed: string[], params: ScoringParams['DEFI']): number {
     const protocolCount = protocolsUsed.length;
 
-    if (protocolCount < this.SCORING_PARAMS.DEFI.MIN_PROTOCOLS) {
+    if (protocolCount < params.MIN_PROTOCOLS) {
       return 0;
     }
 
     // Linear scaling for protocol diversity
-    const protocolRatio = Math.min(1, protocolCount / this.SCORING_PARAMS.DEFI.MAX_PROTOCOLS);
+    const protocolRatio = Math.min(1, protocolCount / params.MAX_PROTOCOLS);
+
+    // Base score from protocol count, plus a bonus for DeFi participation
+    const baseScore = protocolRatio * params.BASE_POINTS;
+
+    return Math.round(baseScore + params.PARTICIPATION_POINTS);
+  }
+
+  /**
+   * Calculate lending history score (0-1000)
+   * Based on repayment ratio, liquidations, highest LTV and time to repay
+   */
+  private static calculateLendingScore(lending: LendingSummary | undefined, params: ScoringParams['LENDING']): number {
+    if (!this.hasBorrowed(lending)) {
+      return 0;
+    }
 
-    // Base score from protocol count (0-700 points)
-    const baseScore = protocolRatio * 700;
+    const repaymentScore = Math.min(1, lending.repaymentRatio) * params.REPAYMENT_POINTS;
+    const liquidationScore = Math.max(0, params.LIQUIDATION_FREE_POINTS - lending.liquidationCount * params.LIQUIDATION_PENALTY);
+    const ltvScore = params.LTV_BANDS.find(band => lending.maxLtv <= band.maxLtv)?.points ?? 0;
 
-    // Bonus for DeFi participation (300 points)
-    const defiBonus = 300;
+    // Nothing repaid in full yet earns no repayment-time points
+    const repayTimeScore = lending.avgTimeToRepay === null
+      ? 0
+      : params.REPAY_TIME_BANDS.find(band => lending.avgTimeToRepay! <= band.maxDays)?.points ?? params.SLOW_REPAY_POINTS;
 
-    return Math.round(baseScore + defiBonus);
+    return Math.round(Math.min(1000, repaymentScore + liquidationScore + ltvScore + repayTimeScore));
+  }
+
+  /**
+   * Score each component under a model
+   */
+  private static calculateComponentScores(metrics: UserMetrics, model: ScoringModel) {
+    return {
+      volumeScore: this.calculateVolumeScore(this.getEffectiveVolume(metrics).toString(), model.params.VOLUME),
+      frequencyScore: this.calculateFrequencyScore(metrics.totalTransactions, metrics.accountAge, model.params.FREQUENCY),
+      stakingScore: this.calculateStakingScore(metrics.stakingBalance, model.params.STAKING),
+      defiScore: this.calculateDeFiScore(metrics.defiProtocolsUsed, model.params.DEFI),
+      lendingScore: this.calculateLendingScore(metrics.lendingHistory, model.params.LENDING)
+    };
   }
 
   /**
    * Calculate the overall credit score with weighted components
    */
-  public static calculateCreditScore(address: string, metrics: UserMetrics): CreditScore {
+  public static calculateCreditScore(
+    address: string,
+    metrics: UserMetrics,
+    model: ScoringModel = ScoringModelRegistry.getActiveModel()
+  ): CreditScore {
     // Calculate individual component scores
-    const volumeScore = this.calculateVolumeScore(metrics.totalVolume);
-    const frequencyScore = this.calculateFrequencyScore(metrics.totalTransactions, metrics.accountAge);
-    const stakingScore = this.calculateStakingScore(metrics.stakingBalance);
-    const defiScore = this.calculateDeFiScore(metrics.defiProtocolsUsed);
+    const { volumeScore, frequencyScore, stakingScore, defiScore, lendingScore } = this.calculateComponentScores(metrics, model);
+    const weights = this.getWeights(metrics, model);
 
     // Calculate weighted final score
     const finalScore = Math.round(
-      (volumeScore * this.WEIGHTS.TRANSACTION_VOLUME) +
-      (frequencyScore * this.WEIGHTS.TRANSACTION_FREQUENCY) +
-      (stakingScore * this.WEIGHTS.STAKING_ACTIVITY) +
-      (defiScore * this.WEIGHTS.DEFI_INTERACTIONS)
+      (volumeScore * weights.TRANSACTION_VOLUME) +
+      (frequencyScore * weights.TRANSACTION_FREQUENCY) +
+      (stakingScore * weights.STAKING_ACTIVITY) +
+      (defiScore * weights.DEFI_INTERACTIONS) +
+      (lendingScore * weights.LENDING_HISTORY)
     );
 
     // Ensure score is within bounds
@@ -277,14 +327,17 @@ export class ScoreCalculator {
 
     return {
       address,
+      ...(metrics.chainId !== undefined && { chainId: metrics.chainId }),
       score: boundedScore,
       confidence,
       timestamp: Math.floor(Date.now() / 1000),
+      modelVersion: model.version,
       breakdown: {
         transactionVolume: volumeScore,
         transactionFrequency: frequencyScore,
         stakingActivity: stakingScore,
-        defiInteractions: defiScore
+        defiInteractions: defiScore,
+        lendingHistory: lendingScore
       }
     };
   }
@@ -292,12 +345,15 @@ export class ScoreCalculator {
   /**
    * Generate detailed score breakdown for transparency
    */
-  public static generateScoreBreakdown(address: string, metrics: UserMetrics): ScoreBreakdown {
+  public static generateScoreBreakdown(
+    address: string,
+    metrics: UserMetrics,
+    model: ScoringModel = ScoringModelRegistry.getActiveModel()
+  ): ScoreBreakdown {
     // Calculate individual component scores
-    const volumeScore = this.calculateVolumeScore(metrics.totalVolume);
-    const frequencyScore = this.calculateFrequencyScore(metrics.totalTransactions, metrics.accountAge);
-    const stakingScore = this.calculateStakingScore(metrics.stakingBalance);
-    const defiScore = this.calculateDeFiScore(metrics.defiProtocolsUsed);
+    const { volumeScore, frequencyScore, stakingScore, defiScore, lendingScore } = this.calculateComponentScores(metrics, model);
+    const weights = this.getWeights(metrics, model);
+    const lending = metrics.lendingHistory;
 
     // Calculate additional metrics
     const volume = parseFloat(metrics.totalVolume) || 0;
@@ -322,21 +378,27 @@ export class ScoreCalculator {
     const behavioralInsights = this.generateBehavioralInsights(metrics);
 
     // Generate recommendations
-    const recommendations = this.generateRecommendations(metrics, volumeScore, frequencyScore, stakingScore, defiScore);
+    const recommendations = this.generateRecommendations(metrics, model, volumeScore, frequencyScore, stakingScore, defiScore, lendingScore);
 
     return {
       transactionVolume: {
         score: volumeScore,
-        weight: this.WEIGHTS.TRANSACTION_VOLUME,
-        weightedScore: Math.round(volumeScore * this.WEIGHTS.TRANSACTION_VOLUME),
+        weight: weights.TRANSACTION_VOLUME,
+        weightedScore: Math.round(volumeScore * weights.TRANSACTION_VOLUME),
         details: {
           totalVolume: metrics.totalVolume,
+          totalVolumeUsd: metrics.totalVolumeUsd,
+          ...(metrics.unavailableMetrics && { unavailableMetrics: metrics.unavailableMetrics }),
+          tokenVolumeEth: metrics.tokenVolumeEth,
+          tokenTransferCount: metrics.tokenTransferCount,
           volumeScore: volumeScore,
           volumeCategory: getVolumeCategory(volumeScore),
           gasEfficiency: gasEfficiency
         },
         insights: {
-          explanation: `Transaction volume score based on ${metrics.totalVolume} ETH total volume`,
+          explanation: parseFloat(metrics.tokenVolumeEth || '0') > 0
+            ? `Transaction volume score based on ${metrics.totalVolume} ETH plus ${metrics.tokenVolumeEth} ETH-equivalent token volume`
+            : `Transaction volume score based on ${metrics.totalVolume} ETH total volume`,
           strengths: volumeScore >= 600 ? ['Strong transaction volume', 'Active on-chain presence'] : [],
           weaknesses: volumeScore < 600 ? ['Limited transaction volume', 'Consider increasing on-chain activity'] : [],
           improvementPotential: Math.max(0, 1000 - volumeScore),
@@ -348,8 +410,8 @@ export class ScoreCalculator {
       },
       transactionFrequency: {
         score: frequencyScore,
-        weight: this.WEIGHTS.TRANSACTION_FREQUENCY,
-        weightedScore: Math.round(frequencyScore * this.WEIGHTS.TRANSACTION_FREQUENCY),
+        weight: weights.TRANSACTION_FREQUENCY,
+        weightedScore: Math.round(frequencyScore * weights.TRANSACTION_FREQUENCY),
         details: {
           totalTransactions: metrics.totalTransactions,
           accountAge: metrics.accountAge,
@@ -370,10 +432,11 @@ export class ScoreCalculator {
       },
       stakingActivity: {
         score: stakingScore,
-        weight: this.WEIGHTS.STAKING_ACTIVITY,
-        weightedScore: Math.round(stakingScore * this.WEIGHTS.STAKING_ACTIVITY),
+        weight: weights.STAKING_ACTIVITY,
+        weightedScore: Math.round(stakingScore * weights.STAKING_ACTIVITY),
         details: {
           stakingBalance: metrics.stakingBalance,
+          stakingBalanceUsd: metrics.stakingBalanceUsd,
           stakingScore: stakingScore,
           stakingRatio: Math.round(stakingRatio * 10000) / 100, // Convert to percentage
           stakingProtocols: metrics.defiProtocolsUsed.filter(p => p.toLowerCase().includes('stake') || p.toLowerCase().includes('lido')),
@@ -392,8 +455,8 @@ export class ScoreCalculator {
       },
       defiInteractions: {
         score: defiScore,
-        weight: this.WEIGHTS.DEFI_INTERACTIONS,
-        weightedScore: Math.round(defiScore * this.WEIGHTS.DEFI_INTERACTIONS),
+        weight: weights.DEFI_INTERACTIONS,
+        weightedScore: Math.round(defiScore * weights.DEFI_INTERACTIONS),
         details: {
           protocolsUsed: metrics.defiProtocolsUsed.length,
           defiScore: defiScore,
@@ -412,6 +475,40 @@ export class ScoreCalculator {
           }
         }
       },
+      lendingHistory: {
+        score: lendingScore,
+        weight: weights.LENDING_HISTORY,
+        weightedScore: Math.round(lendingScore * weights.LENDING_HISTORY),
+        details: {
+          protocols: lending?.protocols || [],
+          borrowCount: lending?.borrowCount || 0,
+          repayCount: lending?.repayCount || 0,
+          liquidationCount: lending?.liquidationCount || 0,
+          repaymentRatio: Math.round((lending?.repaymentRatio || 0) * 10000) / 100, // Convert to percentage
+          maxLtv: Math.round((lending?.maxLtv || 0) * 10000) / 100, // Convert to percentage
+          avgTimeToRepay: lending?.avgTimeToRepay != null ? Math.round(lending.avgTimeToRepay * 10) / 10 : null,
+          totalBorrowedEth: lending?.totalBorrowedEth || '0',
+          outstandingDebtEth: lending?.outstandingDebtEth || '0'
+        },
+        insights: {
+          explanation: this.hasBorrowed(lending)
+            ? `Lending score based on ${lending.borrowCount} borrows across ${lending.protocols.join(', ')} with ${lending.liquidationCount} liquidations`
+            : 'No borrowing history found, so lending history is not weighted in the score',
+          strengths: [
+            ...(this.hasBorrowed(lending) && lending.repaymentRatio >= 0.9 ? ['Borrowed value repaid in full'] : []),
+            ...(this.hasBorrowed(lending) && lending.liquidationCount === 0 ? ['Never liquidated'] : [])
+          ],
+          weaknesses: [
+            ...(this.hasBorrowed(lending) && lending.liquidationCount > 0 ? [`Liquidated ${lending.liquidationCount} time(s)`] : []),
+            ...(this.hasBorrowed(lending) && lending.maxLtv > 0.8 ? ['Borrowed close to the liquidation threshold'] : [])
+          ],
+          improvementPotential: this.hasBorrowed(lending) ? Math.max(0, 1000 - lendingScore) : 0,
+          benchmarkComparison: {
+            percentile: Math.min(95, lendingScore / 10),
+            category: !this.hasBorrowed(lending) ? 'No Borrowing' : lending.liquidationCount > 0 ? 'Liquidated Borrower' : 'Reliable Borrower'
+          }
+        }
+      },
       riskAssessment,
       behavioralInsights,
       recommendations
@@ -421,7 +518,10 @@ export class ScoreCalculator {
   /**
    * Validate if metrics are sufficient for scoring
    */
-  public static validateMetricsForScoring(metrics: UserMetrics): {
+  public static validateMetricsForScoring(
+    metrics: UserMetrics,
+    model: ScoringModel = ScoringModelRegistry.getActiveModel()
+  ): {
     isValid: boolean;
     reasons: string[];
   } {
@@ -436,9 +536,9 @@ export class ScoreCalculator {
       reasons.push('Account too new (minimum 1 day required)');
     }
 
-    const totalVolume = parseFloat(metrics.totalVolume);
-    if (totalVolume < this.SCORING_PARAMS.VOLUME.MIN_ETH) {
-      reasons.push(`Insufficient transaction volume (minimum ${this.SCORING_PARAMS.VOLUME.MIN_ETH} ETH required, found ${totalVolume} ETH)`);
+    const totalVolume = this.getEffectiveVolume(metrics);
+    if (totalVolume < model.params.VOLUME.MIN_ETH) {
+      reasons.push(`Insufficient transaction volume (minimum ${model.params.VOLUME.MIN_ETH} ETH required, found ${totalVolume} ETH)`);
     }
 
     return {
@@ -469,7 +569,7 @@ export class ScoreCalculator {
     else confidence += 5;
 
     // Volume contribution
-    const volume = parseFloat(metrics.totalVolume) || 0;
+    const volume = this.getEffectiveVolume(metrics);
     if (volume >= 10) confidence += 20;
     else if (volume >= 5) confidence += 15;
     else if (volume >= 1) confidence += 10;
@@ -530,9 +630,10 @@ export class ScoreCalculator {
     const inactivityRisk = metrics.accountAge > 30 && metrics.totalTransactions < 10;
     const newAccountRisk = metrics.accountAge < 30;
     const unusualPatterns = false; // Simplified - would need more complex analysis
+    const liquidationRisk = (metrics.lendingHistory?.liquidationCount || 0) > 0;
 
     // Calculate overall risk level
-    const riskFactors = [concentrationRisk, volatilityRisk, inactivityRisk, newAccountRisk, unusualPatterns];
+    const riskFactors = [concentrationRisk, volatilityRisk, inactivityRisk, newAccountRisk, unusualPatterns, liquidationRisk];
     const riskCount = riskFactors.filter(Boolean).length;
 
     let riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
@@ -544,7 +645,7 @@ export class ScoreCalculator {
       riskLevel,
       riskScore: riskCount * 20, // 0-100 scale
       riskFactors: riskFactors.map((risk, index) => {
-        const factors = ['High concentration risk', 'High volatility exposure', 'Inactivity risk', 'New account risk', 'Unusual patterns'];
+        const factors = ['High concentration risk', 'High volatility exposure', 'Inactivity risk', 'New account risk', 'Unusual patterns', 'Liquidation history'];
         return factors[index];
       }).filter((_, index) => riskFactors[index]),
       flags: {
@@ -552,7 +653,8 @@ export class ScoreCalculator {
         volatilityRisk,
         inactivityRisk,
         newAccountRisk,
-        unusualPatterns
+        unusualPatterns,
+        liquidationRisk
       }
     };
   }
@@ -594,10 +696,12 @@ export class ScoreCalculator {
    */
   private static generateRecommendations(
     metrics: UserMetrics,
+    model: ScoringModel,
     volumeScore: number,
     frequencyScore: number,
     stakingScore: number,
-    defiScore: number
+    defiScore: number,
+    lendingScore: number
   ): PersonalizedRecommendations[] {
     const recommendations: PersonalizedRecommendations[] = [];
 
@@ -608,7 +712,7 @@ export class ScoreCalculator {
         category: 'VOLUME',
         title: 'Increase Transaction Volume',
         description: 'Boost your credit score by increasing your on-chain transaction volume through regular DeFi activities.',
-        impact: `+${Math.round((600 - volumeScore) * 0.3)} points potential`,
+        impact: `+${Math.round((600 - volumeScore) * model.weights.TRANSACTION_VOLUME)} points potential`,
         actionItems: [
           'Make regular swaps on DEXs like Uniswap or SushiSwap',
           'Participate in liquidity provision',
@@ -624,7 +728,7 @@ export class ScoreCalculator {
         category: 'FREQUENCY',
         title: 'Maintain Consistent Activity',
         description: 'Regular on-chain activity demonstrates reliability and improves your credit profile.',
-        impact: `+${Math.round((600 - frequencyScore) * 0.25)} points potential`,
+        impact: `+${Math.round((600 - frequencyScore) * model.weights.TRANSACTION_FREQUENCY)} points potential`,
         actionItems: [
           'Make at least 2-3 transactions per week',
           'Set up recurring DeFi activities',
@@ -640,7 +744,7 @@ export class ScoreCalculator {
         category: 'STAKING',
         title: 'Start Staking Activities',
         description: 'Staking demonstrates long-term commitment and generates passive income.',
-        impact: `+${Math.round((600 - stakingScore) * 0.25)} points potential`,
+        impact: `+${Math.round((600 - stakingScore) * model.weights.STAKING_ACTIVITY)} points potential`,
         actionItems: [
           'Stake ETH through Lido or Rocket Pool',
           'Participate in protocol governance staking',
@@ -656,7 +760,7 @@ export class ScoreCalculator {
         category: 'DEFI',
         title: 'Explore DeFi Protocols',
         description: 'Diversify your DeFi usage to show sophistication and reduce concentration risk.',
-        impact: `+${Math.round((600 - defiScore) * 0.2)} points potential`,
+        impact: `+${Math.round((600 - defiScore) * model.weights.DEFI_INTERACTIONS)} points potential`,
         actionItems: [
           'Try different categories: lending, DEXs, yield farming',
           'Use established protocols like Uniswap, Aave, Compound',
@@ -665,16 +769,36 @@ export class ScoreCalculator {
       });
     }
 
+    // Lending recommendations, only for wallets that have borrowed
+    if (this.hasBorrowed(metrics.lendingHistory) && lendingScore < 600) {
+      const lending = metrics.lendingHistory;
+      recommendations.push({
+        priority: lending.liquidationCount > 0 ? 'HIGH' : 'MEDIUM',
+        category: 'LENDING',
+        title: 'Strengthen Your Borrowing Record',
+        description: 'Repaying loans in full and keeping a safe collateral buffer is the strongest signal of creditworthiness.',
+        impact: `+${Math.round((600 - lendingScore) * model.lendingWeight)} points potential`,
+        actionItems: [
+          'Repay outstanding loans in full',
+          'Keep loan-to-value well below the liquidation threshold',
+          'Add collateral or repay when markets become volatile'
+        ]
+      });
+    }
+
     return recommendations;
   }
 
   /**
    * Get scoring parameters for transparency
    */
-  public static getScoringParameters() {
+  public static getScoringParameters(model: ScoringModel = ScoringModelRegistry.getActiveModel()) {
     return {
-      weights: this.WEIGHTS,
-      parameters: this.SCORING_PARAMS
+      version: model.version,
+      name: model.name,
+      weights: model.weights,
+      lendingWeight: model.lendingWeight,
+      parameters: model.params
     };
   }
 }
@@ -0,0 +1,67 @@
+import path from 'path';
+import { BlockchainService, UserMetrics } from './blockchainService';
+import { FixtureDataSource } from './fixtureDataSource';
+import { PriceService, ReferencePriceFeed } from './priceService';
+import { ScoreCalculator } from './scoreCalculator';
+import { ScoreExplainer, REFERENCE_WALLETS } from './scoreExplainer';
+
+const FIXTURE_PATH = path.join(__dirname, '../../fixtures/wallet.json');
+const WALLET = '0x1111111111111111111111111111111111111111';
+
+describe('ScoreExplainer', () => {
+  let metrics: UserMetrics;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const service = new BlockchainService(new FixtureDataSource(FIXTURE_PATH), null, new PriceService(new ReferencePriceFeed(2000)));
+    metrics = await service.getUserMetrics(WALLET);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('explains the score the calculator gives the wallet', () => {
+    const explanation = ScoreExplainer.explain(WALLET, metrics);
+
+    expect(explanation.method).toBe('shapley');
+    expect(explanation.score).toBe(ScoreCalculator.calculateCreditScore(WALLET, metrics).score);
+    expect(explanation.reference.name).toBe('typical');
+    expect(explanation.reference.score).toBe(ScoreCalculator.calculateCreditScore(WALLET, REFERENCE_WALLETS.typical.metrics).score);
+  });
+
+  it('attributes the difference from the reference wallet across the features', () => {
+    for (const reference of Object.values(REFERENCE_WALLETS)) {
+      const explanation = ScoreExplainer.explain(WALLET, metrics, reference);
+      const total = explanation.contributions.reduce((sum, entry) => sum + entry.contribution, 0);
+
+      expect(explanation.totalContribution).toBe(explanation.score - explanation.reference.score);
+      expect(total).toBeCloseTo(explanation.totalContribution, 1);
+    }
+  });
+
+  it('orders contributions by size and describes both wallets', () => {
+    const explanation = ScoreExplainer.explain(WALLET, metrics);
+    const sizes = explanation.contributions.map(entry => Math.abs(entry.contribution));
+
+    expect(sizes).toEqual([...sizes].sort((a, b) => b - a));
+    expect(explanation.contributions.find(entry => entry.feature === 'defiProtocolsUsed')).toEqual(
+      expect.objectContaining({ value: 2, referenceValue: 2 })
+    );
+    expect(explanation.contributions.find(entry => entry.feature === 'lendingHistory')).toEqual(
+      expect.objectContaining({ value: '3 borrows, 1 liquidations', referenceValue: 'none' })
+    );
+  });
+
+  it('gives no contribution to a feature the wallet shares with the reference', () => {
+    const explanation = ScoreExplainer.explain(WALLET, { ...metrics, stakingBalance: '0' });
+
+    expect(explanation.contributions.find(entry => entry.feature === 'stakingBalance')!.contribution).toBe(0);
+  });
+
+  it('returns null for an undefined reference wallet', () => {
+    expect(ScoreExplainer.getReferenceWallet('whale')).toBeNull();
+    expect(ScoreExplainer.getReferenceWallet()).toBe(REFERENCE_WALLETS.typical);
+  });
+});
@@ -0,0 +1,244 @@
+import { UserMetrics } from './blockchainService';
+import { ScoreCalculator } from './scoreCalculator';
+import { ScoringModel, ScoringModelRegistry } from './scoringModels';
+
+/**
+ * Score Explainer
+ * Attributes a score to the raw metrics it was calculated from using exact
+ * Shapley values against a reference wallet: each feature's contribution is its
+ * average marginal effect on the score over every order in which the wallet's
+ * metrics could replace the reference's. Contributions always sum to the
+ * difference between the wallet's score and the reference wallet's score.
+ */
+
+export interface ReferenceWallet {
+  name: string;
+  description: string;
+  metrics: UserMetrics;
+}
+
+export interface FeatureContribution {
+  feature: string;
+  label: string;
+  component: string; // score component the feature feeds
+  value: string | number;
+  referenceValue: string | number;
+  contribution: number; // signed points versus the reference wallet
+}
+
+export interface ScoreExplanation {
+  address: string;
+  modelVersion: string;
+  method: 'shapley';
+  score: number;
+  reference: {
+    name: string;
+    description: string;
+    score: number;
+  };
+  totalContribution: number; // score - reference.score
+  contributions: FeatureContribution[]; // largest absolute contribution first
+}
+
+interface ExplainedFeature {
+  feature: string;
+  label: string;
+  component: string;
+  keys: (keyof UserMetrics)[]; // metrics taken from the wallet when the feature is present
+  describe: (metrics: UserMetrics) => string | number;
+}
+
+export const REFERENCE_WALLETS: { [name: string]: ReferenceWallet } = {
+  typical: {
+    name: 'typical',
+    description: 'A year-old wallet with moderate activity on a couple of protocols, no staking and no borrowing',
+    metrics: {
+      totalTransactions: 120,
+      totalVolume: '15',
+      avgTransactionValue: '0.125',
+      stakingBalance: '0',
+      defiProtocolsUsed: ['reference_dex', 'reference_lending'],
+      accountAge: 365,
+      firstTransactionDate: 0,
+      lastTransactionDate: 0,
+      tokenVolumeEth: '0'
+    }
+  },
+  empty: {
+    name: 'empty',
+    description: 'A wallet with no on-chain activity, so contributions add up to the whole score',
+    metrics: {
+      totalTransactions: 0,
+      totalVolume: '0',
+      avgTransactionValue: '0',
+      stakingBalance: '0',
+      defiProtocolsUsed: [],
+      accountAge: 0,
+      firstTransactionDate: 0,
+      lastTransactionDate: 0,
+      tokenVolumeEth: '0'
+    }
+  }
+};
+
+export const DEFAULT_REFERENCE_WALLET = 'typical';
+
+const FEATURES: ExplainedFeature[] = [
+  {
+    feature: 'totalVolume',
+    label: 'ETH volume',
+    component: 'transactionVolume',
+    keys: ['totalVolume', 'avgTransactionValue'],
+    describe: metrics => `${metrics.totalVolume} ETH`
+  },
+  {
+    feature: 'tokenVolumeEth',
+    label: 'Token volume',
+    component: 'transactionVolume',
+    keys: ['tokenVolumeEth'],
+    describe: metrics => `${metrics.tokenVolumeEth || '0'} ETH`
+  },
+  {
+    feature: 'totalTransactions',
+    label: 'Transaction count',
+    component: 'transactionFrequency',
+    keys: ['totalTransactions'],
+    describe: metrics => metrics.totalTransactions
+  },
+  {
+    feature: 'accountAge',
+    label: 'Account age',
+    component: 'transactionFrequency',
+    keys: ['accountAge', 'firstTransactionDate', 'lastTransactionDate'],
+    describe: metrics => `${metrics.accountAge} days`
+  },
+  {
+    feature: 'stakingBalance',
+    label: 'Staking balance',
+    component: 'stakingActivity',
+    keys: ['stakingBalance'],
+    describe: metrics => `${metrics.stakingBalance} ETH`
+  },
+  {
+    feature: 'defiProtocolsUsed',
+    label: 'DeFi protocols used',
+    component: 'defiInteractions',
+    keys: ['defiProtocolsUsed'],
+    describe: metrics => metrics.defiProtocolsUsed.length
+  },
+  {
+    feature: 'lendingHistory',
+    label: 'Borrowing history',
+    component: 'lendingHistory',
+    keys: ['lendingHistory'],
+    describe: metrics => metrics.lendingHistory
+      ? `${metrics.lendingHistory.borrowCount} borrows, ${metrics.lendingHistory.liquidationCount} liquidations`
+      : 'none'
+  }
+];
+
+export class ScoreExplainer {
+  /**
+   * Get a reference wallet by name, or null when it is not defined
+   */
+  public static getReferenceWallet(name: string = DEFAULT_REFERENCE_WALLET): ReferenceWallet | null {
+    return REFERENCE_WALLETS[name] || null;
+  }
+
+  /**
+   * Explain a wallet's score as per-metric contributions versus a reference wallet
+   */
+  public static explain(
+    address: string,
+    metrics: UserMetrics,
+    reference: ReferenceWallet = REFERENCE_WALLETS[DEFAULT_REFERENCE_WALLET],
+    model: ScoringModel = ScoringModelRegistry.getActiveModel()
+  ): ScoreExplanation {
+    const featureCount = FEATURES.length;
+    const coalitionCount = 1 << featureCount;
+
+    // Score every coalition once: bit i set means feature i takes the wallet's value
+    const coalitionScores: number[] = [];
+    for (let mask = 0; mask < coalitionCount; mask++) {
+      coalitionScores.push(ScoreCalculator.calculateCreditScore(address, this.blend(reference.metrics, metrics, mask), model).score);
+    }
+
+    const factorials = [1];
+    for (let i = 1; i <= featureCount; i++) {
+      factorials.push(factorials[i - 1] * i);
+    }
+
+    const contributions: FeatureContribution[] = FEATURES.map((feature, index) => {
+      const bit = 1 << index;
+      let contribution = 0;
+
+      for (let mask = 0; mask < coalitionCount; mask++) {
+        if (mask & bit) {
+          continue;
+        }
+        const size = this.countBits(mask);
+        const weight = (factorials[size] * factorials[featureCount - size - 1]) / factorials[featureCount];
+        contribution += weight * (coalitionScores[mask | bit] - coalitionScores[mask]);
+      }
+
+      return {
+        feature: feature.feature,
+        label: feature.label,
+        component: feature.component,
+        value: feature.describe(metrics),
+        referenceValue: feature.describe(reference.metrics),
+        contribution: Math.round(contribution * 100) / 100
+      };
+    });
+
+    contributions.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+    const score = coalitionScores[coalitionCount - 1];
+    const referenceScore = coalitionScores[0];
+
+    return {
+      address,
+      modelVersion: model.version,
+      method: 'shapley',
+      score,
+      reference: {
+        name: reference.name,
+        description: reference.description,
+        score: referenceScore
+      },
+      totalContribution: score - referenceScore,
+      contributions
+    };
+  }
+
+  /**
+   * Reference metrics with the features in the mask taken from the wallet
+   */
+  private static blend(reference: UserMetrics, wallet: UserMetrics, mask: number): UserMetrics {
+    const blended: any = { ...reference };
+
+    FEATURES.forEach((feature, index) => {
+      const source: any = mask & (1 << index) ? wallet : reference;
+      for (const key of feature.keys) {
+        if (source[key] === undefined) {
+          delete blended[key];
+        } else {
+          blended[key] = source[key];
+        }
+      }
+    });
+
+    return blended;
+  }
+
+  private static countBits(mask: number): number {
+    let count = 0;
+    while (mask) {
+      count += mask & 1;
+      mask >>= 1;
+    }
+    return count;
+  }
+}
+
+export default ScoreExplainer;
@@ -0,0 +1,83 @@
+import { ethers } from 'ethers';
+import { ScoreMerkleTree, ScoreLeaf, hashScoreLeaf } from './scoreMerkleTree';
+
+function leaves(count: number): ScoreLeaf[] {
+  return Array.from({ length: count }, (_, i) => ({
+    address: ethers.getAddress(`0x${(i + 1).toString(16).padStart(40, '0')}`),
+    chainId: 1,
+    score: 300 + i * 10,
+    modelVersion: 'v1',
+    timestamp: 1700000000 + i
+  }));
+}
+
+describe('hashScoreLeaf', () => {
+  it('double-hashes the ABI encoding ScoreRegistry.verifyScore checks', () => {
+    const [leaf] = leaves(1);
+    const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+      ['address', 'uint256', 'uint256', 'bytes32', 'uint256'],
+      [leaf.address, 1, 300, ethers.encodeBytes32String('v1'), 1700000000]
+    );
+
+    expect(hashScoreLeaf(leaf)).toBe(ethers.keccak256(ethers.keccak256(encoded)));
+  });
+});
+
+describe('ScoreMerkleTree', () => {
+  it('proves every leaf of trees with odd and even layers', () => {
+    for (let count = 1; count <= 9; count++) {
+      const tree = new ScoreMerkleTree(leaves(count));
+      expect(tree.size).toBe(count);
+
+      for (const leaf of leaves(count)) {
+        const proof = tree.getProof(leaf.address, leaf.chainId)!;
+        expect(proof.root).toBe(tree.root);
+        expect(proof.leafHash).toBe(hashScoreLeaf(leaf));
+        expect(ScoreMerkleTree.verify(leaf, proof.proof, tree.root)).toBe(true);
+      }
+    }
+  });
+
+  it('uses the leaf hash as the root of a single score', () => {
+    const [leaf] = leaves(1);
+    const tree = new ScoreMerkleTree([leaf]);
+
+    expect(tree.root).toBe(hashScoreLeaf(leaf));
+    expect(tree.getProof(leaf.address, 1)!.proof).toEqual([]);
+  });
+
+  it('does not depend on the order scores are given in', () => {
+    expect(new ScoreMerkleTree(leaves(7).reverse()).root).toBe(new ScoreMerkleTree(leaves(7)).root);
+  });
+
+  it('rejects a proof for a changed score or another root', () => {
+    const tree = new ScoreMerkleTree(leaves(5));
+    const [leaf] = leaves(1);
+    const { proof } = tree.getProof(leaf.address, 1)!;
+
+    expect(ScoreMerkleTree.verify({ ...leaf, score: leaf.score + 1 }, proof, tree.root)).toBe(false);
+    expect(ScoreMerkleTree.verify(leaf, proof, new ScoreMerkleTree(leaves(4)).root)).toBe(false);
+  });
+
+  it('finds scores by address in any case and per chain', () => {
+    const [leaf] = leaves(1);
+    const tree = new ScoreMerkleTree([leaf, { ...leaf, chainId: 42161, score: 700 }]);
+
+    expect(tree.getProof(leaf.address.toLowerCase(), 1)!.leaf.score).toBe(300);
+    expect(tree.getProof(leaf.address, 42161)!.leaf.score).toBe(700);
+    expect(tree.getProof(leaf.address, 10)).toBeNull();
+  });
+
+  it('rejects two scores for the same address and chain', () => {
+    const [leaf] = leaves(1);
+
+    expect(() => new ScoreMerkleTree([leaf, { ...leaf, score: 500 }])).toThrow('Duplicate score leaf');
+  });
+
+  it('has the zero root when empty, which verifies nothing', () => {
+    const tree = new ScoreMerkleTree([]);
+
+    expect(tree.root).toBe(ethers.ZeroHash);
+    expect(ScoreMerkleTree.verify(leaves(1)[0], [], tree.root)).toBe(false);
+  });
+});
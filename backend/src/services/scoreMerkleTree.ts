@@ -0,0 +1,131 @@
+import { ethers } from 'ethers';
+
+/**
+ * Score Merkle Tree
+ * Builds the Merkle tree of current scores whose root is published to the
+ * ScoreRegistry contract (contracts/src/ScoreRegistry.sol). Leaves and pair hashing
+ * match the contract's verifyScore:
+ *   leaf = keccak256(keccak256(abi.encode(account, chainId, score, modelVersion, timestamp)))
+ *   parent = keccak256(sorted(left, right))
+ * contracts/test/ScoreRegistry.test.ts verifies proofs from this tree on-chain.
+ */
+
+export interface ScoreLeaf {
+  address: string;
+  chainId: number;
+  score: number;
+  modelVersion: string; // published as a bytes32 string
+  timestamp: number;
+}
+
+export interface ScoreProof {
+  leaf: ScoreLeaf;
+  leafHash: string;
+  modelVersionBytes32: string;
+  proof: string[];
+  root: string;
+}
+
+const LEAF_TYPES = ['address', 'uint256', 'uint256', 'bytes32', 'uint256'];
+
+/**
+ * Hash a score the way ScoreRegistry.verifyScore does
+ */
+export function hashScoreLeaf(leaf: ScoreLeaf): string {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(LEAF_TYPES, [
+    leaf.address,
+    leaf.chainId,
+    leaf.score,
+    ethers.encodeBytes32String(leaf.modelVersion),
+    leaf.timestamp
+  ]);
+  return ethers.keccak256(ethers.keccak256(encoded));
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b)
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+function leafKey(address: string, chainId: number): string {
+  return `${address.toLowerCase()}:${chainId}`;
+}
+
+export class ScoreMerkleTree {
+  // layers[0] holds the sorted leaf hashes, the last layer holds the root
+  private readonly layers: string[][];
+  private readonly leaves = new Map<string, { leaf: ScoreLeaf; index: number }>();
+
+  constructor(leaves: ScoreLeaf[]) {
+    const hashed = leaves
+      .map(leaf => ({ leaf, hash: hashScoreLeaf(leaf) }))
+      .sort((a, b) => (BigInt(a.hash) < BigInt(b.hash) ? -1 : BigInt(a.hash) > BigInt(b.hash) ? 1 : 0));
+
+    hashed.forEach(({ leaf }, index) => {
+      const key = leafKey(leaf.address, leaf.chainId);
+      if (this.leaves.has(key)) {
+        throw new Error(`Duplicate score leaf for ${leaf.address} on chain ${leaf.chainId}`);
+      }
+      this.leaves.set(key, { leaf, index });
+    });
+
+    this.layers = [hashed.map(({ hash }) => hash)];
+    while (this.layers[this.layers.length - 1].length > 1) {
+      const layer = this.layers[this.layers.length - 1];
+      const next: string[] = [];
+      for (let i = 0; i < layer.length; i += 2) {
+        // An odd node out is carried up unchanged
+        next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+      }
+      this.layers.push(next);
+    }
+  }
+
+  get root(): string {
+    return this.layers[this.layers.length - 1][0] || ethers.ZeroHash;
+  }
+
+  get size(): number {
+    return this.leaves.size;
+  }
+
+  /**
+   * Proof for an address's score on a chain, or null when it is not in the tree
+   */
+  getProof(address: string, chainId: number): ScoreProof | null {
+    const entry = this.leaves.get(leafKey(address, chainId));
+    if (!entry) {
+      return null;
+    }
+
+    const proof: string[] = [];
+    let index = entry.index;
+    for (let level = 0; level < this.layers.length - 1; level++) {
+      const layer = this.layers[level];
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+
+    return {
+      leaf: entry.leaf,
+      leafHash: this.layers[0][entry.index],
+      modelVersionBytes32: ethers.encodeBytes32String(entry.leaf.modelVersion),
+      proof,
+      root: this.root
+    };
+  }
+
+  /**
+   * Check a proof off-chain, as ScoreRegistry.verifyScore does
+   */
+  static verify(leaf: ScoreLeaf, proof: string[], root: string): boolean {
+    const computed = proof.reduce((hash, sibling) => hashPair(hash, sibling), hashScoreLeaf(leaf));
+    return root !== ethers.ZeroHash && computed.toLowerCase() === root.toLowerCase();
+  }
+}
+
+export default ScoreMerkleTree;
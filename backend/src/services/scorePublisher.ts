@@ -0,0 +1,233 @@
+import { ethers } from 'ethers';
+import dotenv from 'dotenv';
+import { DatabaseService, ScorePublication } from './databaseService';
+import { ScoreLeaf, ScoreMerkleTree, ScoreProof } from './scoreMerkleTree';
+
+dotenv.config();
+
+/**
+ * Score Publisher
+ * Pushes credit scores to the ScoreRegistry contract (contracts/src/ScoreRegistry.sol),
+ * either as the Merkle root of every current score or as direct batched updates,
+ * and serves the Merkle proofs that let a score be checked against the published root.
+ *
+ * SCORE_REGISTRY_ADDRESS is the deployed registry. Publishing also needs
+ * SCORE_PUBLISHER_PRIVATE_KEY (the registry's publisher account) and an RPC
+ * endpoint in SCORE_REGISTRY_RPC_URL, falling back to ETHEREUM_RPC_URL.
+ * SCORE_PUBLISH_BATCH_SIZE caps the scores written per batch transaction (default 100).
+ */
+
+export const SCORE_REGISTRY_ABI = [
+  'function publisher() view returns (address)',
+  'function merkleRoot() view returns (bytes32)',
+  'function rootEpoch() view returns (uint256)',
+  'function rootScoreCount() view returns (uint256)',
+  'function getScore(address account, uint256 chainId) view returns (uint16 score, bytes32 modelVersion, uint64 timestamp)',
+  'function verifyScore(address account, uint256 chainId, uint256 score, bytes32 modelVersion, uint256 timestamp, bytes32[] proof) view returns (bool)',
+  'function publishScores((address account, uint256 chainId, uint16 score, bytes32 modelVersion, uint64 timestamp)[] updates)',
+  'function publishMerkleRoot(bytes32 root, uint256 scoreCount)',
+  'event MerkleRootPublished(uint256 indexed epoch, bytes32 root, uint256 scoreCount)',
+  'event ScoreUpdated(address indexed account, uint256 indexed chainId, uint16 score, bytes32 modelVersion, uint64 timestamp)'
+];
+
+const DEFAULT_BATCH_SIZE = 100;
+
+export interface OnChainRoot {
+  merkleRoot: string;
+  epoch: number;
+  scoreCount: number;
+}
+
+export class ScorePublisher {
+  private static wallet: ethers.Wallet | null = null;
+  // Tree of the latest published root, rebuilt when a newer root is published
+  private static treeCache: { publicationId: number; tree: ScoreMerkleTree } | null = null;
+
+  /**
+   * Whether a registry address is configured, which is enough to serve proofs
+   */
+  static isConfigured(): boolean {
+    return !!process.env.SCORE_REGISTRY_ADDRESS;
+  }
+
+  /**
+   * Whether scores can be published: needs the registry, a publisher key and an RPC endpoint
+   */
+  static canPublish(): boolean {
+    return this.isConfigured() && !!process.env.SCORE_PUBLISHER_PRIVATE_KEY && !!this.getRpcUrl();
+  }
+
+  static getRegistryAddress(): string {
+    const address = process.env.SCORE_REGISTRY_ADDRESS;
+    if (!address) {
+      throw new Error('SCORE_REGISTRY_ADDRESS is not configured');
+    }
+    return ethers.getAddress(address);
+  }
+
+  static getBatchSize(): number {
+    const size = parseInt(process.env.SCORE_PUBLISH_BATCH_SIZE || '', 10);
+    return size > 0 ? size : DEFAULT_BATCH_SIZE;
+  }
+
+  /**
+   * Publish the Merkle root of every current score, storing the scores it covers
+   */
+  static async publishMerkleRoot(): Promise<ScorePublication> {
+    try {
+      const registryAddress = this.getRegistryAddress();
+      const leaves = await DatabaseService.getCurrentScores();
+      const tree = new ScoreMerkleTree(leaves);
+
+      const registry = this.getRegistry();
+      const tx = await registry.publishMerkleRoot(tree.root, tree.size);
+      const receipt = await tx.wait();
+
+      const publication: Omit<ScorePublication, 'id'> = {
+        kind: 'MERKLE_ROOT',
+        registryAddress,
+        merkleRoot: tree.root,
+        scoreCount: tree.size,
+        txHash: tx.hash,
+        blockNumber: receipt?.blockNumber ?? null,
+        publishedAt: Math.floor(Date.now() / 1000)
+      };
+      const id = await DatabaseService.saveScorePublication(publication, leaves);
+      this.treeCache = { publicationId: id, tree };
+
+      console.log(`Published Merkle root ${tree.root} of ${tree.size} scores in ${tx.hash}`);
+      return { id, ...publication };
+    } catch (error) {
+      throw new Error(`Failed to publish Merkle root: ${error}`);
+    }
+  }
+
+  /**
+   * Write scores updated since the last batch publication to the registry,
+   * one transaction per SCORE_PUBLISH_BATCH_SIZE scores
+   */
+  static async publishScoreBatches(): Promise<ScorePublication[]> {
+    try {
+      const registryAddress = this.getRegistryAddress();
+      const lastBatch = await DatabaseService.getLatestScorePublication('BATCH', registryAddress);
+      const since = lastBatch ? lastBatch.publishedAt : 0;
+
+      // Taken before reading scores, so scores updated while publishing go in the next run
+      const publishedAt = Math.floor(Date.now() / 1000);
+      const leaves = await DatabaseService.getCurrentScores(since);
+      const registry = this.getRegistry();
+      const batchSize = this.getBatchSize();
+      const publications: ScorePublication[] = [];
+
+      for (let i = 0; i < leaves.length; i += batchSize) {
+        const batch = leaves.slice(i, i + batchSize);
+        const tx = await registry.publishScores(batch.map(leaf => this.toScoreUpdate(leaf)));
+        const receipt = await tx.wait();
+
+        const publication: Omit<ScorePublication, 'id'> = {
+          kind: 'BATCH',
+          registryAddress,
+          merkleRoot: null,
+          scoreCount: batch.length,
+          txHash: tx.hash,
+          blockNumber: receipt?.blockNumber ?? null,
+          publishedAt
+        };
+        const id = await DatabaseService.saveScorePublication(publication);
+        publications.push({ id, ...publication });
+
+        console.log(`Published batch of ${batch.length} scores in ${tx.hash}`);
+      }
+
+      return publications;
+    } catch (error) {
+      throw new Error(`Failed to publish score batches: ${error}`);
+    }
+  }
+
+  /**
+   * Merkle proof of an address's score in the latest published root,
+   * or null when the address was not scored when the root was published
+   */
+  static async getScoreProof(address: string, chainId: number): Promise<{ publication: ScorePublication; proof: ScoreProof | null } | null> {
+    try {
+      const publication = await DatabaseService.getLatestScorePublication('MERKLE_ROOT', this.getRegistryAddress());
+      if (!publication) {
+        return null;
+      }
+
+      if (!this.treeCache || this.treeCache.publicationId !== publication.id) {
+        const leaves = await DatabaseService.getScorePublicationLeaves(publication.id);
+        this.treeCache = { publicationId: publication.id, tree: new ScoreMerkleTree(leaves) };
+      }
+
+      return {
+        publication,
+        proof: this.treeCache.tree.getProof(address, chainId)
+      };
+    } catch (error) {
+      throw new Error(`Failed to get score proof: ${error}`);
+    }
+  }
+
+  /**
+   * Root currently stored in the registry contract
+   */
+  static async getOnChainRoot(): Promise<OnChainRoot> {
+    try {
+      const registry = new ethers.Contract(this.getRegistryAddress(), SCORE_REGISTRY_ABI, this.getProvider());
+      const [merkleRoot, epoch, scoreCount] = await Promise.all([
+        registry.merkleRoot(),
+        registry.rootEpoch(),
+        registry.rootScoreCount()
+      ]);
+
+      return {
+        merkleRoot,
+        epoch: Number(epoch),
+        scoreCount: Number(scoreCount)
+      };
+    } catch (error) {
+      throw new Error(`Failed to read score registry: ${error}`);
+    }
+  }
+
+  private static toScoreUpdate(leaf: ScoreLeaf) {
+    return {
+      account: ethers.getAddress(leaf.address),
+      chainId: leaf.chainId,
+      score: leaf.score,
+      modelVersion: ethers.encodeBytes32String(leaf.modelVersion),
+      timestamp: leaf.timestamp
+    };
+  }
+
+  private static getRegistry(): ethers.Contract {
+    return new ethers.Contract(this.getRegistryAddress(), SCORE_REGISTRY_ABI, this.getWallet());
+  }
+
+  private static getRpcUrl(): string | undefined {
+    return process.env.SCORE_REGISTRY_RPC_URL || process.env.ETHEREUM_RPC_URL;
+  }
+
+  private static getProvider(): ethers.JsonRpcProvider {
+    const rpcUrl = this.getRpcUrl();
+    if (!rpcUrl) {
+      throw new Error('SCORE_REGISTRY_RPC_URL is not configured');
+    }
+    return new ethers.JsonRpcProvider(rpcUrl);
+  }
+
+  private static getWallet(): ethers.Wallet {
+    if (!this.wallet) {
+      const privateKey = process.env.SCORE_PUBLISHER_PRIVATE_KEY;
+      if (!privateKey) {
+        throw new Error('SCORE_PUBLISHER_PRIVATE_KEY is not configured');
+      }
+      this.wallet = new ethers.Wallet(privateKey, this.getProvider());
+    }
+    return this.wallet;
+  }
+}
+
+export default ScorePublisher;
@@ -0,0 +1,49 @@
+import { blockchainService } from './blockchainService';
+import { ScoreCalculator, CreditScore } from './scoreCalculator';
+import { DatabaseService, JobPriority } from './databaseService';
+import { JobQueue } from './jobQueue';
+
+/**
+ * Score Refresh Service
+ * Recalculates and saves an address's score from fresh metrics, right away or as a SCORE_REFRESH
+ * job in the job queue.
+ */
+export class ScoreRefreshService {
+
+  /**
+   * Run queued score refreshes
+   */
+  static initialize(): void {
+    JobQueue.registerHandler('SCORE_REFRESH', async payload => {
+      await this.refreshScore(payload.address);
+    });
+  }
+
+  /**
+   * Recalculate and save the score of an address, failing when its metrics cannot be scored
+   */
+  static async refreshScore(address: string): Promise<CreditScore> {
+    const metrics = await blockchainService.getUserMetrics(address);
+    const validation = ScoreCalculator.validateMetricsForScoring(metrics);
+    if (!validation.isValid) {
+      throw new Error(validation.reasons.join('; '));
+    }
+
+    const creditScore = ScoreCalculator.calculateCreditScore(address, metrics);
+    await DatabaseService.saveScore(creditScore);
+    return creditScore;
+  }
+
+  /**
+   * Queue a score refresh, at most one per address at a time
+   */
+  static async scheduleRefresh(address: string, priority: JobPriority = 'MEDIUM', delay: number = 0): Promise<number> {
+    return await JobQueue.enqueue('SCORE_REFRESH', { address: address.toLowerCase() }, {
+      priority,
+      delay,
+      dedupeKey: `SCORE_REFRESH:${address.toLowerCase()}`
+    });
+  }
+}
+
+export default ScoreRefreshService;
@@ -0,0 +1,96 @@
+import path from 'path';
+import { BlockchainService, UserMetrics } from './blockchainService';
+import { FixtureDataSource } from './fixtureDataSource';
+import { PriceService, ReferencePriceFeed } from './priceService';
+import { ScoreSimulator } from './scoreSimulator';
+
+const FIXTURE_PATH = path.join(__dirname, '../../fixtures/wallet.json');
+const WALLET = '0x1111111111111111111111111111111111111111';
+
+describe('ScoreSimulator', () => {
+  let metrics: UserMetrics;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const service = new BlockchainService(new FixtureDataSource(FIXTURE_PATH), null, new PriceService(new ReferencePriceFeed(2000)));
+    metrics = await service.getUserMetrics(WALLET);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('validateDeltas', () => {
+    it('accepts deltas within their bounds', () => {
+      expect(ScoreSimulator.validateDeltas({
+        additionalVolume: -2,
+        additionalStaking: 10,
+        additionalProtocols: ['Uniswap V3'],
+        additionalTransactions: 100,
+        elapsedDays: 365
+      })).toEqual([]);
+    });
+
+    it('rejects deltas past their bounds', () => {
+      expect(ScoreSimulator.validateDeltas({ additionalProtocols: 1e9 })).toHaveLength(1);
+      expect(ScoreSimulator.validateDeltas({ additionalProtocols: Array.from({ length: 51 }, (_, i) => `protocol ${i}`) })).toHaveLength(1);
+      expect(ScoreSimulator.validateDeltas({ additionalProtocols: ['x'.repeat(101)] })).toHaveLength(1);
+      expect(ScoreSimulator.validateDeltas({ additionalTransactions: 1e7 })).toEqual(['additionalTransactions must be a number from 0 to 1000000']);
+      expect(ScoreSimulator.validateDeltas({ elapsedDays: 4000 })).toEqual(['elapsedDays must be a number from 0 to 3650']);
+      expect(ScoreSimulator.validateDeltas({ elapsedDays: -1 })).toEqual(['elapsedDays must be a number from 0 to 3650']);
+    });
+
+    it('rejects malformed and unknown deltas', () => {
+      expect(ScoreSimulator.validateDeltas([])).toEqual(['Deltas must be an object']);
+      expect(ScoreSimulator.validateDeltas({ additionalVolume: '5' })).toEqual(['additionalVolume must be a number of ETH']);
+      expect(ScoreSimulator.validateDeltas({ borrowCount: 1 })).toEqual(['Unknown deltas: borrowCount']);
+    });
+  });
+
+  describe('applyDeltas', () => {
+    it('changes a copy of the metrics', () => {
+      const simulated = ScoreSimulator.applyDeltas(metrics, {
+        additionalVolume: 2,
+        additionalTransactions: 3,
+        additionalProtocols: ['Aave V3 Pool', 'Uniswap V3'],
+        elapsedDays: 30
+      });
+
+      expect(simulated.totalVolume).toBe('10');
+      expect(simulated.totalTransactions).toBe(10);
+      expect(simulated.avgTransactionValue).toBe('1');
+      expect(simulated.totalVolumeUsd).toBeUndefined();
+      expect(simulated.defiProtocolsUsed).toEqual(['Aave V3 Pool', 'Compound Ceth', 'Uniswap V3']);
+      expect(simulated.accountAge).toBe(metrics.accountAge + 30);
+      expect(metrics.totalVolume).toBe('8');
+      expect(metrics.defiProtocolsUsed).toEqual(['Aave V3 Pool', 'Compound Ceth']);
+    });
+
+    it('keeps balances from going negative', () => {
+      const simulated = ScoreSimulator.applyDeltas(metrics, { additionalVolume: -100, additionalStaking: -5 });
+
+      expect(simulated.totalVolume).toBe('0');
+      expect(simulated.stakingBalance).toBe('0');
+    });
+  });
+
+  describe('simulate', () => {
+    it('scores the wallet unchanged without deltas', () => {
+      const simulation = ScoreSimulator.simulate(WALLET, metrics, {});
+
+      expect(simulation.scoreDelta).toBe(0);
+      expect(simulation.simulated.creditScore.score).toBe(simulation.current.creditScore.score);
+    });
+
+    it('reports the score and component changes of the deltas', () => {
+      const simulation = ScoreSimulator.simulate(WALLET, metrics, { additionalStaking: 32, additionalProtocols: 3 });
+
+      expect(simulation.scoreDelta).toBeGreaterThan(0);
+      expect(simulation.scoreDelta).toBe(simulation.simulated.creditScore.score - simulation.current.creditScore.score);
+      expect(simulation.componentDeltas.stakingActivity.delta).toBeGreaterThan(0);
+      expect(simulation.componentDeltas.defiInteractions.delta).toBeGreaterThan(0);
+      expect(simulation.componentDeltas.transactionVolume.delta).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { UserMetrics } from './blockchainService';
+import { ScoreCalculator, CreditScore, ScoreBreakdown } from './scoreCalculator';
+import { ScoringModel, ScoringModelRegistry } from './scoringModels';
+
+/**
+ * Score Simulator
+ * Answers "what happens to my score if..." by applying hypothetical changes to a
+ * wallet's current metrics and scoring both with the same model.
+ */
+
+// Hypothetical changes to UserMetrics. Volume and staking may be negative (withdrawals).
+export interface MetricsDelta {
+  additionalVolume?: number; // ETH
+  additionalStaking?: number; // ETH
+  additionalProtocols?: number | string[]; // a count, or the protocol names to add
+  additionalTransactions?: number;
+  elapsedDays?: number; // account ages by this many days
+}
+
+export interface ComponentDelta {
+  current: number;
+  simulated: number;
+  delta: number;
+  weightedDelta: number; // change in the component's contribution to the total score
+}
+
+export interface ScoreSimulation {
+  address: string;
+  modelVersion: string;
+  deltas: MetricsDelta;
+  current: {
+    creditScore: CreditScore;
+    breakdown: ScoreBreakdown;
+  };
+  simulated: {
+    creditScore: CreditScore;
+    breakdown: ScoreBreakdown;
+  };
+  scoreDelta: number;
+  componentDeltas: { [component: string]: ComponentDelta };
+}
+
+const COMPONENTS = ['transactionVolume', 'transactionFrequency', 'stakingActivity', 'defiInteractions', 'lendingHistory'] as const;
+
+// Upper bounds of a simulation request, well past where each component saturates
+const MAX_ADDITIONAL_PROTOCOLS = 50;
+const MAX_PROTOCOL_NAME_LENGTH = 100;
+const MAX_ADDITIONAL_TRANSACTIONS = 1000000;
+const MAX_ELAPSED_DAYS = 3650; // account age is capped at ten years
+
+export class ScoreSimulator {
+  /**
+   * Check a delta request, returning the reasons it cannot be simulated
+   */
+  public static validateDeltas(deltas: any): string[] {
+    if (!deltas || typeof deltas !== 'object' || Array.isArray(deltas)) {
+      return ['Deltas must be an object'];
+    }
+
+    const reasons: string[] = [];
+    const isNumber = (value: any) => typeof value === 'number' && Number.isFinite(value);
+
+    for (const key of ['additionalVolume', 'additionalStaking']) {
+      if (deltas[key] !== undefined && !isNumber(deltas[key])) {
+        reasons.push(`${key} must be a number of ETH`);
+      }
+    }
+
+    const limits: [string, number][] = [['additionalTransactions', MAX_ADDITIONAL_TRANSACTIONS], ['elapsedDays', MAX_ELAPSED_DAYS]];
+    for (const [key, max] of limits) {
+      if (deltas[key] !== undefined && (!isNumber(deltas[key]) || deltas[key] < 0 || deltas[key] > max)) {
+        reasons.push(`${key} must be a number from 0 to ${max}`);
+      }
+    }
+
+    const protocols = deltas.additionalProtocols;
+    if (protocols !== undefined) {
+      const validCount = isNumber(protocols) && Number.isInteger(protocols) && protocols >= 0 && protocols <= MAX_ADDITIONAL_PROTOCOLS;
+      const validNames = Array.isArray(protocols) &&
+        protocols.length <= MAX_ADDITIONAL_PROTOCOLS &&
+        protocols.every((name: any) => typeof name === 'string' && name.length > 0 && name.length <= MAX_PROTOCOL_NAME_LENGTH);
+      if (!validCount && !validNames) {
+        reasons.push(`additionalProtocols must be an integer from 0 to ${MAX_ADDITIONAL_PROTOCOLS}, or up to ${MAX_ADDITIONAL_PROTOCOLS} protocol names`);
+      }
+    }
+
+    const known = new Set(['additionalVolume', 'additionalStaking', 'additionalProtocols', 'additionalTransactions', 'elapsedDays']);
+    const unknown = Object.keys(deltas).filter(key => !known.has(key));
+    if (unknown.length > 0) {
+      reasons.push(`Unknown deltas: ${unknown.join(', ')}`);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Apply hypothetical changes to a copy of the metrics
+   */
+  public static applyDeltas(metrics: UserMetrics, deltas: MetricsDelta): UserMetrics {
+    const simulated: UserMetrics = { ...metrics, defiProtocolsUsed: [...metrics.defiProtocolsUsed] };
+
+    if (deltas.additionalVolume) {
+      simulated.totalVolume = Math.max(0, (parseFloat(metrics.totalVolume) || 0) + deltas.additionalVolume).toString();
+      // USD figures are valued per transaction and cannot be adjusted without prices
+      delete simulated.totalVolumeUsd;
+    }
+
+    if (deltas.additionalStaking) {
+      simulated.stakingBalance = Math.max(0, (parseFloat(metrics.stakingBalance) || 0) + deltas.additionalStaking).toString();
+      delete simulated.stakingBalanceUsd;
+    }
+
+    if (deltas.additionalTransactions) {
+      simulated.totalTransactions = metrics.totalTransactions + Math.round(deltas.additionalTransactions);
+    }
+
+    if (deltas.additionalVolume || deltas.additionalTransactions) {
+      simulated.avgTransactionValue = (simulated.totalTransactions > 0
+        ? (parseFloat(simulated.totalVolume) || 0) / simulated.totalTransactions
+        : 0
+      ).toString();
+    }
+
+    if (Array.isArray(deltas.additionalProtocols)) {
+      for (const protocol of deltas.additionalProtocols) {
+        if (!simulated.defiProtocolsUsed.includes(protocol)) {
+          simulated.defiProtocolsUsed.push(protocol);
+        }
+      }
+    } else if (deltas.additionalProtocols) {
+      for (let i = 1; i <= deltas.additionalProtocols; i++) {
+        simulated.defiProtocolsUsed.push(`simulated_protocol_${i}`);
+      }
+    }
+
+    if (deltas.elapsedDays) {
+      simulated.accountAge = metrics.accountAge + deltas.elapsedDays;
+    }
+
+    return simulated;
+  }
+
+  /**
+   * Score the current metrics and the metrics with the deltas applied
+   */
+  public static simulate(
+    address: string,
+    metrics: UserMetrics,
+    deltas: MetricsDelta,
+    model: ScoringModel = ScoringModelRegistry.getActiveModel()
+  ): ScoreSimulation {
+    const simulatedMetrics = this.applyDeltas(metrics, deltas);
+
+    const current = {
+      creditScore: ScoreCalculator.calculateCreditScore(address, metrics, model),
+      breakdown: ScoreCalculator.generateScoreBreakdown(address, metrics, model)
+    };
+    const simulated = {
+      creditScore: ScoreCalculator.calculateCreditScore(address, simulatedMetrics, model),
+      breakdown: ScoreCalculator.generateScoreBreakdown(address, simulatedMetrics, model)
+    };
+
+    const componentDeltas: { [component: string]: ComponentDelta } = {};
+    for (const component of COMPONENTS) {
+      const before = current.breakdown[component];
+      const after = simulated.breakdown[component];
+      if (!before && !after) {
+        continue;
+      }
+
+      componentDeltas[component] = {
+        current: before?.score ?? 0,
+        simulated: after?.score ?? 0,
+        delta: (after?.score ?? 0) - (before?.score ?? 0),
+        weightedDelta: (after?.weightedScore ?? 0) - (before?.weightedScore ?? 0)
+      };
+    }
+
+    return {
+      address,
+      modelVersion: model.version,
+      deltas,
+      current,
+      simulated,
+      scoreDelta: simulated.creditScore.score - current.creditScore.score,
+      componentDeltas
+    };
+  }
+}
+
+export default ScoreSimulator;
@@ -0,0 +1,218 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Scoring Models
+ * Named, versioned definitions of the scoring algorithm (component weights,
+ * normalization curves and thresholds), loaded from a config file so changing
+ * the algorithm means adding a version rather than silently rescoring everyone.
+ *
+ * The file is read from SCORING_MODELS_PATH (default: backend/config/scoring-models.json),
+ * and SCORING_MODEL_VERSION overrides the file's activeVersion.
+ */
+
+export interface ScoringWeights {
+  TRANSACTION_VOLUME: number;
+  TRANSACTION_FREQUENCY: number;
+  STAKING_ACTIVITY: number;
+  DEFI_INTERACTIONS: number;
+}
+
+export interface ScoringParams {
+  // Volume scoring (logarithmic scale between MIN_ETH and MAX_ETH)
+  VOLUME: {
+    MIN_ETH: number;
+    MAX_ETH: number;
+    LOG_BASE: number;
+  };
+  FREQUENCY: {
+    MIN_TRANSACTIONS: number;
+    MAX_TRANSACTIONS: number; // transactions that give the full TRANSACTION_POINTS
+    MIN_ACCOUNT_AGE: number; // days
+    OPTIMAL_ACCOUNT_AGE: number; // account age that gives AGE_POINTS
+    TRANSACTION_POINTS: number;
+    AGE_POINTS: number;
+    MAX_AGE_POINTS: number;
+    CONSISTENCY_POINTS: number;
+    POINTS_PER_DAILY_TRANSACTION: number;
+  };
+  STAKING: {
+    MIN_STAKE: number; // ETH
+    MAX_STAKE: number; // stake that gives the full BASE_POINTS
+    BASE_POINTS: number;
+    PARTICIPATION_POINTS: number;
+  };
+  DEFI: {
+    MIN_PROTOCOLS: number;
+    MAX_PROTOCOLS: number; // protocols that give the full BASE_POINTS
+    BASE_POINTS: number;
+    PARTICIPATION_POINTS: number;
+  };
+  LENDING: {
+    REPAYMENT_POINTS: number; // scaled by the share of borrowed value repaid
+    LIQUIDATION_FREE_POINTS: number; // lost in steps of LIQUIDATION_PENALTY
+    LIQUIDATION_PENALTY: number;
+    LTV_BANDS: { maxLtv: number; points: number }[]; // by highest loan-to-value observed
+    REPAY_TIME_BANDS: { maxDays: number; points: number }[]; // by average days to repay in full
+    SLOW_REPAY_POINTS: number; // repaid, but slower than every band
+  };
+}
+
+export interface ScoringModel {
+  version: string;
+  name: string;
+  description: string;
+  weights: ScoringWeights; // must sum to 1.0
+  lendingWeight: number; // share given to lending history for wallets that have borrowed
+  params: ScoringParams;
+}
+
+export interface ScoringModelConfig {
+  activeVersion: string;
+  models: ScoringModel[];
+}
+
+const DEFAULT_MODELS_PATH = path.join(__dirname, '../../config/scoring-models.json');
+
+// Numeric parameters every model must define, per section
+const REQUIRED_PARAMS: { [section in keyof ScoringParams]: string[] } = {
+  VOLUME: ['MIN_ETH', 'MAX_ETH', 'LOG_BASE'],
+  FREQUENCY: [
+    'MIN_TRANSACTIONS', 'MAX_TRANSACTIONS', 'MIN_ACCOUNT_AGE', 'OPTIMAL_ACCOUNT_AGE',
+    'TRANSACTION_POINTS', 'AGE_POINTS', 'MAX_AGE_POINTS', 'CONSISTENCY_POINTS', 'POINTS_PER_DAILY_TRANSACTION'
+  ],
+  STAKING: ['MIN_STAKE', 'MAX_STAKE', 'BASE_POINTS', 'PARTICIPATION_POINTS'],
+  DEFI: ['MIN_PROTOCOLS', 'MAX_PROTOCOLS', 'BASE_POINTS', 'PARTICIPATION_POINTS'],
+  LENDING: ['REPAYMENT_POINTS', 'LIQUIDATION_FREE_POINTS', 'LIQUIDATION_PENALTY', 'SLOW_REPAY_POINTS']
+};
+
+const WEIGHT_KEYS: (keyof ScoringWeights)[] = ['TRANSACTION_VOLUME', 'TRANSACTION_FREQUENCY', 'STAKING_ACTIVITY', 'DEFI_INTERACTIONS'];
+
+export class ScoringModelRegistry {
+  private static config: ScoringModelConfig | null = null;
+
+  /**
+   * Load and validate a scoring model config file
+   */
+  static load(filePath: string): ScoringModelConfig {
+    try {
+      const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (!Array.isArray(raw.models) || raw.models.length === 0) {
+        throw new Error('no scoring models defined');
+      }
+
+      const models: ScoringModel[] = raw.models.map((model: any) => this.validateModel(model));
+      const versions = new Set<string>();
+      for (const model of models) {
+        if (versions.has(model.version)) {
+          throw new Error(`duplicate model version ${model.version}`);
+        }
+        versions.add(model.version);
+      }
+
+      const activeVersion = process.env.SCORING_MODEL_VERSION || raw.activeVersion;
+      if (!versions.has(activeVersion)) {
+        throw new Error(`active model version ${activeVersion} is not defined`);
+      }
+
+      return { activeVersion, models };
+    } catch (error) {
+      throw new Error(`Failed to load scoring models from ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  static getActiveModel(): ScoringModel {
+    const config = this.getConfig();
+    return config.models.find(model => model.version === config.activeVersion)!;
+  }
+
+  static getActiveVersion(): string {
+    return this.getConfig().activeVersion;
+  }
+
+  /**
+   * Get a model by version, or null when the version is not defined
+   */
+  static getModel(version: string): ScoringModel | null {
+    return this.getConfig().models.find(model => model.version === version) || null;
+  }
+
+  static getModels(): ScoringModel[] {
+    return [...this.getConfig().models];
+  }
+
+  private static getConfig(): ScoringModelConfig {
+    if (!this.config) {
+      this.config = this.load(process.env.SCORING_MODELS_PATH || DEFAULT_MODELS_PATH);
+    }
+    return this.config;
+  }
+
+  private static validateModel(model: any): ScoringModel {
+    if (typeof model?.version !== 'string' || model.version.length === 0) {
+      throw new Error('every model needs a version');
+    }
+    const label = `model ${model.version}`;
+
+    for (const key of WEIGHT_KEYS) {
+      if (typeof model.weights?.[key] !== 'number' || model.weights[key] < 0) {
+        throw new Error(`${label}: weights.${key} must be a non-negative number`);
+      }
+    }
+    const weightSum = WEIGHT_KEYS.reduce((sum, key) => sum + model.weights[key], 0);
+    if (Math.abs(weightSum - 1) > 1e-6) {
+      throw new Error(`${label}: weights must sum to 1.0, found ${weightSum}`);
+    }
+
+    if (typeof model.lendingWeight !== 'number' || model.lendingWeight < 0 || model.lendingWeight >= 1) {
+      throw new Error(`${label}: lendingWeight must be at least 0 and below 1`);
+    }
+
+    for (const [section, keys] of Object.entries(REQUIRED_PARAMS)) {
+      for (const key of keys) {
+        if (typeof model.params?.[section]?.[key] !== 'number') {
+          throw new Error(`${label}: params.${section}.${key} must be a number`);
+        }
+      }
+    }
+
+    if (model.params.VOLUME.MIN_ETH <= 0 || model.params.VOLUME.MAX_ETH <= model.params.VOLUME.MIN_ETH) {
+      throw new Error(`${label}: params.VOLUME needs 0 < MIN_ETH < MAX_ETH`);
+    }
+
+    this.validateBands(label, 'LTV_BANDS', model.params.LENDING.LTV_BANDS, 'maxLtv');
+    this.validateBands(label, 'REPAY_TIME_BANDS', model.params.LENDING.REPAY_TIME_BANDS, 'maxDays');
+
+    return {
+      version: model.version,
+      name: model.name || model.version,
+      description: model.description || '',
+      weights: model.weights,
+      lendingWeight: model.lendingWeight,
+      params: model.params
+    };
+  }
+
+  /**
+   * Bands are matched in order, so their limits must increase
+   */
+  private static validateBands(label: string, name: string, bands: any, limitKey: string): void {
+    if (!Array.isArray(bands)) {
+      throw new Error(`${label}: params.LENDING.${name} must be an array`);
+    }
+
+    bands.forEach((band: any, index: number) => {
+      if (typeof band?.[limitKey] !== 'number' || typeof band?.points !== 'number') {
+        throw new Error(`${label}: params.LENDING.${name}[${index}] needs numeric ${limitKey} and points`);
+      }
+      if (index > 0 && band[limitKey] <= bands[index - 1][limitKey]) {
+        throw new Error(`${label}: params.LENDING.${name} limits must increase`);
+      }
+    });
+  }
+}
+
+export default ScoringModelRegistry;
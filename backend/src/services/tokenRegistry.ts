@@ -0,0 +1,130 @@
+import { ethers } from 'ethers';
+import { MAINNET_CHAIN_ID } from './chainRegistry';
+
+/**
+ * Token Registry
+ * Static metadata for widely used ERC-20 tokens so common transfers can be
+ * decoded without an extra contract call.
+ */
+
+export type TokenPeg = 'ETH' | 'USD' | 'BTC';
+
+export interface TokenMetadata {
+  symbol: string;
+  decimals: number;
+}
+
+export interface KnownToken extends TokenMetadata {
+  name: string;
+  peg?: TokenPeg; // Asset the token tracks, used for ETH-equivalent volume estimates
+}
+
+// keccak256('Transfer(address,address,uint256)')
+export const ERC20_TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// Known ERC-20 tokens (mainnet)
+const MAINNET_TOKENS: { [address: string]: KnownToken } = {
+  // Stablecoins
+  '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48': { name: 'USD Coin', symbol: 'USDC', decimals: 6, peg: 'USD' },
+  '0xdAC17F958D2ee523a2206206994597C13D831ec7': { name: 'Tether USD', symbol: 'USDT', decimals: 6, peg: 'USD' },
+  '0x6B175474E89094C44Da98b954EedeAC495271d0F': { name: 'Dai Stablecoin', symbol: 'DAI', decimals: 18, peg: 'USD' },
+  '0x853d955aCEf822Db058eb8505911ED77F175b99e': { name: 'Frax', symbol: 'FRAX', decimals: 18, peg: 'USD' },
+  '0x5f98805A4E8be255a32880FDeC7F6728C6568bA0': { name: 'LUSD Stablecoin', symbol: 'LUSD', decimals: 18, peg: 'USD' },
+
+  // ETH and liquid staking derivatives
+  '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2': { name: 'Wrapped Ether', symbol: 'WETH', decimals: 18, peg: 'ETH' },
+  '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84': { name: 'Lido Staked Ether', symbol: 'stETH', decimals: 18, peg: 'ETH' },
+  '0xae78736Cd615f374D3085123A210448E74Fc6393': { name: 'Rocket Pool ETH', symbol: 'rETH', decimals: 18, peg: 'ETH' },
+
+  // BTC
+  '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599': { name: 'Wrapped BTC', symbol: 'WBTC', decimals: 8, peg: 'BTC' },
+
+  // Governance / DeFi tokens
+  '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984': { name: 'Uniswap', symbol: 'UNI', decimals: 18 },
+  '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9': { name: 'Aave Token', symbol: 'AAVE', decimals: 18 },
+  '0x514910771AF9Ca656af840dff83E8264EcF986CA': { name: 'ChainLink Token', symbol: 'LINK', decimals: 18 },
+  '0x9f8F72aA9304c8B593d555F12eF6589cC3A579A2': { name: 'Maker', symbol: 'MKR', decimals: 18 },
+  '0xc00e94Cb662C3520282E6f5717214004A7f26888': { name: 'Compound', symbol: 'COMP', decimals: 18 },
+  '0xD533a949740bb3306d119CC777fa900bA034cd52': { name: 'Curve DAO Token', symbol: 'CRV', decimals: 18 },
+  '0x5A98FcBEA516Cf06857215779Fd812CA3beF1B32': { name: 'Lido DAO Token', symbol: 'LDO', decimals: 18 }
+};
+
+// Known ERC-20 tokens per chain
+const KNOWN_TOKENS: { [chainId: number]: { [address: string]: KnownToken } } = {
+  [MAINNET_CHAIN_ID]: MAINNET_TOKENS,
+
+  // Arbitrum One
+  42161: {
+    '0xaf88d065e77c8cC2239327C5EDb3A432268e5831': { name: 'USD Coin', symbol: 'USDC', decimals: 6, peg: 'USD' },
+    '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8': { name: 'Bridged USDC', symbol: 'USDC.e', decimals: 6, peg: 'USD' },
+    '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9': { name: 'Tether USD', symbol: 'USDT', decimals: 6, peg: 'USD' },
+    '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1': { name: 'Dai Stablecoin', symbol: 'DAI', decimals: 18, peg: 'USD' },
+    '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1': { name: 'Wrapped Ether', symbol: 'WETH', decimals: 18, peg: 'ETH' },
+    '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f': { name: 'Wrapped BTC', symbol: 'WBTC', decimals: 8, peg: 'BTC' },
+    '0x912CE59144191C1204E64559FE8253a0e49E6548': { name: 'Arbitrum', symbol: 'ARB', decimals: 18 }
+  },
+
+  // OP Mainnet
+  10: {
+    '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85': { name: 'USD Coin', symbol: 'USDC', decimals: 6, peg: 'USD' },
+    '0x7F5c764cBc14f9669B88837ca1490cCa17c31607': { name: 'Bridged USDC', symbol: 'USDC.e', decimals: 6, peg: 'USD' },
+    '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58': { name: 'Tether USD', symbol: 'USDT', decimals: 6, peg: 'USD' },
+    '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1': { name: 'Dai Stablecoin', symbol: 'DAI', decimals: 18, peg: 'USD' },
+    '0x4200000000000000000000000000000000000006': { name: 'Wrapped Ether', symbol: 'WETH', decimals: 18, peg: 'ETH' },
+    '0x4200000000000000000000000000000000000042': { name: 'Optimism', symbol: 'OP', decimals: 18 }
+  },
+
+  // Base
+  8453: {
+    '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913': { name: 'USD Coin', symbol: 'USDC', decimals: 6, peg: 'USD' },
+    '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA': { name: 'USD Base Coin', symbol: 'USDbC', decimals: 6, peg: 'USD' },
+    '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb': { name: 'Dai Stablecoin', symbol: 'DAI', decimals: 18, peg: 'USD' },
+    '0x4200000000000000000000000000000000000006': { name: 'Wrapped Ether', symbol: 'WETH', decimals: 18, peg: 'ETH' }
+  },
+
+  // Polygon PoS
+  137: {
+    '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359': { name: 'USD Coin', symbol: 'USDC', decimals: 6, peg: 'USD' },
+    '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174': { name: 'Bridged USDC', symbol: 'USDC.e', decimals: 6, peg: 'USD' },
+    '0xc2132D05D31c914a87C6611C10748AEb04B58e8F': { name: 'Tether USD', symbol: 'USDT', decimals: 6, peg: 'USD' },
+    '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063': { name: 'Dai Stablecoin', symbol: 'DAI', decimals: 18, peg: 'USD' },
+    '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619': { name: 'Wrapped Ether', symbol: 'WETH', decimals: 18, peg: 'ETH' },
+    '0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6': { name: 'Wrapped BTC', symbol: 'WBTC', decimals: 8, peg: 'BTC' }
+  }
+};
+
+// Rough conversion rates used until a price feed is available
+const REFERENCE_ETH_RATES: { [peg in TokenPeg]: number } = {
+  ETH: 1,
+  USD: 1 / parseFloat(process.env.REFERENCE_ETH_USD_PRICE || '2000'),
+  BTC: parseFloat(process.env.REFERENCE_BTC_ETH_RATIO || '15')
+};
+
+export class TokenRegistry {
+  /**
+   * Get static metadata for a known token
+   */
+  static getKnownToken(tokenAddress: string, chainId: number = MAINNET_CHAIN_ID): KnownToken | null {
+    const lowerAddress = tokenAddress.toLowerCase();
+
+    for (const [address, token] of Object.entries(KNOWN_TOKENS[chainId] || {})) {
+      if (address.toLowerCase() === lowerAddress) {
+        return token;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Estimate the ETH value of a token amount from the token's peg, or null when unknown
+   */
+  static estimateEthValue(tokenAddress: string, amount: number, chainId: number = MAINNET_CHAIN_ID): number | null {
+    const token = this.getKnownToken(tokenAddress, chainId);
+    if (!token?.peg) {
+      return null;
+    }
+
+    return amount * REFERENCE_ETH_RATES[token.peg];
+  }
+}
@@ -1,4 +1,5 @@
 import { TransactionData, UserMetrics } from './blockchainService';
+import { DecodedValue } from './functionDecoder';
 // Import will be added after fixing circular dependency
 // import { TransactionCategorizer, CategoryResult, ProtocolType, SophisticationLevel } from './transactionCategorizer';
 
@@ -25,6 +26,8 @@ export interface TransactionAnalysis {
   category: TransactionCategory;
   subcategory?: string;
   protocolName?: string;
+  functionName?: string; // decoded function, e.g. swapExactTokensForTokens or borrow
+  decodedArgs?: { [name: string]: DecodedValue };
   
   // Temporal analysis
   timingConsistency: number; // 0-100
@@ -85,6 +88,8 @@ export enum TransactionCategory {
   UNKNOWN = 'UNKNOWN'
 }
 
+const MAX_UINT256 = (2n ** 256n - 1n).toString();
+
 /**
  * Advanced Transaction Analysis Engine
  * Implements sophisticated analysis of transaction patterns and behaviors
@@ -155,6 +160,10 @@ export class TransactionAnalysisEngine {
       category: category.primary,
       subcategory: category.subcategory,
       protocolName: transaction.protocolName,
+      ...(transaction.decodedCall && {
+        functionName: transaction.decodedCall.name,
+        decodedArgs: transaction.decodedCall.args
+      }),
       
       timingConsistency: temporalAnalysis.consistency,
       isOutlier: temporalAnalysis.isOutlier,
@@ -207,6 +216,18 @@ export class TransactionAnalysisEngine {
       });
     }
     
+    // Unlimited token approvals leave the full balance exposed to the approved contract
+    const decodedCall = transaction.decodedCall;
+    if (decodedCall?.name === 'approve' && decodedCall.args.amount === MAX_UINT256) {
+      factors.push({
+        type: 'PROTOCOL',
+        severity: 'MEDIUM',
+        score: 50,
+        description: 'Unlimited token approval',
+        indicators: [`Unlimited allowance granted to ${decodedCall.args.spender}`]
+      });
+    }
+    
     // Timing anomaly risk
     if (userHistory.length > 1) {
       const sortedHistory = [...userHistory].sort((a, b) => a.timestamp - b.timestamp);
@@ -299,6 +320,14 @@ export class TransactionAnalysisEngine {
     primary: TransactionCategory;
     subcategory?: string;
   } {
+    // The decoded function is the most specific signal available
+    if (transaction.decodedCall) {
+      return {
+        primary: transaction.decodedCall.category,
+        subcategory: transaction.protocolName || transaction.decodedCall.name
+      };
+    }
+    
     // Check if it's a known protocol interaction
     if (transaction.protocolName) {
       const protocolKey = transaction.protocolName.toLowerCase();
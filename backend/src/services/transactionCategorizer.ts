@@ -1,5 +1,7 @@
 import { TransactionData } from './blockchainService';
 import { TransactionCategory } from './transactionAnalysisEngine';
+import { MAINNET_CHAIN_ID } from './chainRegistry';
+import { DecodedCall } from './functionDecoder';
 
 /**
  * Transaction Categorization System
@@ -14,6 +16,7 @@ export interface CategoryResult {
   protocolType?: ProtocolType;
   sophisticationLevel: SophisticationLevel;
   tags: string[];
+  decodedCall?: DecodedCall; // function called and its arguments, when decoded
 }
 
 export enum ProtocolType {
@@ -37,6 +40,14 @@ export enum SophisticationLevel {
   EXPERT = 'EXPERT'          // Advanced strategies, MEV, arbitrage
 }
 
+export interface ProtocolInfo {
+  name: string;
+  type: ProtocolType;
+  category: TransactionCategory;
+  sophistication: SophisticationLevel;
+  tags: string[];
+}
+
 /**
  * Comprehensive protocol database with categorization rules
  */
@@ -248,19 +259,186 @@ export class ProtocolDatabase {
     }
   };
 
+  // Protocol deployments on other supported chains, keyed by chain id
+  private static readonly CHAIN_PROTOCOLS: { [chainId: number]: { [address: string]: ProtocolInfo } } = {
+    // Arbitrum One
+    42161: {
+      '0xE592427A0AEce92De3Edee1F18E0157C05861564': {
+        name: 'Uniswap V3 Router',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['dex', 'amm', 'swap', 'uniswap', 'concentrated-liquidity', 'arbitrum']
+      },
+      '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': {
+        name: 'Uniswap V3 Router 2',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['dex', 'amm', 'swap', 'uniswap', 'concentrated-liquidity', 'arbitrum']
+      },
+      '0x794a61358D6845594F94dc1DB02A252b5b4814aD': {
+        name: 'Aave V3 Pool',
+        type: ProtocolType.LENDING,
+        category: TransactionCategory.DEFI_LENDING,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['lending', 'borrowing', 'aave', 'efficiency-mode', 'arbitrum']
+      },
+      '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506': {
+        name: 'SushiSwap Router',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.INTERMEDIATE,
+        tags: ['dex', 'amm', 'swap', 'sushiswap', 'arbitrum']
+      },
+      '0xBA12222222228d8Ba445958a75a0704d566BF2C8': {
+        name: 'Balancer V2 Vault',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_LIQUIDITY,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['dex', 'balancer', 'weighted-pool', 'arbitrum']
+      },
+      '0xaBBc5F99639c9B6bCb58544ddf04EFA6802F4064': {
+        name: 'GMX Router',
+        type: ProtocolType.DERIVATIVES,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.EXPERT,
+        tags: ['derivatives', 'perpetuals', 'gmx', 'leverage', 'arbitrum']
+      },
+      '0x1111111254EEB25477B68fb85Ed929f73A960582': {
+        name: '1inch V5 Router',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.EXPERT,
+        tags: ['dex', 'aggregator', 'swap', '1inch', 'arbitrum']
+      }
+    },
+
+    // OP Mainnet
+    10: {
+      '0xE592427A0AEce92De3Edee1F18E0157C05861564': {
+        name: 'Uniswap V3 Router',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['dex', 'amm', 'swap', 'uniswap', 'concentrated-liquidity', 'optimism']
+      },
+      '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': {
+        name: 'Uniswap V3 Router 2',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['dex', 'amm', 'swap', 'uniswap', 'concentrated-liquidity', 'optimism']
+      },
+      '0x794a61358D6845594F94dc1DB02A252b5b4814aD': {
+        name: 'Aave V3 Pool',
+        type: ProtocolType.LENDING,
+        category: TransactionCategory.DEFI_LENDING,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['lending', 'borrowing', 'aave', 'efficiency-mode', 'optimism']
+      },
+      '0xa062aE8A9c5e11aaA026fc2670B0D65cCc8B2858': {
+        name: 'Velodrome V2 Router',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.INTERMEDIATE,
+        tags: ['dex', 'amm', 'swap', 'velodrome', 'optimism']
+      },
+      '0x1111111254EEB25477B68fb85Ed929f73A960582': {
+        name: '1inch V5 Router',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.EXPERT,
+        tags: ['dex', 'aggregator', 'swap', '1inch', 'optimism']
+      }
+    },
+
+    // Base
+    8453: {
+      '0x2626664c2603336E57B271c5C0b26F421741e481': {
+        name: 'Uniswap V3 Router 2',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['dex', 'amm', 'swap', 'uniswap', 'concentrated-liquidity', 'base']
+      },
+      '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5': {
+        name: 'Aave V3 Pool',
+        type: ProtocolType.LENDING,
+        category: TransactionCategory.DEFI_LENDING,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['lending', 'borrowing', 'aave', 'efficiency-mode', 'base']
+      },
+      '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43': {
+        name: 'Aerodrome Router',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.INTERMEDIATE,
+        tags: ['dex', 'amm', 'swap', 'aerodrome', 'base']
+      },
+      '0x1111111254EEB25477B68fb85Ed929f73A960582': {
+        name: '1inch V5 Router',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.EXPERT,
+        tags: ['dex', 'aggregator', 'swap', '1inch', 'base']
+      }
+    },
+
+    // Polygon PoS
+    137: {
+      '0xE592427A0AEce92De3Edee1F18E0157C05861564': {
+        name: 'Uniswap V3 Router',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['dex', 'amm', 'swap', 'uniswap', 'concentrated-liquidity', 'polygon']
+      },
+      '0x794a61358D6845594F94dc1DB02A252b5b4814aD': {
+        name: 'Aave V3 Pool',
+        type: ProtocolType.LENDING,
+        category: TransactionCategory.DEFI_LENDING,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['lending', 'borrowing', 'aave', 'efficiency-mode', 'polygon']
+      },
+      '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff': {
+        name: 'QuickSwap Router',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.INTERMEDIATE,
+        tags: ['dex', 'amm', 'swap', 'quickswap', 'polygon']
+      },
+      '0xF25212E676D1F7F89Cd72fFEe66158f541246445': {
+        name: 'Compound V3 USDC',
+        type: ProtocolType.LENDING,
+        category: TransactionCategory.DEFI_LENDING,
+        sophistication: SophisticationLevel.ADVANCED,
+        tags: ['lending', 'borrowing', 'compound', 'polygon']
+      },
+      '0x1111111254EEB25477B68fb85Ed929f73A960582': {
+        name: '1inch V5 Router',
+        type: ProtocolType.DEX,
+        category: TransactionCategory.DEFI_SWAP,
+        sophistication: SophisticationLevel.EXPERT,
+        tags: ['dex', 'aggregator', 'swap', '1inch', 'polygon']
+      }
+    }
+  };
+
+  /**
+   * Protocols deployed on a chain
+   */
+  private static getProtocols(chainId: number): { [address: string]: ProtocolInfo } {
+    return chainId === MAINNET_CHAIN_ID ? this.PROTOCOLS : this.CHAIN_PROTOCOLS[chainId] || {};
+  }
+
   /**
    * Get protocol information by address
    */
-  public static getProtocolInfo(address: string): {
-    name: string;
-    type: ProtocolType;
-    category: TransactionCategory;
-    sophistication: SophisticationLevel;
-    tags: string[];
-  } | null {
+  public static getProtocolInfo(address: string, chainId: number = MAINNET_CHAIN_ID): ProtocolInfo | null {
     const normalizedAddress = address.toLowerCase();
     
-    for (const [protocolAddress, info] of Object.entries(this.PROTOCOLS)) {
+    for (const [protocolAddress, info] of Object.entries(this.getProtocols(chainId))) {
       if (protocolAddress.toLowerCase() === normalizedAddress) {
         return info;
       }
@@ -272,7 +450,7 @@ export class ProtocolDatabase {
   /**
    * Search protocols by name or tag
    */
-  public static searchProtocols(query: string): Array<{
+  public static searchProtocols(query: string, chainId: number = MAINNET_CHAIN_ID): Array<{
     address: string;
     name: string;
     type: ProtocolType;
@@ -283,7 +461,7 @@ export class ProtocolDatabase {
     const results = [];
     const lowerQuery = query.toLowerCase();
     
-    for (const [address, info] of Object.entries(this.PROTOCOLS)) {
+    for (const [address, info] of Object.entries(this.getProtocols(chainId))) {
       if (
         info.name.toLowerCase().includes(lowerQuery) ||
         info.tags.some(tag => tag.includes(lowerQuery))
@@ -298,7 +476,7 @@ export class ProtocolDatabase {
   /**
    * Get all protocols by type
    */
-  public static getProtocolsByType(type: ProtocolType): Array<{
+  public static getProtocolsByType(type: ProtocolType, chainId: number = MAINNET_CHAIN_ID): Array<{
     address: string;
     name: string;
     category: TransactionCategory;
@@ -307,7 +485,7 @@ export class ProtocolDatabase {
   }> {
     const results = [];
     
-    for (const [address, info] of Object.entries(this.PROTOCOLS)) {
+    for (const [address, info] of Object.entries(this.getProtocols(chainId))) {
       if (info.type === type) {
         results.push({ address, ...info });
       }
@@ -334,18 +512,20 @@ export class TransactionCategorizer {
     let protocolType: ProtocolType | undefined;
     let sophisticationLevel = SophisticationLevel.BASIC;
     let tags: string[] = [];
+    const decodedCall = transaction.decodedCall;
 
     // Check if it's a known protocol interaction
     if (transaction.to) {
-      const protocolInfo = ProtocolDatabase.getProtocolInfo(transaction.to);
+      const protocolInfo = ProtocolDatabase.getProtocolInfo(transaction.to, transaction.chainId ?? MAINNET_CHAIN_ID);
       
       if (protocolInfo) {
-        primary = protocolInfo.category;
+        // The decoded function refines the protocol's category (a lending pool is also used to borrow)
+        primary = decodedCall?.category ?? protocolInfo.category;
         subcategory = protocolInfo.name;
         protocolName = protocolInfo.name;
         protocolType = protocolInfo.type;
         sophisticationLevel = protocolInfo.sophistication;
-        tags = [...protocolInfo.tags];
+        tags = decodedCall ? [...protocolInfo.tags, decodedCall.name] : [...protocolInfo.tags];
         confidence = 95; // High confidence for known protocols
         
         return {
@@ -355,11 +535,45 @@ export class TransactionCategorizer {
           protocolName,
           protocolType,
           sophisticationLevel,
-          tags
+          tags,
+          ...(decodedCall && { decodedCall })
         };
       }
     }
 
+    // Protocols reached through aggregators, multisigs or smart-contract wallets
+    for (const call of transaction.internalCalls || []) {
+      if (!call.to || call.isError) continue;
+
+      const protocolInfo = ProtocolDatabase.getProtocolInfo(call.to, transaction.chainId ?? MAINNET_CHAIN_ID);
+      if (protocolInfo) {
+        return {
+          primary: protocolInfo.category,
+          subcategory: protocolInfo.name,
+          confidence: 85, // Slightly lower than a direct interaction
+          protocolName: protocolInfo.name,
+          protocolType: protocolInfo.type,
+          sophisticationLevel: protocolInfo.sophistication,
+          tags: [...protocolInfo.tags, 'internal-call'],
+          ...(decodedCall && { decodedCall })
+        };
+      }
+    }
+
+    // Functions from the local 4-byte table on contracts outside the protocol database
+    if (decodedCall) {
+      return {
+        primary: decodedCall.category,
+        subcategory: decodedCall.name,
+        confidence: 70,
+        sophisticationLevel: decodedCall.category === TransactionCategory.TRANSFER || decodedCall.category === TransactionCategory.TOKEN_APPROVAL
+          ? SophisticationLevel.BASIC
+          : SophisticationLevel.INTERMEDIATE,
+        tags: ['decoded-call', decodedCall.name],
+        decodedCall
+      };
+    }
+
     // Fallback to existing transaction properties
     if (transaction.isStaking) {
       primary = TransactionCategory.STAKING;
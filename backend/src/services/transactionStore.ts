@@ -0,0 +1,125 @@
+import { getDatabase, isDatabaseInitialized, withTransaction } from '../database/connection';
+import { TransactionData } from './blockchainService';
+import { MAINNET_CHAIN_ID } from './chainRegistry';
+
+export interface TransactionSyncState {
+  address: string;
+  chainId: number;
+  lastBlock: number; // transactions up to and including this block are indexed
+  lastSyncedAt: number;
+  transactionCount: number;
+}
+
+/**
+ * Transaction Store
+ * SQLite-backed index of each address's transactions, so rescoring a known wallet
+ * only fetches transactions after the last indexed block and history is kept
+ * beyond a single fetch window.
+ */
+export class TransactionStore {
+  /**
+   * The store is only used once the database has been initialized
+   */
+  static isAvailable(): boolean {
+    return isDatabaseInitialized();
+  }
+
+  /**
+   * Get the sync state of an address, or null when it has never been indexed
+   */
+  static async getSyncState(address: string, chainId: number = MAINNET_CHAIN_ID): Promise<TransactionSyncState | null> {
+    const db = getDatabase();
+
+    try {
+      const result = await new Promise<any>((resolve, reject) => {
+        db.get(`
+          SELECT s.address, s.chain_id, s.last_block, s.last_synced_at,
+            (SELECT COUNT(*) FROM indexed_transactions t
+             WHERE t.address = s.address AND t.chain_id = s.chain_id) AS transaction_count
+          FROM transaction_sync_state s
+          WHERE s.address = ? AND s.chain_id = ?
+        `, [address.toLowerCase(), chainId], (err, row) => {
+          if (err) reject(err);
+          else resolve(row);
+        });
+      });
+
+      if (!result) {
+        return null;
+      }
+
+      return {
+        address: result.address,
+        chainId: result.chain_id,
+        lastBlock: result.last_block,
+        lastSyncedAt: result.last_synced_at,
+        transactionCount: result.transaction_count
+      };
+    } catch (error) {
+      console.error('Error getting transaction sync state:', error);
+      throw new Error(`Failed to get transaction sync state: ${error}`);
+    }
+  }
+
+  /**
+   * Index transactions for an address and advance its sync state to lastBlock.
+   * Transactions already indexed are replaced, so overlapping syncs are safe.
+   */
+  static async saveTransactions(
+    address: string,
+    chainId: number,
+    transactions: TransactionData[],
+    lastBlock: number
+  ): Promise<void> {
+    const lowerAddress = address.toLowerCase();
+    const now = Math.floor(Date.now() / 1000);
+
+    try {
+      await withTransaction(async run => {
+        for (const tx of transactions) {
+          await run(`
+            INSERT OR REPLACE INTO indexed_transactions
+              (address, chain_id, hash, block_number, timestamp, data, indexed_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+          `, [lowerAddress, chainId, tx.hash.toLowerCase(), tx.blockNumber, tx.timestamp, JSON.stringify(tx), now]);
+        }
+
+        await run(`
+          INSERT OR REPLACE INTO transaction_sync_state (address, chain_id, last_block, last_synced_at)
+          VALUES (?, ?, ?, ?)
+        `, [lowerAddress, chainId, lastBlock, now]);
+      });
+
+      console.log(`Indexed ${transactions.length} transactions for ${address} on chain ${chainId} up to block ${lastBlock}`);
+    } catch (error) {
+      console.error('Error saving indexed transactions:', error);
+      throw new Error(`Failed to save indexed transactions: ${error}`);
+    }
+  }
+
+  /**
+   * Get all indexed transactions of an address, oldest first
+   */
+  static async getTransactions(address: string, chainId: number = MAINNET_CHAIN_ID): Promise<TransactionData[]> {
+    const db = getDatabase();
+
+    try {
+      const results = await new Promise<any[]>((resolve, reject) => {
+        db.all(`
+          SELECT data
+          FROM indexed_transactions
+          WHERE address = ? AND chain_id = ?
+          ORDER BY block_number ASC, timestamp ASC
+        `, [address.toLowerCase(), chainId], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        });
+      });
+
+      return results.map((row: any) => JSON.parse(row.data));
+    } catch (error) {
+      console.error('Error getting indexed transactions:', error);
+      throw new Error(`Failed to get indexed transactions: ${error}`);
+    }
+  }
+}
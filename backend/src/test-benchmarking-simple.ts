@@ -95,6 +95,7 @@ async function testBenchmarkingSystemSimple() {
         confidence: Math.round(60 + Math.random() * 30), // Random confidence 60-90%
         timestamp: Math.floor(Date.now() / 1000),
         version: '2.0.0',
+        modelVersion: 'v1',
         breakdown: {
           transactionVolume: Math.round(200 + Math.random() * 600),
           transactionFrequency: Math.round(200 + Math.random() * 600),
@@ -200,7 +201,8 @@ async function testBenchmarkingSystemSimple() {
             volatilityRisk: false,
             inactivityRisk: false,
             newAccountRisk: testUser.metrics.accountAge < 90,
-            unusualPatterns: false
+            unusualPatterns: false,
+            liquidationRisk: false
           }
         },
         behavioralInsights: {
@@ -24,6 +24,7 @@ async function testCompetitivePositioningSimple() {
       score: 750,
       confidence: 85,
       timestamp: Math.floor(Date.now() / 1000),
+      modelVersion: 'v1',
       breakdown: {
         transactionVolume: 200,
         transactionFrequency: 180,
@@ -129,7 +130,8 @@ async function testCompetitivePositioningSimple() {
           volatilityRisk: false,
           inactivityRisk: false,
           newAccountRisk: false,
-          unusualPatterns: false
+          unusualPatterns: false,
+          liquidationRisk: false
         }
       },
       behavioralInsights: {
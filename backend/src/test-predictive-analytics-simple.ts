@@ -41,7 +41,8 @@ async function testPredictiveAnalyticsSimple() {
         stakingActivity: 190,
         defiInteractions: 190
       },
-      timestamp: Math.floor(Date.now() / 1000)
+      timestamp: Math.floor(Date.now() / 1000),
+      modelVersion: 'v1'
     };
 
     // Create mock score history (30 days of data)
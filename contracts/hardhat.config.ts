@@ -0,0 +1,45 @@
+import { HardhatUserConfig, subtask } from 'hardhat/config';
+import { TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD } from 'hardhat/builtin-tasks/task-names';
+import '@nomicfoundation/hardhat-ethers';
+
+const SOLC_VERSION = '0.8.20';
+
+// Compile with the solc-js build pinned in package.json rather than downloading the compiler,
+// so builds and tests run offline
+subtask(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD).setAction(async (args: { solcVersion: string }, _hre, runSuper) => {
+  if (args.solcVersion !== SOLC_VERSION) {
+    return runSuper(args);
+  }
+
+  return {
+    compilerPath: require.resolve('solc/soljson.js'),
+    isSolcJs: true,
+    version: SOLC_VERSION,
+    longVersion: `${SOLC_VERSION}+commit.a1b79de6`
+  };
+});
+
+/**
+ * Hardhat config for the ScoreRegistry contract.
+ * The registry network deploys to SCORE_REGISTRY_RPC_URL, the node the backend publishes to,
+ * from DEPLOYER_PRIVATE_KEY.
+ */
+const config: HardhatUserConfig = {
+  solidity: {
+    version: SOLC_VERSION,
+    settings: {
+      optimizer: { enabled: true, runs: 200 }
+    }
+  },
+  paths: {
+    sources: './src'
+  },
+  networks: {
+    registry: {
+      url: process.env.SCORE_REGISTRY_RPC_URL || 'http://127.0.0.1:8545',
+      accounts: process.env.DEPLOYER_PRIVATE_KEY ? [process.env.DEPLOYER_PRIVATE_KEY] : []
+    }
+  }
+};
+
+export default config;
@@ -0,0 +1,32 @@
+import { ethers, network } from 'hardhat';
+
+/**
+ * Deploy ScoreRegistry
+ * The publisher allowed to write scores is SCORE_PUBLISHER_ADDRESS, or the deployer when unset.
+ *
+ *   SCORE_PUBLISHER_ADDRESS=0x... npm run deploy -- --network registry
+ */
+async function main(): Promise<void> {
+  const [deployer] = await ethers.getSigners();
+  if (!deployer) {
+    throw new Error(`No deployer account on network ${network.name}, set DEPLOYER_PRIVATE_KEY`);
+  }
+
+  const publisher = process.env.SCORE_PUBLISHER_ADDRESS || deployer.address;
+  if (!ethers.isAddress(publisher)) {
+    throw new Error(`SCORE_PUBLISHER_ADDRESS is not an address: ${publisher}`);
+  }
+
+  console.log(`Deploying ScoreRegistry to ${network.name} from ${deployer.address}, publisher ${publisher}`);
+  const registry = await ethers.deployContract('ScoreRegistry', [publisher]);
+  await registry.waitForDeployment();
+
+  const address = await registry.getAddress();
+  console.log(`ScoreRegistry deployed at ${address}`);
+  console.log(`Set SCORE_REGISTRY_ADDRESS=${address} in backend/.env to publish to it`);
+}
+
+main().catch(error => {
+  console.error('Deployment failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,148 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ScoreRegistry
+ * @notice On-chain record of CryptoScore credit scores.
+ *
+ * The publisher either writes scores directly in batches (readable with getScore),
+ * or publishes the Merkle root of every current score, against which anyone can
+ * check a score with the proof served by GET /api/score/:address/proof.
+ *
+ * Leaves are keccak256(bytes.concat(keccak256(abi.encode(account, chainId, score, modelVersion, timestamp))))
+ * and pairs are hashed in sorted order, so proofs also verify with OpenZeppelin's MerkleProof.
+ * chainId 0 holds scores aggregated across chains; modelVersion is the scoring model
+ * version as a bytes32 string.
+ */
+contract ScoreRegistry {
+    struct Score {
+        uint16 score;
+        uint64 timestamp;
+        bytes32 modelVersion;
+    }
+
+    struct ScoreUpdate {
+        address account;
+        uint256 chainId;
+        uint16 score;
+        bytes32 modelVersion;
+        uint64 timestamp;
+    }
+
+    uint16 public constant MAX_SCORE = 1000;
+
+    address public owner;
+    address public publisher;
+
+    bytes32 public merkleRoot;
+    uint256 public rootEpoch;
+    uint256 public rootScoreCount;
+    uint64 public rootPublishedAt;
+
+    mapping(address => mapping(uint256 => Score)) private scores;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event PublisherChanged(address indexed previousPublisher, address indexed newPublisher);
+    event ScoreUpdated(address indexed account, uint256 indexed chainId, uint16 score, bytes32 modelVersion, uint64 timestamp);
+    event MerkleRootPublished(uint256 indexed epoch, bytes32 root, uint256 scoreCount);
+
+    error NotOwner();
+    error NotPublisher();
+    error ZeroAddress();
+    error ScoreOutOfRange(address account, uint16 score);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyPublisher() {
+        if (msg.sender != publisher) revert NotPublisher();
+        _;
+    }
+
+    constructor(address initialPublisher) {
+        if (initialPublisher == address(0)) revert ZeroAddress();
+        owner = msg.sender;
+        publisher = initialPublisher;
+        emit OwnershipTransferred(address(0), msg.sender);
+        emit PublisherChanged(address(0), initialPublisher);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert ZeroAddress();
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    function setPublisher(address newPublisher) external onlyOwner {
+        if (newPublisher == address(0)) revert ZeroAddress();
+        emit PublisherChanged(publisher, newPublisher);
+        publisher = newPublisher;
+    }
+
+    /**
+     * @notice Write a batch of scores. Updates older than the stored score are skipped,
+     * so batches can be retried or replayed out of order.
+     */
+    function publishScores(ScoreUpdate[] calldata updates) external onlyPublisher {
+        for (uint256 i = 0; i < updates.length; i++) {
+            ScoreUpdate calldata update = updates[i];
+            if (update.score > MAX_SCORE) revert ScoreOutOfRange(update.account, update.score);
+
+            Score storage current = scores[update.account][update.chainId];
+            if (update.timestamp < current.timestamp) continue;
+
+            current.score = update.score;
+            current.timestamp = update.timestamp;
+            current.modelVersion = update.modelVersion;
+            emit ScoreUpdated(update.account, update.chainId, update.score, update.modelVersion, update.timestamp);
+        }
+    }
+
+    /**
+     * @notice Replace the Merkle root of all current scores
+     */
+    function publishMerkleRoot(bytes32 root, uint256 scoreCount) external onlyPublisher {
+        merkleRoot = root;
+        rootEpoch += 1;
+        rootScoreCount = scoreCount;
+        rootPublishedAt = uint64(block.timestamp);
+        emit MerkleRootPublished(rootEpoch, root, scoreCount);
+    }
+
+    function getScore(address account, uint256 chainId)
+        external
+        view
+        returns (uint16 score, bytes32 modelVersion, uint64 timestamp)
+    {
+        Score storage stored = scores[account][chainId];
+        return (stored.score, stored.modelVersion, stored.timestamp);
+    }
+
+    /**
+     * @notice Check a score against the current Merkle root
+     */
+    function verifyScore(
+        address account,
+        uint256 chainId,
+        uint256 score,
+        bytes32 modelVersion,
+        uint256 timestamp,
+        bytes32[] calldata proof
+    ) external view returns (bool) {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account, chainId, score, modelVersion, timestamp))));
+        return merkleRoot != bytes32(0) && _processProof(proof, leaf) == merkleRoot;
+    }
+
+    function _processProof(bytes32[] calldata proof, bytes32 leaf) private pure returns (bytes32 computed) {
+        computed = leaf;
+        for (uint256 i = 0; i < proof.length; i++) {
+            computed = _hashPair(computed, proof[i]);
+        }
+    }
+
+    function _hashPair(bytes32 a, bytes32 b) private pure returns (bytes32) {
+        return a < b ? keccak256(abi.encodePacked(a, b)) : keccak256(abi.encodePacked(b, a));
+    }
+}
@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import { Contract } from 'ethers';
+import { ethers } from 'hardhat';
+import { ScoreLeaf, ScoreMerkleTree } from '../../backend/src/services/scoreMerkleTree';
+
+/**
+ * Proofs built by the backend's ScoreMerkleTree must verify against ScoreRegistry.verifyScore,
+ * so leaf encoding and pair hashing have to match the contract exactly.
+ */
+describe('ScoreRegistry', () => {
+  const leaves: ScoreLeaf[] = [
+    { address: '0x1111111111111111111111111111111111111111', chainId: 1, score: 742, modelVersion: '2.1.0', timestamp: 1700000000 },
+    { address: '0x1111111111111111111111111111111111111111', chainId: 0, score: 755, modelVersion: '2.1.0', timestamp: 1700000000 },
+    { address: '0x2222222222222222222222222222222222222222', chainId: 1, score: 310, modelVersion: '2.1.0', timestamp: 1700000100 },
+    { address: '0x3333333333333333333333333333333333333333', chainId: 137, score: 1000, modelVersion: '2.0.0', timestamp: 1700000200 },
+    { address: '0x4444444444444444444444444444444444444444', chainId: 8453, score: 0, modelVersion: '2.1.0', timestamp: 1700000300 }
+  ];
+
+  async function deployRegistry() {
+    const [, publisher, other] = await ethers.getSigners();
+    const registry = await ethers.deployContract('ScoreRegistry', [publisher.address]);
+    await registry.waitForDeployment();
+    return {
+      registry,
+      asPublisher: registry.connect(publisher) as Contract,
+      asOther: registry.connect(other) as Contract
+    };
+  }
+
+  async function verifyOnChain(registry: Contract, leaf: ScoreLeaf, proof: string[]): Promise<boolean> {
+    return registry.verifyScore(
+      leaf.address,
+      leaf.chainId,
+      leaf.score,
+      ethers.encodeBytes32String(leaf.modelVersion),
+      leaf.timestamp,
+      proof
+    );
+  }
+
+  it('verifies every proof of a tree built in TypeScript', async () => {
+    const { registry, asPublisher } = await deployRegistry();
+    const tree = new ScoreMerkleTree(leaves);
+    await asPublisher.publishMerkleRoot(tree.root, tree.size);
+
+    expect(await registry.merkleRoot()).to.equal(tree.root);
+    for (const leaf of leaves) {
+      const proof = tree.getProof(leaf.address, leaf.chainId)!;
+      expect(await verifyOnChain(registry, leaf, proof.proof)).to.equal(true);
+    }
+  });
+
+  it('verifies the empty proof of a single score tree', async () => {
+    const { registry, asPublisher } = await deployRegistry();
+    const tree = new ScoreMerkleTree([leaves[0]]);
+    await asPublisher.publishMerkleRoot(tree.root, tree.size);
+
+    const proof = tree.getProof(leaves[0].address, leaves[0].chainId)!;
+    expect(proof.proof).to.have.length(0);
+    expect(await verifyOnChain(registry, leaves[0], proof.proof)).to.equal(true);
+  });
+
+  it('rejects a proof for a score that differs from the published one', async () => {
+    const { registry, asPublisher } = await deployRegistry();
+    const tree = new ScoreMerkleTree(leaves);
+    await asPublisher.publishMerkleRoot(tree.root, tree.size);
+
+    const leaf = leaves[2];
+    const { proof } = tree.getProof(leaf.address, leaf.chainId)!;
+    expect(await verifyOnChain(registry, { ...leaf, score: leaf.score + 1 }, proof)).to.equal(false);
+    expect(await verifyOnChain(registry, { ...leaf, chainId: 10 }, proof)).to.equal(false);
+    expect(await verifyOnChain(registry, { ...leaf, modelVersion: '2.0.0' }, proof)).to.equal(false);
+    expect(await verifyOnChain(registry, { ...leaf, timestamp: leaf.timestamp + 1 }, proof)).to.equal(false);
+  });
+
+  it('rejects every proof before a root is published', async () => {
+    const { registry } = await deployRegistry();
+    const tree = new ScoreMerkleTree(leaves);
+
+    const { proof } = tree.getProof(leaves[0].address, leaves[0].chainId)!;
+    expect(await verifyOnChain(registry, leaves[0], proof)).to.equal(false);
+  });
+
+  it('only lets the publisher publish a root', async () => {
+    const { registry, asOther } = await deployRegistry();
+    const tree = new ScoreMerkleTree(leaves);
+
+    const error = await asOther.publishMerkleRoot(tree.root, tree.size).then(() => null, (err: Error) => err);
+    expect(error?.message).to.contain('NotPublisher');
+    expect(await registry.merkleRoot()).to.equal(ethers.ZeroHash);
+  });
+});
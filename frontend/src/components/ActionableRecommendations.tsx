@@ -1,21 +1,53 @@
-import { useState } from 'react'
-import { PersonalizedRecommendation } from '../services/apiService'
+import { useState, useEffect } from 'react'
+import {
+  apiService,
+  PersonalizedRecommendation,
+  RecommendationStatus,
+  RecommendationStatusChange,
+  TrackedRecommendation
+} from '../services/apiService'
+
+type RecommendationAction = 'start' | 'complete' | 'dismiss' | 'restore'
 
 interface ActionableRecommendationsProps {
-  recommendations: PersonalizedRecommendation[]
+  recommendations?: PersonalizedRecommendation[]
+  // When set, recommendations are loaded from the address's tracked recommendations and actions persist
+  address?: string
   onRecommendationAction?: (recommendationId: string, action: 'start' | 'complete' | 'dismiss') => void
 }
 
 interface RecommendationCardProps {
   recommendation: PersonalizedRecommendation
   index: number
-  onAction: (action: 'start' | 'complete' | 'dismiss') => void
+  status?: RecommendationStatus
+  onAction: (action: RecommendationAction) => void
+}
+
+const STATUS_BY_ACTION: { [action in RecommendationAction]: RecommendationStatus } = {
+  start: 'IN_PROGRESS',
+  complete: 'DONE',
+  dismiss: 'DISMISSED',
+  restore: 'OPEN'
 }
 
-function RecommendationCard({ recommendation, index, onAction }: RecommendationCardProps) {
+const STATUS_LABELS: { [status in RecommendationStatus]: string } = {
+  OPEN: 'Open',
+  IN_PROGRESS: 'In Progress',
+  DONE: 'Done',
+  DISMISSED: 'Dismissed'
+}
+
+function RecommendationCard({ recommendation, index, status, onAction }: RecommendationCardProps) {
   const [isExpanded, setIsExpanded] = useState(false)
   const [currentProgress, setCurrentProgress] = useState(recommendation.currentProgress || 0)
-  const [isStarted, setIsStarted] = useState(currentProgress > 0)
+  const [isStarted, setIsStarted] = useState(currentProgress > 0 || status === 'IN_PROGRESS' || status === 'DONE')
+
+  // Tracked recommendations follow their persisted status and measured progress
+  useEffect(() => {
+    if (!status) return
+    setCurrentProgress(recommendation.currentProgress || 0)
+    setIsStarted(status === 'IN_PROGRESS' || status === 'DONE')
+  }, [status, recommendation.currentProgress])
 
   const getPriorityConfig = (priority: string) => {
     switch (priority) {
@@ -95,6 +127,9 @@ function RecommendationCard({ recommendation, index, onAction }: RecommendationC
               <span className="text-xs text-muted-foreground uppercase tracking-wide">
                 {recommendation.category}
               </span>
+              {status && (
+                <span className="text-xs text-muted-foreground">· {STATUS_LABELS[status]}</span>
+              )}
             </div>
             <h3 className="text-lg font-semibold text-foreground mb-2">
               {recommendation.title}
@@ -127,6 +162,14 @@ function RecommendationCard({ recommendation, index, onAction }: RecommendationC
         <div className="text-center">
           <div className="font-semibold text-primary">+{recommendation.expectedScoreImpact}</div>
           <div className="text-xs text-muted-foreground">Impact</div>
+          {recommendation.impactCalibration && (
+            <div
+              className="text-xs text-muted-foreground"
+              title={`Predicted +${recommendation.impactCalibration.uncalibratedImpact}, scaled by outcomes of ${recommendation.impactCalibration.sampleSize} completed`}
+            >
+              ×{recommendation.impactCalibration.factor} observed
+            </div>
+          )}
         </div>
         <div className="text-center">
           <div className={`font-semibold ${difficultyConfig.color}`}>
@@ -161,7 +204,14 @@ function RecommendationCard({ recommendation, index, onAction }: RecommendationC
       {/* Actions */}
       <div className="flex items-center justify-between">
         <div className="flex space-x-2">
-          {!isStarted ? (
+          {status === 'DISMISSED' ? (
+            <button
+              onClick={() => onAction('restore')}
+              className="btn-primary btn-sm"
+            >
+              Restore
+            </button>
+          ) : !isStarted ? (
             <button
               onClick={handleStart}
               className="btn-primary btn-sm"
@@ -192,14 +242,16 @@ function RecommendationCard({ recommendation, index, onAction }: RecommendationC
           </button>
         </div>
         
-        <button
-          onClick={() => onAction('dismiss')}
-          className="text-muted-foreground hover:text-foreground transition-colors p-1"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-          </svg>
-        </button>
+        {status !== 'DISMISSED' && (
+          <button
+            onClick={() => onAction('dismiss')}
+            className="text-muted-foreground hover:text-foreground transition-colors p-1"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
       </div>
 
       {/* Expanded Content */}
@@ -265,13 +317,72 @@ function RecommendationCard({ recommendation, index, onAction }: RecommendationC
 }
 
 export default function ActionableRecommendations({ 
-  recommendations, 
+  recommendations = [], 
+  address,
   onRecommendationAction 
 }: ActionableRecommendationsProps) {
   const [filter, setFilter] = useState<'ALL' | 'HIGH' | 'MEDIUM' | 'LOW'>('ALL')
   const [sortBy, setSortBy] = useState<'priority' | 'impact' | 'difficulty'>('priority')
+  const [view, setView] = useState<'ACTIVE' | 'DONE' | 'DISMISSED'>('ACTIVE')
+  const [tracked, setTracked] = useState<TrackedRecommendation[] | null>(null)
+  const [changes, setChanges] = useState<RecommendationStatusChange[]>([])
+  const [loading, setLoading] = useState(!!address)
+
+  useEffect(() => {
+    if (!address) return
+    let cancelled = false
+    setLoading(true)
 
-  const filteredRecommendations = recommendations.filter(rec => 
+    apiService.getRecommendations(address)
+      .then(sync => {
+        if (cancelled) return
+        setTracked(sync.recommendations)
+        // New recommendations are not worth calling out, status changes are
+        setChanges(sync.changes.filter(change => change.from !== null))
+      })
+      .catch(err => {
+        // Fall back to the recommendations passed in
+        console.error('Failed to load tracked recommendations:', err)
+        if (!cancelled) setTracked(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [address])
+
+  const handleTrackedAction = async (trackedRecommendation: TrackedRecommendation, action: RecommendationAction) => {
+    if (action !== 'restore') {
+      onRecommendationAction?.(trackedRecommendation.key, action)
+    }
+
+    try {
+      const updated = await apiService.updateRecommendationStatus(address!, trackedRecommendation.key, STATUS_BY_ACTION[action])
+      setTracked(previous => previous && previous.map(item => item.key === updated.key ? updated : item))
+    } catch (err) {
+      console.error('Failed to update recommendation status:', err)
+    }
+  }
+
+  const isInView = (status: RecommendationStatus) =>
+    view === 'ACTIVE' ? status === 'OPEN' || status === 'IN_PROGRESS' : status === view
+
+  const trackedByRecommendation = new Map<PersonalizedRecommendation, TrackedRecommendation>()
+  const allRecommendations = tracked
+    ? tracked.map(item => {
+        const recommendation = { ...item.recommendation, id: item.key, currentProgress: item.progress }
+        trackedByRecommendation.set(recommendation, item)
+        return recommendation
+      })
+    : recommendations
+  const visibleRecommendations = tracked
+    ? allRecommendations.filter(recommendation => isInView(trackedByRecommendation.get(recommendation)!.status))
+    : allRecommendations
+
+  const filteredRecommendations = visibleRecommendations.filter(rec => 
     filter === 'ALL' || rec.priority === filter
   )
 
@@ -292,7 +403,19 @@ export default function ActionableRecommendations({
     }
   })
 
-  if (!recommendations || recommendations.length === 0) {
+  if (loading) {
+    return (
+      <div className="card p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-muted rounded w-1/3"></div>
+          <div className="h-24 bg-muted rounded"></div>
+          <div className="h-24 bg-muted rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (allRecommendations.length === 0) {
     return (
       <div className="card text-center py-12">
         <div className="w-20 h-20 bg-muted rounded-full flex items-center justify-center mx-auto mb-6">
@@ -362,6 +485,39 @@ export default function ActionableRecommendations({
         </p>
       </div>
 
+      {/* Status changes detected from on-chain activity */}
+      {changes.length > 0 && (
+        <div className="p-4 rounded-lg border border-success-200 bg-success-50 space-y-1">
+          <div className="text-sm font-medium text-success-900">Since your last visit</div>
+          {changes.map(change => (
+            <div key={change.key} className="text-sm text-success-800">
+              {change.title}: {change.from ? STATUS_LABELS[change.from] : 'New'} → {STATUS_LABELS[change.to]}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Status View */}
+      {tracked && (
+        <div className="flex bg-muted rounded-lg p-1 w-fit">
+          {(['ACTIVE', 'DONE', 'DISMISSED'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                view === option
+                  ? 'bg-background text-foreground shadow-sm'
+                  : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {option === 'ACTIVE' ? 'Active' : STATUS_LABELS[option]} ({tracked.filter(item =>
+                option === 'ACTIVE' ? item.status === 'OPEN' || item.status === 'IN_PROGRESS' : item.status === option
+              ).length})
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Filters and Sorting */}
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
         <div className="flex items-center space-x-2">
@@ -398,24 +554,24 @@ export default function ActionableRecommendations({
       {/* Summary Stats */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="text-center p-4 border rounded-lg">
-          <div className="text-2xl font-bold text-foreground mb-1">{recommendations.length}</div>
+          <div className="text-2xl font-bold text-foreground mb-1">{visibleRecommendations.length}</div>
           <div className="text-sm text-muted-foreground">Total</div>
         </div>
         <div className="text-center p-4 border rounded-lg">
           <div className="text-2xl font-bold text-danger-600 mb-1">
-            {recommendations.filter(r => r.priority === 'HIGH').length}
+            {visibleRecommendations.filter(r => r.priority === 'HIGH').length}
           </div>
           <div className="text-sm text-muted-foreground">High Priority</div>
         </div>
         <div className="text-center p-4 border rounded-lg">
           <div className="text-2xl font-bold text-primary mb-1">
-            +{recommendations.reduce((sum, r) => sum + r.expectedScoreImpact, 0)}
+            +{visibleRecommendations.reduce((sum, r) => sum + r.expectedScoreImpact, 0)}
           </div>
           <div className="text-sm text-muted-foreground">Potential Points</div>
         </div>
         <div className="text-center p-4 border rounded-lg">
           <div className="text-2xl font-bold text-success-600 mb-1">
-            {recommendations.filter(r => r.implementationDifficulty === 'EASY').length}
+            {visibleRecommendations.filter(r => r.implementationDifficulty === 'EASY').length}
           </div>
           <div className="text-sm text-muted-foreground">Easy Wins</div>
         </div>
@@ -423,17 +579,30 @@ export default function ActionableRecommendations({
 
       {/* Recommendations */}
       <div className="space-y-6">
-        {sortedRecommendations.map((recommendation, index) => (
-          <RecommendationCard
-            key={`${recommendation.title}-${index}`}
-            recommendation={recommendation}
-            index={index}
-            onAction={(action) => onRecommendationAction?.(
-              `${recommendation.title}-${index}`, 
-              action
-            )}
-          />
-        ))}
+        {sortedRecommendations.map((recommendation, index) => {
+          const trackedRecommendation = trackedByRecommendation.get(recommendation)
+
+          return (
+            <RecommendationCard
+              key={trackedRecommendation ? trackedRecommendation.key : `${recommendation.title}-${index}`}
+              recommendation={recommendation}
+              index={index}
+              status={trackedRecommendation?.status}
+              onAction={(action) => trackedRecommendation
+                ? handleTrackedAction(trackedRecommendation, action)
+                : action !== 'restore' && onRecommendationAction?.(
+                    `${recommendation.title}-${index}`, 
+                    action
+                  )
+              }
+            />
+          )
+        })}
+        {sortedRecommendations.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No {view === 'ACTIVE' ? 'active' : STATUS_LABELS[view].toLowerCase()} recommendations.
+          </p>
+        )}
       </div>
     </div>
   )
@@ -1,11 +1,49 @@
-import React from 'react'
-import { BehavioralInsights } from '../services/apiService'
+import React, { useState, useEffect } from 'react'
+import { BehavioralInsights, BehavioralAnalysis, BehavioralHistory, apiService } from '../services/apiService'
 
 interface BehavioralInsightsDashboardProps {
   behavioralInsights: BehavioralInsights
+  address?: string // enables recorded pattern analysis: changes and archetype transitions
 }
 
-export default function BehavioralInsightsDashboard({ behavioralInsights }: BehavioralInsightsDashboardProps) {
+const FIELD_LABELS: Record<string, string> = {
+  userArchetype: 'Archetype',
+  sophisticationLevel: 'Sophistication',
+  activityPattern: 'Activity Pattern',
+  growthTrend: 'Growth Trend',
+  diversificationLevel: 'Diversification',
+  consistencyScore: 'Consistency Score',
+  gasEfficiency: 'Gas Efficiency',
+  preferredProtocols: 'Preferred Protocols',
+  seasonalPatterns: 'Seasonal Patterns',
+  confidence: 'Confidence'
+}
+
+export default function BehavioralInsightsDashboard({ behavioralInsights, address }: BehavioralInsightsDashboardProps) {
+  const [analysis, setAnalysis] = useState<BehavioralAnalysis | null>(null)
+  const [history, setHistory] = useState<BehavioralHistory | null>(null)
+
+  useEffect(() => {
+    if (!address) return
+
+    let cancelled = false
+    // History is read after the analysis so it includes the period just recorded
+    apiService.analyzeBehavior(address)
+      .then(result => {
+        if (cancelled) return
+        setAnalysis(result)
+        return apiService.getBehaviorHistory(address)
+      })
+      .then(result => {
+        if (!cancelled && result) setHistory(result)
+      })
+      .catch(err => console.error('Failed to load behavioral analysis:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [address])
+
   const getActivityPatternColor = (pattern: string) => {
     switch (pattern) {
       case 'REGULAR': return 'text-green-600 bg-green-100'
@@ -191,6 +229,72 @@ export default function BehavioralInsightsDashboard({ behavioralInsights }: Beha
         </div>
       </div>
 
+      {/* Recorded Pattern Analysis */}
+      {analysis && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Changes Since Last Analysis */}
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="font-medium text-gray-900">Changes Since Last Analysis</h4>
+              <div className="px-2 py-1 rounded-full text-xs font-medium text-purple-600 bg-purple-100">
+                {analysis.insights.userArchetype} · {analysis.insights.sophisticationLevel}
+              </div>
+            </div>
+            {!analysis.previousAnalysis ? (
+              <p className="text-sm text-gray-500">This is the first recorded analysis for this address.</p>
+            ) : analysis.changes.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No changes since {new Date(analysis.previousAnalysis.analyzedAt).toLocaleDateString()}.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {analysis.changes.map(change => (
+                  <div key={change.field} className="flex items-center justify-between p-2 bg-gray-50 rounded text-sm">
+                    <span className="font-medium text-gray-900">{FIELD_LABELS[change.field] || change.field}</span>
+                    <span className="text-gray-600">
+                      {change.field === 'preferredProtocols'
+                        ? [
+                            ...(change.added || []).map(protocol => `+${protocol}`),
+                            ...(change.removed || []).map(protocol => `-${protocol}`)
+                          ].join(', ')
+                        : change.delta !== undefined
+                          ? `${change.previous} → ${change.current} (${change.delta > 0 ? '+' : ''}${change.delta})`
+                          : `${change.previous} → ${change.current}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Archetype Transitions */}
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <h4 className="font-medium text-gray-900 mb-4">Behavior Over Time</h4>
+            {history && history.transitions.length > 0 ? (
+              <ol className="space-y-3">
+                {history.transitions.slice().reverse().map((transition, index) => (
+                  <li key={index} className="flex items-start space-x-3 text-sm">
+                    <div className="w-2 h-2 mt-1.5 bg-purple-500 rounded-full flex-shrink-0"></div>
+                    <div>
+                      <div className="text-gray-900">
+                        {FIELD_LABELS[transition.field]}: {transition.from} → <span className="font-medium">{transition.to}</span>
+                      </div>
+                      <div className="text-xs text-gray-500">{new Date(transition.timestamp).toLocaleDateString()}</div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-gray-500">
+                No archetype transitions recorded{history && history.periods.length > 0
+                  ? ` since ${new Date(history.periods[0].firstDetected).toLocaleDateString()}`
+                  : ''}.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Behavioral Insights Summary */}
       <div className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-lg border border-blue-200 p-6">
         <h4 className="font-medium text-gray-900 mb-3">Key Behavioral Insights</h4>
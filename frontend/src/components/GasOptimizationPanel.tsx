@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react'
+import { apiService, ProtocolPreferenceReport } from '../services/apiService'
+
+interface GasOptimizationPanelProps {
+  address: string
+}
+
+const formatEth = (value: number) => {
+  if (value === 0) return '0 ETH'
+  if (value < 0.0001) return '<0.0001 ETH'
+  return `${value.toFixed(4)} ETH`
+}
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`
+
+export default function GasOptimizationPanel({ address }: GasOptimizationPanelProps) {
+  const [report, setReport] = useState<ProtocolPreferenceReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    apiService.getProtocolPreferences(address, ['gas', 'timing'])
+      .then(result => {
+        if (!cancelled) setReport(result)
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message || 'Failed to load gas optimization analysis')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [address])
+
+  const getPriorityColor = (priority: string) => {
+    switch (priority) {
+      case 'HIGH': return 'text-red-600 bg-red-100'
+      case 'MEDIUM': return 'text-yellow-600 bg-yellow-100'
+      case 'LOW': return 'text-green-600 bg-green-100'
+      default: return 'text-gray-600 bg-gray-100'
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="animate-pulse space-y-3">
+          <div className="h-5 bg-gray-200 rounded w-1/3"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !report?.gasOptimizationAnalysis) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Gas Optimization</h3>
+        <p className="text-sm text-gray-500">{error || 'No gas analysis available for this address.'}</p>
+      </div>
+    )
+  }
+
+  const gas = report.gasOptimizationAnalysis
+  const recommendations = [...gas.optimizationRecommendations].sort((a, b) => b.estimatedSavingsEth - a.estimatedSavingsEth)
+  const optimalWindows = (report.transactionTimingAnalysis?.optimalTimingWindows || [])
+    .filter(window => window.recommendationLevel === 'OPTIMAL' || window.recommendationLevel === 'GOOD')
+    .slice(0, 3)
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Gas Optimization</h3>
+        <div className="text-sm text-gray-500">
+          {gas.optimizationLevel} · {gas.overallEfficiencyScore}/100
+        </div>
+      </div>
+
+      {/* Cost Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <div className="text-sm text-gray-600">Total Gas Spent</div>
+          <div className="text-xl font-semibold text-gray-900">{formatEth(gas.totalGasCost)}</div>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <div className="text-sm text-gray-600">Average Gas Price</div>
+          <div className="text-xl font-semibold text-gray-900">{gas.averageGasPrice.toFixed(1)} Gwei</div>
+        </div>
+        <div className="p-4 bg-green-50 rounded-lg">
+          <div className="text-sm text-green-700">Estimated Savings</div>
+          <div className="text-xl font-semibold text-green-800">{formatEth(gas.estimatedSavings)}</div>
+        </div>
+      </div>
+
+      {/* Recommendations */}
+      {recommendations.length > 0 ? (
+        <div className="space-y-3">
+          {recommendations.map((recommendation, index) => (
+            <div key={index} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between mb-2">
+                <div className="flex items-center space-x-2">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPriorityColor(recommendation.priority)}`}>
+                    {recommendation.priority}
+                  </span>
+                  <h4 className="font-medium text-gray-900">{recommendation.title}</h4>
+                </div>
+                <div className="text-right">
+                  <div className="text-sm font-semibold text-green-700">~{formatEth(recommendation.estimatedSavingsEth)}</div>
+                  <div className="text-xs text-gray-500">{Math.round(recommendation.expectedSavings)}% of gas costs</div>
+                </div>
+              </div>
+              <p className="text-sm text-gray-600 mb-2">{recommendation.description}</p>
+              <ul className="list-disc list-inside text-sm text-gray-600 space-y-1">
+                {recommendation.specificGuidance.map((guidance, guidanceIndex) => (
+                  <li key={guidanceIndex}>{guidance}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Your gas usage is already well optimized.</p>
+      )}
+
+      {/* Timing Windows */}
+      {optimalWindows.length > 0 && (
+        <div>
+          <h4 className="font-medium text-gray-900 mb-2">Cheapest Times to Transact (UTC)</h4>
+          <div className="flex flex-wrap gap-2">
+            {optimalWindows.map((window, index) => (
+              <span key={index} className="px-3 py-1 rounded-full text-sm text-blue-700 bg-blue-100">
+                {formatHour(window.startHour)}–{formatHour(window.endHour)} · {window.averageGasPrice.toFixed(1)} Gwei
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -14,8 +14,8 @@ import {
   Filler
 } from 'chart.js'
 import 'chartjs-adapter-date-fns'
-import { format, subDays, subMonths, subYears } from 'date-fns'
-import { apiService, type ScoreHistoryEntry } from '../services/apiService'
+import { format } from 'date-fns'
+import { apiService, type ScoreHistoryEntry, type GrowthTrendReport, type GrowthPeriodGranularity } from '../services/apiService'
 
 ChartJS.register(
   CategoryScale,
@@ -42,6 +42,16 @@ interface ScoreTrend {
   trend: 'up' | 'down' | 'stable'
 }
 
+type TimeRange = '7d' | '30d' | '90d' | '1y'
+
+// Growth trend periods matched to each time range
+const TIME_RANGES: { [range in TimeRange]: { days: number; granularity: GrowthPeriodGranularity } } = {
+  '7d': { days: 7, granularity: 'WEEKLY' },
+  '30d': { days: 30, granularity: 'WEEKLY' },
+  '90d': { days: 90, granularity: 'MONTHLY' },
+  '1y': { days: 365, granularity: 'QUARTERLY' }
+}
+
 interface ScoreAnalytics {
   averageScore: number
   highestScore: number
@@ -55,7 +65,8 @@ export default function HistoricalScoreTracking({ address, currentScore }: Histo
   const [historyData, setHistoryData] = useState<ScoreHistoryEntry[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d' | '1y'>('30d')
+  const [growthTrend, setGrowthTrend] = useState<GrowthTrendReport | null>(null)
+  const [timeRange, setTimeRange] = useState<TimeRange>('30d')
   const [viewType, setViewType] = useState<'line' | 'bar' | 'area'>('line')
   const [analytics, setAnalytics] = useState<ScoreAnalytics | null>(null)
   const [trends, setTrends] = useState<ScoreTrend[]>([])
@@ -76,9 +87,23 @@ export default function HistoricalScoreTracking({ address, currentScore }: Histo
     setError(null)
     
     try {
-      // Generate mock historical data for demonstration
-      const mockData = generateMockHistoricalData(timeRange)
-      setHistoryData(mockData)
+      const { days, granularity } = TIME_RANGES[timeRange]
+      const from = Math.floor(Date.now() / 1000) - days * 24 * 60 * 60
+
+      const [history, growth] = await Promise.all([
+        apiService.getScoreHistory(address, 1000),
+        apiService.getGrowthTrend(address, granularity, from)
+      ])
+
+      // History is returned newest first
+      const entries = history.history
+        .filter(entry => entry.timestamp >= from)
+        .sort((a, b) => a.timestamp - b.timestamp)
+
+      setHistoryData(entries.length > 0
+        ? entries
+        : [{ score: currentScore, timestamp: Math.floor(Date.now() / 1000), date: format(new Date(), 'yyyy-MM-dd') }])
+      setGrowthTrend(growth)
     } catch (err: any) {
       setError(err.message || 'Failed to fetch historical data')
     } finally {
@@ -86,45 +111,6 @@ export default function HistoricalScoreTracking({ address, currentScore }: Histo
     }
   }
 
-  const generateMockHistoricalData = (range: string): ScoreHistoryEntry[] => {
-    const now = new Date()
-    const data: ScoreHistoryEntry[] = []
-    let days: number
-
-    switch (range) {
-      case '7d': days = 7; break
-      case '30d': days = 30; break
-      case '90d': days = 90; break
-      case '1y': days = 365; break
-      default: days = 30
-    }
-
-    const baseScore = currentScore || 650
-    const volatility = 0.02 // 2% volatility
-
-    for (let i = days; i >= 0; i--) {
-      const date = subDays(now, i)
-      const timestamp = date.getTime() / 1000
-      
-      // Generate realistic score progression with some randomness
-      const trendFactor = (days - i) / days * 0.1 // Slight upward trend over time
-      const randomFactor = (Math.random() - 0.5) * volatility * 2
-      const cycleFactor = Math.sin((i / days) * Math.PI * 4) * 0.05 // Some cyclical variation
-      
-      const score = Math.round(
-        baseScore * (1 + trendFactor + randomFactor + cycleFactor)
-      )
-
-      data.push({
-        score: Math.max(300, Math.min(1000, score)),
-        timestamp,
-        date: format(date, 'yyyy-MM-dd')
-      })
-    }
-
-    return data.reverse()
-  }
-
   const calculateAnalytics = () => {
     if (historyData.length === 0) return
 
@@ -165,7 +151,10 @@ export default function HistoricalScoreTracking({ address, currentScore }: Histo
   }
 
   const calculateTrends = () => {
-    if (historyData.length < 2) return
+    if (historyData.length < 2) {
+      setTrends([])
+      return
+    }
 
     const trends: ScoreTrend[] = []
     const currentScoreValue = historyData[historyData.length - 1].score
@@ -178,7 +167,8 @@ export default function HistoricalScoreTracking({ address, currentScore }: Histo
     ]
 
     periods.forEach(period => {
-      const periodData = historyData.slice(-period.days)
+      const since = historyData[historyData.length - 1].timestamp - period.days * 24 * 60 * 60
+      const periodData = historyData.filter(entry => entry.timestamp >= since)
       if (periodData.length < 2) return
 
       const oldScore = periodData[0].score
@@ -453,6 +443,49 @@ export default function HistoricalScoreTracking({ address, currentScore }: Histo
         </div>
       )}
 
+      {/* Activity by Period */}
+      {growthTrend && growthTrend.growthTrend.periodAnalysis.length > 0 && (
+        <div className="card p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-foreground">Activity by Period</h3>
+            <div className={`text-sm font-medium ${
+              growthTrend.growthTrend.trend === 'IMPROVING' ? 'text-success-600' :
+              growthTrend.growthTrend.trend === 'DECLINING' ? 'text-danger-600' : 'text-muted-foreground'
+            }`}>
+              {growthTrend.growthTrend.trend.toLowerCase()} · {growthTrend.growthTrend.confidence}% confidence
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Period</th>
+                  <th className="py-2 pr-4 font-medium text-right">Transactions</th>
+                  <th className="py-2 pr-4 font-medium text-right">Volume (ETH)</th>
+                  <th className="py-2 pr-4 font-medium text-right">Protocols</th>
+                  <th className="py-2 font-medium text-right">DeFi / Staking</th>
+                </tr>
+              </thead>
+              <tbody>
+                {growthTrend.growthTrend.periodAnalysis.map(period => (
+                  <tr key={period.periodIndex} className="border-t border-border text-foreground">
+                    <td className="py-2 pr-4">
+                      {format(new Date(period.startTimestamp * 1000), 'MMM dd')} – {format(new Date(period.endTimestamp * 1000), 'MMM dd, yyyy')}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{period.transactionCount}</td>
+                    <td className="py-2 pr-4 text-right">{period.totalVolume.toFixed(3)}</td>
+                    <td className="py-2 pr-4 text-right">{period.protocolDiversity}</td>
+                    <td className="py-2 text-right">
+                      {Math.round(period.defiActivity * 100)}% / {Math.round(period.stakingActivity * 100)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Insights */}
       <div className="card p-6">
         <h3 className="text-lg font-semibold text-foreground mb-4">Key Insights</h3>
@@ -489,6 +522,12 @@ export default function HistoricalScoreTracking({ address, currentScore }: Histo
               </div>
             </>
           )}
+          {growthTrend?.growthTrend.evidence.map((evidence, index) => (
+            <div key={index} className="flex items-start space-x-3">
+              <div className="w-2 h-2 bg-orange-500 rounded-full mt-2"></div>
+              <div className="text-sm text-muted-foreground">{evidence}</div>
+            </div>
+          ))}
         </div>
       </div>
     </div>
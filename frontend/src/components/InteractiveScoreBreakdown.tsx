@@ -1,6 +1,7 @@
-import React, { useState, useMemo } from 'react'
+import React, { useState, useMemo, useEffect } from 'react'
 import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, ArcElement, RadialLinearScale, PointElement, LineElement, Filler } from 'chart.js'
 import { Bar, Doughnut, Radar } from 'react-chartjs-2'
+import { apiService, ScoreExplanation, ScoreSimulation, ScoreSimulationDeltas } from '../services/apiService'
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, ArcElement, RadialLinearScale, PointElement, LineElement, Filler)
 
@@ -97,6 +98,7 @@ interface BackendScoreBreakdown {
 interface InteractiveScoreBreakdownProps {
   breakdown: BackendScoreBreakdown
   totalScore: number
+  address?: string
 }
 
 interface ComponentCardProps {
@@ -281,7 +283,206 @@ function ComponentCard({
   )
 }
 
-export default function InteractiveScoreBreakdown({ breakdown, totalScore }: InteractiveScoreBreakdownProps) {
+interface ScoreAttributionPanelProps {
+  address: string
+}
+
+function ScoreAttributionPanel({ address }: ScoreAttributionPanelProps) {
+  const [explanation, setExplanation] = useState<ScoreExplanation | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    apiService.explainScore(address)
+      .then(result => { if (!cancelled) setExplanation(result) })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to explain score') })
+      .finally(() => { if (!cancelled) setLoading(false) })
+
+    return () => { cancelled = true }
+  }, [address])
+
+  const maxContribution = explanation
+    ? Math.max(1, ...explanation.contributions.map(c => Math.abs(c.contribution)))
+    : 1
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-foreground mb-2 flex items-center space-x-2">
+        <span>🧮</span>
+        <span>What Moved Your Score</span>
+      </h3>
+
+      {loading && (
+        <p className="text-sm text-muted-foreground">Calculating metric contributions...</p>
+      )}
+
+      {error && !loading && (
+        <p className="text-sm text-danger-600">{error}</p>
+      )}
+
+      {explanation && !loading && !error && (
+        <>
+          <p className="text-sm text-muted-foreground mb-4">
+            Compared with a {explanation.reference.name} wallet scoring {explanation.reference.score}, your metrics
+            account for <span className="font-medium text-foreground">
+              {explanation.totalContribution >= 0 ? '+' : ''}{explanation.totalContribution}
+            </span> points. {explanation.reference.description}.
+          </p>
+          <div className="space-y-3">
+            {explanation.contributions.map(item => {
+              const width = (Math.abs(item.contribution) / maxContribution) * 50
+              const positive = item.contribution >= 0
+
+              return (
+                <div key={item.feature}>
+                  <div className="flex justify-between items-center text-sm mb-1">
+                    <span className="text-foreground">
+                      {item.label} <span className="text-muted-foreground">({item.value} vs {item.referenceValue})</span>
+                    </span>
+                    <span className={`font-medium ${
+                      item.contribution > 0 ? 'text-success-600' : item.contribution < 0 ? 'text-danger-600' : 'text-muted-foreground'
+                    }`}>
+                      {positive ? '+' : ''}{item.contribution} pts
+                    </span>
+                  </div>
+                  <div className="relative w-full bg-muted rounded-full h-2">
+                    <div
+                      className={`absolute h-2 rounded-full ${positive ? 'bg-success-500' : 'bg-danger-500'}`}
+                      style={{ left: positive ? '50%' : `${50 - width}%`, width: `${width}%` }}
+                    />
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+interface ScoreSimulatorPanelProps {
+  address: string
+}
+
+const SIMULATOR_FIELDS: { key: keyof ScoreSimulationDeltas; label: string; unit: string }[] = [
+  { key: 'additionalVolume', label: 'Added volume', unit: 'ETH' },
+  { key: 'additionalStaking', label: 'Added staking', unit: 'ETH' },
+  { key: 'additionalProtocols', label: 'New DeFi protocols', unit: 'protocols' },
+  { key: 'elapsedDays', label: 'Time passed', unit: 'days' }
+]
+
+function ScoreSimulatorPanel({ address }: ScoreSimulatorPanelProps) {
+  const [inputs, setInputs] = useState<Record<string, string>>({})
+  const [simulation, setSimulation] = useState<ScoreSimulation | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const runSimulation = async () => {
+    const deltas: ScoreSimulationDeltas = {}
+    for (const field of SIMULATOR_FIELDS) {
+      const value = parseFloat(inputs[field.key] || '')
+      if (!isNaN(value) && value !== 0) {
+        deltas[field.key] = field.key === 'additionalProtocols' ? Math.round(value) : value
+      }
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      setSimulation(await apiService.simulateScore(address, deltas))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to simulate score')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`)
+  const deltaColor = (delta: number) =>
+    delta > 0 ? 'text-success-600' : delta < 0 ? 'text-danger-600' : 'text-muted-foreground'
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-foreground mb-2 flex items-center space-x-2">
+        <span>🧪</span>
+        <span>What-If Simulator</span>
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        See how your score would change with more activity. Simulated scores are not saved.
+      </p>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+        {SIMULATOR_FIELDS.map(field => (
+          <label key={field.key} className="block">
+            <span className="text-sm font-medium text-foreground">{field.label}</span>
+            <div className="mt-1 flex items-center space-x-2">
+              <input
+                type="number"
+                min={field.key === 'additionalVolume' || field.key === 'additionalStaking' ? undefined : 0}
+                step={field.key === 'additionalProtocols' || field.key === 'elapsedDays' ? 1 : 'any'}
+                value={inputs[field.key] || ''}
+                onChange={(e) => setInputs({ ...inputs, [field.key]: e.target.value })}
+                className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+                placeholder="0"
+              />
+              <span className="text-xs text-muted-foreground whitespace-nowrap">{field.unit}</span>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <button className="btn-primary btn-sm" onClick={runSimulation} disabled={loading}>
+        {loading ? 'Simulating...' : 'Simulate Score'}
+      </button>
+
+      {error && (
+        <p className="mt-4 text-sm text-danger-600">{error}</p>
+      )}
+
+      {simulation && !error && (
+        <div className="mt-6 space-y-4 border-t border-border pt-4 animate-fade-in">
+          <div className="flex items-center justify-center space-x-6">
+            <div className="text-center">
+              <div className="text-2xl font-bold text-foreground">{simulation.current.creditScore.score}</div>
+              <div className="text-sm text-muted-foreground">Current</div>
+            </div>
+            <div className="text-2xl text-muted-foreground">→</div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-primary">{simulation.simulated.creditScore.score}</div>
+              <div className="text-sm text-muted-foreground">Simulated</div>
+            </div>
+            <div className={`text-xl font-semibold ${deltaColor(simulation.scoreDelta)}`}>
+              {formatDelta(simulation.scoreDelta)}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {Object.entries(simulation.componentDeltas).map(([name, component]) => (
+              <div key={name} className="flex justify-between items-center text-sm">
+                <span className="text-foreground">
+                  {name.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
+                </span>
+                <span className="text-muted-foreground">
+                  {component.current} → {component.simulated}{' '}
+                  <span className={`font-medium ${deltaColor(component.weightedDelta)}`}>
+                    ({formatDelta(component.weightedDelta)} pts)
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function InteractiveScoreBreakdown({ breakdown, totalScore, address }: InteractiveScoreBreakdownProps) {
   const [expandedComponent, setExpandedComponent] = useState<string | null>(null)
   const [hoveredComponent, setHoveredComponent] = useState<string | null>(null)
   const [viewMode, setViewMode] = useState<'cards' | 'charts'>('cards')
@@ -667,6 +868,11 @@ export default function InteractiveScoreBreakdown({ breakdown, totalScore }: Int
         </div>
       )}
 
+      {/* Metric attribution */}
+      {address && <ScoreAttributionPanel address={address} />}
+
+      {/* What-if simulation */}
+      {address && <ScoreSimulatorPanel address={address} />}
 
       {/* Summary */}
       <div className="card p-6">
@@ -1,9 +1,10 @@
-import React, { useState } from 'react'
-import { RiskFactor } from '../services/apiService'
+import React, { useState, useEffect } from 'react'
+import { RiskFactor, ScoreExplanation, apiService } from '../services/apiService'
 
 interface RiskFactorExplanationProps {
   factorName: string
   factor: RiskFactor
+  address?: string
   onClose?: () => void
   isModal?: boolean
 }
@@ -273,37 +274,67 @@ function DetailedAnalysis({ factor }: { factor: RiskFactor }) {
 export default function RiskFactorExplanation({ 
   factorName, 
   factor, 
+  address,
   onClose, 
   isModal = false 
 }: RiskFactorExplanationProps) {
+  const [explanation, setExplanation] = useState<ScoreExplanation | null>(null)
+
+  useEffect(() => {
+    if (!address) return
+    let cancelled = false
+
+    apiService.explainScore(address)
+      .then(result => { if (!cancelled) setExplanation(result) })
+      .catch(error => console.error('Error loading score explanation:', error))
+
+    return () => { cancelled = true }
+  }, [address])
+
   const formatFactorName = (name: string) => {
     return name.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase()).replace('Risk', ' Risk')
   }
 
-  // Mock metrics data - in a real implementation, this would come from the backend
-  const mockMetrics = [
-    {
-      label: 'Current Score',
-      value: factor.score,
-      benchmark: '< 40 (Low Risk)',
-      status: factor.score >= 80 ? 'CRITICAL' : factor.score >= 60 ? 'POOR' : factor.score >= 40 ? 'FAIR' : 'GOOD',
-      description: 'Current risk score for this factor'
-    },
-    {
-      label: 'Confidence Level',
-      value: `${factor.confidence}%`,
-      benchmark: '> 80%',
-      status: factor.confidence >= 80 ? 'GOOD' : factor.confidence >= 60 ? 'FAIR' : 'POOR',
-      description: 'Confidence in the risk assessment'
-    },
-    {
-      label: 'Risk Level',
-      value: factor.level,
-      benchmark: 'LOW',
-      status: factor.level === 'LOW' ? 'GOOD' : factor.level === 'MEDIUM' ? 'FAIR' : factor.level === 'HIGH' ? 'POOR' : 'CRITICAL',
-      description: 'Overall risk classification'
-    }
-  ]
+  const getContributionStatus = (contribution: number) => {
+    if (contribution >= 10) return 'GOOD'
+    if (contribution > -10) return 'FAIR'
+    if (contribution > -50) return 'POOR'
+    return 'CRITICAL'
+  }
+
+  // Each metric's measured contribution to the score, falling back to the
+  // factor's own figures until the explanation has loaded
+  const keyMetrics = explanation
+    ? explanation.contributions.map(item => ({
+        label: item.label,
+        value: item.value,
+        benchmark: `${item.referenceValue} (${explanation.reference.name} wallet)`,
+        status: getContributionStatus(item.contribution),
+        description: `${item.contribution >= 0 ? '+' : ''}${item.contribution} points versus the reference wallet`
+      }))
+    : [
+        {
+          label: 'Current Score',
+          value: factor.score,
+          benchmark: '< 40 (Low Risk)',
+          status: factor.score >= 80 ? 'CRITICAL' : factor.score >= 60 ? 'POOR' : factor.score >= 40 ? 'FAIR' : 'GOOD',
+          description: 'Current risk score for this factor'
+        },
+        {
+          label: 'Confidence Level',
+          value: `${factor.confidence}%`,
+          benchmark: '> 80%',
+          status: factor.confidence >= 80 ? 'GOOD' : factor.confidence >= 60 ? 'FAIR' : 'POOR',
+          description: 'Confidence in the risk assessment'
+        },
+        {
+          label: 'Risk Level',
+          value: factor.level,
+          benchmark: 'LOW',
+          status: factor.level === 'LOW' ? 'GOOD' : factor.level === 'MEDIUM' ? 'FAIR' : factor.level === 'HIGH' ? 'POOR' : 'CRITICAL',
+          description: 'Overall risk classification'
+        }
+      ]
 
   const content = (
     <div className="space-y-6">
@@ -331,8 +362,14 @@ export default function RiskFactorExplanation({
       {/* Key Metrics */}
       <div>
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Key Metrics</h3>
+        {explanation && (
+          <p className="text-sm text-gray-600 mb-4">
+            How much each metric moved your score ({explanation.score}) compared with
+            a {explanation.reference.name} wallet scoring {explanation.reference.score}.
+          </p>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          {mockMetrics.map((metric, index) => (
+          {keyMetrics.map((metric, index) => (
             <MetricCard
               key={index}
               label={metric.label}
@@ -297,7 +297,7 @@ export default function RiskMitigationPanel({ recommendations, onRecommendationA
 
   const handleRecommendationAction = (index: number, action: 'start' | 'complete' | 'dismiss') => {
     const recommendation = sortedRecommendations[index]
-    onRecommendationAction?.(recommendation.title, action) // Using title as ID for now
+    onRecommendationAction?.(recommendation.id || recommendation.title, action)
   }
 
   if (!recommendations || recommendations.length === 0) {
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react'
-import { CreditScore, apiService } from '../services/apiService'
+import { CreditScore, ComprehensiveRiskReport, RiskMonitoringAlert, apiService } from '../services/apiService'
 import InteractiveScoreBreakdown from './InteractiveScoreBreakdown'
 import ActionableRecommendations from './ActionableRecommendations'
 import HistoricalScoreTracking from './HistoricalScoreTracking'
 import DataExportShare from './DataExportShare'
+import RiskMonitoringAlerts, { RiskAlert } from './RiskMonitoringAlerts'
+import RiskMitigationPanel from './RiskMitigationPanel'
 
 interface BreakdownComponentProps {
   label: string
@@ -512,6 +514,33 @@ interface ScoreDashboardProps {
   addressOverride?: string | null
 }
 
+const DIFFICULTY_BY_COMPLEXITY = { LOW: 'EASY', MEDIUM: 'MEDIUM', HIGH: 'HARD' } as const
+
+// Backend monitoring alert to the shape RiskMonitoringAlerts renders
+function toRiskAlert(alert: RiskMonitoringAlert): RiskAlert {
+  let type: RiskAlert['type']
+  if (alert.alertType === 'NEW_RISK_FACTOR') {
+    type = 'NEW_FLAG'
+  } else if (alert.alertType === 'RISK_THRESHOLD_BREACH') {
+    type = alert.previousRiskScore !== undefined && alert.riskScore < alert.previousRiskScore ? 'RISK_DECREASE' : 'RISK_INCREASE'
+  } else {
+    type = alert.alertType
+  }
+
+  return {
+    id: String(alert.id),
+    type,
+    severity: alert.severity,
+    title: alert.title,
+    message: alert.description,
+    timestamp: alert.timestamp,
+    isRead: alert.acknowledged,
+    actionRequired: alert.severity === 'HIGH' || alert.severity === 'CRITICAL',
+    relatedFactor: alert.triggeredFactors[0],
+    data: { recommendations: alert.recommendations }
+  }
+}
+
 export default function ScoreDashboard({ addressOverride }: ScoreDashboardProps = {}) {
   const { account } = useWallet()
   const [score, setScore] = useState<CreditScore | null>(null)
@@ -526,6 +555,8 @@ export default function ScoreDashboard({ addressOverride }: ScoreDashboardProps
   const [activeTab, setActiveTab] = useState<'overview' | 'breakdown' | 'insights' | 'recommendations' | 'risk' | 'competitive'>('overview')
   const [selectedRiskFactor, setSelectedRiskFactor] = useState<{ name: string, factor: RiskFactor } | null>(null)
   const [riskAlerts, setRiskAlerts] = useState<RiskAlert[]>([])
+  const [riskReport, setRiskReport] = useState<ComprehensiveRiskReport | null>(null)
+  const [dismissedRecommendations, setDismissedRecommendations] = useState<Set<string>>(new Set())
   const [showRiskFactorModal, setShowRiskFactorModal] = useState(false)
   const [showScoreReveal, setShowScoreReveal] = useState(false)
   const [analysisComplete, setAnalysisComplete] = useState(false)
@@ -628,12 +659,34 @@ export default function ScoreDashboard({ addressOverride }: ScoreDashboardProps
     setShowRiskFactorModal(true)
   }
 
-  const handleRecommendationAction = (recommendationId: string, action: 'start' | 'complete' | 'dismiss') => {
-    console.log(`Recommendation ${recommendationId} action: ${action}`)
-    // In a real implementation, this would update the recommendation status
+  const handleRecommendationAction = async (recommendationId: string, action: 'start' | 'complete' | 'dismiss') => {
+    if (!score) return
+
+    if (action === 'dismiss') {
+      setDismissedRecommendations(prev => new Set(prev).add(recommendationId))
+      return
+    }
+
+    const progress = action === 'complete' ? 100 : 10
+    try {
+      await apiService.trackMitigationProgress(score.address, recommendationId, progress)
+      setRiskReport(prev => prev && {
+        ...prev,
+        mitigationRecommendations: prev.mitigationRecommendations.map(rec =>
+          rec.id === recommendationId ? { ...rec, currentProgress: progress } : rec
+        )
+      })
+    } catch (err) {
+      console.error('Failed to track recommendation progress:', err)
+    }
   }
 
   const handleAlertAction = (alertId: string, action: 'read' | 'dismiss' | 'view_details') => {
+    if (score && (action === 'read' || action === 'dismiss')) {
+      apiService.acknowledgeRiskAlert(score.address, parseInt(alertId, 10))
+        .catch(err => console.error('Failed to acknowledge risk alert:', err))
+    }
+
     setRiskAlerts(prev => prev.map(alert => 
       alert.id === alertId 
         ? { ...alert, isRead: action === 'read' ? true : alert.isRead }
@@ -642,54 +695,30 @@ export default function ScoreDashboard({ addressOverride }: ScoreDashboardProps
   }
 
   const clearAllAlerts = () => {
+    if (score) {
+      riskAlerts.filter(alert => !alert.isRead).forEach(alert => {
+        apiService.acknowledgeRiskAlert(score.address, parseInt(alert.id, 10))
+          .catch(err => console.error('Failed to acknowledge risk alert:', err))
+      })
+    }
     setRiskAlerts([])
   }
 
-  // Mock risk alerts - in a real implementation, these would come from the API
+  // Risk report: records the assessment, which raises monitoring alerts, and tracks mitigation progress
   useEffect(() => {
-    if (score?.riskAssessment) {
-      const mockAlerts: RiskAlert[] = []
-      
-      // Generate alerts based on risk assessment
-      if (score.riskAssessment.overallRisk === 'HIGH' || score.riskAssessment.overallRisk === 'CRITICAL') {
-        mockAlerts.push({
-          id: 'risk-level-alert',
-          type: 'RISK_INCREASE',
-          severity: score.riskAssessment.overallRisk === 'CRITICAL' ? 'CRITICAL' : 'HIGH',
-          title: 'Risk Level Alert',
-          message: `Your overall risk level is ${score.riskAssessment.overallRisk}. Review recommendations to improve your risk profile.`,
-          timestamp: Date.now() - 300000, // 5 minutes ago
-          isRead: false,
-          actionRequired: true
-        })
-      }
+    if (!score?.riskAssessment) return
 
-      // Generate alerts for active flags
-      Object.entries(score.riskAssessment.flags).forEach(([flag, isActive]) => {
-        if (isActive) {
-          const flagLabels: Record<string, string> = {
-            suspiciousActivity: 'Suspicious Activity Detected',
-            washTrading: 'Wash Trading Pattern',
-            botBehavior: 'Bot-like Behavior',
-            coordinatedActivity: 'Coordinated Activity',
-            unusualPatterns: 'Unusual Patterns'
-          }
-          
-          mockAlerts.push({
-            id: `flag-${flag}`,
-            type: 'NEW_FLAG',
-            severity: 'HIGH',
-            title: flagLabels[flag] || flag,
-            message: `${flagLabels[flag] || flag} has been detected in your transaction patterns.`,
-            timestamp: Date.now() - 600000, // 10 minutes ago
-            isRead: false,
-            actionRequired: true,
-            relatedFactor: flag
-          })
-        }
+    let cancelled = false
+    apiService.getRiskReport(score.address)
+      .then(report => {
+        if (cancelled) return
+        setRiskReport(report)
+        setRiskAlerts(report.monitoringAlerts.map(toRiskAlert))
       })
+      .catch(err => console.error('Failed to load risk report:', err))
 
-      setRiskAlerts(mockAlerts)
+    return () => {
+      cancelled = true
     }
   }, [score])
 
@@ -898,6 +927,7 @@ export default function ScoreDashboard({ addressOverride }: ScoreDashboardProps
             <InteractiveScoreBreakdown 
               breakdown={score.breakdown || {}}
               totalScore={score.score}
+              address={score.address}
             />
           )}
           
@@ -975,25 +1005,29 @@ export default function ScoreDashboard({ addressOverride }: ScoreDashboardProps
               />
               
               {/* Risk Mitigation Panel */}
-              {score.riskAssessment.recommendations && score.riskAssessment.recommendations.length > 0 && (
+              {riskReport && riskReport.mitigationRecommendations.length > 0 && (
                 <RiskMitigationPanel
-                  recommendations={score.riskAssessment.recommendations.map(rec => ({
-                    priority: rec.priority,
-                    category: rec.category as any,
-                    title: rec.title,
-                    description: rec.description,
-                    expectedScoreImpact: 25, // Mock value
-                    implementationDifficulty: 'MEDIUM' as const,
-                    timeToImpact: rec.timeframe as any,
-                    actionItems: rec.actionItems.map(item => ({
-                      description: item,
-                      type: 'TRANSACTION' as const,
-                      specificGuidance: item,
-                      riskLevel: 'LOW' as const
-                    })),
-                    successMetrics: [`Improve ${rec.category.toLowerCase()} score`],
-                    trackingEnabled: false
-                  }))}
+                  recommendations={riskReport.mitigationRecommendations
+                    .filter(rec => !dismissedRecommendations.has(rec.id))
+                    .map(rec => ({
+                      id: rec.id,
+                      priority: rec.priority,
+                      category: rec.category as any,
+                      title: rec.title,
+                      description: rec.description,
+                      expectedScoreImpact: rec.impactPrediction.expectedRiskReduction,
+                      implementationDifficulty: DIFFICULTY_BY_COMPLEXITY[rec.impactPrediction.implementationComplexity],
+                      timeToImpact: rec.timeframe,
+                      actionItems: rec.actionItems.map(item => ({
+                        description: item,
+                        type: 'TRANSACTION' as const,
+                        specificGuidance: item,
+                        riskLevel: 'LOW' as const
+                      })),
+                      successMetrics: rec.trackingMetrics,
+                      trackingEnabled: true,
+                      currentProgress: rec.currentProgress
+                    }))}
                   onRecommendationAction={handleRecommendationAction}
                 />
               )}
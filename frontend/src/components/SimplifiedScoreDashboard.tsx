@@ -7,6 +7,7 @@ import DataExportShare from './DataExportShare'
 import RiskAssessmentDashboard from './RiskAssessmentDashboard'
 import BehavioralInsightsDashboard from './BehavioralInsightsDashboard'
 import RecommendationsDashboard from './RecommendationsDashboard'
+import GasOptimizationPanel from './GasOptimizationPanel'
 
 interface ScoreDashboardProps {
   address: string
@@ -273,6 +274,7 @@ export default function SimplifiedScoreDashboard({ address, onAddressChange }: S
                 {score.behavioralInsights && (
                   <BehavioralInsightsDashboard 
                     behavioralInsights={score.behavioralInsights}
+                    address={score.address}
                   />
                 )}
 
@@ -296,14 +298,18 @@ export default function SimplifiedScoreDashboard({ address, onAddressChange }: S
               <InteractiveScoreBreakdown 
                 breakdown={score.breakdown || {}} 
                 totalScore={score.score} 
+                address={score.address}
               />
             )}
 
             {activeTab === 'recommendations' && (
-              <ActionableRecommendations 
-                recommendations={score.recommendations || []}
-                onRecommendationAction={() => {}}
-              />
+              <div className="space-y-6">
+                <ActionableRecommendations 
+                  address={score.address}
+                  recommendations={score.recommendations || []}
+                />
+                <GasOptimizationPanel address={score.address} />
+              </div>
             )}
 
             {activeTab === 'history' && (
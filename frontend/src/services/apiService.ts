@@ -133,6 +133,83 @@ interface PersonalizedRecommendation {
   successMetrics: string[]
   trackingEnabled: boolean
   currentProgress?: number
+  id?: string
+  impactCalibration?: ImpactPredictionCalibration
+}
+
+// How observed outcomes of a recommendation type scaled its predicted impact
+interface ImpactPredictionCalibration {
+  uncalibratedImpact: number
+  factor: number
+  sampleSize: number
+}
+
+type RecommendationStatus = 'OPEN' | 'IN_PROGRESS' | 'DONE' | 'DISMISSED'
+
+// Recommendation persisted per address, with its lifecycle status
+interface TrackedRecommendation {
+  id: number
+  key: string
+  status: RecommendationStatus
+  progress: number // 0-100
+  createdAt: number
+  updatedAt: number
+  completedAt: number | null
+  recommendation: PersonalizedRecommendation
+}
+
+interface RecommendationStatusChange {
+  key: string
+  title: string
+  from: RecommendationStatus | null // null for a new recommendation
+  to: RecommendationStatus
+}
+
+interface RecommendationSync {
+  address: string
+  recommendations: TrackedRecommendation[]
+  changes: RecommendationStatusChange[]
+}
+
+// Score change over the window after a recommendation was done, against its predicted impact
+interface RecommendationOutcome {
+  id: number
+  address: string
+  recommendationId: number
+  recommendationKey: string
+  predictedImpact: number
+  basePredictedImpact: number
+  completedAt: number
+  scoreAtCompletion: number
+  windowEndsAt: number
+  scoreAfter: number | null
+  actualImpact: number | null
+  resolvedAt: number | null
+}
+
+interface RecommendationOutcomes {
+  address: string
+  total: number
+  outcomes: RecommendationOutcome[]
+}
+
+interface ImpactCalibration {
+  recommendationKey: string
+  sampleSize: number
+  meanPredictedImpact: number
+  meanActualImpact: number
+  meanError: number // actual - predicted
+  meanAbsoluteError: number
+  factor: number
+}
+
+interface ImpactCalibrationReport {
+  generatedAt: number
+  windowDays: number
+  pendingOutcomes: number
+  resolvedOutcomes: number
+  meanAbsoluteError: number | null
+  calibrations: ImpactCalibration[]
 }
 
 interface BehavioralInsights {
@@ -146,6 +223,161 @@ interface BehavioralInsights {
   preferredProtocols: string[]
 }
 
+// Behavioral pattern analysis, recorded so changes and transitions can be tracked
+interface BehavioralSnapshot {
+  userArchetype: 'CONSERVATIVE' | 'MODERATE' | 'AGGRESSIVE' | 'SPECULATIVE'
+  sophisticationLevel: 'BEGINNER' | 'INTERMEDIATE' | 'ADVANCED' | 'EXPERT'
+  activityPattern: 'REGULAR' | 'SPORADIC' | 'INACTIVE' | 'HYPERACTIVE'
+  growthTrend: 'IMPROVING' | 'STABLE' | 'DECLINING'
+  diversificationLevel: 'LOW' | 'MEDIUM' | 'HIGH'
+  consistencyScore: number
+  gasEfficiency: number
+  preferredProtocols: string[]
+  seasonalPatterns: number
+  confidence: number
+}
+
+interface BehavioralChange {
+  field: keyof BehavioralSnapshot
+  previous: string | number
+  current: string | number
+  delta?: number
+  added?: string[]
+  removed?: string[]
+}
+
+interface BehavioralTransition {
+  field: 'userArchetype' | 'sophisticationLevel' | 'activityPattern' | 'growthTrend' | 'diversificationLevel'
+  from: string
+  to: string
+  timestamp: number
+}
+
+interface BehavioralAnalysis {
+  address: string
+  analysisId: number
+  insights: any
+  previousAnalysis: { analyzedAt: number, snapshot: BehavioralSnapshot } | null
+  changes: BehavioralChange[]
+}
+
+interface BehavioralHistory {
+  address: string
+  periods: {
+    id: number
+    snapshot: BehavioralSnapshot
+    firstDetected: number
+    lastUpdated: number
+    status: 'ACTIVE' | 'SUPERSEDED'
+  }[]
+  transitions: BehavioralTransition[]
+}
+
+// Protocol preference analysis; sections not requested are left out
+type ProtocolPreferenceSection = 'preferences' | 'diversification' | 'gas' | 'timing' | 'sophistication' | 'insights' | 'recommendations'
+
+interface GasOptimizationRecommendation {
+  type: 'GAS_PRICE' | 'TIMING' | 'PROTOCOL_CHOICE' | 'BATCH_TRANSACTIONS' | 'ALTERNATIVE_ROUTE'
+  priority: 'HIGH' | 'MEDIUM' | 'LOW'
+  title: string
+  description: string
+  expectedSavings: number // percentage
+  estimatedSavingsEth: number
+  implementationDifficulty: 'EASY' | 'MEDIUM' | 'HARD'
+  specificGuidance: string[]
+}
+
+interface GasOptimizationAnalysis {
+  overallEfficiencyScore: number
+  optimizationLevel: 'POOR' | 'AVERAGE' | 'GOOD' | 'EXCELLENT'
+  averageGasPrice: number // Gwei
+  totalGasCost: number // ETH
+  averageTransactionCost: number // ETH
+  costOptimizationPotential: number
+  estimatedSavings: number // ETH
+  protocolEfficiencyRankings: {
+    protocolName: string
+    efficiencyScore: number
+    averageGasUsed: number
+    averageGasPrice: number
+    transactionCount: number
+    ranking: number
+  }[]
+  optimizationRecommendations: GasOptimizationRecommendation[]
+}
+
+interface TimingWindow {
+  startHour: number
+  endHour: number
+  dayOfWeek?: number
+  averageGasPrice: number
+  networkCongestion: 'LOW' | 'MEDIUM' | 'HIGH'
+  recommendationLevel: 'OPTIMAL' | 'GOOD' | 'AVERAGE' | 'AVOID'
+  potentialSavings: number
+}
+
+interface ProtocolPreferenceReport {
+  address: string
+  sections: ProtocolPreferenceSection[]
+  analyzedAt: number
+  preferredProtocols?: any[]
+  protocolDiversification?: any
+  gasOptimizationAnalysis?: GasOptimizationAnalysis
+  transactionTimingAnalysis?: {
+    optimalTimingWindows: TimingWindow[]
+    currentTimingEfficiency: number
+    timingConsistency: number
+    [key: string]: any
+  }
+  protocolSophisticationAnalysis?: any
+  insights?: any
+  recommendations?: any[]
+  confidence: number
+  analysisTimestamp: number
+  dataQuality: any
+}
+
+type GrowthPeriodGranularity = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY'
+
+interface PeriodMetrics {
+  periodIndex: number
+  startTimestamp: number
+  endTimestamp: number
+  transactionCount: number
+  totalVolume: number
+  avgGasEfficiency: number
+  protocolDiversity: number
+  avgTransactionValue: number
+  stakingActivity: number // Ratio of staking transactions
+  defiActivity: number // Ratio of DeFi transactions
+}
+
+interface GrowthTrendAnalysis {
+  trend: 'IMPROVING' | 'STABLE' | 'DECLINING'
+  confidence: number // 0-100
+  evidence: string[]
+  trendStrength: number // 0-1
+  periodAnalysis: PeriodMetrics[]
+  keyMetrics: {
+    activityTrend: number
+    volumeTrend: number
+    efficiencyTrend: number
+    diversificationTrend: number
+  }
+  recommendations: string[]
+}
+
+interface GrowthTrendReport {
+  address: string
+  granularity: GrowthPeriodGranularity
+  from: number | null
+  to: number | null
+  transactionCount: number
+  growthTrend: GrowthTrendAnalysis
+  consistency: any
+  diversification: any
+}
+
 // Enhanced Benchmarking Data interfaces matching backend
 interface PercentileRanking {
   percentile: number // 0-100
@@ -365,6 +597,7 @@ interface CreditScore {
   score: number
   confidence: number
   timestamp: number
+  modelVersion?: string
   breakdown: BackendScoreBreakdown
   riskAssessment?: RiskAssessment
   behavioralInsights?: BehavioralInsights
@@ -372,6 +605,17 @@ interface CreditScore {
   benchmarking?: BenchmarkingData
   predictions?: PredictiveInsights
   cached?: boolean
+  anomalyFlag?: AnomalyFlag | null
+}
+
+// Latest anomaly detection result, flagged on the score rather than deducted from it
+interface AnomalyFlag {
+  detectionId?: number
+  overallAnomalyScore: number
+  confidence: number
+  requiresInvestigation: boolean
+  detectors: ('statistical' | 'wash_trading' | 'bot' | 'coordination')[]
+  detectedAt: number
 }
 
 interface ScoreHistoryEntry {
@@ -380,6 +624,175 @@ interface ScoreHistoryEntry {
   date: string
 }
 
+// What-if simulation: hypothetical changes to the address metrics
+interface ScoreSimulationDeltas {
+  additionalVolume?: number
+  additionalStaking?: number
+  additionalProtocols?: number | string[]
+  additionalTransactions?: number
+  elapsedDays?: number
+}
+
+interface ComponentDelta {
+  current: number
+  simulated: number
+  delta: number
+  weightedDelta: number
+}
+
+interface SimulatedScore {
+  creditScore: {
+    score: number
+    confidence: number
+    modelVersion: string
+  }
+  breakdown: BackendScoreBreakdown
+}
+
+interface ScoreSimulation {
+  address: string
+  modelVersion: string
+  deltas: ScoreSimulationDeltas
+  current: SimulatedScore
+  simulated: SimulatedScore
+  scoreDelta: number
+  componentDeltas: Record<string, ComponentDelta>
+}
+
+// Score explanation: each metric's signed contribution versus a reference wallet
+interface FeatureContribution {
+  feature: string
+  label: string
+  component: string
+  value: string | number
+  referenceValue: string | number
+  contribution: number
+}
+
+interface ScoreExplanation {
+  address: string
+  modelVersion: string
+  method: 'shapley'
+  score: number
+  reference: {
+    name: string
+    description: string
+    score: number
+  }
+  totalContribution: number
+  contributions: FeatureContribution[]
+}
+
+// Risk monitoring: alerts raised when recorded assessments change or breach a threshold
+interface RiskMonitoringAlert {
+  id: number
+  address: string
+  alertType: 'RISK_INCREASE' | 'RISK_DECREASE' | 'NEW_RISK_FACTOR' | 'RISK_THRESHOLD_BREACH'
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+  title: string
+  description: string
+  currentRiskLevel: string
+  previousRiskLevel?: string
+  riskScore: number
+  previousRiskScore?: number
+  triggeredFactors: string[]
+  recommendations: string[]
+  timestamp: number
+  acknowledged: boolean
+}
+
+interface RiskAlertsResponse {
+  address: string
+  total: number
+  unacknowledged: number
+  alerts: RiskMonitoringAlert[]
+}
+
+interface RiskTrend {
+  address: string
+  timeframe: 'DAILY' | 'WEEKLY' | 'MONTHLY'
+  dataPoints: {
+    timestamp: number
+    riskScore: number
+    riskLevel: string
+    primaryRiskFactors: string[]
+  }[]
+  trend: 'INCREASING' | 'STABLE' | 'DECREASING'
+  trendStrength: number
+  averageRiskScore: number
+  volatility: number
+  projectedRisk: number
+}
+
+interface RiskThreshold {
+  id?: number
+  address?: string
+  riskFactor: string
+  thresholdType: 'SCORE' | 'LEVEL' | 'CHANGE_RATE'
+  thresholdValue: number
+  alertSeverity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+  enabled: boolean
+  lastTriggered?: number
+}
+
+interface RiskThresholdsResponse {
+  address: string
+  thresholds: RiskThreshold[]
+  riskFactors: string[]
+}
+
+interface EnhancedRiskMitigationRecommendation extends RiskMitigationRecommendation {
+  id: string
+  currentProgress?: number
+  riskFactorTargeted: string[]
+  confidenceScore: number
+  impactPrediction: {
+    expectedRiskReduction: number
+    timeToImpact: 'IMMEDIATE' | 'SHORT_TERM' | 'MEDIUM_TERM' | 'LONG_TERM'
+    implementationComplexity: 'LOW' | 'MEDIUM' | 'HIGH'
+  }
+  trackingMetrics: string[]
+  prerequisites: string[]
+  alternativeActions: string[]
+}
+
+interface RiskMitigationProgress {
+  recommendationId: string
+  address: string
+  startDate: number
+  currentProgress: number
+  milestones: {
+    name: string
+    completed: boolean
+    completedDate?: number
+    impact: string
+  }[]
+  measuredImpact: {
+    riskScoreChange: number
+    specificImprovements: string[]
+  }
+}
+
+interface ComprehensiveRiskReport {
+  address: string
+  timestamp: number
+  riskAssessment: RiskAssessment
+  anomalyDetection: any
+  mitigationRecommendations: EnhancedRiskMitigationRecommendation[]
+  riskFactorExplanations: any[]
+  riskTrend: RiskTrend
+  monitoringAlerts: RiskMonitoringAlert[]
+  overallConfidence: number
+  dataQuality: {
+    completeness: number
+    freshness: number
+    accuracy: number
+  }
+  priorityActions: string[]
+  quickWins: string[]
+  longTermStrategy: string[]
+}
+
 interface ApiResponse<T> {
   success: boolean
   data?: T
@@ -393,6 +806,37 @@ interface ScoreHistoryResponse {
   history: ScoreHistoryEntry[]
 }
 
+// Score reconstructed by replaying transaction history up to a past block or date
+interface HistoricalScore {
+  address: string
+  score: number
+  confidence: number
+  modelVersion: string
+  breakdown: {
+    transactionVolume: number
+    transactionFrequency: number
+    stakingActivity: number
+    defiInteractions: number
+    lendingHistory: number
+  }
+  asOf: number
+  date: string
+  blockNumber: number | null
+  transactionsReplayed: number
+}
+
+type BackfillInterval = 'MONTHLY' | 'WEEKLY'
+
+interface BackfillResult {
+  address: string
+  interval: BackfillInterval | 'BLOCKS'
+  checkpoints: number
+  written: number
+  skipped: number
+  firstCheckpoint: number | null
+  lastCheckpoint: number | null
+}
+
 class ApiService {
   private baseUrl = '/api'
 
@@ -461,6 +905,188 @@ class ApiService {
     return this.handleResponse<ScoreHistoryResponse>(response)
   }
 
+  // A number is a block, a string an ISO 8601 date
+  async getScoreAt(address: string, blockOrDate: number | string): Promise<HistoricalScore> {
+    const response = await fetch(`${this.baseUrl}/score/${address}/at/${encodeURIComponent(blockOrDate)}`)
+    return this.handleResponse<HistoricalScore>(response)
+  }
+
+  async backfillScoreHistory(address: string, interval?: BackfillInterval, blockInterval?: number): Promise<BackfillResult> {
+    const response = await fetch(`${this.baseUrl}/score/${address}/backfill`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ interval: interval?.toLowerCase(), blockInterval })
+    })
+    return this.handleResponse<BackfillResult>(response)
+  }
+
+  async simulateScore(address: string, deltas: ScoreSimulationDeltas): Promise<ScoreSimulation> {
+    const response = await fetch(`${this.baseUrl}/score/${address}/simulate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(deltas)
+    })
+    return this.handleResponse<ScoreSimulation>(response)
+  }
+
+  async explainScore(address: string, reference?: 'typical' | 'empty'): Promise<ScoreExplanation> {
+    const url = reference
+      ? `${this.baseUrl}/score/${address}/explain?reference=${reference}`
+      : `${this.baseUrl}/score/${address}/explain`
+
+    const response = await fetch(url)
+    return this.handleResponse<ScoreExplanation>(response)
+  }
+
+  async analyzeBehavior(address: string): Promise<BehavioralAnalysis> {
+    const response = await fetch(`${this.baseUrl}/behavior/${address}`)
+    return this.handleResponse<BehavioralAnalysis>(response)
+  }
+
+  async getBehaviorHistory(address: string, limit?: number): Promise<BehavioralHistory> {
+    const url = limit
+      ? `${this.baseUrl}/behavior/${address}/history?limit=${limit}`
+      : `${this.baseUrl}/behavior/${address}/history`
+
+    const response = await fetch(url)
+    return this.handleResponse<BehavioralHistory>(response)
+  }
+
+  async getProtocolPreferences(address: string, sections?: ProtocolPreferenceSection[]): Promise<ProtocolPreferenceReport> {
+    const url = sections && sections.length > 0
+      ? `${this.baseUrl}/protocol-preferences/${address}?sections=${sections.join(',')}`
+      : `${this.baseUrl}/protocol-preferences/${address}`
+
+    const response = await fetch(url)
+    return this.handleResponse<ProtocolPreferenceReport>(response)
+  }
+
+  async getGrowthTrend(address: string, granularity?: GrowthPeriodGranularity, from?: number, to?: number): Promise<GrowthTrendReport> {
+    const params = new URLSearchParams()
+    if (granularity) params.append('granularity', granularity.toLowerCase())
+    if (from !== undefined) params.append('from', from.toString())
+    if (to !== undefined) params.append('to', to.toString())
+
+    const query = params.toString()
+    const response = await fetch(`${this.baseUrl}/growth-trend/${address}${query ? `?${query}` : ''}`)
+    return this.handleResponse<GrowthTrendReport>(response)
+  }
+
+  async getRecommendations(address: string, statuses?: RecommendationStatus[]): Promise<RecommendationSync> {
+    const url = statuses && statuses.length > 0
+      ? `${this.baseUrl}/recommendations/${address}?status=${statuses.join(',')}`
+      : `${this.baseUrl}/recommendations/${address}`
+
+    const response = await fetch(url)
+    return this.handleResponse<RecommendationSync>(response)
+  }
+
+  async updateRecommendationStatus(address: string, key: string, status: RecommendationStatus): Promise<TrackedRecommendation> {
+    const response = await fetch(`${this.baseUrl}/recommendations/${address}/${key}/status`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ status })
+    })
+    return this.handleResponse<TrackedRecommendation>(response)
+  }
+
+  async getRecommendationOutcomes(address: string): Promise<RecommendationOutcomes> {
+    const response = await fetch(`${this.baseUrl}/recommendations/${address}/outcomes`)
+    return this.handleResponse<RecommendationOutcomes>(response)
+  }
+
+  async getRecommendationCalibration(): Promise<ImpactCalibrationReport> {
+    const response = await fetch(`${this.baseUrl}/recommendation-calibration`)
+    return this.handleResponse<ImpactCalibrationReport>(response)
+  }
+
+  async getRiskReport(address: string): Promise<ComprehensiveRiskReport> {
+    const response = await fetch(`${this.baseUrl}/risk/${address}/report`)
+    return this.handleResponse<ComprehensiveRiskReport>(response)
+  }
+
+  async getRiskTrend(address: string, timeframe?: 'DAILY' | 'WEEKLY' | 'MONTHLY'): Promise<RiskTrend> {
+    const url = timeframe
+      ? `${this.baseUrl}/risk/${address}/trend?timeframe=${timeframe}`
+      : `${this.baseUrl}/risk/${address}/trend`
+
+    const response = await fetch(url)
+    return this.handleResponse<RiskTrend>(response)
+  }
+
+  async getRiskAlerts(address: string, acknowledged?: boolean): Promise<RiskAlertsResponse> {
+    const url = acknowledged !== undefined
+      ? `${this.baseUrl}/risk/${address}/alerts?acknowledged=${acknowledged}`
+      : `${this.baseUrl}/risk/${address}/alerts`
+
+    const response = await fetch(url)
+    return this.handleResponse<RiskAlertsResponse>(response)
+  }
+
+  async acknowledgeRiskAlert(address: string, alertId: number): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/risk/${address}/alerts/${alertId}/acknowledge`, {
+      method: 'POST'
+    })
+    await this.handleResponse<any>(response)
+  }
+
+  async getRiskThresholds(address: string): Promise<RiskThresholdsResponse> {
+    const response = await fetch(`${this.baseUrl}/risk/${address}/thresholds`)
+    return this.handleResponse<RiskThresholdsResponse>(response)
+  }
+
+  async createRiskThreshold(address: string, threshold: Omit<RiskThreshold, 'id' | 'address' | 'lastTriggered'>): Promise<RiskThreshold> {
+    const response = await fetch(`${this.baseUrl}/risk/${address}/thresholds`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(threshold)
+    })
+    return this.handleResponse<RiskThreshold>(response)
+  }
+
+  async updateRiskThreshold(address: string, thresholdId: number, updates: Partial<RiskThreshold>): Promise<RiskThreshold> {
+    const response = await fetch(`${this.baseUrl}/risk/${address}/thresholds/${thresholdId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(updates)
+    })
+    return this.handleResponse<RiskThreshold>(response)
+  }
+
+  async deleteRiskThreshold(address: string, thresholdId: number): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/risk/${address}/thresholds/${thresholdId}`, {
+      method: 'DELETE'
+    })
+    await this.handleResponse<any>(response)
+  }
+
+  async getMitigationProgress(address: string): Promise<RiskMitigationProgress[]> {
+    const response = await fetch(`${this.baseUrl}/risk/${address}/mitigation`)
+    const data = await this.handleResponse<{ recommendations: RiskMitigationProgress[] }>(response)
+    return data.recommendations
+  }
+
+  async trackMitigationProgress(address: string, recommendationId: string, progress: number, milestone?: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/risk/${address}/mitigation/${recommendationId}/progress`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ progress, milestone })
+    })
+    await this.handleResponse<any>(response)
+  }
+
   async getBatchScores(addresses: string[]): Promise<any> {
     const response = await fetch(`${this.baseUrl}/score/batch`, {
       method: 'POST',
@@ -478,13 +1104,53 @@ export type {
   CreditScore, 
   ScoreHistoryEntry, 
   ScoreHistoryResponse,
+  HistoricalScore,
+  BackfillInterval,
+  BackfillResult,
+  ScoreSimulationDeltas,
+  ScoreSimulation,
+  ComponentDelta,
+  FeatureContribution,
+  ScoreExplanation,
+  AnomalyFlag,
+  RiskMonitoringAlert,
+  RiskAlertsResponse,
+  RiskTrend,
+  RiskThreshold,
+  RiskThresholdsResponse,
+  EnhancedRiskMitigationRecommendation,
+  RiskMitigationProgress,
+  ComprehensiveRiskReport,
   ComponentScore,
   EnhancedScoreBreakdown,
   RiskAssessment,
   RiskFactor,
   RiskMitigationRecommendation,
   PersonalizedRecommendation,
+  ImpactPredictionCalibration,
+  RecommendationStatus,
+  TrackedRecommendation,
+  RecommendationStatusChange,
+  RecommendationSync,
+  RecommendationOutcome,
+  RecommendationOutcomes,
+  ImpactCalibration,
+  ImpactCalibrationReport,
   BehavioralInsights,
+  BehavioralSnapshot,
+  BehavioralChange,
+  BehavioralTransition,
+  BehavioralAnalysis,
+  BehavioralHistory,
+  ProtocolPreferenceSection,
+  GasOptimizationRecommendation,
+  GasOptimizationAnalysis,
+  TimingWindow,
+  ProtocolPreferenceReport,
+  GrowthPeriodGranularity,
+  PeriodMetrics,
+  GrowthTrendAnalysis,
+  GrowthTrendReport,
   BenchmarkingData,
   PercentileRankings,
   PercentileRanking,